@@ -0,0 +1,136 @@
+/**
+ * CLI commands for interacting with Confluence attachments
+ */
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
+import atlassianAttachmentsController from '../controllers/atlassian.attachments.controller.js';
+import { DEFAULT_PAGE_SIZE } from '../utils/defaults.util.js';
+
+// Create logger for this CLI module
+const logger = Logger.forContext('cli/atlassian.attachments.cli.ts');
+
+/**
+ * Register attachment-related commands with the CLI
+ *
+ * @param program - Commander program to register commands with
+ */
+function register(program: Command): void {
+	// Register the command to list attachments of a page
+	program
+		.command('ls-attachments')
+		.description(
+			'List attachments of a Confluence page, with filtering and pagination.',
+		)
+		.requiredOption(
+			'-p, --page-id <pageId>',
+			'The numeric ID of the Confluence page whose attachments to list.',
+		)
+		.option(
+			'-m, --media-type <mediaType>',
+			'Only list attachments with this media type (e.g., "application/pdf").',
+		)
+		.option(
+			'-n, --filename <filename>',
+			'Only list the attachment with this exact file name.',
+		)
+		.option(
+			'-l, --limit <limit>',
+			'Maximum number of attachments to return (1-100).',
+			(val) => parseInt(val, 10),
+			DEFAULT_PAGE_SIZE,
+		)
+		.option(
+			'-c, --cursor <cursor>',
+			'Pagination cursor for retrieving the next set of results.',
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('ls-attachments');
+
+			try {
+				methodLogger.debug('CLI ls-attachments', options);
+
+				const result = await atlassianAttachmentsController.list({
+					pageId: options.pageId,
+					mediaType: options.mediaType,
+					filename: options.filename,
+					limit: options.limit,
+					cursor: options.cursor,
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to get an attachment
+	program
+		.command('get-attachment')
+		.description(
+			'Get a Confluence attachment, including the text content of text-like files.',
+		)
+		.requiredOption(
+			'-i, --attachment-id <attachmentId>',
+			'The ID of the attachment to retrieve (e.g., "att123456").',
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('get-attachment');
+
+			try {
+				methodLogger.debug('CLI get-attachment', options);
+
+				const result = await atlassianAttachmentsController.get({
+					attachmentId: options.attachmentId,
+				});
+
+				// Image data is only useful to MCP clients; the content includes the download link
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to upload a file as an attachment
+	program
+		.command('upload-attachment')
+		.description(
+			'Upload a local file as an attachment to a Confluence page.',
+		)
+		.requiredOption(
+			'-p, --page-id <pageId>',
+			'The numeric ID of the Confluence page to attach the file to.',
+		)
+		.requiredOption(
+			'-f, --file <path>',
+			'Path of the local file to upload.',
+		)
+		.option(
+			'-n, --file-name <fileName>',
+			'File name to use in Confluence. Defaults to the name of the local file.',
+		)
+		.option('-m, --comment <comment>', 'Comment describing the attachment.')
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('upload-attachment');
+
+			try {
+				methodLogger.debug('CLI upload-attachment', options);
+
+				const result = await atlassianAttachmentsController.uploadFile({
+					pageId: options.pageId,
+					filePath: options.file,
+					fileName: options.fileName,
+					comment: options.comment,
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	logger.debug('Registered Confluence attachments CLI commands');
+}
+
+export default { register };
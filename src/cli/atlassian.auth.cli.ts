@@ -0,0 +1,102 @@
+/**
+ * CLI commands for OAuth 2.0 (3LO) authentication
+ */
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { isCliJsonOutput, printCliResult } from '../utils/output.util.js';
+import atlassianAuthController from '../controllers/atlassian.auth.controller.js';
+
+// Create logger for this CLI module
+const logger = Logger.forContext('cli/atlassian.auth.cli.ts');
+
+/**
+ * Register authentication commands with the CLI
+ *
+ * @param program - Commander program to register commands with
+ */
+function register(program: Command): void {
+	const auth = program
+		.command('auth')
+		.description(
+			'Log in to Confluence Cloud with OAuth 2.0 instead of an API token.',
+		);
+
+	// Register the command to log in
+	auth.command('login')
+		.description(
+			'Authorize this tool in the browser and store the OAuth tokens under ~/.mcp. Requires ATLASSIAN_OAUTH_CLIENT_ID and ATLASSIAN_OAUTH_CLIENT_SECRET.',
+		)
+		.option(
+			'-t, --timeout <seconds>',
+			'How long to wait for the browser callback, in seconds.',
+			(val) => parseInt(val, 10),
+			300,
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('login');
+
+			try {
+				methodLogger.debug('CLI auth login', options);
+
+				if (isNaN(options.timeout) || options.timeout < 1) {
+					throw new Error(
+						'Timeout must be a positive number of seconds.',
+					);
+				}
+
+				const result = await atlassianAuthController.login({
+					timeoutMs: options.timeout * 1000,
+					onAuthorizationUrl: (url) => {
+						// Keep stdout for the result when printing JSON
+						const print = isCliJsonOutput()
+							? console.error
+							: console.log;
+						print(
+							'Open this URL in your browser to authorize access to Confluence:\n',
+						);
+						print(`${url}\n`);
+						print('Waiting for the authorization callback...');
+					},
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to log out
+	auth.command('logout')
+		.description('Delete the stored OAuth tokens.')
+		.action(async () => {
+			const methodLogger = logger.forMethod('logout');
+
+			try {
+				methodLogger.debug('CLI auth logout');
+				const result = await atlassianAuthController.logout();
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to show the login status
+	auth.command('status')
+		.description('Show the site and expiry of the stored OAuth tokens.')
+		.action(async () => {
+			const methodLogger = logger.forMethod('status');
+
+			try {
+				methodLogger.debug('CLI auth status');
+				const result = await atlassianAuthController.status();
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	logger.debug('Registered authentication CLI commands');
+}
+
+export default { register };
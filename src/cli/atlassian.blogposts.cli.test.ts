@@ -0,0 +1,113 @@
+import { CliTestUtil } from '../utils/cli.test.util.js';
+import {
+	getAtlassianCredentials,
+	hasAtlassianAuthCredentials,
+} from '../utils/transport.util.js';
+import { config } from '../utils/config.util.js';
+
+describe('Atlassian Confluence Blog Posts CLI Commands', () => {
+	// Load configuration and check for credentials before all tests
+	beforeAll(() => {
+		config.load();
+
+		const credentials = getAtlassianCredentials();
+		if (!hasAtlassianAuthCredentials(credentials)) {
+			console.warn(
+				'Skipping Atlassian Confluence Blog Posts CLI tests: No authenticated credentials available',
+			);
+		}
+	});
+
+	// Helper function to skip tests when credentials are missing
+	const skipIfNoCredentials = () =>
+		!hasAtlassianAuthCredentials(getAtlassianCredentials());
+
+	describe('ls-blogposts command', () => {
+		it('should list blog posts', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'ls-blogposts',
+				'--limit',
+				'2',
+			]);
+
+			expect(result.exitCode).toBe(0);
+			CliTestUtil.validateMarkdownOutput(result.stdout);
+		}, 30000);
+
+		it('should filter blog posts by creation date', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'ls-blogposts',
+				'--created-after',
+				'2020-01-01',
+				'--limit',
+				'2',
+			]);
+
+			expect(result.exitCode).toBe(0);
+			CliTestUtil.validateMarkdownOutput(result.stdout);
+		}, 30000);
+
+		it('should reject invalid dates', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'ls-blogposts',
+				'--created-after',
+				'last week',
+			]);
+
+			expect(result.exitCode).not.toBe(0);
+			expect(result.stderr).toContain('YYYY-MM-DD');
+		}, 15000);
+	});
+
+	describe('get-blogpost command', () => {
+		it('should retrieve a blog post', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const listResult = await CliTestUtil.runCommand([
+				'ls-blogposts',
+				'--limit',
+				'1',
+			]);
+			const idMatch = listResult.stdout.match(/\*\*ID\*\*:\s+(\d+)/);
+			if (!idMatch) {
+				console.warn('Skipping test: No blog posts available');
+				return;
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'get-blogpost',
+				'--blogpost-id',
+				idMatch[1],
+			]);
+
+			expect(result.exitCode).toBe(0);
+			expect(result.stdout).toContain('Confluence Blog Post:');
+			expect(result.stdout).toContain('## Content');
+		}, 30000);
+
+		it('should fail when blog post ID is not provided', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const result = await CliTestUtil.runCommand(['get-blogpost']);
+
+			expect(result.exitCode).not.toBe(0);
+			expect(result.stderr).toContain('required option');
+		}, 15000);
+	});
+});
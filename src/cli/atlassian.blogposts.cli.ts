@@ -0,0 +1,125 @@
+/**
+ * CLI commands for interacting with Confluence blog posts
+ */
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
+import atlassianBlogPostsController from '../controllers/atlassian.blogposts.controller.js';
+import { DEFAULT_PAGE_SIZE } from '../utils/defaults.util.js';
+
+// Create logger for this CLI module
+const logger = Logger.forContext('cli/atlassian.blogposts.cli.ts');
+
+/**
+ * Pattern for dates accepted by the date range filters
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Register blog post-related commands with the CLI
+ *
+ * @param program - Commander program to register commands with
+ */
+function register(program: Command): void {
+	// Register the command to list blog posts
+	program
+		.command('ls-blogposts')
+		.description(
+			'List Confluence blog posts, newest first, with filtering by space, title, author and date.',
+		)
+		.option(
+			'-k, --space-key <spaceKey>',
+			'Key of the space to list blog posts from.',
+		)
+		.option('-t, --title <title>', 'Filter blog posts by title.')
+		.option(
+			'-a, --author-id <accountId>',
+			'Only list blog posts created by this Atlassian account ID.',
+		)
+		.option(
+			'--created-after <date>',
+			'Only list blog posts created on or after this date (YYYY-MM-DD).',
+		)
+		.option(
+			'--created-before <date>',
+			'Only list blog posts created before this date (YYYY-MM-DD).',
+		)
+		.option(
+			'-s, --sort <sort>',
+			'Sort order: id, -id, created-date, -created-date, modified-date, -modified-date.',
+		)
+		.option(
+			'-l, --limit <limit>',
+			'Maximum number of blog posts to return (1-100).',
+			(val) => parseInt(val, 10),
+			DEFAULT_PAGE_SIZE,
+		)
+		.option(
+			'-c, --cursor <cursor>',
+			'Pagination cursor for retrieving the next set of results.',
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('ls-blogposts');
+
+			try {
+				methodLogger.debug('CLI ls-blogposts', options);
+
+				for (const date of [
+					options.createdAfter,
+					options.createdBefore,
+				]) {
+					if (date !== undefined && !DATE_PATTERN.test(date)) {
+						throw new Error(
+							'Dates must use the YYYY-MM-DD format.',
+						);
+					}
+				}
+
+				const result = await atlassianBlogPostsController.list({
+					spaceKey: options.spaceKey,
+					title: options.title,
+					authorId: options.authorId,
+					createdAfter: options.createdAfter,
+					createdBefore: options.createdBefore,
+					sort: options.sort,
+					limit: options.limit,
+					cursor: options.cursor,
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to get a blog post
+	program
+		.command('get-blogpost')
+		.description(
+			'Get a Confluence blog post with its content in Markdown format.',
+		)
+		.requiredOption(
+			'-b, --blogpost-id <blogPostId>',
+			'The numeric ID of the blog post to retrieve.',
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('get-blogpost');
+
+			try {
+				methodLogger.debug('CLI get-blogpost', options);
+
+				const result = await atlassianBlogPostsController.get({
+					blogPostId: options.blogpostId,
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	logger.debug('Registered Confluence blog posts CLI commands');
+}
+
+export default { register };
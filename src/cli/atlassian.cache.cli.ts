@@ -0,0 +1,44 @@
+/**
+ * CLI commands for the response cache
+ */
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
+import atlassianCacheController from '../controllers/atlassian.cache.controller.js';
+
+// Create logger for this CLI module
+const logger = Logger.forContext('cli/atlassian.cache.cli.ts');
+
+/**
+ * Register cache commands with the CLI
+ *
+ * @param program - Commander program to register commands with
+ */
+function register(program: Command): void {
+	const cache = program
+		.command('cache')
+		.description('Manage the cache of Confluence API responses.');
+
+	// Register the command to clear the cache
+	cache
+		.command('clear')
+		.description(
+			'Delete all cached responses, including the on-disk cache under ~/.mcp/data/cache.',
+		)
+		.action(async () => {
+			const methodLogger = logger.forMethod('clear');
+
+			try {
+				methodLogger.debug('CLI cache clear');
+				const result = await atlassianCacheController.clear();
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	logger.debug('Registered cache CLI commands');
+}
+
+export default { register };
@@ -4,6 +4,8 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
+import { MAX_ITEMS_CEILING } from '../utils/pagination.util.js';
 import { atlassianCommentsController } from '../controllers/atlassian.comments.controller.js';
 import { DEFAULT_PAGE_SIZE } from '../utils/defaults.util.js';
 
@@ -38,24 +40,163 @@ function register(program: Command): void {
 			(val) => parseInt(val, 10),
 			0,
 		)
+		.option(
+			'--max-items <number>',
+			'Fetch pages of results until this many comments are collected (1-1000), instead of printing a single page. --limit then sets the page size of each request.',
+			(val) => parseInt(val, 10),
+		)
 		.action(async (options) => {
 			const methodLogger = logger.forMethod('ls-page-comments');
 
 			try {
 				methodLogger.debug('CLI ls-page-comments', options);
 
+				// Validate max items if provided
+				if (
+					options.maxItems !== undefined &&
+					(isNaN(options.maxItems) ||
+						options.maxItems < 1 ||
+						options.maxItems > MAX_ITEMS_CEILING)
+				) {
+					throw new Error(
+						`Invalid --max-items value: Must be an integer between 1 and ${MAX_ITEMS_CEILING}.`,
+					);
+				}
+
 				// Call the controller
 				const result =
 					await atlassianCommentsController.listPageComments({
 						pageId: options.pageId,
 						limit: options.limit,
 						start: options.start,
+						maxItems: options.maxItems,
 						// Use the default format (ADF) for best results
 						bodyFormat: 'atlas_doc_format',
 					});
 
 				// Output the content (which now includes pagination information)
-				console.log(result.content);
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to add a comment to a page
+	program
+		.command('add-page-comment')
+		.description(
+			'Add a page-level comment (or a reply to a comment) to a Confluence page.',
+		)
+		.requiredOption(
+			'-p, --page-id <pageId>',
+			'The numeric ID of the Confluence page to comment on.',
+		)
+		.requiredOption(
+			'-b, --body <markdown>',
+			'The comment content in Markdown format.',
+		)
+		.option(
+			'-r, --parent-comment-id <commentId>',
+			'ID of an existing comment to reply to.',
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('add-page-comment');
+
+			try {
+				methodLogger.debug('CLI add-page-comment', options);
+
+				const result = await atlassianCommentsController.addPageComment(
+					{
+						pageId: options.pageId,
+						body: options.body,
+						parentCommentId: options.parentCommentId,
+					},
+				);
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to add an inline comment to a page
+	program
+		.command('add-inline-comment')
+		.description(
+			'Add an inline comment anchored to a text selection on a Confluence page.',
+		)
+		.requiredOption(
+			'-p, --page-id <pageId>',
+			'The numeric ID of the Confluence page to comment on.',
+		)
+		.requiredOption(
+			'-s, --text-selection <text>',
+			'The exact page text to attach the comment to (case-sensitive).',
+		)
+		.requiredOption(
+			'-b, --body <markdown>',
+			'The comment content in Markdown format.',
+		)
+		.option(
+			'-i, --match-index <index>',
+			'Zero-based occurrence of the text selection to use when it appears more than once on the page.',
+			(val) => parseInt(val, 10),
+			0,
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('add-inline-comment');
+
+			try {
+				methodLogger.debug('CLI add-inline-comment', options);
+
+				const result =
+					await atlassianCommentsController.addInlineComment({
+						pageId: options.pageId,
+						textSelection: options.textSelection,
+						body: options.body,
+						matchIndex: options.matchIndex,
+					});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to resolve or reopen an inline comment
+	program
+		.command('resolve-inline-comment')
+		.description(
+			'Resolve (or reopen) an inline comment thread, optionally adding a closing reply.',
+		)
+		.requiredOption(
+			'-i, --comment-id <commentId>',
+			'The ID of the inline comment to resolve or reopen.',
+		)
+		.option(
+			'--reopen',
+			'Reopen the comment thread instead of resolving it.',
+		)
+		.option(
+			'-r, --reply <markdown>',
+			'Reply to add to the thread (in Markdown) before changing its state.',
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('resolve-inline-comment');
+
+			try {
+				methodLogger.debug('CLI resolve-inline-comment', options);
+
+				const result =
+					await atlassianCommentsController.setInlineCommentResolution(
+						{
+							commentId: options.commentId,
+							resolved: !options.reopen,
+							reply: options.reply,
+						},
+					);
+
+				printCliResult(result);
 			} catch (error) {
 				handleCliError(error);
 			}
@@ -0,0 +1,153 @@
+/**
+ * CLI commands for interacting with Confluence labels
+ */
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
+import atlassianLabelsController from '../controllers/atlassian.labels.controller.js';
+import { DEFAULT_PAGE_SIZE } from '../utils/defaults.util.js';
+
+// Create logger for this CLI module
+const logger = Logger.forContext('cli/atlassian.labels.cli.ts');
+
+/**
+ * Parse a comma-separated list of label names
+ */
+function parseLabels(value: string): string[] {
+	return value
+		.split(',')
+		.map((label) => label.trim())
+		.filter((label) => label.length > 0);
+}
+
+/**
+ * Register label-related commands with the CLI
+ *
+ * @param program - Commander program to register commands with
+ */
+function register(program: Command): void {
+	// Register the command to list labels
+	program
+		.command('ls-labels')
+		.description(
+			'List labels of a page, blog post or space, or across the whole site.',
+		)
+		.option(
+			'-i, --content-id <contentId>',
+			'ID of the page or blog post whose labels to list.',
+		)
+		.option(
+			'-t, --content-type <type>',
+			'Type of the content identified by --content-id: page or blogpost.',
+			'page',
+		)
+		.option(
+			'-k, --space-key <spaceKey>',
+			'Key of the space whose labels to list.',
+		)
+		.option(
+			'--prefix <prefix>',
+			'Only list labels with this prefix: global, my, team or system.',
+		)
+		.option(
+			'-l, --limit <limit>',
+			'Maximum number of labels to return (1-100).',
+			(val) => parseInt(val, 10),
+			DEFAULT_PAGE_SIZE,
+		)
+		.option(
+			'-c, --cursor <cursor>',
+			'Pagination cursor for retrieving the next set of results.',
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('ls-labels');
+
+			try {
+				methodLogger.debug('CLI ls-labels', options);
+
+				if (!['page', 'blogpost'].includes(options.contentType)) {
+					throw new Error(
+						'Invalid --content-type value. Must be one of: page, blogpost',
+					);
+				}
+
+				const result = await atlassianLabelsController.list({
+					contentId: options.contentId,
+					contentType: options.contentType,
+					spaceKey: options.spaceKey,
+					prefix: options.prefix,
+					limit: options.limit,
+					cursor: options.cursor,
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to add labels
+	program
+		.command('add-labels')
+		.description('Add labels to a Confluence page or blog post.')
+		.requiredOption(
+			'-i, --content-id <contentId>',
+			'ID of the page or blog post to label.',
+		)
+		.requiredOption(
+			'-L, --labels <labels>',
+			'Comma-separated labels to add (e.g., "runbook,on-call").',
+			parseLabels,
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('add-labels');
+
+			try {
+				methodLogger.debug('CLI add-labels', options);
+
+				const result = await atlassianLabelsController.add({
+					contentId: options.contentId,
+					labels: options.labels,
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	// Register the command to remove labels
+	program
+		.command('remove-labels')
+		.description('Remove labels from a Confluence page or blog post.')
+		.requiredOption(
+			'-i, --content-id <contentId>',
+			'ID of the page or blog post to remove labels from.',
+		)
+		.requiredOption(
+			'-L, --labels <labels>',
+			'Comma-separated labels to remove (e.g., "draft").',
+			parseLabels,
+		)
+		.action(async (options) => {
+			const methodLogger = logger.forMethod('remove-labels');
+
+			try {
+				methodLogger.debug('CLI remove-labels', options);
+
+				const result = await atlassianLabelsController.remove({
+					contentId: options.contentId,
+					labels: options.labels,
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	logger.debug('Registered Confluence labels CLI commands');
+}
+
+export default { register };
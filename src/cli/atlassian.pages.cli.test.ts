@@ -364,4 +364,135 @@ describe('Atlassian Confluence Pages CLI Commands', () => {
 			expect(result.stdout).toMatch(/^#\s.+/m);
 		}, 30000);
 	});
+
+	describe('get-page-tree command', () => {
+		it('should show the descendants of a page', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const pageInfo = await getPageIdAndSpaceKey();
+			if (!pageInfo) {
+				return; // Skip if no valid page ID found
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'get-page-tree',
+				'--page-id',
+				pageInfo.pageId,
+				'--depth',
+				'1',
+			]);
+
+			expect(result.exitCode).toBe(0);
+			expect(result.stdout).toContain('Page Tree:');
+			expect(result.stdout).toContain(pageInfo.pageId);
+		}, 60000);
+
+		it('should show the ancestors of a page', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const pageInfo = await getPageIdAndSpaceKey();
+			if (!pageInfo) {
+				return; // Skip if no valid page ID found
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'get-page-tree',
+				'--page-id',
+				pageInfo.pageId,
+				'--ancestors',
+			]);
+
+			expect(result.exitCode).toBe(0);
+			expect(result.stdout).toContain('Page Ancestors:');
+		}, 30000);
+
+		it('should reject an out-of-range depth', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'get-page-tree',
+				'--page-id',
+				'123',
+				'--depth',
+				'9',
+			]);
+
+			expect(result.exitCode).not.toBe(0);
+			expect(result.stderr).toContain('error');
+		}, 15000);
+	});
+
+	describe('ls-page-versions command', () => {
+		it('should list the versions of a page', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const pageInfo = await getPageIdAndSpaceKey();
+			if (!pageInfo) {
+				return; // Skip if no valid page ID found
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'ls-page-versions',
+				'--page-id',
+				pageInfo.pageId,
+				'--limit',
+				'5',
+			]);
+
+			expect(result.exitCode).toBe(0);
+			expect(result.stdout).toContain('Page Versions:');
+			expect(result.stdout).toMatch(/\*\*v\d+\*\*/);
+		}, 30000);
+	});
+
+	describe('diff-page-versions command', () => {
+		it('should reject a fromVersion that is not lower than toVersion', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const pageInfo = await getPageIdAndSpaceKey();
+			if (!pageInfo) {
+				return; // Skip if no valid page ID found
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'diff-page-versions',
+				'--page-id',
+				pageInfo.pageId,
+				'--from-version',
+				'2',
+				'--to-version',
+				'1',
+			]);
+
+			expect(result.exitCode).not.toBe(0);
+			expect(result.stderr).toContain('error');
+		}, 30000);
+
+		it('should reject non-numeric versions', async () => {
+			if (skipIfNoCredentials()) {
+				return;
+			}
+
+			const result = await CliTestUtil.runCommand([
+				'diff-page-versions',
+				'--page-id',
+				'123',
+				'--from-version',
+				'abc',
+			]);
+
+			expect(result.exitCode).not.toBe(0);
+			expect(result.stderr).toContain('error');
+		}, 15000);
+	});
 });
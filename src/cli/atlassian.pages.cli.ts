@@ -1,12 +1,16 @@
 import { Command } from 'commander';
+import { readFile } from 'fs/promises';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
+import { MAX_ITEMS_CEILING } from '../utils/pagination.util.js';
 import atlassianPagesController from '../controllers/atlassian.pages.controller.js';
 import { ListPagesToolArgsType } from '../tools/atlassian.pages.types.js';
 
 /**
  * CLI module for managing Confluence pages.
- * Provides commands for listing pages and retrieving page details.
+ * Provides commands for listing, retrieving, creating, updating and patching pages,
+ * for navigating the page hierarchy and for comparing page versions.
  * All commands require valid Atlassian credentials.
  */
 
@@ -24,6 +28,12 @@ function register(program: Command): void {
 
 	registerListPagesCommand(program);
 	registerGetPageCommand(program);
+	registerCreatePageCommand(program);
+	registerUpdatePageCommand(program);
+	registerPatchPageCommand(program);
+	registerGetPageTreeCommand(program);
+	registerListPageVersionsCommand(program);
+	registerDiffPageVersionsCommand(program);
 
 	cliLogger.debug('CLI commands registered successfully');
 }
@@ -47,6 +57,11 @@ function registerListPagesCommand(program: Command): void {
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results. Obtain this opaque string from the pagination information included at the end of the previous response. Confluence uses cursor-based pagination rather than offset-based pagination.',
 		)
+		.option(
+			'--max-items <number>',
+			'Fetch pages of results until this many pages are collected (1-1000), instead of printing a single page. --limit then sets the page size of each request.',
+			(val) => parseInt(val, 10),
+		)
 		.option(
 			'-t, --title <text>',
 			'Filter pages by title. IMPORTANT: This performs an EXACT match on the page title, not a partial or contains match. For partial title matching or full-text content search, use the `search` command instead.',
@@ -80,6 +95,18 @@ function registerListPagesCommand(program: Command): void {
 			try {
 				actionLogger.debug('Processing command options:', options);
 
+				// Validate max items if provided
+				if (
+					options.maxItems !== undefined &&
+					(isNaN(options.maxItems) ||
+						options.maxItems < 1 ||
+						options.maxItems > MAX_ITEMS_CEILING)
+				) {
+					throw new Error(
+						`Invalid --max-items value: Must be an integer between 1 and ${MAX_ITEMS_CEILING}.`,
+					);
+				}
+
 				// Create filter options for controller
 				const filterOptions: ListPagesToolArgsType = {
 					// Map directly to spaceIds (plural)
@@ -92,6 +119,9 @@ function registerListPagesCommand(program: Command): void {
 					}),
 					...(options.cursor && { cursor: options.cursor }),
 					...(options.title && { title: options.title }),
+					...(options.maxItems !== undefined && {
+						maxItems: options.maxItems,
+					}),
 					...(options.sort && { sort: options.sort }),
 					...(options.parentId && { parentId: options.parentId }),
 				};
@@ -107,7 +137,7 @@ function registerListPagesCommand(program: Command): void {
 				actionLogger.debug('Successfully retrieved pages');
 
 				// Print the main content (which now includes pagination information)
-				console.log(result.content);
+				printCliResult(result);
 			} catch (error) {
 				actionLogger.error('Operation failed:', error);
 				handleCliError(error);
@@ -149,8 +179,416 @@ function registerGetPageCommand(program: Command): void {
 				});
 
 				// Print the main content
-				console.log(result.content);
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for creating a Confluence page from Markdown
+ * @param program - The Commander program instance
+ */
+function registerCreatePageCommand(program: Command): void {
+	program
+		.command('create-page')
+		.description(
+			'Create a Confluence page from Markdown content (converted to ADF).',
+		)
+		.option(
+			'-k, --space-key <key>',
+			'Key of the space to create the page in (e.g., "DEV"). Use either this or --space-id.',
+		)
+		.option(
+			'-S, --space-id <id>',
+			'Numeric ID of the space to create the page in. Use either this or --space-key.',
+		)
+		.option(
+			'-p, --parent-id <id>',
+			'Optional ID of the parent page. If omitted, the page is created at the root of the space.',
+		)
+		.requiredOption('-t, --title <text>', 'Title of the new page.')
+		.option('-b, --body <markdown>', 'Page content in Markdown format.')
+		.option(
+			'-f, --body-file <path>',
+			'Path to a Markdown file to use as the page content. Use either this or --body.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pages.cli.ts',
+				'create-page',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				if (!options.spaceKey && !options.spaceId) {
+					throw new Error(
+						'Either --space-key or --space-id must be provided.',
+					);
+				}
+
+				if (!options.body && !options.bodyFile) {
+					throw new Error(
+						'Either --body or --body-file must be provided.',
+					);
+				}
+
+				const body: string = options.bodyFile
+					? await readFile(options.bodyFile, 'utf8')
+					: options.body;
+
+				const result = await atlassianPagesController.create({
+					...(options.spaceKey && { spaceKey: options.spaceKey }),
+					...(options.spaceId && { spaceId: options.spaceId }),
+					...(options.parentId && { parentId: options.parentId }),
+					title: options.title,
+					body,
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for updating a Confluence page
+ * @param program - The Commander program instance
+ */
+function registerUpdatePageCommand(program: Command): void {
+	program
+		.command('update-page')
+		.description(
+			'Update the title and/or Markdown content of a Confluence page, guarded by its current version number.',
+		)
+		.requiredOption(
+			'-p, --page-id <id>',
+			'The numeric ID of the Confluence page to update.',
+		)
+		.requiredOption(
+			'-v, --page-version <number>',
+			'The current version number of the page (shown by get-page). The update is rejected if the page has been edited since this version.',
+		)
+		.option('-t, --title <text>', 'New title for the page.')
+		.option(
+			'-b, --body <markdown>',
+			'New page content in Markdown format. Replaces the entire body.',
+		)
+		.option(
+			'-f, --body-file <path>',
+			'Path to a Markdown file to use as the new page content. Use either this or --body.',
+		)
+		.option(
+			'-m, --message <text>',
+			'Optional message describing the change, shown in the page history.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pages.cli.ts',
+				'update-page',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				if (!options.pageId.match(/^\d+$/)) {
+					throw new Error('Page ID must be numeric.');
+				}
+
+				const version = parseInt(options.pageVersion, 10);
+				if (isNaN(version) || version < 1) {
+					throw new Error('Version must be a positive integer.');
+				}
+
+				const body: string | undefined = options.bodyFile
+					? await readFile(options.bodyFile, 'utf8')
+					: options.body;
+
+				const result = await atlassianPagesController.update({
+					pageId: options.pageId,
+					version,
+					...(options.title && { title: options.title }),
+					...(body !== undefined && { body }),
+					...(options.message && { versionMessage: options.message }),
+				});
+
+				printCliResult(result);
 			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for patching a single section of a Confluence page
+ * @param program - The Commander program instance
+ */
+function registerPatchPageCommand(program: Command): void {
+	program
+		.command('patch-page')
+		.description(
+			'Append, replace or insert Markdown content relative to a heading of a Confluence page, leaving the rest of the page untouched.',
+		)
+		.requiredOption(
+			'-p, --page-id <id>',
+			'The numeric ID of the Confluence page to patch.',
+		)
+		.requiredOption(
+			'-v, --page-version <number>',
+			'The current version number of the page (shown by get-page). The patch is rejected if the page has been edited since this version.',
+		)
+		.requiredOption(
+			'-o, --operation <operation>',
+			'Patch operation: "append" (end of section, or end of page without --heading), "replace" (content under the heading) or "insertAfter" (directly after the heading).',
+		)
+		.option(
+			'-H, --heading <text>',
+			'Heading that identifies the target section (case-insensitive). Prefix with "#" markers to also match the level. Required for "replace" and "insertAfter".',
+		)
+		.option('-c, --content <markdown>', 'Markdown content to insert.')
+		.option(
+			'-f, --content-file <path>',
+			'Path to a Markdown file with the content to insert. Use either this or --content.',
+		)
+		.option(
+			'-m, --message <text>',
+			'Optional message describing the change, shown in the page history.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pages.cli.ts',
+				'patch-page',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				if (!options.pageId.match(/^\d+$/)) {
+					throw new Error('Page ID must be numeric.');
+				}
+
+				const version = parseInt(options.pageVersion, 10);
+				if (isNaN(version) || version < 1) {
+					throw new Error('Version must be a positive integer.');
+				}
+
+				if (
+					!['append', 'replace', 'insertAfter'].includes(
+						options.operation,
+					)
+				) {
+					throw new Error(
+						'Operation must be one of: append, replace, insertAfter.',
+					);
+				}
+
+				if (options.content === undefined && !options.contentFile) {
+					throw new Error(
+						'Either --content or --content-file must be provided.',
+					);
+				}
+
+				const content: string = options.contentFile
+					? await readFile(options.contentFile, 'utf8')
+					: options.content;
+
+				const result = await atlassianPagesController.patch({
+					pageId: options.pageId,
+					version,
+					operation: options.operation,
+					...(options.heading && { heading: options.heading }),
+					content,
+					...(options.message && { versionMessage: options.message }),
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for showing the page hierarchy around a page or space
+ * @param program - The Commander program instance
+ */
+function registerGetPageTreeCommand(program: Command): void {
+	program
+		.command('get-page-tree')
+		.description(
+			'Show the page hierarchy below a Confluence page or space as an indented outline, or the breadcrumb of ancestors above a page.',
+		)
+		.option(
+			'-p, --page-id <id>',
+			'The numeric ID of the page to start from. Required with --ancestors.',
+		)
+		.option(
+			'-k, --space-key <key>',
+			'Key of the space whose whole page tree to show (e.g., "DEV").',
+		)
+		.option(
+			'-a, --ancestors',
+			'Show the ancestors (breadcrumb) of the page instead of its descendants.',
+		)
+		.option(
+			'-d, --depth <depth>',
+			'Number of levels to show below the page or space root (1-4). Defaults to 2.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pages.cli.ts',
+				'get-page-tree',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				if (options.pageId && !options.pageId.match(/^\d+$/)) {
+					throw new Error('Page ID must be numeric.');
+				}
+
+				let depth: number | undefined;
+				if (options.depth !== undefined) {
+					depth = parseInt(options.depth, 10);
+					if (isNaN(depth) || depth < 1 || depth > 4) {
+						throw new Error(
+							'Depth must be a number between 1 and 4.',
+						);
+					}
+				}
+
+				const result = await atlassianPagesController.getTree({
+					...(options.pageId && { pageId: options.pageId }),
+					...(options.spaceKey && { spaceKey: options.spaceKey }),
+					mode: options.ancestors ? 'ancestors' : 'descendants',
+					...(depth !== undefined && { depth }),
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for listing the version history of a page
+ * @param program - The Commander program instance
+ */
+function registerListPageVersionsCommand(program: Command): void {
+	program
+		.command('ls-page-versions')
+		.description(
+			'List the version history of a Confluence page (number, date, author and message), most recent first.',
+		)
+		.requiredOption(
+			'-p, --page-id <id>',
+			'The numeric ID of the Confluence page.',
+		)
+		.option(
+			'-l, --limit <number>',
+			'Maximum number of versions to return (1-250).',
+		)
+		.option(
+			'-c, --cursor <string>',
+			'Pagination cursor for retrieving the next set of results.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pages.cli.ts',
+				'ls-page-versions',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				if (!options.pageId.match(/^\d+$/)) {
+					throw new Error('Page ID must be numeric.');
+				}
+
+				let limit: number | undefined;
+				if (options.limit !== undefined) {
+					limit = parseInt(options.limit, 10);
+					if (isNaN(limit) || limit < 1 || limit > 250) {
+						throw new Error(
+							'Limit must be a number between 1 and 250.',
+						);
+					}
+				}
+
+				const result = await atlassianPagesController.listVersions({
+					pageId: options.pageId,
+					...(limit !== undefined && { limit }),
+					...(options.cursor && { cursor: options.cursor }),
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
+				handleCliError(error);
+			}
+		});
+}
+
+/**
+ * Register the command for comparing two versions of a page
+ * @param program - The Commander program instance
+ */
+function registerDiffPageVersionsCommand(program: Command): void {
+	program
+		.command('diff-page-versions')
+		.description(
+			'Show what changed between two versions of a Confluence page as a unified Markdown diff. Compares the current version with the previous one by default.',
+		)
+		.requiredOption(
+			'-p, --page-id <id>',
+			'The numeric ID of the Confluence page.',
+		)
+		.option(
+			'-f, --from-version <number>',
+			'The older version number. Defaults to the version before --to-version.',
+		)
+		.option(
+			'-t, --to-version <number>',
+			'The newer version number. Defaults to the current version.',
+		)
+		.action(async (options) => {
+			const actionLogger = Logger.forContext(
+				'cli/atlassian.pages.cli.ts',
+				'diff-page-versions',
+			);
+			try {
+				actionLogger.debug('Processing command options:', options);
+
+				if (!options.pageId.match(/^\d+$/)) {
+					throw new Error('Page ID must be numeric.');
+				}
+
+				const parseVersion = (value: string | undefined) => {
+					if (value === undefined) {
+						return undefined;
+					}
+					const version = parseInt(value, 10);
+					if (isNaN(version) || version < 1) {
+						throw new Error('Version must be a positive number.');
+					}
+					return version;
+				};
+
+				const fromVersion = parseVersion(options.fromVersion);
+				const toVersion = parseVersion(options.toVersion);
+
+				const result = await atlassianPagesController.diffVersions({
+					pageId: options.pageId,
+					...(fromVersion !== undefined && { fromVersion }),
+					...(toVersion !== undefined && { toVersion }),
+				});
+
+				printCliResult(result);
+			} catch (error) {
+				actionLogger.error('Operation failed:', error);
 				handleCliError(error);
 			}
 		});
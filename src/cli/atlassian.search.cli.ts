@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
 import atlassianSearchController from '../controllers/atlassian.search.controller.js';
 import { SearchToolArgsType } from '../tools/atlassian.search.types.js';
 
@@ -39,13 +40,16 @@ function registerSearchCommand(program: Command): void {
 		)
 		.option(
 			'-l, --limit <number>',
-			'Maximum number of items to return (1-100). Use this to control the response size. Useful for pagination or when you only need a few results. The Confluence search API caps results at 100 items per request.',
-			'25',
+			'Maximum number of items to return (1-100). Use this to control the response size. Useful for pagination or when you only need a few results. The Confluence search API caps results at 100 items per request. Defaults to 25, or 100 per request with --all.',
 		)
 		.option(
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results. Use this to navigate through large result sets. Obtain this opaque string from the pagination information included at the end of the previous response. Confluence uses cursor-based pagination rather than offset-based pagination.',
 		)
+		.option(
+			'-a, --all',
+			'Follow the pagination and print all matching results, up to 1000. --limit then sets the page size of each request (100 if omitted).',
+		)
 		.option(
 			'-q, --cql <cql>',
 			'Full CQL query for advanced filtering. If provided, this forms the base of the search and other filter options (--title, --space-key, etc.) will be ANDed with it. Example: `space = "DOCS" AND label = "release-notes"`.',
@@ -106,6 +110,7 @@ function registerSearchCommand(program: Command): void {
 						limit: parseInt(options.limit, 10),
 					}),
 					...(options.cursor && { cursor: options.cursor }),
+					...(options.all && { fetchAll: true }),
 					...(options.query && { query: options.query }),
 				};
 
@@ -120,7 +125,7 @@ function registerSearchCommand(program: Command): void {
 				actionLogger.debug('Successfully received search results');
 
 				// Print the main content (which now includes executed CQL and pagination information)
-				console.log(result.content);
+				printCliResult(result);
 			} catch (error) {
 				actionLogger.error('Operation failed:', error);
 				handleCliError(error);
@@ -0,0 +1,40 @@
+/**
+ * CLI commands for configured Confluence site profiles
+ */
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
+import atlassianSitesController from '../controllers/atlassian.sites.controller.js';
+
+// Create logger for this CLI module
+const logger = Logger.forContext('cli/atlassian.sites.cli.ts');
+
+/**
+ * Register site-related commands with the CLI
+ *
+ * @param program - Commander program to register commands with
+ */
+function register(program: Command): void {
+	// Register the command to list configured sites
+	program
+		.command('ls-sites')
+		.description(
+			'List the configured Confluence sites. Use --site with any command to pick one.',
+		)
+		.action(async () => {
+			const methodLogger = logger.forMethod('ls-sites');
+
+			try {
+				methodLogger.debug('CLI ls-sites');
+				const result = await atlassianSitesController.list();
+				printCliResult(result);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	logger.debug('Registered Confluence sites CLI commands');
+}
+
+export default { register };
@@ -1,6 +1,8 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
+import { MAX_ITEMS_CEILING } from '../utils/pagination.util.js';
 import atlassianSpacesController from '../controllers/atlassian.spaces.controller.js';
 import { ListSpacesToolArgsType } from '../tools/atlassian.spaces.types.js';
 
@@ -47,6 +49,11 @@ function registerListSpacesCommand(program: Command): void {
 			'-c, --cursor <string>',
 			'Pagination cursor for retrieving the next set of results. Use this to navigate through large result sets. The cursor value can be obtained from the pagination information in a previous response.',
 		)
+		.option(
+			'--max-items <number>',
+			'Fetch pages of results until this many spaces are collected (1-1000), instead of printing a single page. --limit then sets the page size of each request.',
+			(val) => parseInt(val, 10),
+		)
 		.option(
 			'-t, --type <type>',
 			'Filter spaces by type. Options include: "global" (team spaces), "personal" (user spaces), or "archived" (archived spaces). If omitted, returns all types.',
@@ -95,6 +102,18 @@ function registerListSpacesCommand(program: Command): void {
 					}
 				}
 
+				// Validate max items if provided
+				if (
+					options.maxItems !== undefined &&
+					(isNaN(options.maxItems) ||
+						options.maxItems < 1 ||
+						options.maxItems > MAX_ITEMS_CEILING)
+				) {
+					throw new Error(
+						`Invalid --max-items value: Must be an integer between 1 and ${MAX_ITEMS_CEILING}.`,
+					);
+				}
+
 				const filterOptions: ListSpacesToolArgsType = {
 					...(options.type && {
 						type: options.type as
@@ -108,6 +127,9 @@ function registerListSpacesCommand(program: Command): void {
 					...(options.limit && {
 						limit: parseInt(options.limit, 10),
 					}),
+					...(options.maxItems !== undefined && {
+						maxItems: options.maxItems,
+					}),
 					...(options.cursor && { cursor: options.cursor }),
 				};
 
@@ -122,7 +144,7 @@ function registerListSpacesCommand(program: Command): void {
 				actionLogger.debug('Successfully retrieved spaces');
 
 				// Print the main content (which now includes pagination information)
-				console.log(result.content);
+				printCliResult(result);
 			} catch (error) {
 				actionLogger.error('Operation failed:', error);
 				handleCliError(error);
@@ -166,7 +188,7 @@ function registerGetSpaceCommand(program: Command): void {
 				});
 
 				// Print the main content (already includes all information)
-				console.log(result.content);
+				printCliResult(result);
 			} catch (error) {
 				handleCliError(error);
 			}
@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
+import { printCliResult } from '../utils/output.util.js';
 import atlassianUniversalSearchController from '../controllers/atlassian.universal-search.controller.js';
 import { UniversalSearchToolArgsType } from '../tools/atlassian.universal-search.types.js';
 
@@ -95,7 +96,7 @@ function register(program: Command): void {
 						searchOptions,
 					);
 
-				console.log(result.content);
+				printCliResult(result);
 			} catch (error) {
 				actionLogger.error('Universal search failed:', error);
 				handleCliError(error);
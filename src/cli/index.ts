@@ -1,12 +1,21 @@
 import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { VERSION, CLI_NAME } from '../utils/constants.util.js';
+import { config } from '../utils/config.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { setCliOutputFormat } from '../utils/output.util.js';
 
 import atlassianSpacesCli from './atlassian.spaces.cli.js';
 import atlassianPagesCli from './atlassian.pages.cli.js';
+import atlassianBlogPostsCli from './atlassian.blogposts.cli.js';
 import atlassianSearchCli from './atlassian.search.cli.js';
 import atlassianCommentsCli from './atlassian.comments.cli.js';
+import atlassianAttachmentsCli from './atlassian.attachments.cli.js';
+import atlassianLabelsCli from './atlassian.labels.cli.js';
 import atlassianUniversalSearchCli from './atlassian.universal-search.cli.js';
+import atlassianAuthCli from './atlassian.auth.cli.js';
+import atlassianSitesCli from './atlassian.sites.cli.js';
+import atlassianCacheCli from './atlassian.cache.cli.js';
 
 // Package description
 const DESCRIPTION =
@@ -21,13 +30,37 @@ export async function runCli(args: string[]) {
 	const program = new Command();
 	program.name(CLI_NAME).description(DESCRIPTION).version(VERSION);
 
+	// Every command can target one of the configured site profiles
+	program.option(
+		'--site <name>',
+		'Name of the configured Confluence site to use (see ls-sites). Defaults to the default site.',
+	);
+	program.option(
+		'--json',
+		'Print the normalized result data as JSON instead of Markdown',
+	);
+	program.hook('preAction', () => {
+		setCliOutputFormat(Boolean(program.opts().json));
+		try {
+			config.useSite(program.opts().site);
+		} catch (error) {
+			handleCliError(error);
+		}
+	});
+
 	// Register CLI commands
 	cliLogger.debug('Registering CLI commands...');
 	atlassianSpacesCli.register(program);
 	atlassianPagesCli.register(program);
+	atlassianBlogPostsCli.register(program);
 	atlassianSearchCli.register(program);
 	atlassianUniversalSearchCli.register(program);
 	atlassianCommentsCli.register(program);
+	atlassianAttachmentsCli.register(program);
+	atlassianLabelsCli.register(program);
+	atlassianAuthCli.register(program);
+	atlassianSitesCli.register(program);
+	atlassianCacheCli.register(program);
 	cliLogger.debug('All CLI commands registered successfully');
 
 	// Handle unknown commands
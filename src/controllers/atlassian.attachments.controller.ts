@@ -0,0 +1,452 @@
+import { readFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import { StringDecoder } from 'string_decoder';
+import { Logger } from '../utils/logger.util.js';
+import { createApiError } from '../utils/error.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
+import atlassianAttachmentsService from '../services/vendor.atlassian.attachments.service.js';
+import { AttachmentSchemaType } from '../services/vendor.atlassian.attachments.types.js';
+import {
+	AttachmentContentSummary,
+	formatAttachmentDetails,
+	formatAttachmentsList,
+	formatUploadedAttachment,
+	toAttachmentData,
+} from './atlassian.attachments.formatter.js';
+import {
+	ListAttachmentsToolArgsType,
+	GetAttachmentToolArgsType,
+	UploadAttachmentToolArgsType,
+} from '../tools/atlassian.attachments.types.js';
+import { DEFAULT_PAGE_SIZE } from '../utils/defaults.util.js';
+import {
+	extractPaginationInfo,
+	PaginationType,
+} from '../utils/pagination.util.js';
+import { formatPagination } from '../utils/formatter.util.js';
+
+/**
+ * Controller for managing Confluence attachments.
+ * Provides functionality for listing, reading and uploading page attachments.
+ */
+
+/**
+ * Maximum number of characters of extracted text returned for an attachment
+ */
+const MAX_TEXT_LENGTH = 100_000;
+
+/**
+ * Bytes of a text attachment downloaded at most: enough for MAX_TEXT_LENGTH
+ * characters of any UTF-8 text
+ */
+const MAX_TEXT_BYTES = MAX_TEXT_LENGTH * 4;
+
+/**
+ * Maximum size of an image returned inline as base64
+ */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Image types that MCP clients can render from base64 image content
+ */
+const INLINE_IMAGE_TYPES = [
+	'image/png',
+	'image/jpeg',
+	'image/gif',
+	'image/webp',
+];
+
+/**
+ * Text-like file extensions and the code block language used to show them
+ */
+const TEXT_EXTENSIONS: Record<string, string> = {
+	'.txt': '',
+	'.md': 'markdown',
+	'.markdown': 'markdown',
+	'.csv': 'csv',
+	'.json': 'json',
+	'.xml': 'xml',
+	'.drawio': 'xml',
+};
+
+/**
+ * Media types sent when uploading files, keyed by extension
+ */
+const UPLOAD_MEDIA_TYPES: Record<string, string> = {
+	'.txt': 'text/plain',
+	'.md': 'text/markdown',
+	'.csv': 'text/csv',
+	'.json': 'application/json',
+	'.xml': 'application/xml',
+	'.drawio': 'application/vnd.jgraph.mxfile',
+	'.pdf': 'application/pdf',
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.webp': 'image/webp',
+	'.svg': 'image/svg+xml',
+	'.zip': 'application/zip',
+};
+
+/**
+ * Controller response for a single attachment, optionally carrying image data
+ */
+export interface AttachmentControllerResponse
+	extends ControllerResponse<OutputData<'getAttachment'>> {
+	image?: {
+		data: string;
+		mimeType: string;
+	};
+}
+
+/**
+ * Determine the code block language for a text-like attachment
+ *
+ * @param attachment - Attachment metadata
+ * @returns The language identifier, or undefined if the attachment is not text-like
+ */
+function getTextLanguage(attachment: AttachmentSchemaType): string | undefined {
+	const extension = extname(attachment.title).toLowerCase();
+	if (extension in TEXT_EXTENSIONS) {
+		return TEXT_EXTENSIONS[extension];
+	}
+
+	const mediaType = (attachment.mediaType || '').toLowerCase();
+	if (mediaType.startsWith('text/')) {
+		return mediaType === 'text/csv' ? 'csv' : '';
+	}
+	if (mediaType === 'application/json' || mediaType.endsWith('+json')) {
+		return 'json';
+	}
+	if (mediaType === 'application/xml' || mediaType.endsWith('+xml')) {
+		return 'xml';
+	}
+	return undefined;
+}
+
+/**
+ * Decode the start of a UTF-8 text file, keeping whole characters only
+ *
+ * @param content - The downloaded bytes
+ * @param cut - Whether the download stopped before the end of the file
+ * @returns The text, at most MAX_TEXT_LENGTH characters, and whether it is incomplete
+ */
+function decodeTextPrefix(
+	content: Buffer,
+	cut: boolean,
+): { text: string; truncated: boolean } {
+	// The decoder holds back a character split by the end of the download
+	const decoded = new StringDecoder('utf8').write(content);
+	if (decoded.length <= MAX_TEXT_LENGTH) {
+		return { text: decoded, truncated: cut };
+	}
+
+	let text = decoded.slice(0, MAX_TEXT_LENGTH);
+	// Do not split a surrogate pair
+	if (/[\uD800-\uDBFF]$/.test(text)) {
+		text = text.slice(0, -1);
+	}
+	return { text, truncated: true };
+}
+
+/**
+ * List attachments of a Confluence page
+ * @param options - Options for listing attachments
+ * @param options.pageId - ID of the page
+ * @param options.mediaType - Optional media type filter
+ * @param options.filename - Optional file name filter
+ * @param options.limit - Maximum number of attachments to return
+ * @param options.cursor - Pagination cursor for subsequent requests
+ * @returns Promise with formatted attachments list content including pagination information
+ * @throws Error if attachment listing fails
+ */
+async function list(
+	options: ListAttachmentsToolArgsType,
+): Promise<ControllerResponse<OutputData<'listAttachments'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.attachments.controller.ts',
+		'list',
+	);
+	methodLogger.debug('Listing Confluence attachments with options:', options);
+
+	try {
+		const attachmentsData = await atlassianAttachmentsService.list({
+			contentId: options.pageId,
+			mediaType: options.mediaType,
+			filename: options.filename,
+			limit: options.limit ?? DEFAULT_PAGE_SIZE,
+			cursor: options.cursor,
+			sort: '-modified-date',
+		});
+
+		methodLogger.debug(
+			`Retrieved ${attachmentsData.results.length} attachments. Has more: ${attachmentsData._links?.next ? 'yes' : 'no'}`,
+		);
+
+		const pagination = extractPaginationInfo(
+			attachmentsData,
+			PaginationType.CURSOR,
+			'Attachment',
+		);
+
+		let finalContent = formatAttachmentsList(
+			attachmentsData,
+			options.pageId,
+		);
+
+		if (
+			pagination &&
+			(pagination.hasMore || pagination.count !== undefined)
+		) {
+			finalContent += '\n\n' + formatPagination(pagination);
+		}
+
+		return {
+			content: finalContent,
+			data: {
+				pageId: options.pageId,
+				attachments: attachmentsData.results.map((attachment) =>
+					toAttachmentData(attachment, attachmentsData._links?.base),
+				),
+				...(pagination && { pagination }),
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Attachments',
+			entityId: options.pageId,
+			operation: 'listing',
+			source: 'controllers/atlassian.attachments.controller.ts@list',
+		});
+	}
+}
+
+/**
+ * Get a Confluence attachment with its content.
+ * Text-like files (txt, md, csv, json, xml, drawio) are returned as extracted text,
+ * supported images as base64 image data. Other types return metadata only.
+ * @param args - Object containing the ID of the attachment to retrieve
+ * @param args.attachmentId - The ID of the attachment
+ * @returns Promise with formatted attachment details and optional image data
+ * @throws Error if attachment retrieval fails
+ */
+async function get(
+	args: GetAttachmentToolArgsType,
+): Promise<AttachmentControllerResponse> {
+	const { attachmentId } = args;
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.attachments.controller.ts',
+		'get',
+	);
+	methodLogger.debug(
+		`Getting Confluence attachment with ID: ${attachmentId}`,
+	);
+
+	try {
+		const attachment = await atlassianAttachmentsService.get(attachmentId);
+		const attachmentData = toAttachmentData(attachment);
+		const mediaType = (attachment.mediaType || '').toLowerCase();
+
+		const language = getTextLanguage(attachment);
+		if (language !== undefined) {
+			// Only the start of a large file is shown, so only the start is downloaded
+			const content = await atlassianAttachmentsService.download(
+				attachment,
+				MAX_TEXT_BYTES,
+			);
+			const cut =
+				content.length >= MAX_TEXT_BYTES &&
+				(attachment.fileSize ?? Infinity) > content.length;
+			const summary: AttachmentContentSummary = {
+				...decodeTextPrefix(content, cut),
+				language,
+			};
+			return {
+				content: formatAttachmentDetails(attachment, summary),
+				data: {
+					attachment: attachmentData,
+					text: summary.text,
+					truncated: summary.truncated,
+				},
+			};
+		}
+
+		if (INLINE_IMAGE_TYPES.includes(mediaType)) {
+			if ((attachment.fileSize ?? 0) > MAX_IMAGE_BYTES) {
+				const note = `Image is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB and is not included. Use the download link instead.`;
+				return {
+					content: formatAttachmentDetails(attachment, { note }),
+					data: { attachment: attachmentData, note },
+				};
+			}
+
+			const content =
+				await atlassianAttachmentsService.download(attachment);
+			const note = 'Image content is included as image data.';
+			return {
+				content: formatAttachmentDetails(attachment, { note }),
+				data: { attachment: attachmentData, note },
+				image: {
+					data: content.toString('base64'),
+					mimeType: mediaType,
+				},
+			};
+		}
+
+		const note = `Content extraction is not supported for ${attachment.mediaType || 'this file type'}. Use the download link instead.`;
+		return {
+			content: formatAttachmentDetails(attachment, { note }),
+			data: { attachment: attachmentData, note },
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Attachment',
+			entityId: attachmentId,
+			operation: 'retrieving',
+			source: 'controllers/atlassian.attachments.controller.ts@get',
+		});
+	}
+}
+
+/**
+ * Base64 as accepted for uploads, ignoring line breaks
+ */
+const BASE64_PATTERN =
+	/^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/**
+ * Arguments for uploading a local file, which only the CLI accepts
+ */
+interface UploadFileArgs {
+	pageId: string;
+	filePath: string;
+	fileName?: string;
+	comment?: string;
+}
+
+/**
+ * Upload content as an attachment and format the result
+ */
+async function uploadContent(
+	pageId: string,
+	fileName: string,
+	content: Buffer,
+	comment?: string,
+): Promise<ControllerResponse<OutputData<'uploadAttachment'>>> {
+	const attachment = await atlassianAttachmentsService.upload({
+		pageId,
+		fileName,
+		content,
+		mediaType: UPLOAD_MEDIA_TYPES[extname(fileName).toLowerCase()],
+		comment,
+	});
+
+	return {
+		content: formatUploadedAttachment(attachment),
+		data: { attachment: toAttachmentData(attachment) },
+	};
+}
+
+/**
+ * Upload base64-encoded content as an attachment to a Confluence page
+ * @param args - Upload options
+ * @param args.pageId - ID of the page to attach the file to
+ * @param args.fileName - File name to use in Confluence
+ * @param args.content - The file content, base64-encoded
+ * @param args.comment - Optional attachment comment
+ * @returns Promise with formatted upload result
+ * @throws Error if the content is not valid base64 or the upload fails
+ */
+async function upload(
+	args: UploadAttachmentToolArgsType,
+): Promise<ControllerResponse<OutputData<'uploadAttachment'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.attachments.controller.ts',
+		'upload',
+	);
+	methodLogger.debug(`Uploading ${args.fileName} to page ID: ${args.pageId}`);
+
+	try {
+		const encoded = args.content.replace(/\s+/g, '');
+		if (!encoded || !BASE64_PATTERN.test(encoded)) {
+			throw createApiError(
+				'The attachment content must be base64-encoded.',
+				400,
+			);
+		}
+
+		const result = await uploadContent(
+			args.pageId,
+			args.fileName,
+			Buffer.from(encoded, 'base64'),
+			args.comment,
+		);
+		methodLogger.debug(`Uploaded attachment ${result.data.attachment.id}`);
+		return result;
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Attachment',
+			entityId: args.pageId,
+			operation: 'uploading',
+			source: 'controllers/atlassian.attachments.controller.ts@upload',
+			additionalInfo: { fileName: args.fileName },
+		});
+	}
+}
+
+/**
+ * Upload a local file as an attachment to a Confluence page. Only the CLI
+ * uploads local files; MCP clients send the content instead, so that they
+ * cannot read files on the machine running the server.
+ * @param args - Upload options
+ * @param args.pageId - ID of the page to attach the file to
+ * @param args.filePath - Path of the local file to upload
+ * @param args.fileName - Optional file name to use in Confluence
+ * @param args.comment - Optional attachment comment
+ * @returns Promise with formatted upload result
+ * @throws Error if the file cannot be read or the upload fails
+ */
+async function uploadFile(
+	args: UploadFileArgs,
+): Promise<ControllerResponse<OutputData<'uploadAttachment'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.attachments.controller.ts',
+		'uploadFile',
+	);
+	methodLogger.debug(`Uploading ${args.filePath} to page ID: ${args.pageId}`);
+
+	try {
+		let content: Buffer;
+		try {
+			content = await readFile(args.filePath);
+		} catch (readError) {
+			throw createApiError(
+				`Unable to read file "${args.filePath}": ${readError instanceof Error ? readError.message : String(readError)}`,
+				400,
+				readError,
+			);
+		}
+
+		const result = await uploadContent(
+			args.pageId,
+			args.fileName || basename(args.filePath),
+			content,
+			args.comment,
+		);
+		methodLogger.debug(`Uploaded attachment ${result.data.attachment.id}`);
+		return result;
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Attachment',
+			entityId: args.pageId,
+			operation: 'uploading',
+			source: 'controllers/atlassian.attachments.controller.ts@uploadFile',
+			additionalInfo: { filePath: args.filePath },
+		});
+	}
+}
+
+export default { list, get, upload, uploadFile };
@@ -0,0 +1,270 @@
+/**
+ * Formatter for Confluence attachments
+ */
+
+import {
+	AttachmentSchemaType,
+	AttachmentsResponseType,
+} from '../services/vendor.atlassian.attachments.types.js';
+import {
+	formatBulletList,
+	formatCodeBlock,
+	formatDate,
+	formatHeading,
+	formatNumberedList,
+	formatSeparator,
+	formatUrl,
+} from '../utils/formatter.util.js';
+import {
+	ensureAbsoluteConfluenceUrl,
+	resolveConfluenceBaseUrl,
+} from '../utils/url.util.js';
+import { AttachmentData } from '../types/data.types.js';
+
+/**
+ * Extracted content of an attachment, shown below its metadata
+ */
+export interface AttachmentContentSummary {
+	text?: string;
+	language?: string;
+	truncated?: boolean;
+	note?: string;
+}
+
+/**
+ * Build the absolute download URL of an attachment
+ *
+ * @param attachment - Attachment metadata
+ * @param baseUrl - Base URL for constructing links
+ * @returns Absolute download URL, or undefined if the attachment has no download link
+ */
+export function getAttachmentDownloadUrl(
+	attachment: AttachmentSchemaType,
+	baseUrl: string = '',
+): string | undefined {
+	const downloadLink = attachment.downloadLink || attachment._links?.download;
+	if (!downloadLink) {
+		return undefined;
+	}
+	return ensureAbsoluteConfluenceUrl(
+		downloadLink,
+		resolveConfluenceBaseUrl(attachment._links?.base || baseUrl),
+	);
+}
+
+/**
+ * Normalize an attachment for the data of a controller response
+ *
+ * @param attachment - Attachment metadata
+ * @param baseUrl - Base URL for constructing links
+ * @returns The attachment with absolute download and web links
+ */
+export function toAttachmentData(
+	attachment: AttachmentSchemaType,
+	baseUrl: string = '',
+): AttachmentData {
+	const webuiLink = attachment.webuiLink || attachment._links?.webui;
+	const downloadUrl = getAttachmentDownloadUrl(attachment, baseUrl);
+	return {
+		id: attachment.id,
+		title: attachment.title,
+		status: attachment.status,
+		...(attachment.mediaType && { mediaType: attachment.mediaType }),
+		...(attachment.fileSize !== undefined && {
+			fileSize: attachment.fileSize,
+		}),
+		...(attachment.pageId && { pageId: attachment.pageId }),
+		...(attachment.version && { version: attachment.version.number }),
+		...(attachment.createdAt && { createdAt: attachment.createdAt }),
+		...(attachment.comment && { comment: attachment.comment }),
+		...(downloadUrl && { downloadUrl }),
+		...(webuiLink && {
+			url: ensureAbsoluteConfluenceUrl(
+				webuiLink,
+				resolveConfluenceBaseUrl(attachment._links?.base || baseUrl),
+			),
+		}),
+	};
+}
+
+/**
+ * Format a file size in bytes as a human-readable string
+ */
+function formatFileSize(bytes?: number): string {
+	if (bytes === undefined) {
+		return 'N/A';
+	}
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Build the metadata properties shown for an attachment
+ */
+function getAttachmentProperties(
+	attachment: AttachmentSchemaType,
+	baseUrl: string,
+): Record<string, unknown> {
+	const properties: Record<string, unknown> = {
+		ID: attachment.id,
+		'Media Type': attachment.mediaType || 'N/A',
+		Size: formatFileSize(attachment.fileSize),
+		Status: attachment.status,
+		'Page ID': attachment.pageId || 'N/A',
+		Version: attachment.version?.number ?? 'N/A',
+		Created: attachment.createdAt
+			? formatDate(attachment.createdAt)
+			: 'N/A',
+	};
+
+	if (attachment.comment) {
+		properties['Comment'] = attachment.comment;
+	}
+
+	const downloadUrl = getAttachmentDownloadUrl(attachment, baseUrl);
+	if (downloadUrl) {
+		properties['Download'] = formatUrl(downloadUrl, attachment.title);
+	}
+
+	if (attachment.webuiLink || attachment._links?.webui) {
+		properties['URL'] = formatUrl(
+			ensureAbsoluteConfluenceUrl(
+				attachment.webuiLink || attachment._links?.webui || '',
+				resolveConfluenceBaseUrl(attachment._links?.base || baseUrl),
+			),
+			'View in Confluence',
+		);
+	}
+
+	return properties;
+}
+
+/**
+ * Format a list of attachments for display
+ *
+ * @param attachmentsData - Raw attachments data from the API
+ * @param pageId - ID of the page the attachments belong to
+ * @returns Formatted string with attachments information in markdown format
+ */
+export function formatAttachmentsList(
+	attachmentsData: AttachmentsResponseType,
+	pageId: string,
+): string {
+	const baseUrl = resolveConfluenceBaseUrl(attachmentsData._links?.base);
+
+	if (!attachmentsData.results || attachmentsData.results.length === 0) {
+		return (
+			'No attachments found for this page.' +
+			'\n\n' +
+			formatSeparator() +
+			'\n' +
+			`*Information retrieved at: ${formatDate(new Date())}*`
+		);
+	}
+
+	const lines: string[] = [
+		formatHeading('Page Attachments', 1),
+		`*Attachments of page ${pageId}*`,
+		'',
+	];
+
+	const formattedList = formatNumberedList(
+		attachmentsData.results,
+		(attachment) => {
+			const itemLines: string[] = [];
+			itemLines.push(formatHeading(attachment.title, 2));
+			itemLines.push(
+				formatBulletList(
+					getAttachmentProperties(attachment, baseUrl),
+					(key) => key,
+				),
+			);
+			return itemLines.join('\n');
+		},
+	);
+
+	lines.push(formattedList);
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format the details of a single attachment, including extracted content
+ *
+ * @param attachment - Attachment metadata
+ * @param summary - Extracted text content or a note on why none is shown
+ * @returns Formatted string with attachment details in markdown format
+ */
+export function formatAttachmentDetails(
+	attachment: AttachmentSchemaType,
+	summary: AttachmentContentSummary = {},
+): string {
+	const lines: string[] = [formatHeading(attachment.title, 1), ''];
+
+	lines.push(formatHeading('Basic Information', 2));
+	lines.push(
+		formatBulletList(getAttachmentProperties(attachment, ''), (key) => key),
+	);
+
+	if (summary.text !== undefined || summary.note) {
+		lines.push('');
+		lines.push(formatHeading('Content', 2));
+		if (summary.note) {
+			lines.push(`*${summary.note}*`);
+		}
+		if (summary.text !== undefined) {
+			if (summary.note) {
+				lines.push('');
+			}
+			lines.push(formatCodeBlock(summary.text, summary.language));
+			if (summary.truncated) {
+				lines.push(
+					'*Content truncated. Use the download link for the full file.*',
+				);
+			}
+		}
+	}
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format the result of uploading an attachment
+ *
+ * @param attachment - The uploaded attachment
+ * @returns Formatted string with the upload result in markdown format
+ */
+export function formatUploadedAttachment(
+	attachment: AttachmentSchemaType,
+): string {
+	const lines: string[] = [
+		formatHeading('Attachment Uploaded', 1),
+		'',
+		formatBulletList(
+			{
+				...getAttachmentProperties(attachment, ''),
+				'File Name': attachment.title,
+			},
+			(key) => key,
+		),
+	];
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
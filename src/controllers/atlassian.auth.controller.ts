@@ -0,0 +1,247 @@
+import http from 'http';
+import crypto from 'crypto';
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import {
+	createApiError,
+	createAuthInvalidError,
+	createAuthMissingError,
+} from '../utils/error.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
+import {
+	OAuthTokens,
+	buildAuthorizationUrl,
+	clearOAuthTokens,
+	exchangeAuthorizationCode,
+	getAccessibleResources,
+	getOAuthClientConfig,
+	getOAuthTokenPath,
+	loadOAuthTokens,
+	saveOAuthTokens,
+	selectAccessibleResource,
+} from '../utils/oauth.util.js';
+import {
+	formatAuthStatus,
+	formatLoginResult,
+	toAuthStatusData,
+} from './atlassian.auth.formatter.js';
+
+/**
+ * Controller for OAuth 2.0 (3LO) authentication.
+ * Provides the browser login flow with a local callback listener, logout and status.
+ */
+
+/**
+ * How long to wait for the browser to reach the callback URL
+ */
+const DEFAULT_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Options for the login flow
+ */
+interface LoginOptions {
+	/**
+	 * Called with the URL the user has to open to authorize the app
+	 */
+	onAuthorizationUrl: (url: string) => void;
+	/**
+	 * How long to wait for the callback, in milliseconds
+	 */
+	timeoutMs?: number;
+}
+
+/**
+ * Start a local HTTP listener on the redirect URI and wait for the authorization code
+ * @param redirectUri - Redirect URI registered for the OAuth app (must be http://localhost)
+ * @param state - Expected state value
+ * @param onListening - Called once the listener accepts connections
+ * @param timeoutMs - How long to wait for the callback
+ * @returns The authorization code
+ */
+function waitForAuthorizationCode(
+	redirectUri: string,
+	state: string,
+	onListening: () => void,
+	timeoutMs: number,
+): Promise<string> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.auth.controller.ts',
+		'waitForAuthorizationCode',
+	);
+	const callbackUrl = new URL(redirectUri);
+	if (
+		callbackUrl.protocol !== 'http:' ||
+		!['localhost', '127.0.0.1'].includes(callbackUrl.hostname)
+	) {
+		return Promise.reject(
+			createApiError(
+				`The redirect URI must be a http://localhost URL to receive the callback, got ${redirectUri}.`,
+				400,
+			),
+		);
+	}
+
+	return new Promise((resolve, reject) => {
+		const server = http.createServer((req, res) => {
+			const requestUrl = new URL(req.url || '/', redirectUri);
+			if (requestUrl.pathname !== callbackUrl.pathname) {
+				res.writeHead(404).end();
+				return;
+			}
+
+			const error = requestUrl.searchParams.get('error');
+			const code = requestUrl.searchParams.get('code');
+			const returnedState = requestUrl.searchParams.get('state');
+
+			let failure: Error | undefined;
+			if (error) {
+				failure = createAuthInvalidError(
+					`Authorization was denied: ${requestUrl.searchParams.get('error_description') || error}`,
+				);
+			} else if (returnedState !== state) {
+				failure = createAuthInvalidError(
+					'The OAuth state did not match. Run "auth login" again.',
+				);
+			} else if (!code) {
+				failure = createAuthInvalidError(
+					'The OAuth callback did not include an authorization code.',
+				);
+			}
+
+			res.writeHead(failure ? 400 : 200, {
+				'Content-Type': 'text/plain; charset=utf-8',
+			});
+			res.end(
+				failure
+					? `Login failed: ${failure.message}`
+					: 'Login complete. You can close this window and return to the terminal.',
+			);
+
+			finish(failure, code || undefined);
+		});
+
+		const timer = setTimeout(() => {
+			finish(
+				createAuthInvalidError(
+					`Timed out after ${Math.round(timeoutMs / 1000)} seconds waiting for the OAuth callback.`,
+				),
+			);
+		}, timeoutMs);
+
+		function finish(error?: Error, code?: string) {
+			clearTimeout(timer);
+			server.close();
+			if (error || !code) {
+				reject(error);
+			} else {
+				resolve(code);
+			}
+		}
+
+		server.on('error', (error) => finish(error));
+		server.listen(
+			Number(callbackUrl.port) || 80,
+			callbackUrl.hostname,
+			() => {
+				methodLogger.debug(
+					`Listening for the OAuth callback on ${redirectUri}`,
+				);
+				onListening();
+			},
+		);
+	});
+}
+
+/**
+ * Log in with OAuth 2.0 (3LO): open the authorization URL, receive the code on the
+ * local redirect URI, exchange it for tokens and store them for later requests
+ * @param options - Login options
+ * @returns Promise with formatted login details
+ * @throws Error if the OAuth app is not configured or authorization fails
+ */
+async function login(
+	options: LoginOptions,
+): Promise<ControllerResponse<OutputData<'authStatus'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.auth.controller.ts',
+		'login',
+	);
+
+	try {
+		const client = getOAuthClientConfig();
+		if (!client) {
+			throw createAuthMissingError(
+				'ATLASSIAN_OAUTH_CLIENT_ID and ATLASSIAN_OAUTH_CLIENT_SECRET must be set to log in with OAuth.',
+			);
+		}
+
+		const state = crypto.randomBytes(16).toString('hex');
+		const authorizationUrl = buildAuthorizationUrl(client, state);
+
+		const code = await waitForAuthorizationCode(
+			client.redirectUri,
+			state,
+			() => options.onAuthorizationUrl(authorizationUrl),
+			options.timeoutMs ?? DEFAULT_LOGIN_TIMEOUT_MS,
+		);
+		methodLogger.debug('Received authorization code, exchanging it');
+
+		const exchanged = await exchangeAuthorizationCode(client, code);
+		const site = selectAccessibleResource(
+			await getAccessibleResources(exchanged.accessToken),
+			config.get('ATLASSIAN_SITE_NAME'),
+		);
+
+		const tokens: OAuthTokens = {
+			...exchanged,
+			cloudId: site.id,
+			siteUrl: site.url,
+		};
+		saveOAuthTokens(tokens);
+		methodLogger.debug(`Stored OAuth tokens for ${site.url}`);
+
+		return {
+			content: formatLoginResult(tokens, getOAuthTokenPath()),
+			data: toAuthStatusData(tokens, getOAuthTokenPath(), true),
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'OAuth Login',
+			operation: 'authorizing',
+			source: 'controllers/atlassian.auth.controller.ts@login',
+		});
+	}
+}
+
+/**
+ * Delete the stored OAuth tokens
+ * @returns Promise with a confirmation message
+ */
+async function logout(): Promise<ControllerResponse<OutputData<'logout'>>> {
+	const removed = clearOAuthTokens();
+	const tokenPath = getOAuthTokenPath();
+	return {
+		content: removed
+			? `Removed the stored OAuth tokens from ${tokenPath}.`
+			: 'No OAuth tokens were stored.',
+		data: { removed, tokenPath },
+	};
+}
+
+/**
+ * Show which site the stored OAuth tokens belong to and when they expire
+ * @returns Promise with formatted status
+ */
+async function status(): Promise<ControllerResponse<OutputData<'authStatus'>>> {
+	const tokens = loadOAuthTokens();
+	const tokenPath = getOAuthTokenPath();
+	const clientConfigured = getOAuthClientConfig() !== null;
+	return {
+		content: formatAuthStatus(tokens, tokenPath, clientConfigured),
+		data: toAuthStatusData(tokens, tokenPath, clientConfigured),
+	};
+}
+
+export default { login, logout, status };
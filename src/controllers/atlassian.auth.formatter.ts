@@ -0,0 +1,106 @@
+import {
+	formatHeading,
+	formatBulletList,
+	formatSeparator,
+	formatDate,
+} from '../utils/formatter.util.js';
+import { OAuthTokens } from '../utils/oauth.util.js';
+import { OutputData } from '../types/data.types.js';
+
+/**
+ * Describe the stored OAuth tokens for the data of a controller response,
+ * without the tokens themselves
+ * @param tokens - The stored tokens, or null if not logged in
+ * @param tokenPath - Path of the token file
+ * @param clientConfigured - Whether an OAuth app is configured, if known
+ * @returns The login status
+ */
+export function toAuthStatusData(
+	tokens: OAuthTokens | null,
+	tokenPath: string,
+	clientConfigured?: boolean,
+): OutputData<'authStatus'> {
+	return {
+		loggedIn: tokens !== null,
+		...(tokens && {
+			siteUrl: tokens.siteUrl,
+			cloudId: tokens.cloudId,
+			expiresAt: new Date(tokens.expiresAt).toISOString(),
+			hasRefreshToken: Boolean(tokens.refreshToken),
+			...(tokens.scope && { scope: tokens.scope }),
+		}),
+		...(clientConfigured !== undefined && { clientConfigured }),
+		tokenPath,
+	};
+}
+
+/**
+ * Format the result of a successful OAuth login
+ * @param tokens - The stored tokens
+ * @param tokenPath - Path of the token file
+ * @returns Formatted string with login details in markdown format
+ */
+export function formatLoginResult(
+	tokens: OAuthTokens,
+	tokenPath: string,
+): string {
+	const lines: string[] = [formatHeading('Logged In to Confluence', 1), ''];
+
+	lines.push(
+		formatBulletList({
+			Site: tokens.siteUrl,
+			'Cloud ID': tokens.cloudId,
+			'Access Token Expires': formatDate(new Date(tokens.expiresAt)),
+			'Refresh Token': tokens.refreshToken ? 'Stored' : 'Not issued',
+			'Token File': tokenPath,
+		}),
+	);
+
+	lines.push('');
+	lines.push(formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format the current OAuth login status
+ * @param tokens - The stored tokens, or null if not logged in
+ * @param tokenPath - Path of the token file
+ * @param clientConfigured - Whether an OAuth app is configured
+ * @returns Formatted string with the login status in markdown format
+ */
+export function formatAuthStatus(
+	tokens: OAuthTokens | null,
+	tokenPath: string,
+	clientConfigured: boolean,
+): string {
+	const lines: string[] = [formatHeading('Confluence OAuth Status', 1), ''];
+
+	if (!tokens) {
+		lines.push('Not logged in with OAuth. Run "auth login" to authorize.');
+	} else {
+		lines.push(
+			formatBulletList({
+				Site: tokens.siteUrl,
+				'Cloud ID': tokens.cloudId,
+				'Access Token Expires': formatDate(new Date(tokens.expiresAt)),
+				'Refresh Token': tokens.refreshToken ? 'Stored' : 'Not issued',
+				Scopes: tokens.scope,
+				'Token File': tokenPath,
+			}),
+		);
+		if (!clientConfigured) {
+			lines.push('');
+			lines.push(
+				'*The stored tokens are not used because ATLASSIAN_OAUTH_CLIENT_ID and ATLASSIAN_OAUTH_CLIENT_SECRET are not set.*',
+			);
+		}
+	}
+
+	lines.push('');
+	lines.push(formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
@@ -0,0 +1,180 @@
+import { Logger } from '../utils/logger.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
+import atlassianBlogPostsService from '../services/vendor.atlassian.blogposts.service.js';
+import { BodyFormat } from '../services/vendor.atlassian.pages.types.js';
+import { BlogPostsResponseType } from '../services/vendor.atlassian.blogposts.types.js';
+import {
+	formatBlogPostsList,
+	formatBlogPostDetails,
+} from './atlassian.blogposts.formatter.js';
+import { toContentData } from './atlassian.pages.formatter.js';
+import { toLabelData } from './atlassian.labels.formatter.js';
+import {
+	convertBodyToMarkdown,
+	resolveSpaceId,
+} from './atlassian.pages.controller.js';
+import {
+	ListBlogPostsToolArgsType,
+	GetBlogPostToolArgsType,
+} from '../tools/atlassian.blogposts.types.js';
+import { DEFAULT_PAGE_SIZE, PAGE_DEFAULTS } from '../utils/defaults.util.js';
+import {
+	extractPaginationInfo,
+	PaginationType,
+} from '../utils/pagination.util.js';
+import { formatPagination } from '../utils/formatter.util.js';
+
+/**
+ * Controller for managing Confluence blog posts.
+ * Provides functionality for listing blog posts and retrieving their content.
+ */
+
+/**
+ * List blog posts from Confluence with filtering options
+ * @param options - Options for filtering blog posts
+ * @param options.spaceKey - Filter by space key
+ * @param options.title - Filter by title
+ * @param options.authorId - Filter by author account ID
+ * @param options.createdAfter - Only blog posts created on or after this date (YYYY-MM-DD)
+ * @param options.createdBefore - Only blog posts created before this date (YYYY-MM-DD)
+ * @param options.sort - Sort order for results
+ * @param options.limit - Maximum number of blog posts to return
+ * @param options.cursor - Pagination cursor for subsequent requests
+ * @returns Promise with formatted blog posts list content including pagination information
+ * @throws Error if blog post listing fails
+ */
+async function list(
+	options: ListBlogPostsToolArgsType = {},
+): Promise<ControllerResponse<OutputData<'listBlogPosts'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.blogposts.controller.ts',
+		'list',
+	);
+	methodLogger.debug('Listing Confluence blog posts with options:', options);
+
+	try {
+		const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+		let blogPostsData: BlogPostsResponseType;
+
+		if (options.authorId || options.createdAfter || options.createdBefore) {
+			// Author and date filters are only available through CQL search
+			blogPostsData = await atlassianBlogPostsService.find({
+				spaceKey: options.spaceKey,
+				title: options.title,
+				authorId: options.authorId,
+				createdAfter: options.createdAfter,
+				createdBefore: options.createdBefore,
+				limit,
+				...(options.cursor && { cursor: options.cursor }),
+			});
+		} else {
+			blogPostsData = await atlassianBlogPostsService.list({
+				...(options.spaceKey && {
+					spaceId: [await resolveSpaceId(options.spaceKey)],
+				}),
+				...(options.title && { title: options.title }),
+				status: ['current'],
+				sort: options.sort || '-created-date',
+				limit,
+				...(options.cursor && { cursor: options.cursor }),
+			});
+		}
+
+		methodLogger.debug(
+			`Retrieved ${blogPostsData.results.length} blog posts. Has more: ${blogPostsData._links?.next ? 'yes' : 'no'}`,
+		);
+
+		const pagination = extractPaginationInfo(
+			blogPostsData,
+			PaginationType.CURSOR,
+			'Blog Post',
+		);
+
+		let finalContent = formatBlogPostsList(
+			blogPostsData.results,
+			blogPostsData._links?.base || '',
+		);
+
+		if (
+			pagination &&
+			(pagination.hasMore || pagination.count !== undefined)
+		) {
+			finalContent += '\n\n' + formatPagination(pagination);
+		}
+
+		return {
+			content: finalContent,
+			data: {
+				blogPosts: blogPostsData.results.map((blogPost) =>
+					toContentData(blogPost, blogPostsData._links?.base),
+				),
+				...(pagination && { pagination }),
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Blog Posts',
+			operation: 'listing',
+			source: 'controllers/atlassian.blogposts.controller.ts@list',
+		});
+	}
+}
+
+/**
+ * Get details of a specific Confluence blog post
+ * @param args - Object containing the ID of the blog post to retrieve
+ * @param args.blogPostId - The ID of the blog post
+ * @returns Promise with formatted blog post details content
+ * @throws Error if blog post retrieval fails
+ */
+async function get(
+	args: GetBlogPostToolArgsType,
+): Promise<ControllerResponse<OutputData<'getBlogPost'>>> {
+	const { blogPostId } = args;
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.blogposts.controller.ts',
+		'get',
+	);
+	methodLogger.debug(`Getting Confluence blog post with ID: ${blogPostId}`);
+
+	try {
+		const blogPostData = await atlassianBlogPostsService.get(blogPostId, {
+			bodyFormat: PAGE_DEFAULTS.BODY_FORMAT as BodyFormat,
+			includeLabels: PAGE_DEFAULTS.INCLUDE_LABELS,
+			includeVersion: PAGE_DEFAULTS.INCLUDE_VERSION,
+		});
+
+		methodLogger.debug(
+			`Retrieved blog post: ${blogPostData.title} (${blogPostData.id})`,
+		);
+
+		const markdownBody = await convertBodyToMarkdown(
+			blogPostData.body?.atlas_doc_format?.value,
+			{ contentId: blogPostId, contentType: 'blogpost' },
+		);
+
+		return {
+			content: formatBlogPostDetails(blogPostData, markdownBody),
+			data: {
+				blogPost: {
+					...toContentData(blogPostData),
+					body: markdownBody,
+					labels: (blogPostData.labels?.results ?? []).map(
+						toLabelData,
+					),
+				},
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Blog Post',
+			entityId: blogPostId,
+			operation: 'retrieving',
+			source: 'controllers/atlassian.blogposts.controller.ts@get',
+		});
+	}
+}
+
+export default { list, get };
@@ -0,0 +1,151 @@
+import {
+	BlogPostSchemaType,
+	BlogPostDetailedSchemaType,
+} from '../services/vendor.atlassian.blogposts.types.js';
+import {
+	formatUrl,
+	formatDate,
+	formatHeading,
+	formatBulletList,
+	formatSeparator,
+	formatNumberedList,
+} from '../utils/formatter.util.js';
+import {
+	ensureAbsoluteConfluenceUrl,
+	resolveConfluenceBaseUrl,
+} from '../utils/url.util.js';
+
+/**
+ * Format a list of blog posts for display
+ * @param blogPostsData - Raw blog posts data from the API
+ * @param baseUrl - Base URL for constructing blog post links
+ * @returns Formatted string with blog posts information in markdown format
+ */
+export function formatBlogPostsList(
+	blogPostsData: BlogPostSchemaType[],
+	baseUrl: string = '',
+): string {
+	const resolvedBaseUrl = resolveConfluenceBaseUrl(baseUrl);
+
+	if (!blogPostsData || blogPostsData.length === 0) {
+		return (
+			'No Confluence blog posts found matching your criteria.' +
+			'\n\n' +
+			formatSeparator() +
+			'\n' +
+			`*Information retrieved at: ${formatDate(new Date())}*`
+		);
+	}
+
+	const lines: string[] = [formatHeading('Confluence Blog Posts', 1), ''];
+
+	const formattedList = formatNumberedList(blogPostsData, (blogPost) => {
+		const itemLines: string[] = [];
+
+		itemLines.push(formatHeading(blogPost.title, 2));
+
+		const blogPostUrl = ensureAbsoluteConfluenceUrl(
+			blogPost._links.webui ||
+				`pages/viewpage.action?pageId=${blogPost.id}`,
+			resolvedBaseUrl,
+		);
+
+		const properties: Record<string, unknown> = {
+			ID: blogPost.id,
+			Status: blogPost.status,
+			'Space ID': blogPost.spaceId || 'N/A',
+			Created: blogPost.createdAt
+				? formatDate(blogPost.createdAt)
+				: 'N/A',
+			Author: blogPost.authorId || 'Unknown',
+			Version: blogPost.version?.number || 'N/A',
+			URL: formatUrl(blogPostUrl, blogPost.title),
+		};
+
+		itemLines.push(formatBulletList(properties, (key) => key));
+
+		return itemLines.join('\n');
+	});
+
+	lines.push(formattedList);
+
+	// Add standard footer with timestamp
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format detailed blog post information for display
+ * @param blogPostData - Raw blog post details from the API
+ * @param markdownBody - Pre-converted markdown content for the blog post body
+ * @returns Formatted string with blog post details in markdown format
+ */
+export function formatBlogPostDetails(
+	blogPostData: BlogPostDetailedSchemaType,
+	markdownBody: string = '*No content available*',
+): string {
+	const resolvedBaseUrl = resolveConfluenceBaseUrl(blogPostData._links.base);
+	const fullUrl = ensureAbsoluteConfluenceUrl(
+		blogPostData._links.webui ||
+			`pages/viewpage.action?pageId=${blogPostData.id}`,
+		resolvedBaseUrl,
+	);
+
+	const lines: string[] = [
+		formatHeading(`Confluence Blog Post: ${blogPostData.title}`, 1),
+		'',
+		`> A ${blogPostData.status} blog post in space \`${blogPostData.spaceId}\` published on ${formatDate(blogPostData.createdAt)}.`,
+		'',
+		formatHeading('Basic Information', 2),
+	];
+
+	const basicProperties: Record<string, unknown> = {
+		ID: blogPostData.id,
+		Title: blogPostData.title,
+		'Space ID': blogPostData.spaceId,
+		Status: blogPostData.status,
+		'Created At': formatDate(blogPostData.createdAt),
+		'Author ID': blogPostData.authorId,
+		Version: blogPostData.version?.number ?? 'N/A',
+		'Last Modified': blogPostData.version?.createdAt
+			? formatDate(blogPostData.version.createdAt)
+			: 'N/A',
+	};
+
+	lines.push(formatBulletList(basicProperties, (key) => key));
+
+	// Content section
+	lines.push('');
+	lines.push(formatHeading('Content', 2));
+	lines.push(markdownBody);
+
+	// Labels section
+	lines.push('');
+	lines.push(formatHeading('Labels', 2));
+
+	if (
+		blogPostData.labels?.results &&
+		blogPostData.labels.results.length > 0
+	) {
+		lines.push(
+			blogPostData.labels.results
+				.map((label) => `- **${label.name}** (ID: ${label.id})`)
+				.join('\n'),
+		);
+	} else {
+		lines.push('*No labels assigned to this blog post*');
+	}
+
+	// Links section
+	lines.push('');
+	lines.push(formatHeading('Links', 2));
+	lines.push(`- ${formatUrl(fullUrl, 'Open in Confluence')}`);
+
+	// Add standard footer with timestamp
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
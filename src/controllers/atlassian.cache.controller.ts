@@ -0,0 +1,43 @@
+import { Logger } from '../utils/logger.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
+import { clearResponseCache, getCacheDirectory } from '../utils/cache.util.js';
+
+/**
+ * Controller for the response cache in front of the Confluence API
+ */
+
+/**
+ * Delete all cached API responses
+ * @returns Promise with a summary of what was deleted
+ * @throws Error if the cache cannot be cleared
+ */
+async function clear(): Promise<ControllerResponse<OutputData<'clearCache'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.cache.controller.ts',
+		'clear',
+	);
+
+	try {
+		const deleted = clearResponseCache();
+		const directory = getCacheDirectory();
+		methodLogger.debug(`Deleted ${deleted} cached responses`);
+
+		return {
+			content:
+				deleted > 0
+					? `Deleted ${deleted} cached ${deleted === 1 ? 'response' : 'responses'}.`
+					: `The response cache is already empty (on-disk cache: ${directory}).`,
+			data: { deleted, directory },
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Cache',
+			operation: 'clearing',
+			source: 'controllers/atlassian.cache.controller.ts@clear',
+		});
+	}
+}
+
+export default { clear };
@@ -6,14 +6,29 @@ import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
 import { atlassianCommentsService } from '../services/vendor.atlassian.comments.service.js';
 import {
-	extractPaginationInfo,
+	fetchPaginated,
+	MAX_ITEMS_CEILING,
 	PaginationType,
 } from '../utils/pagination.util.js';
 import { ControllerResponse } from '../types/common.types.js';
-import { formatCommentsList } from './atlassian.comments.formatter.js';
-import { formatInlineCommentsList } from './atlassian.inline-comments.formatter.js';
+import { OutputData } from '../types/data.types.js';
+import {
+	formatCommentsList,
+	formatCreatedComment,
+	toCommentData,
+} from './atlassian.comments.formatter.js';
+import {
+	formatInlineCommentsList,
+	formatInlineCommentResolution,
+} from './atlassian.inline-comments.formatter.js';
 import { DEFAULT_PAGE_SIZE } from '../utils/defaults.util.js';
-import { adfToMarkdown } from '../utils/adf.util.js';
+import {
+	adfToMarkdown,
+	markdownToAdf,
+	countAdfTextOccurrences,
+} from '../utils/adf.util.js';
+import atlassianPagesService from '../services/vendor.atlassian.pages.service.js';
+import { createApiError } from '../utils/error.util.js';
 import {
 	CommentData,
 	InlineProperties,
@@ -44,6 +59,11 @@ interface ListPageCommentsOptions {
 	 */
 	start?: number;
 
+	/**
+	 * Collect pages of results until this many comments are found
+	 */
+	maxItems?: number;
+
 	/**
 	 * Body format (storage, view, atlas_doc_format)
 	 */
@@ -79,12 +99,82 @@ interface ListInlineCommentsOptions {
 	 */
 	start?: number;
 
+	/**
+	 * Collect pages of results until this many comments are found
+	 */
+	maxItems?: number;
+
 	/**
 	 * Body format (storage, view, atlas_doc_format)
 	 */
 	bodyFormat?: 'storage' | 'view' | 'atlas_doc_format';
 }
 
+/**
+ * Interface for add page comment options
+ */
+interface AddPageCommentOptions {
+	/**
+	 * The ID of the page to comment on
+	 */
+	pageId: string;
+
+	/**
+	 * Comment content in Markdown
+	 */
+	body: string;
+
+	/**
+	 * ID of the comment to reply to
+	 */
+	parentCommentId?: string;
+}
+
+/**
+ * Interface for add inline comment options
+ */
+interface AddInlineCommentOptions {
+	/**
+	 * The ID of the page to comment on
+	 */
+	pageId: string;
+
+	/**
+	 * Comment content in Markdown
+	 */
+	body: string;
+
+	/**
+	 * Exact page text to anchor the comment to
+	 */
+	textSelection: string;
+
+	/**
+	 * Zero-based occurrence of the text to anchor to when it appears more than once
+	 */
+	matchIndex?: number;
+}
+
+/**
+ * Interface for resolve/reopen inline comment options
+ */
+interface SetInlineCommentResolutionOptions {
+	/**
+	 * The ID of the inline comment
+	 */
+	commentId: string;
+
+	/**
+	 * true to resolve the comment, false to reopen it
+	 */
+	resolved: boolean;
+
+	/**
+	 * Optional reply in Markdown to add before changing the state
+	 */
+	reply?: string;
+}
+
 /**
  * Extended interface for a comment with converted markdown content
  */
@@ -100,6 +190,27 @@ interface CommentWithContext extends CommentData {
 	highlightedText?: string;
 }
 
+/**
+ * Convert the ADF body of a comment to Markdown
+ *
+ * @param comment - Comment fetched with its ADF body
+ * @returns The Markdown body, or a placeholder if the body cannot be converted
+ */
+function commentBodyToMarkdown(comment: CommentData): string {
+	const adfValue = comment.body?.atlas_doc_format?.value;
+	if (adfValue) {
+		try {
+			return adfToMarkdown(adfValue);
+		} catch (conversionError) {
+			logger.error(
+				`ADF conversion failed for comment ${comment.id}`,
+				conversionError,
+			);
+		}
+	}
+	return '*Content format not supported or unavailable*';
+}
+
 /**
  * List comments for a specific Confluence page
  *
@@ -108,7 +219,7 @@ interface CommentWithContext extends CommentData {
  */
 async function listPageComments(
 	options: ListPageCommentsOptions,
-): Promise<ControllerResponse> {
+): Promise<ControllerResponse<OutputData<'listComments'>>> {
 	const methodLogger = logger.forMethod('listPageComments');
 	try {
 		// Apply defaults and prepare service parameters
@@ -116,6 +227,7 @@ async function listPageComments(
 			pageId,
 			limit = DEFAULT_PAGE_SIZE,
 			start = 0,
+			maxItems,
 			bodyFormat = 'atlas_doc_format', // Explicitly define default
 		} = options;
 
@@ -123,22 +235,21 @@ async function listPageComments(
 			pageId,
 			limit,
 			start,
+			maxItems,
 			bodyFormat,
 		});
 
-		// Call the service to get comments data
-		const commentsData = await atlassianCommentsService.listPageComments({
-			pageId,
-			limit,
-			start,
-			bodyFormat,
-		});
-
-		// Extract pagination information
-		const pagination = extractPaginationInfo(
-			commentsData,
+		// Call the service to get one page of comments, or several when maxItems is given
+		const { data: commentsData, pagination } = await fetchPaginated(
+			(cursor, remaining) =>
+				atlassianCommentsService.listPageComments({
+					pageId,
+					limit: Math.min(limit, remaining),
+					start: cursor ? parseInt(cursor, 10) : 0,
+					bodyFormat,
+				}),
 			PaginationType.OFFSET,
-			'Comment',
+			{ cursor: start.toString(), maxItems, entityType: 'Comment' },
 		);
 
 		// Convert ADF content to Markdown and extract highlighted text for inline comments
@@ -230,6 +341,18 @@ async function listPageComments(
 
 		return {
 			content: finalContent,
+			data: {
+				pageId,
+				comments: convertedComments.map((comment) =>
+					toCommentData(
+						comment,
+						comment.convertedMarkdownBody,
+						baseUrl,
+						comment.highlightedText,
+					),
+				),
+				...(pagination && { pagination }),
+			},
 		};
 	} catch (error) {
 		// Handle errors
@@ -250,7 +373,7 @@ async function listPageComments(
  */
 async function listInlineComments(
 	options: ListInlineCommentsOptions,
-): Promise<ControllerResponse> {
+): Promise<ControllerResponse<OutputData<'listComments'>>> {
 	const methodLogger = logger.forMethod('listInlineComments');
 	try {
 		// Apply defaults and prepare service parameters
@@ -260,6 +383,7 @@ async function listInlineComments(
 			sortBy = 'position',
 			limit = DEFAULT_PAGE_SIZE,
 			start = 0,
+			maxItems,
 			bodyFormat = 'atlas_doc_format',
 		} = options;
 
@@ -269,19 +393,28 @@ async function listInlineComments(
 			sortBy,
 			limit,
 			start,
+			maxItems,
 			bodyFormat,
 		});
 
-		// Get all comments first with a higher limit to ensure we capture inline comments
-		// since we'll filter them locally
-		const allCommentsData = await atlassianCommentsService.listPageComments(
-			{
-				pageId,
-				limit: 250, // Get more comments to filter inline ones
-				start: 0, // Always start from beginning for inline filtering
-				bodyFormat,
-			},
-		);
+		// Get the comments first with a higher limit to ensure we capture inline comments,
+		// since we'll filter them locally. With maxItems, scan every page of comments.
+		const { data: allCommentsData, pagination: scanPagination } =
+			await fetchPaginated(
+				(cursor, remaining) =>
+					atlassianCommentsService.listPageComments({
+						pageId,
+						limit: Math.min(250, remaining), // Get more comments to filter inline ones
+						start: cursor ? parseInt(cursor, 10) : 0,
+						bodyFormat,
+					}),
+				PaginationType.OFFSET,
+				{
+					maxItems:
+						maxItems !== undefined ? MAX_ITEMS_CEILING : undefined,
+					entityType: 'Comment',
+				},
+			);
 
 		methodLogger.debug('Retrieved all comments for filtering', {
 			totalComments: allCommentsData.results.length,
@@ -384,28 +517,58 @@ async function listInlineComments(
 		}
 
 		// Apply pagination after filtering and sorting
-		const paginatedComments = convertedComments.slice(start, start + limit);
+		const pageSize = maxItems ?? limit;
+		const paginatedComments = convertedComments.slice(
+			start,
+			start + pageSize,
+		);
 
 		methodLogger.debug('Applied pagination to inline comments', {
 			totalInline: convertedComments.length,
 			start,
-			limit,
+			limit: pageSize,
 			returned: paginatedComments.length,
 		});
 
 		// Format the inline comments for display
 		const baseUrl = allCommentsData._links?.base || '';
-		const formattedContent = formatInlineCommentsList(
+		let formattedContent = formatInlineCommentsList(
 			paginatedComments,
 			pageId,
 			baseUrl,
 			convertedComments.length,
 			start,
-			limit,
+			pageSize,
 		);
 
+		if (scanPagination?.truncated) {
+			formattedContent += `\n\n*Only the first ${MAX_ITEMS_CEILING} comments on this page were scanned for inline comments.*`;
+		}
+
+		const hasMore =
+			start + paginatedComments.length < convertedComments.length;
+
 		return {
 			content: formattedContent,
+			data: {
+				pageId,
+				comments: paginatedComments.map((comment) =>
+					toCommentData(
+						comment,
+						comment.convertedMarkdownBody,
+						baseUrl,
+						comment.highlightedText,
+					),
+				),
+				pagination: {
+					count: paginatedComments.length,
+					start,
+					total: convertedComments.length,
+					hasMore,
+					...(hasMore && { nextCursor: String(start + pageSize) }),
+					...(scanPagination?.truncated && { truncated: true }),
+				},
+			},
 		};
 	} catch (error) {
 		// Handle errors
@@ -418,8 +581,235 @@ async function listInlineComments(
 	}
 }
 
+/**
+ * Add a page-level (footer) comment, or reply to an existing comment
+ *
+ * @param options - Options for the new comment
+ * @returns Controller response with the formatted created comment
+ */
+async function addPageComment(
+	options: AddPageCommentOptions,
+): Promise<ControllerResponse<OutputData<'writeComment'>>> {
+	const methodLogger = logger.forMethod('addPageComment');
+	try {
+		const { pageId, body, parentCommentId } = options;
+
+		methodLogger.debug('Adding page comment', { pageId, parentCommentId });
+
+		const comment = await atlassianCommentsService.createFooterComment({
+			pageId,
+			...(parentCommentId && { parentCommentId }),
+			body: {
+				representation: 'atlas_doc_format',
+				value: JSON.stringify(markdownToAdf(body)),
+			},
+		});
+
+		return {
+			content: formatCreatedComment(comment, body, pageId),
+			data: { pageId, comment: toCommentData(comment, body) },
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Comment',
+			operation: 'creating',
+			source: 'controllers/atlassian.comments.controller.ts@addPageComment',
+			additionalInfo: {
+				pageId: options.pageId,
+				parentCommentId: options.parentCommentId,
+			},
+		});
+	}
+}
+
+/**
+ * Add an inline comment anchored to a text selection on the page
+ *
+ * @param options - Options for the new inline comment
+ * @returns Controller response with the formatted created comment
+ */
+async function addInlineComment(
+	options: AddInlineCommentOptions,
+): Promise<ControllerResponse<OutputData<'writeComment'>>> {
+	const methodLogger = logger.forMethod('addInlineComment');
+	try {
+		const { pageId, body, textSelection, matchIndex = 0 } = options;
+
+		methodLogger.debug('Adding inline comment', {
+			pageId,
+			textSelection,
+			matchIndex,
+		});
+
+		// Confluence needs to know how often the selection occurs on the page
+		const page = await atlassianPagesService.get(pageId, {
+			bodyFormat: 'atlas_doc_format',
+		});
+		const pageAdf = page.body?.atlas_doc_format?.value;
+		const matchCount = pageAdf
+			? countAdfTextOccurrences(pageAdf, textSelection)
+			: 0;
+
+		if (matchCount === 0) {
+			throw createApiError(
+				`The text selection "${textSelection}" does not appear in page ${pageId}. Inline comments must anchor to text exactly as it appears on the page (case-sensitive, within a single paragraph, heading or code block).`,
+				400,
+			);
+		}
+		if (matchIndex >= matchCount) {
+			throw createApiError(
+				`Invalid matchIndex ${matchIndex}: the text selection occurs ${matchCount} time(s) on the page (valid indexes: 0-${matchCount - 1}).`,
+				400,
+			);
+		}
+
+		const comment = await atlassianCommentsService.createInlineComment({
+			pageId,
+			body: {
+				representation: 'atlas_doc_format',
+				value: JSON.stringify(markdownToAdf(body)),
+			},
+			textSelection,
+			textSelectionMatchCount: matchCount,
+			textSelectionMatchIndex: matchIndex,
+		});
+
+		return {
+			content: formatCreatedComment(
+				comment,
+				body,
+				pageId,
+				page._links.base,
+			),
+			data: {
+				pageId,
+				comment: toCommentData(comment, body, page._links.base),
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'InlineComment',
+			operation: 'creating',
+			source: 'controllers/atlassian.comments.controller.ts@addInlineComment',
+			additionalInfo: {
+				pageId: options.pageId,
+				textSelection: options.textSelection,
+			},
+		});
+	}
+}
+
+/**
+ * Resolve or reopen an inline comment, optionally adding a closing reply first
+ *
+ * @param options - Options for changing the resolution state
+ * @returns Controller response with the formatted resolution result
+ */
+async function setInlineCommentResolution(
+	options: SetInlineCommentResolutionOptions,
+): Promise<ControllerResponse<OutputData<'setCommentResolution'>>> {
+	const methodLogger = logger.forMethod('setInlineCommentResolution');
+	try {
+		const { commentId, resolved, reply } = options;
+
+		methodLogger.debug('Changing inline comment resolution', {
+			commentId,
+			resolved,
+			hasReply: Boolean(reply),
+		});
+
+		// Reply first so the message is part of the thread before it is closed
+		let replyComment: CommentData | undefined;
+		if (reply) {
+			replyComment =
+				await atlassianCommentsService.createInlineCommentReply({
+					parentCommentId: commentId,
+					body: {
+						representation: 'atlas_doc_format',
+						value: JSON.stringify(markdownToAdf(reply)),
+					},
+				});
+		}
+
+		const { comment: current, version } =
+			await atlassianCommentsService.getInlineComment(commentId);
+		const isResolved =
+			current.extensions?.resolution?.status === 'resolved';
+
+		// Nothing to change if the comment is already in the requested state
+		if (isResolved === resolved) {
+			methodLogger.debug('Inline comment already in requested state', {
+				commentId,
+				resolutionStatus: current.extensions?.resolution?.status,
+			});
+			return {
+				content: formatInlineCommentResolution(
+					current,
+					resolved,
+					false,
+					replyComment,
+				),
+				data: {
+					comment: toCommentData(
+						current,
+						commentBodyToMarkdown(current),
+					),
+					resolved,
+					changed: false,
+					...(replyComment && { replyId: replyComment.id }),
+				},
+			};
+		}
+
+		if (!current.body.atlas_doc_format?.value) {
+			throw createApiError(
+				`The body of inline comment ${commentId} could not be retrieved in ADF format, so its resolution cannot be changed.`,
+				500,
+			);
+		}
+
+		const updated = await atlassianCommentsService.updateInlineComment(
+			commentId,
+			{
+				version: version + 1,
+				body: {
+					representation: 'atlas_doc_format',
+					value: current.body.atlas_doc_format.value,
+				},
+				resolved,
+			},
+		);
+
+		return {
+			content: formatInlineCommentResolution(
+				updated,
+				resolved,
+				true,
+				replyComment,
+			),
+			data: {
+				// The update keeps the body, which the response may not include
+				comment: toCommentData(updated, commentBodyToMarkdown(current)),
+				resolved,
+				changed: true,
+				...(replyComment && { replyId: replyComment.id }),
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'InlineComment',
+			entityId: options.commentId,
+			operation: options.resolved ? 'resolving' : 'reopening',
+			source: 'controllers/atlassian.comments.controller.ts@setInlineCommentResolution',
+		});
+	}
+}
+
 // Export controller functions
 export const atlassianCommentsController = {
 	listPageComments,
 	listInlineComments,
+	addPageComment,
+	addInlineComment,
+	setInlineCommentResolution,
 };
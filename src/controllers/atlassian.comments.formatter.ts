@@ -14,6 +14,7 @@ import {
 	ensureAbsoluteConfluenceUrl,
 	resolveConfluenceBaseUrl,
 } from '../utils/url.util.js';
+import { CommentData as NormalizedCommentData } from '../types/data.types.js';
 
 /**
  * Extended CommentData interface with the converted markdown body and highlighted text
@@ -23,6 +24,45 @@ interface CommentWithMarkdown extends CommentData {
 	highlightedText?: string;
 }
 
+/**
+ * Normalize a comment for the data of a controller response
+ *
+ * @param comment - Comment from the API
+ * @param markdownBody - The comment body converted to markdown
+ * @param baseUrl - Base URL for constructing the comment link
+ * @param highlightedText - Page text an inline comment is anchored to, if known
+ * @returns The comment with its Markdown body and an absolute link
+ */
+export function toCommentData(
+	comment: CommentData,
+	markdownBody: string,
+	baseUrl: string = '',
+	highlightedText?: string,
+): NormalizedCommentData {
+	const isInline = comment.extensions?.location === 'inline';
+	const anchor =
+		highlightedText ||
+		(isInline
+			? comment.extensions?.inlineProperties?.originalSelection
+			: undefined);
+	const resolution = comment.extensions?.resolution?.status;
+	return {
+		id: comment.id,
+		...(comment.title && { title: comment.title }),
+		status: comment.status,
+		location: isInline ? 'inline' : 'footer',
+		body: markdownBody,
+		...(anchor && { highlightedText: anchor }),
+		...(resolution && { resolution }),
+		...(comment._links?.webui && {
+			url: ensureAbsoluteConfluenceUrl(
+				comment._links.webui,
+				resolveConfluenceBaseUrl(baseUrl),
+			),
+		}),
+	};
+}
+
 /**
  * Format a list of comments for display
  *
@@ -130,3 +170,63 @@ export function formatCommentsList(
 
 	return lines.join('\n');
 }
+
+/**
+ * Format a newly created comment for display
+ *
+ * @param comment - The created comment
+ * @param markdownBody - The comment body converted to markdown
+ * @param pageId - ID of the page the comment belongs to
+ * @param baseUrl - Base URL for constructing comment links
+ * @returns Formatted string with the created comment in markdown format
+ */
+export function formatCreatedComment(
+	comment: CommentData,
+	markdownBody: string,
+	pageId: string,
+	baseUrl: string = '',
+): string {
+	const resolvedBaseUrl = resolveConfluenceBaseUrl(baseUrl);
+	const isInline = comment.extensions?.location === 'inline';
+
+	const lines: string[] = [
+		formatHeading(isInline ? 'Inline Comment Added' : 'Comment Added', 1),
+		'',
+	];
+
+	const highlightedText =
+		comment.extensions?.inlineProperties?.originalSelection;
+	if (isInline && highlightedText) {
+		for (const line of highlightedText.split('\n')) {
+			lines.push(`> ${line}`);
+		}
+		lines.push('');
+	}
+
+	const properties: Record<string, unknown> = {
+		ID: comment.id,
+		'Page ID': pageId,
+		Status: comment.status,
+		Type: isInline ? 'Inline Comment' : 'Page Comment',
+	};
+	lines.push(formatBulletList(properties, (key) => key));
+
+	lines.push('');
+	lines.push(formatHeading('Content', 2));
+	lines.push(markdownBody || '*No content available*');
+
+	if (comment._links?.webui) {
+		const commentUrl = ensureAbsoluteConfluenceUrl(
+			comment._links.webui,
+			resolvedBaseUrl,
+		);
+		lines.push('');
+		lines.push(`[View comment in Confluence](${commentUrl})`);
+	}
+
+	// Add standard footer with timestamp
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
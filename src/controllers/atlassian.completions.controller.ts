@@ -0,0 +1,164 @@
+import { Logger } from '../utils/logger.util.js';
+import { escapeCqlValue } from '../utils/cql.util.js';
+import {
+	CompletionCache,
+	MAX_COMPLETIONS,
+	filterCompletions,
+	safeComplete,
+} from '../utils/completion.util.js';
+import atlassianSpacesService from '../services/vendor.atlassian.spaces.service.js';
+import atlassianSearchService from '../services/vendor.atlassian.search.service.js';
+import atlassianLabelsService from '../services/vendor.atlassian.labels.service.js';
+
+/**
+ * Controller for argument completion of prompts and resource templates.
+ * Unlike the other controllers it returns plain values, which clients show
+ * as suggestions while the user types. Failures yield no suggestions.
+ */
+
+const logger = Logger.forContext(
+	'controllers/atlassian.completions.controller.ts',
+);
+
+const cache = new CompletionCache();
+
+/**
+ * A page found by its title
+ */
+interface PageMatch {
+	id: string;
+	title: string;
+}
+
+/**
+ * Pages found by a title search, and whether the search found all of them
+ */
+interface PageSearch {
+	pages: PageMatch[];
+	complete: boolean;
+}
+
+const PAGE_SEARCH_LIMIT = 25;
+
+/**
+ * Find pages whose title starts with what the user typed, most recently
+ * modified first. Without typed text, or when it is a page ID, the most
+ * recently modified pages are returned. While the user keeps typing, a
+ * cached search for a shorter prefix that found all its pages is filtered
+ * instead of searching again.
+ */
+async function findPages(
+	typed: string,
+	spaceKey?: string,
+): Promise<PageMatch[]> {
+	const text = /^\d*$/.test(typed.trim()) ? '' : typed.trim();
+	const searchKey = (prefix: string) => `pages ${spaceKey ?? ''} ${prefix}`;
+
+	for (let length = text.length - 1; length >= 0; length--) {
+		const broader = await cache
+			.peek<PageSearch>(searchKey(text.slice(0, length)))
+			?.catch(() => undefined);
+		if (broader?.complete) {
+			const needle = text.toLowerCase();
+			return broader.pages.filter((page) =>
+				page.title.toLowerCase().includes(needle),
+			);
+		}
+	}
+
+	const search = await cache.get<PageSearch>(searchKey(text), async () => {
+		const conditions = ['type = page'];
+		if (spaceKey) {
+			conditions.push(`space = "${escapeCqlValue(spaceKey)}"`);
+		}
+		if (text) {
+			conditions.push(`title ~ "${escapeCqlValue(text)}*"`);
+		}
+		const cql = `${conditions.join(' AND ')} ORDER BY lastmodified DESC`;
+		logger.debug(`Completing pages with CQL: ${cql}`);
+
+		const response = await atlassianSearchService.search({
+			cql,
+			limit: PAGE_SEARCH_LIMIT,
+		});
+		return {
+			pages: response.results.flatMap((result) => {
+				const id = result.content?.id;
+				const title = result.content?.title ?? result.title;
+				return id && title ? [{ id, title }] : [];
+			}),
+			complete: response.results.length < PAGE_SEARCH_LIMIT,
+		};
+	});
+	return search.pages;
+}
+
+/**
+ * Suggest the keys of current spaces matching what the user typed
+ * @param typed - The space key typed so far
+ * @returns Matching space keys
+ */
+async function spaceKeys(typed: string): Promise<string[]> {
+	return safeComplete('spaceKey', async () => {
+		const keys = await cache.get('spaces', async () => {
+			const response = await atlassianSpacesService.list({
+				status: 'current',
+				limit: 250,
+			});
+			return response.results.map((space) => space.key);
+		});
+		return filterCompletions(keys, typed);
+	});
+}
+
+/**
+ * Suggest the titles of pages, within a space if one is given, starting
+ * with what the user typed
+ * @param typed - The title typed so far
+ * @param spaceKey - Space to search in, e.g. from another argument
+ * @returns Matching page titles
+ */
+async function pageTitles(typed: string, spaceKey?: string): Promise<string[]> {
+	return safeComplete('page title', async () => {
+		const pages = await findPages(typed, spaceKey);
+		return filterCompletions(
+			pages.map((page) => page.title),
+			typed,
+		);
+	});
+}
+
+/**
+ * Suggest page IDs. A typed title suggests the IDs of the pages with
+ * matching titles; a typed number suggests recently modified pages whose
+ * IDs start with it.
+ * @param typed - The title or page ID typed so far
+ * @param spaceKey - Space to search in, e.g. from another argument
+ * @returns Matching page IDs
+ */
+async function pageIds(typed: string, spaceKey?: string): Promise<string[]> {
+	return safeComplete('pageId', async () => {
+		const pages = await findPages(typed, spaceKey);
+		return pages
+			.map((page) => page.id)
+			.filter((id) => !/^\d+$/.test(typed) || id.startsWith(typed))
+			.slice(0, MAX_COMPLETIONS);
+	});
+}
+
+/**
+ * Suggest labels used on the site matching what the user typed
+ * @param typed - The label typed so far
+ * @returns Matching label names
+ */
+async function labels(typed: string): Promise<string[]> {
+	return safeComplete('label', async () => {
+		const names = await cache.get('labels', async () => {
+			const response = await atlassianLabelsService.list({ limit: 250 });
+			return response.results.map((label) => label.name);
+		});
+		return filterCompletions(names, typed);
+	});
+}
+
+export default { spaceKeys, pageTitles, pageIds, labels };
@@ -2,7 +2,10 @@
  * Specialized formatter for Confluence inline comments
  */
 
-import { CommentData } from '../services/vendor.atlassian.comments.types.js';
+import {
+	CommentData,
+	CommentResolution,
+} from '../services/vendor.atlassian.comments.types.js';
 import {
 	formatDate,
 	formatHeading,
@@ -135,6 +138,11 @@ export function formatInlineCommentsList(
 			lines.push(`**Container:** ${containerId}`);
 		}
 
+		const resolution = comment.extensions?.resolution;
+		if (resolution?.status) {
+			lines.push(`**Resolution:** ${formatResolution(resolution)}`);
+		}
+
 		lines.push('');
 
 		// Show comment content
@@ -193,3 +201,81 @@ export function formatInlineCommentsList(
 
 	return lines.join('\n');
 }
+
+/**
+ * Describe the resolution state of an inline comment, including who changed it and when
+ *
+ * @param resolution - Resolution info of the comment
+ * @returns Human-readable resolution description
+ */
+function formatResolution(resolution: CommentResolution): string {
+	const modifier =
+		resolution.lastModifier?.displayName ||
+		resolution.lastModifier?.publicName ||
+		resolution.lastModifier?.accountId;
+
+	let text = resolution.status;
+	if (resolution.status !== 'open') {
+		if (modifier) {
+			text += ` by ${modifier}`;
+		}
+		if (resolution.lastModifiedDate) {
+			text += ` on ${formatDate(resolution.lastModifiedDate)}`;
+		}
+	}
+	return text;
+}
+
+/**
+ * Format the result of resolving or reopening an inline comment
+ *
+ * @param comment - The updated inline comment
+ * @param resolved - Whether the comment was resolved (true) or reopened (false)
+ * @param changed - Whether the resolution state actually changed
+ * @param reply - Optional reply that was added before changing the state
+ * @returns Formatted string with the resolution result in markdown format
+ */
+export function formatInlineCommentResolution(
+	comment: CommentData,
+	resolved: boolean,
+	changed: boolean,
+	reply?: CommentData,
+): string {
+	const lines: string[] = [
+		formatHeading(
+			resolved ? 'Inline Comment Resolved' : 'Inline Comment Reopened',
+			1,
+		),
+		'',
+	];
+
+	if (!changed) {
+		lines.push(
+			`*The comment was already ${resolved ? 'resolved' : 'open'}; its resolution state was not changed.*`,
+		);
+		lines.push('');
+	}
+
+	lines.push(`**Comment ID:** ${comment.id}`);
+
+	const highlightedText =
+		comment.extensions?.inlineProperties?.originalSelection;
+	if (highlightedText) {
+		lines.push(`**Highlighted Text:** ${highlightedText}`);
+	}
+
+	const resolution = comment.extensions?.resolution;
+	if (resolution?.status) {
+		lines.push(`**Resolution:** ${formatResolution(resolution)}`);
+	}
+
+	if (reply) {
+		lines.push(`**Reply ID:** ${reply.id}`);
+	}
+
+	// Add standard footer with timestamp
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
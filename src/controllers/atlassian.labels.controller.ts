@@ -0,0 +1,240 @@
+import { Logger } from '../utils/logger.util.js';
+import { createApiError } from '../utils/error.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
+import atlassianLabelsService from '../services/vendor.atlassian.labels.service.js';
+import atlassianSpacesService from '../services/vendor.atlassian.spaces.service.js';
+import {
+	formatLabelsList,
+	formatLabelsUpdate,
+	toLabelData,
+} from './atlassian.labels.formatter.js';
+import {
+	ListLabelsToolArgsType,
+	AddLabelsToolArgsType,
+	RemoveLabelsToolArgsType,
+} from '../tools/atlassian.labels.types.js';
+import { DEFAULT_PAGE_SIZE } from '../utils/defaults.util.js';
+import {
+	extractPaginationInfo,
+	PaginationType,
+} from '../utils/pagination.util.js';
+import { formatPagination } from '../utils/formatter.util.js';
+
+/**
+ * Controller for managing Confluence labels.
+ * Provides functionality for listing labels and for adding and removing labels on pages and blog posts.
+ */
+
+/**
+ * Normalize label names the way Confluence stores them: lowercase and without duplicates
+ *
+ * @param labels - Label names as provided by the user
+ * @returns Normalized, de-duplicated label names
+ */
+function normalizeLabelNames(labels: string[]): string[] {
+	return [...new Set(labels.map((label) => label.trim().toLowerCase()))];
+}
+
+/**
+ * List labels of a page, blog post or space, or across the whole site
+ * @param options - Options for listing labels
+ * @param options.contentId - Optional ID of a page or blog post
+ * @param options.contentType - Type of the content identified by contentId (defaults to page)
+ * @param options.spaceKey - Optional key of a space
+ * @param options.prefix - Optional label prefix filter
+ * @param options.limit - Maximum number of labels to return
+ * @param options.cursor - Pagination cursor for subsequent requests
+ * @returns Promise with formatted labels list content including pagination information
+ * @throws Error if label listing fails
+ */
+async function list(
+	options: ListLabelsToolArgsType = {},
+): Promise<ControllerResponse<OutputData<'listLabels'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.labels.controller.ts',
+		'list',
+	);
+	methodLogger.debug('Listing Confluence labels with options:', options);
+
+	try {
+		if (options.contentId && options.spaceKey) {
+			throw createApiError(
+				'Provide either contentId or spaceKey to list labels, not both.',
+				400,
+			);
+		}
+
+		const params = {
+			prefix: options.prefix,
+			limit: options.limit ?? DEFAULT_PAGE_SIZE,
+			cursor: options.cursor,
+		};
+
+		let labelsData;
+		let scope: string;
+		if (options.contentId) {
+			const contentType = options.contentType || 'page';
+			labelsData = await atlassianLabelsService.listForContent(
+				contentType,
+				options.contentId,
+				params,
+			);
+			scope = `${contentType === 'page' ? 'page' : 'blog post'} ${options.contentId}`;
+		} else if (options.spaceKey) {
+			// Space labels are only available by space ID
+			const spacesResponse = await atlassianSpacesService.list({
+				keys: [options.spaceKey],
+				limit: 1,
+			});
+			if (!spacesResponse.results?.length) {
+				throw createApiError(
+					`Space not found with key: ${options.spaceKey}. Verify the space key is correct and that you have access to this space.`,
+					404,
+				);
+			}
+			labelsData = await atlassianLabelsService.listForSpace(
+				spacesResponse.results[0].id,
+				params,
+			);
+			scope = `space ${options.spaceKey}`;
+		} else {
+			labelsData = await atlassianLabelsService.list(params);
+			scope = 'the whole site';
+		}
+
+		methodLogger.debug(
+			`Retrieved ${labelsData.results.length} labels. Has more: ${labelsData._links?.next ? 'yes' : 'no'}`,
+		);
+
+		const pagination = extractPaginationInfo(
+			labelsData,
+			PaginationType.CURSOR,
+			'Label',
+		);
+
+		let finalContent = formatLabelsList(labelsData, scope);
+
+		if (
+			pagination &&
+			(pagination.hasMore || pagination.count !== undefined)
+		) {
+			finalContent += '\n\n' + formatPagination(pagination);
+		}
+
+		return {
+			content: finalContent,
+			data: {
+				scope,
+				labels: labelsData.results.map(toLabelData),
+				...(pagination && { pagination }),
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Labels',
+			entityId: options.contentId || options.spaceKey,
+			operation: 'listing',
+			source: 'controllers/atlassian.labels.controller.ts@list',
+		});
+	}
+}
+
+/**
+ * Add labels to a page or blog post
+ * @param args - Object containing the content ID and the labels to add
+ * @param args.contentId - ID of the page or blog post
+ * @param args.labels - Names of the labels to add
+ * @returns Promise with formatted result including the content's current labels
+ * @throws Error if adding labels fails
+ */
+async function add(
+	args: AddLabelsToolArgsType,
+): Promise<ControllerResponse<OutputData<'updateLabels'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.labels.controller.ts',
+		'add',
+	);
+	const labels = normalizeLabelNames(args.labels);
+	methodLogger.debug(
+		`Adding labels to content ID ${args.contentId}: ${labels.join(', ')}`,
+	);
+
+	try {
+		const current = await atlassianLabelsService.add(
+			args.contentId,
+			labels,
+		);
+
+		return {
+			content: formatLabelsUpdate(
+				args.contentId,
+				'added',
+				labels,
+				current,
+			),
+			data: {
+				contentId: args.contentId,
+				action: 'added',
+				changed: labels,
+				labels: current.map(toLabelData),
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Labels',
+			entityId: args.contentId,
+			operation: 'adding',
+			source: 'controllers/atlassian.labels.controller.ts@add',
+			additionalInfo: { labels },
+		});
+	}
+}
+
+/**
+ * Remove labels from a page or blog post
+ * @param args - Object containing the content ID and the labels to remove
+ * @param args.contentId - ID of the page or blog post
+ * @param args.labels - Names of the labels to remove
+ * @returns Promise with formatted result
+ * @throws Error if removing a label fails
+ */
+async function remove(
+	args: RemoveLabelsToolArgsType,
+): Promise<ControllerResponse<OutputData<'updateLabels'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.labels.controller.ts',
+		'remove',
+	);
+	const labels = normalizeLabelNames(args.labels);
+	methodLogger.debug(
+		`Removing labels from content ID ${args.contentId}: ${labels.join(', ')}`,
+	);
+
+	try {
+		// The API removes one label per request
+		for (const label of labels) {
+			await atlassianLabelsService.remove(args.contentId, label);
+		}
+
+		return {
+			content: formatLabelsUpdate(args.contentId, 'removed', labels),
+			data: {
+				contentId: args.contentId,
+				action: 'removed',
+				changed: labels,
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Labels',
+			entityId: args.contentId,
+			operation: 'removing',
+			source: 'controllers/atlassian.labels.controller.ts@remove',
+			additionalInfo: { labels },
+		});
+	}
+}
+
+export default { list, add, remove };
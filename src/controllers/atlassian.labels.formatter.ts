@@ -0,0 +1,119 @@
+/**
+ * Formatter for Confluence labels
+ */
+
+import {
+	LabelSchemaType,
+	LabelsResponseType,
+} from '../services/vendor.atlassian.labels.types.js';
+import {
+	formatBulletList,
+	formatDate,
+	formatHeading,
+	formatSeparator,
+} from '../utils/formatter.util.js';
+import { LabelData } from '../types/data.types.js';
+
+/**
+ * Normalize a label for the data of a controller response
+ */
+export function toLabelData(label: LabelSchemaType): LabelData {
+	return {
+		id: label.id,
+		name: label.name,
+		...(label.prefix && { prefix: label.prefix }),
+	};
+}
+
+/**
+ * Format a single label as a list item, showing its prefix when it is not "global"
+ */
+function formatLabel(label: LabelSchemaType): string {
+	const prefix =
+		label.prefix && label.prefix !== 'global' ? ` *(${label.prefix})*` : '';
+	return `- \`${label.name}\`${prefix} (ID: ${label.id})`;
+}
+
+/**
+ * Format a list of labels for display
+ *
+ * @param labelsData - Raw labels data from the API
+ * @param scope - Human-readable description of where the labels come from (e.g., "page 123")
+ * @returns Formatted string with labels information in markdown format
+ */
+export function formatLabelsList(
+	labelsData: LabelsResponseType,
+	scope: string,
+): string {
+	if (!labelsData.results || labelsData.results.length === 0) {
+		return (
+			`No labels found for ${scope}.` +
+			'\n\n' +
+			formatSeparator() +
+			'\n' +
+			`*Information retrieved at: ${formatDate(new Date())}*`
+		);
+	}
+
+	const lines: string[] = [
+		formatHeading('Confluence Labels', 1),
+		`*Labels of ${scope}*`,
+		'',
+		...labelsData.results.map(formatLabel),
+	];
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format the result of adding or removing labels
+ *
+ * @param contentId - ID of the page or blog post
+ * @param action - Whether the labels were added or removed
+ * @param changed - Names of the labels that were added or removed
+ * @param current - All labels of the content after the change, if known
+ * @returns Formatted string with the update result in markdown format
+ */
+export function formatLabelsUpdate(
+	contentId: string,
+	action: 'added' | 'removed',
+	changed: string[],
+	current?: LabelSchemaType[],
+): string {
+	const lines: string[] = [
+		formatHeading(
+			action === 'added' ? 'Labels Added' : 'Labels Removed',
+			1,
+		),
+		'',
+		formatBulletList(
+			{
+				'Content ID': contentId,
+				[action === 'added' ? 'Added' : 'Removed']: changed
+					.map((name) => `\`${name}\``)
+					.join(', '),
+			},
+			(key) => key,
+		),
+	];
+
+	if (current) {
+		lines.push('');
+		lines.push(formatHeading('Current Labels', 2));
+		lines.push(
+			current.length > 0
+				? current.map(formatLabel).join('\n')
+				: '*No labels*',
+		);
+	}
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
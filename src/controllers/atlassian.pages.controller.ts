@@ -1,13 +1,32 @@
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
-import { createApiError, ensureMcpError } from '../utils/error.util.js';
+import {
+	createApiError,
+	createNotFoundError,
+	ensureMcpError,
+} from '../utils/error.util.js';
 import { ControllerResponse } from '../types/common.types.js';
+import { OutputData, PageTreeNodeData } from '../types/data.types.js';
 import {
 	formatPageDetails,
 	formatPagesList,
+	formatPageWriteResult,
+	formatPagePatchResult,
+	formatPageTree,
+	formatPageAncestors,
+	formatPageVersionsList,
+	formatPageVersionsDiff,
+	PageTreeNode,
+	toContentData,
+	toPageTreeNodeData,
+	toPageVersionData,
 } from './atlassian.pages.formatter.js';
+import { toLabelData } from './atlassian.labels.formatter.js';
 import atlassianPagesService from '../services/vendor.atlassian.pages.service.js';
 import atlassianSpacesService from '../services/vendor.atlassian.spaces.service.js';
+import atlassianAttachmentsService from '../services/vendor.atlassian.attachments.service.js';
+import { getAttachmentDownloadUrl } from './atlassian.attachments.formatter.js';
+import { AttachmentContentType } from '../services/vendor.atlassian.attachments.types.js';
 import { atlassianCommentsController } from './atlassian.comments.controller.js';
 import {
 	DEFAULT_PAGE_SIZE,
@@ -18,21 +37,45 @@ import {
 	ListPagesParams,
 	GetPageByIdParams,
 	BodyFormat,
+	PageBodyWrite,
+	PageDescendantSchemaType,
+	PageDetailedSchemaType,
 } from '../services/vendor.atlassian.pages.types.js';
 import {
 	extractPaginationInfo,
+	fetchPaginated,
 	PaginationType,
 } from '../utils/pagination.util.js';
 import {
 	ListPagesToolArgsType,
 	GetPageToolArgsType,
+	CreatePageToolArgsType,
+	UpdatePageToolArgsType,
+	PatchPageToolArgsType,
+	GetPageTreeToolArgsType,
+	ListPageVersionsToolArgsType,
+	DiffPageVersionsToolArgsType,
 } from '../tools/atlassian.pages.types.js';
-import { adfToMarkdown } from '../utils/adf.util.js';
+import {
+	AdfDocument,
+	adfToMarkdown,
+	markdownToAdf,
+	findAdfSection,
+	listAdfHeadings,
+	patchAdfDocument,
+	resolveAttachmentLinks,
+} from '../utils/adf.util.js';
+import { compareTexts, createUnifiedDiff } from '../utils/diff.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
+import {
+	getAtlassianCredentials,
+	isServerDeployment,
+} from '../utils/transport.util.js';
 
 /**
  * Controller for managing Confluence pages.
- * Provides functionality for listing pages and retrieving page details.
+ * Provides functionality for listing, retrieving, creating, updating and patching pages,
+ * for navigating the page tree and for comparing page versions.
  */
 
 // Create a contextualized logger for this file
@@ -43,9 +86,44 @@ const controllerLogger = Logger.forContext(
 // Log controller initialization
 controllerLogger.debug('Confluence pages controller initialized');
 
-// Simple in-memory cache for space key to ID mapping
-const spaceKeyCache: Record<string, { id: string; timestamp: number }> = {};
-const CACHE_TTL = 3600000; // 1 hour in milliseconds
+// Maximum number of descendants fetched when building a page tree
+const MAX_TREE_NODES = 500;
+
+// Maximum depth the descendants API returns in one request
+const MAX_DESCENDANTS_DEPTH = 5;
+
+/**
+ * Resolve a single space key to its numeric ID. Space lookups are served from
+ * the response cache, so repeated calls do not reach the API.
+ * @param spaceKey - The space key to resolve
+ * @returns The space ID
+ * @throws Not found error if the space key cannot be resolved
+ */
+export async function resolveSpaceId(spaceKey: string): Promise<string> {
+	const spacesResponse = await atlassianSpacesService.list({
+		keys: [spaceKey],
+		limit: 1,
+	});
+
+	const space = spacesResponse.results[0];
+	if (!space) {
+		throw createNotFoundError(
+			`Space not found with key: ${spaceKey}. Verify the space key is correct and that you have access to this space.`,
+		);
+	}
+
+	return space.id;
+}
+
+/**
+ * Whether the current site runs Confluence Server / Data Center. Page bodies
+ * are stored there in storage format and ADF is only derived from it (via
+ * Markdown), so writing that ADF back would drop macros, layouts and tables.
+ */
+function isServerSite(): boolean {
+	const credentials = getAtlassianCredentials();
+	return Boolean(credentials && isServerDeployment(credentials));
+}
 
 /**
  * List pages from Confluence with filtering options
@@ -57,12 +135,13 @@ const CACHE_TTL = 3600000; // 1 hour in milliseconds
  * @param options.sort - Sort order for results
  * @param options.limit - Maximum number of pages to return
  * @param options.cursor - Pagination cursor for subsequent requests
+ * @param options.maxItems - Collect pages of results until this many pages are found
  * @returns Promise with formatted pages list content including pagination information
  * @throws Error if page listing fails
  */
 async function list(
 	options: ListPagesToolArgsType = {},
-): Promise<ControllerResponse> {
+): Promise<ControllerResponse<OutputData<'listPages'>>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pages.controller.ts',
 		'list',
@@ -92,24 +171,9 @@ async function list(
 				`Resolving ${mergedOptions.spaceKeys.length} space keys to IDs`, // Use renamed option
 			);
 
-			const currentTime = Date.now();
-			const keysToResolve: string[] = [];
+			const keysToResolve = mergedOptions.spaceKeys;
 			const currentResolvedIds: string[] = []; // IDs resolved in this specific call
 
-			// Check cache first
-			mergedOptions.spaceKeys.forEach((key) => {
-				// Use renamed option
-				const cached = spaceKeyCache[key];
-				if (cached && currentTime - cached.timestamp < CACHE_TTL) {
-					methodLogger.debug(
-						`Using cached ID for space key "${key}": ${cached.id}`,
-					);
-					currentResolvedIds.push(cached.id);
-				} else {
-					keysToResolve.push(key);
-				}
-			});
-
 			if (keysToResolve.length > 10) {
 				methodLogger.warn(
 					`Resolving ${keysToResolve.length} space keys - this may impact performance`,
@@ -130,10 +194,6 @@ async function list(
 						// Explicitly type 'space' parameter
 						spacesResponse.results.forEach(
 							(space: { key: string; id: string }) => {
-								spaceKeyCache[space.key] = {
-									id: space.id,
-									timestamp: currentTime,
-								};
 								currentResolvedIds.push(space.id);
 							},
 						);
@@ -171,7 +231,7 @@ async function list(
 					}
 					// Otherwise log warning and continue
 					methodLogger.warn(
-						'Proceeding with directly provided IDs and any cached/resolved keys, despite resolution error.',
+						'Proceeding with directly provided IDs, despite resolution error.',
 					);
 				}
 			}
@@ -193,6 +253,7 @@ async function list(
 			return {
 				content:
 					'No pages found. Specified space keys/IDs are invalid or inaccessible.',
+				data: { pages: [] },
 			};
 		}
 
@@ -225,16 +286,26 @@ async function list(
 			params,
 		);
 
-		const pagesData = await atlassianPagesService.list(params);
-
-		methodLogger.debug(
-			`Retrieved ${pagesData.results.length} pages. Has more: ${pagesData._links?.next ? 'yes' : 'no'}`,
+		const { data: pagesData, pagination } = await fetchPaginated(
+			(cursor, remaining) =>
+				atlassianPagesService.list({
+					...params,
+					cursor,
+					limit: Math.min(
+						params.limit ?? DEFAULT_PAGE_SIZE,
+						remaining,
+					),
+				}),
+			PaginationType.CURSOR,
+			{
+				cursor: params.cursor,
+				maxItems: mergedOptions.maxItems,
+				entityType: 'Page',
+			},
 		);
 
-		const pagination = extractPaginationInfo(
-			pagesData,
-			PaginationType.CURSOR,
-			'Page',
+		methodLogger.debug(
+			`Retrieved ${pagesData.results.length} pages. Has more: ${pagination?.hasMore ? 'yes' : 'no'}`,
 		);
 
 		// Pass the results array and baseUrl to the formatter
@@ -255,6 +326,12 @@ async function list(
 
 		return {
 			content: finalContent,
+			data: {
+				pages: pagesData.results.map((page) =>
+					toContentData(page, baseUrl),
+				),
+				...(pagination && { pagination }),
+			},
 		};
 	} catch (error) {
 		throw handleControllerError(error, {
@@ -265,6 +342,76 @@ async function list(
 	}
 }
 
+/**
+ * Convert the ADF body of a page or blog post to Markdown, resolving
+ * `attachment:` placeholders to download URLs where possible
+ * @param adfValue - The atlas_doc_format body value, if any
+ * @param source - The content the body belongs to, used to look up its attachments
+ * @returns The Markdown body, or a placeholder message if no body is available
+ */
+export async function convertBodyToMarkdown(
+	adfValue: string | undefined,
+	source: { contentId: string; contentType: AttachmentContentType },
+): Promise<string> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pages.controller.ts',
+		'convertBodyToMarkdown',
+	);
+
+	if (!adfValue) {
+		methodLogger.warn(
+			`No ADF content available for ${source.contentType}`,
+			{
+				contentId: source.contentId,
+			},
+		);
+		return '*Content format not supported or unavailable*';
+	}
+
+	let markdownBody: string;
+	try {
+		markdownBody = adfToMarkdown(adfValue);
+		methodLogger.debug(
+			`Successfully converted ADF to Markdown for ${source.contentType} body`,
+		);
+	} catch (conversionError) {
+		methodLogger.error(
+			`ADF to Markdown conversion failed for ${source.contentType} body`,
+			conversionError,
+		);
+		return '*Content format not supported or unavailable*';
+	}
+
+	// Replace attachment placeholders with download URLs
+	if (markdownBody.includes('](attachment:')) {
+		try {
+			const attachmentsData = await atlassianAttachmentsService.list({
+				contentId: source.contentId,
+				contentType: source.contentType,
+				limit: 250,
+			});
+			const urls = new Map<string, string>();
+			for (const attachment of attachmentsData.results) {
+				const url = getAttachmentDownloadUrl(
+					attachment,
+					attachmentsData._links?.base,
+				);
+				if (attachment.fileId && url) {
+					urls.set(attachment.fileId, url);
+				}
+			}
+			markdownBody = resolveAttachmentLinks(markdownBody, urls);
+		} catch (error) {
+			methodLogger.warn(
+				`Failed to resolve attachment links: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			// Keep the attachment placeholders
+		}
+	}
+
+	return markdownBody;
+}
+
 /**
  * Get details of a specific Confluence page
  * @param args - Object containing the ID of the page to retrieve
@@ -272,7 +419,9 @@ async function list(
  * @returns Promise with formatted page details content
  * @throws Error if page retrieval fails
  */
-async function get(args: GetPageToolArgsType): Promise<ControllerResponse> {
+async function get(
+	args: GetPageToolArgsType,
+): Promise<ControllerResponse<OutputData<'getPage'>>> {
 	const { pageId } = args;
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.pages.controller.ts',
@@ -302,25 +451,10 @@ async function get(args: GetPageToolArgsType): Promise<ControllerResponse> {
 		);
 
 		// Convert ADF to Markdown before formatting
-		let markdownBody = '*Content format not supported or unavailable*';
-		if (pageData.body?.atlas_doc_format?.value) {
-			try {
-				markdownBody = adfToMarkdown(
-					pageData.body.atlas_doc_format.value,
-				);
-				methodLogger.debug(
-					'Successfully converted ADF to Markdown for page body',
-				);
-			} catch (conversionError) {
-				methodLogger.error(
-					'ADF to Markdown conversion failed for page body',
-					conversionError,
-				);
-				// Keep the default error message for markdownBody
-			}
-		} else {
-			methodLogger.warn('No ADF content available for page', { pageId });
-		}
+		const markdownBody = await convertBodyToMarkdown(
+			pageData.body?.atlas_doc_format?.value,
+			{ contentId: pageId, contentType: 'page' },
+		);
 
 		// Fetch recent comments for this page
 		let commentsSummary = null;
@@ -352,6 +486,14 @@ async function get(args: GetPageToolArgsType): Promise<ControllerResponse> {
 
 		return {
 			content: formattedPage,
+			data: {
+				page: {
+					...toContentData(pageData),
+					body: markdownBody,
+					labels: (pageData.labels?.results ?? []).map(toLabelData),
+				},
+				recentComments: commentsSummary?.data.comments ?? [],
+			},
 		};
 	} catch (error) {
 		throw handleControllerError(error, {
@@ -363,4 +505,739 @@ async function get(args: GetPageToolArgsType): Promise<ControllerResponse> {
 	}
 }
 
-export default { list, get };
+/**
+ * Create a new Confluence page from Markdown content
+ * @param args - Object containing the target space, parent, title and Markdown body
+ * @param args.spaceKey - Key of the space to create the page in (alternative to spaceId)
+ * @param args.spaceId - ID of the space to create the page in
+ * @param args.parentId - Optional parent page ID
+ * @param args.title - Title of the new page
+ * @param args.body - Page content in Markdown
+ * @returns Promise with formatted summary of the created page
+ * @throws Error if page creation fails
+ */
+async function create(
+	args: CreatePageToolArgsType,
+): Promise<ControllerResponse<OutputData<'writePage'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pages.controller.ts',
+		'create',
+	);
+	methodLogger.debug(`Creating Confluence page "${args.title}"...`);
+
+	try {
+		if (!args.spaceId && !args.spaceKey) {
+			throw createApiError(
+				'Either spaceId or spaceKey is required to create a page.',
+				400,
+			);
+		}
+
+		const spaceId = args.spaceId || (await resolveSpaceId(args.spaceKey!));
+
+		// Convert the Markdown body to ADF before sending it to the API
+		const adfDocument = markdownToAdf(args.body);
+
+		const pageData = await atlassianPagesService.create({
+			spaceId,
+			title: args.title,
+			...(args.parentId && { parentId: args.parentId }),
+			body: {
+				representation: 'atlas_doc_format',
+				value: JSON.stringify(adfDocument),
+			},
+		});
+
+		methodLogger.debug(`Created page: ${pageData.title} (${pageData.id})`);
+
+		return {
+			content: formatPageWriteResult(pageData, 'created'),
+			data: { page: toContentData(pageData) },
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Page',
+			entityId: args.title,
+			operation: 'creating',
+			source: 'controllers/atlassian.pages.controller.ts@create',
+			additionalInfo: {
+				spaceKey: args.spaceKey,
+				spaceId: args.spaceId,
+				parentId: args.parentId,
+			},
+		});
+	}
+}
+
+/**
+ * Update an existing Confluence page with optimistic version locking
+ * @param args - Object containing the page ID, expected version and new content
+ * @param args.pageId - The ID of the page to update
+ * @param args.version - The version the caller's changes are based on
+ * @param args.title - Optional new title (current title is kept if omitted)
+ * @param args.body - Optional new Markdown body (current body is kept if omitted)
+ * @param args.versionMessage - Optional message for the page history
+ * @returns Promise with formatted summary of the updated page
+ * @throws Error if the page was modified since the expected version or the update fails
+ */
+async function update(
+	args: UpdatePageToolArgsType,
+): Promise<ControllerResponse<OutputData<'writePage'>>> {
+	const { pageId } = args;
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pages.controller.ts',
+		'update',
+	);
+	methodLogger.debug(
+		`Updating Confluence page ${pageId} from version ${args.version}...`,
+	);
+
+	try {
+		if (args.title === undefined && args.body === undefined) {
+			throw createApiError(
+				'Nothing to update: provide a new title, body, or both.',
+				400,
+			);
+		}
+
+		// Fetch the current page to check the version and keep unchanged fields.
+		// On Server / Data Center the body is kept in its native storage format.
+		const serverSite = isServerSite();
+		const currentPage = await atlassianPagesService.get(pageId, {
+			bodyFormat: serverSite ? 'storage' : 'atlas_doc_format',
+			includeVersion: true,
+		});
+
+		const currentVersion = currentPage.version?.number;
+		if (currentVersion !== undefined && currentVersion !== args.version) {
+			throw createApiError(
+				`Version conflict: the update was based on version ${args.version}, but the page is now at version ${currentVersion}. Retrieve the page again with conf_get_page and reapply your changes to the latest content.`,
+				409,
+			);
+		}
+
+		let body: PageBodyWrite;
+		if (args.body !== undefined) {
+			body = {
+				representation: 'atlas_doc_format',
+				value: JSON.stringify(markdownToAdf(args.body)),
+			};
+		} else if (
+			serverSite &&
+			currentPage.body?.storage?.value !== undefined
+		) {
+			body = {
+				representation: 'storage',
+				value: currentPage.body.storage.value,
+			};
+		} else if (!serverSite && currentPage.body?.atlas_doc_format?.value) {
+			body = {
+				representation: 'atlas_doc_format',
+				value: currentPage.body.atlas_doc_format.value,
+			};
+		} else {
+			throw createApiError(
+				'The current page body could not be retrieved. Provide a body to replace it.',
+				400,
+			);
+		}
+
+		const pageData = await atlassianPagesService.update(pageId, {
+			title: args.title ?? currentPage.title,
+			status: currentPage.status === 'draft' ? 'draft' : 'current',
+			body,
+			version: {
+				number: args.version + 1,
+				...(args.versionMessage && { message: args.versionMessage }),
+			},
+		});
+
+		methodLogger.debug(
+			`Updated page: ${pageData.title} (${pageData.id}) to version ${pageData.version?.number}`,
+		);
+
+		return {
+			content: formatPageWriteResult(pageData, 'updated'),
+			data: { page: toContentData(pageData) },
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Page',
+			entityId: pageId,
+			operation: 'updating',
+			source: 'controllers/atlassian.pages.controller.ts@update',
+			additionalInfo: { expectedVersion: args.version },
+		});
+	}
+}
+
+/**
+ * Patch a single heading section of a Confluence page
+ * @param args - Object containing the page ID, expected version and patch details
+ * @param args.pageId - The ID of the page to patch
+ * @param args.version - The version the caller's changes are based on
+ * @param args.operation - append, replace or insertAfter
+ * @param args.heading - Heading identifying the target section
+ * @param args.content - Markdown content to insert
+ * @param args.versionMessage - Optional message for the page history
+ * @returns Promise with formatted patch summary including a diff of the changes
+ * @throws Error if the heading is not found, the version conflicts or the update fails
+ */
+async function patch(
+	args: PatchPageToolArgsType,
+): Promise<ControllerResponse<OutputData<'patchPage'>>> {
+	const { pageId } = args;
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pages.controller.ts',
+		'patch',
+	);
+	methodLogger.debug(
+		`Patching Confluence page ${pageId} (${args.operation}${args.heading ? ` "${args.heading}"` : ''})...`,
+	);
+
+	try {
+		if (isServerSite()) {
+			throw createApiError(
+				'Patching page sections is not supported on Confluence Server / Data Center, because the page would be rewritten from a Markdown conversion that drops macros, layouts and tables. Use conf_update_page with the full Markdown body instead.',
+				400,
+			);
+		}
+
+		if (args.operation !== 'append' && !args.heading) {
+			throw createApiError(
+				`A heading is required for the "${args.operation}" operation.`,
+				400,
+			);
+		}
+
+		// Fetch the current page to check the version and get its ADF tree
+		const currentPage = await atlassianPagesService.get(pageId, {
+			bodyFormat: 'atlas_doc_format',
+			includeVersion: true,
+		});
+
+		const currentVersion = currentPage.version?.number;
+		if (currentVersion !== undefined && currentVersion !== args.version) {
+			throw createApiError(
+				`Version conflict: the patch was based on version ${args.version}, but the page is now at version ${currentVersion}. Retrieve the page again with conf_get_page and reapply your changes to the latest content.`,
+				409,
+			);
+		}
+
+		const adfValue = currentPage.body?.atlas_doc_format?.value;
+		if (!adfValue) {
+			throw createApiError(
+				'The current page body could not be retrieved in ADF format, so it cannot be patched.',
+				400,
+			);
+		}
+		const currentDocument = JSON.parse(adfValue) as AdfDocument;
+
+		let section;
+		if (args.heading) {
+			section = findAdfSection(currentDocument.content, args.heading);
+			if (!section) {
+				const headings = listAdfHeadings(currentDocument.content);
+				throw createApiError(
+					`No heading matching "${args.heading}" in the page. ${
+						headings.length > 0
+							? `Available headings: ${headings.map((h) => `"${h}"`).join(', ')}.`
+							: 'The page has no headings.'
+					}`,
+					400,
+				);
+			}
+		}
+
+		const patchedDocument = patchAdfDocument(
+			currentDocument,
+			args.operation,
+			markdownToAdf(args.content).content,
+			section,
+		);
+
+		const pageData = await atlassianPagesService.update(pageId, {
+			title: currentPage.title,
+			status: currentPage.status === 'draft' ? 'draft' : 'current',
+			body: {
+				representation: 'atlas_doc_format',
+				value: JSON.stringify(patchedDocument),
+			},
+			version: {
+				number: args.version + 1,
+				...(args.versionMessage && { message: args.versionMessage }),
+			},
+		});
+
+		methodLogger.debug(
+			`Patched page: ${pageData.title} (${pageData.id}) to version ${pageData.version?.number}`,
+		);
+
+		const diff = createUnifiedDiff(
+			adfToMarkdown(currentDocument),
+			adfToMarkdown(patchedDocument),
+		);
+
+		return {
+			content: formatPagePatchResult(
+				pageData,
+				{
+					operation: args.operation,
+					heading: section?.text,
+					previousVersion: args.version,
+				},
+				diff,
+			),
+			data: {
+				page: toContentData(pageData),
+				operation: args.operation,
+				...(section && { heading: section.text }),
+				previousVersion: args.version,
+				diff,
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Page',
+			entityId: pageId,
+			operation: 'patching',
+			source: 'controllers/atlassian.pages.controller.ts@patch',
+			additionalInfo: {
+				expectedVersion: args.version,
+				operation: args.operation,
+				heading: args.heading,
+			},
+		});
+	}
+}
+
+/**
+ * Fetch the descendants of a page and assemble them into a tree
+ * @param pageId - ID of the page whose descendants to fetch
+ * @param depth - Number of levels to fetch below the page (1-5)
+ * @param budget - Maximum number of nodes to fetch
+ * @returns The direct children of the page (with nested descendants), the number
+ * of nodes fetched, and whether the budget was exhausted before the end
+ */
+async function fetchPageTree(
+	pageId: string,
+	depth: number,
+	budget: number,
+): Promise<{ children: PageTreeNode[]; fetched: number; truncated: boolean }> {
+	const descendants: PageDescendantSchemaType[] = [];
+	let cursor: string | undefined;
+	let truncated = false;
+
+	do {
+		const response = await atlassianPagesService.getDescendants(pageId, {
+			depth,
+			limit: 250,
+			cursor,
+		});
+		descendants.push(...response.results);
+
+		const nextCursor = extractPaginationInfo(
+			response,
+			PaginationType.CURSOR,
+			'Page Descendant',
+		)?.nextCursor;
+		cursor = nextCursor ? decodeURIComponent(nextCursor) : undefined;
+
+		if (cursor && descendants.length >= budget) {
+			truncated = true;
+			break;
+		}
+	} while (cursor);
+
+	// Descendants are returned flat; link them to their parents
+	const nodes = new Map<string, PageTreeNode>();
+	for (const descendant of descendants) {
+		nodes.set(descendant.id, {
+			id: descendant.id,
+			title: descendant.title || `Untitled ${descendant.type}`,
+			type: descendant.type,
+			children: [],
+		});
+	}
+
+	const children: PageTreeNode[] = [];
+	for (const descendant of descendants) {
+		const node = nodes.get(descendant.id)!;
+		if (descendant.parentId === pageId) {
+			children.push(node);
+		} else if (descendant.parentId && nodes.has(descendant.parentId)) {
+			nodes.get(descendant.parentId)!.children.push(node);
+		}
+	}
+
+	return { children, fetched: descendants.length, truncated };
+}
+
+/**
+ * Get the page hierarchy below a page or space, or the ancestors of a page
+ * @param args - Tree options
+ * @param args.pageId - ID of the page to start from
+ * @param args.spaceKey - Key of the space to show from its root-level pages
+ * @param args.mode - "descendants" (default) or "ancestors"
+ * @param args.depth - Number of levels to show in descendants mode (default 2)
+ * @returns Promise with the formatted page tree or breadcrumb
+ * @throws Error if the arguments are invalid or the tree cannot be retrieved
+ */
+async function getTree(
+	args: GetPageTreeToolArgsType,
+): Promise<ControllerResponse<OutputData<'getPageTree'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pages.controller.ts',
+		'getTree',
+	);
+	const mode = args.mode || 'descendants';
+	const depth = args.depth ?? 2;
+	methodLogger.debug('Getting page tree with options:', args);
+
+	try {
+		if (!args.pageId === !args.spaceKey) {
+			throw createApiError(
+				'Provide either pageId or spaceKey to get a page tree, not both.',
+				400,
+			);
+		}
+
+		if (mode === 'ancestors') {
+			if (!args.pageId) {
+				throw createApiError(
+					'The ancestors mode requires a pageId.',
+					400,
+				);
+			}
+
+			const [page, ancestorsData, childrenData] = await Promise.all([
+				atlassianPagesService.get(args.pageId),
+				atlassianPagesService.getAncestors(args.pageId),
+				atlassianPagesService.getDescendants(args.pageId, {
+					depth: 1,
+					limit: 250,
+				}),
+			]);
+
+			// Ancestors only carry IDs; look up the titles of ancestor pages
+			const ancestorPageIds = ancestorsData.results
+				.filter((ancestor) => (ancestor.type || 'page') === 'page')
+				.map((ancestor) => ancestor.id);
+			const titles = new Map<string, string>();
+			if (ancestorPageIds.length > 0) {
+				const ancestorPages = await atlassianPagesService.list({
+					id: ancestorPageIds,
+					limit: 250,
+				});
+				ancestorPages.results.forEach((ancestor) =>
+					titles.set(ancestor.id, ancestor.title),
+				);
+			}
+
+			const ancestors = ancestorsData.results.map((ancestor) => ({
+				id: ancestor.id,
+				type: ancestor.type || 'page',
+				title:
+					titles.get(ancestor.id) ||
+					`Untitled ${ancestor.type || 'page'}`,
+			}));
+
+			// The breadcrumb from the top of the tree down to the page
+			const nodes: PageTreeNodeData[] = ancestors.map(
+				(ancestor, index) => ({
+					...ancestor,
+					...(index > 0 && { parentId: ancestors[index - 1].id }),
+					depth: index,
+				}),
+			);
+			nodes.push({
+				id: page.id,
+				title: page.title,
+				type: 'page',
+				...(ancestors.length > 0 && {
+					parentId: ancestors[ancestors.length - 1].id,
+				}),
+				depth: ancestors.length,
+				childCount: childrenData.results.length,
+			});
+
+			return {
+				content: formatPageAncestors(
+					{ id: page.id, title: page.title, type: 'page' },
+					ancestors,
+					childrenData.results.length,
+				),
+				data: { mode, nodes, truncated: false },
+			};
+		}
+
+		if (args.pageId) {
+			const page = await atlassianPagesService.get(args.pageId);
+			// Fetch one extra level so the deepest shown nodes have child counts
+			const tree = await fetchPageTree(
+				args.pageId,
+				Math.min(depth + 1, MAX_DESCENDANTS_DEPTH),
+				MAX_TREE_NODES,
+			);
+
+			methodLogger.debug(
+				`Fetched ${tree.fetched} descendants of page ${args.pageId}`,
+			);
+
+			const roots: PageTreeNode[] = [
+				{
+					id: page.id,
+					title: page.title,
+					type: 'page',
+					children: tree.children,
+				},
+			];
+
+			return {
+				content: formatPageTree(
+					page.title,
+					roots,
+					depth,
+					tree.truncated,
+				),
+				data: {
+					mode,
+					nodes: toPageTreeNodeData(roots, depth),
+					truncated: tree.truncated,
+				},
+			};
+		}
+
+		// Space mode: start from the pages at the top of the space
+		const spaceId = await resolveSpaceId(args.spaceKey!);
+		const rootPages = await atlassianPagesService.listSpaceRootPages(
+			spaceId,
+			{ limit: 250 },
+		);
+
+		const roots: PageTreeNode[] = [];
+		let fetched = 0;
+		let truncated = Boolean(rootPages._links?.next);
+		for (const rootPage of rootPages.results) {
+			if (fetched >= MAX_TREE_NODES) {
+				truncated = true;
+				break;
+			}
+			const tree = await fetchPageTree(
+				rootPage.id,
+				Math.min(depth + 1, MAX_DESCENDANTS_DEPTH),
+				MAX_TREE_NODES - fetched,
+			);
+			fetched += tree.fetched;
+			truncated = truncated || tree.truncated;
+			roots.push({
+				id: rootPage.id,
+				title: rootPage.title,
+				type: 'page',
+				children: tree.children,
+			});
+		}
+
+		methodLogger.debug(
+			`Fetched ${roots.length} root pages and ${fetched} descendants in space ${args.spaceKey}`,
+		);
+
+		return {
+			content: formatPageTree(
+				`space ${args.spaceKey}`,
+				roots,
+				depth,
+				truncated,
+			),
+			data: {
+				mode,
+				nodes: toPageTreeNodeData(roots, depth),
+				truncated,
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Page Tree',
+			entityId: args.pageId || args.spaceKey,
+			operation: 'retrieving',
+			source: 'controllers/atlassian.pages.controller.ts@getTree',
+		});
+	}
+}
+
+/**
+ * List the version history of a page
+ * @param args - Version listing options
+ * @param args.pageId - ID of the page
+ * @param args.limit - Maximum number of versions to return
+ * @param args.cursor - Pagination cursor
+ * @returns Promise with the formatted versions (most recent first) and pagination info
+ * @throws Error if the versions cannot be retrieved
+ */
+async function listVersions(
+	args: ListPageVersionsToolArgsType,
+): Promise<ControllerResponse<OutputData<'listPageVersions'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pages.controller.ts',
+		'listVersions',
+	);
+	methodLogger.debug('Listing page versions with options:', args);
+
+	try {
+		const [pageData, versionsData] = await Promise.all([
+			atlassianPagesService.get(args.pageId, { includeVersion: true }),
+			atlassianPagesService.listVersions(args.pageId, {
+				sort: '-modified-date',
+				limit: args.limit ?? DEFAULT_PAGE_SIZE,
+				...(args.cursor && { cursor: args.cursor }),
+			}),
+		]);
+
+		methodLogger.debug(
+			`Retrieved ${versionsData.results.length} versions of page ${args.pageId}`,
+		);
+
+		const pagination = extractPaginationInfo(
+			versionsData,
+			PaginationType.CURSOR,
+			'Page Version',
+		);
+
+		let content = formatPageVersionsList(pageData, versionsData.results);
+		if (pagination && pagination.hasMore) {
+			content += '\n\n' + formatPagination(pagination);
+		}
+
+		return {
+			content,
+			data: {
+				page: toContentData(pageData),
+				versions: versionsData.results.map(toPageVersionData),
+				...(pagination && { pagination }),
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Page Versions',
+			entityId: args.pageId,
+			operation: 'listing',
+			source: 'controllers/atlassian.pages.controller.ts@listVersions',
+		});
+	}
+}
+
+/**
+ * Convert the ADF body of a page version to Markdown for comparison
+ * @param pageData - The page at a specific version, fetched with its ADF body
+ * @returns The Markdown body, or an empty string if the version has no body
+ */
+function versionBodyToMarkdown(pageData: PageDetailedSchemaType): string {
+	const adfValue = pageData.body?.atlas_doc_format?.value;
+	return adfValue ? adfToMarkdown(adfValue) : '';
+}
+
+/**
+ * Compare the content of two versions of a page
+ * @param args - Diff options
+ * @param args.pageId - ID of the page
+ * @param args.fromVersion - Older version (defaults to the version before toVersion)
+ * @param args.toVersion - Newer version (defaults to the current version)
+ * @returns Promise with the formatted unified diff of the Markdown content
+ * @throws Error if the version numbers are invalid or a version cannot be retrieved
+ */
+async function diffVersions(
+	args: DiffPageVersionsToolArgsType,
+): Promise<ControllerResponse<OutputData<'diffPageVersions'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.pages.controller.ts',
+		'diffVersions',
+	);
+	methodLogger.debug('Comparing page versions with options:', args);
+
+	try {
+		const currentPage = await atlassianPagesService.get(args.pageId, {
+			bodyFormat: 'atlas_doc_format',
+			includeVersion: true,
+		});
+		const currentVersion = currentPage.version?.number ?? 1;
+
+		const toVersion = args.toVersion ?? currentVersion;
+		const fromVersion = args.fromVersion ?? toVersion - 1;
+
+		if (toVersion > currentVersion) {
+			throw createApiError(
+				`Version ${toVersion} is newer than the current version of the page (${currentVersion}).`,
+				400,
+			);
+		}
+		if (fromVersion < 1) {
+			throw createApiError(
+				'Version 1 is the first version of the page; there is no earlier version to compare it with.',
+				400,
+			);
+		}
+		if (fromVersion >= toVersion) {
+			throw createApiError(
+				`fromVersion (${fromVersion}) must be lower than toVersion (${toVersion}).`,
+				400,
+			);
+		}
+
+		const fetchVersion = (version: number) =>
+			version === currentVersion
+				? Promise.resolve(currentPage)
+				: atlassianPagesService.get(args.pageId, {
+						bodyFormat: 'atlas_doc_format',
+						version,
+					});
+
+		const [fromPage, toPage] = await Promise.all([
+			fetchVersion(fromVersion),
+			fetchVersion(toVersion),
+		]);
+
+		const oldMarkdown = versionBodyToMarkdown(fromPage);
+		const newMarkdown = versionBodyToMarkdown(toPage);
+		const { diff, stats } = compareTexts(oldMarkdown, newMarkdown);
+
+		methodLogger.debug(
+			`Compared versions ${fromVersion} and ${toVersion} of page ${args.pageId}`,
+		);
+
+		return {
+			content: formatPageVersionsDiff(fromPage, toPage, diff, stats),
+			data: {
+				page: toContentData(toPage),
+				from: toPageVersionData(
+					fromPage.version ?? { number: fromVersion },
+				),
+				to: toPageVersionData(toPage.version ?? { number: toVersion }),
+				diff,
+				added: stats.added,
+				removed: stats.removed,
+			},
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Page Versions',
+			entityId: args.pageId,
+			operation: 'comparing',
+			source: 'controllers/atlassian.pages.controller.ts@diffVersions',
+			additionalInfo: {
+				fromVersion: args.fromVersion,
+				toVersion: args.toVersion,
+			},
+		});
+	}
+}
+
+export default {
+	list,
+	get,
+	create,
+	update,
+	patch,
+	getTree,
+	listVersions,
+	diffVersions,
+};
@@ -1,8 +1,10 @@
 import {
 	PageSchemaType,
 	PageDetailedSchemaType,
+	PageVersionSchemaType,
 } from '../services/vendor.atlassian.pages.types.js';
 import { ControllerResponse } from '../types/common.types.js';
+import { DiffStats } from '../utils/diff.util.js';
 import {
 	formatUrl,
 	formatDate,
@@ -10,11 +12,66 @@ import {
 	formatBulletList,
 	formatSeparator,
 	formatNumberedList,
+	formatCodeBlock,
 } from '../utils/formatter.util.js';
 import {
 	ensureAbsoluteConfluenceUrl,
 	resolveConfluenceBaseUrl,
 } from '../utils/url.util.js';
+import { BlogPostSchemaType } from '../services/vendor.atlassian.blogposts.types.js';
+import {
+	ContentData,
+	PageTreeNodeData,
+	PageVersionData,
+} from '../types/data.types.js';
+
+/**
+ * Normalize a page or blog post for the data of a controller response
+ * @param content - Page or blog post from the API
+ * @param baseUrl - Base URL for constructing the link, if the content has none
+ * @returns The content without its body
+ */
+export function toContentData(
+	content: PageSchemaType | BlogPostSchemaType,
+	baseUrl: string = '',
+): ContentData {
+	const parentId = 'parentId' in content ? content.parentId : undefined;
+	return {
+		id: content.id,
+		title: content.title,
+		status: content.status,
+		spaceId: content.spaceId,
+		...(parentId && { parentId }),
+		...(content.authorId && { authorId: content.authorId }),
+		createdAt: content.createdAt,
+		...(content.version && {
+			version: content.version.number,
+			lastModified: content.version.createdAt,
+		}),
+		url: ensureAbsoluteConfluenceUrl(
+			content._links?.webui ||
+				`pages/viewpage.action?pageId=${content.id}`,
+			resolveConfluenceBaseUrl(content._links?.base || baseUrl),
+		),
+	};
+}
+
+/**
+ * Normalize a page version for the data of a controller response
+ */
+export function toPageVersionData(
+	version: PageVersionSchemaType,
+): PageVersionData {
+	return {
+		number: version.number,
+		...(version.createdAt && { createdAt: version.createdAt }),
+		...(version.authorId && { authorId: version.authorId }),
+		...(version.message && { message: version.message }),
+		...(version.minorEdit !== undefined && {
+			minorEdit: version.minorEdit,
+		}),
+	};
+}
 
 /**
  * Format a list of pages for display
@@ -116,6 +173,10 @@ export function formatPageDetails(
 		'Created At': formatDate(pageData.createdAt),
 		'Author ID': pageData.authorId,
 		'Parent ID': pageData.parentId || 'None',
+		Version: pageData.version?.number ?? 'N/A',
+		'Last Modified': pageData.version?.createdAt
+			? formatDate(pageData.version.createdAt)
+			: 'N/A',
 	};
 
 	lines.push(formatBulletList(basicProperties, (key) => key));
@@ -206,3 +267,344 @@ export function formatPageDetails(
 
 	return lines.join('\n');
 }
+
+/**
+ * Format the result of a page write operation (create, update) for display
+ * @param pageData - Page returned by the API after the write
+ * @param action - Past-tense description of the operation (e.g., "created")
+ * @returns Formatted string with the page summary in markdown format
+ */
+export function formatPageWriteResult(
+	pageData: PageDetailedSchemaType,
+	action: string,
+): string {
+	const resolvedBaseUrl = resolveConfluenceBaseUrl(pageData._links.base);
+	const fullUrl = ensureAbsoluteConfluenceUrl(
+		pageData._links.webui || `pages/viewpage.action?pageId=${pageData.id}`,
+		resolvedBaseUrl,
+	);
+
+	const lines: string[] = [
+		formatHeading(`Page ${action}: ${pageData.title}`, 1),
+		'',
+	];
+
+	const properties: Record<string, unknown> = {
+		ID: pageData.id,
+		Title: pageData.title,
+		'Space ID': pageData.spaceId,
+		Status: pageData.status,
+		'Parent ID': pageData.parentId || 'None',
+		Version: pageData.version?.number ?? 'N/A',
+		URL: formatUrl(fullUrl, pageData.title),
+	};
+
+	lines.push(formatBulletList(properties, (key) => key));
+
+	// Add standard footer with timestamp
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format the result of a section-level page patch for display
+ * @param pageData - Page returned by the API after the patch
+ * @param summary - Description of the applied patch
+ * @param summary.operation - The patch operation (append, replace, insertAfter)
+ * @param summary.heading - Text of the targeted heading, if any
+ * @param summary.previousVersion - Version number before the patch
+ * @param diff - Unified diff of the page content (as Markdown) before and after the patch
+ * @returns Formatted string with the patch summary and diff in markdown format
+ */
+export function formatPagePatchResult(
+	pageData: PageDetailedSchemaType,
+	summary: { operation: string; heading?: string; previousVersion: number },
+	diff: string,
+): string {
+	const resolvedBaseUrl = resolveConfluenceBaseUrl(pageData._links.base);
+	const fullUrl = ensureAbsoluteConfluenceUrl(
+		pageData._links.webui || `pages/viewpage.action?pageId=${pageData.id}`,
+		resolvedBaseUrl,
+	);
+
+	const lines: string[] = [
+		formatHeading(`Page patched: ${pageData.title}`, 1),
+		'',
+	];
+
+	const properties: Record<string, unknown> = {
+		ID: pageData.id,
+		Operation: summary.operation,
+		'Target Heading': summary.heading || 'End of page',
+		Version: `${summary.previousVersion} → ${pageData.version?.number ?? 'N/A'}`,
+		URL: formatUrl(fullUrl, pageData.title),
+	};
+
+	lines.push(formatBulletList(properties, (key) => key));
+
+	lines.push('');
+	lines.push(formatHeading('Changes', 2));
+	lines.push(diff ? formatCodeBlock(diff, 'diff') : '*No content changes*');
+
+	// Add standard footer with timestamp
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Node of a page tree, as assembled by the controller from page descendants
+ */
+export interface PageTreeNode {
+	id: string;
+	title: string;
+	type: string;
+	children: PageTreeNode[];
+}
+
+/**
+ * Flatten a page tree into outline order for the data of a controller response
+ * @param roots - Top-level nodes of the tree
+ * @param depth - Number of levels to include (deeper nodes are only counted)
+ * @returns The nodes, each with its level and child count
+ */
+export function toPageTreeNodeData(
+	roots: PageTreeNode[],
+	depth: number,
+): PageTreeNodeData[] {
+	const nodes: PageTreeNodeData[] = [];
+	const visit = (node: PageTreeNode, level: number, parentId?: string) => {
+		nodes.push({
+			id: node.id,
+			title: node.title,
+			type: node.type,
+			...(parentId && { parentId }),
+			depth: level,
+			childCount: node.children.length,
+		});
+		if (level < depth) {
+			node.children.forEach((child) => visit(child, level + 1, node.id));
+		}
+	};
+	roots.forEach((root) => visit(root, 0));
+	return nodes;
+}
+
+/**
+ * Describe a tree node on a single line: title, type (if not a page), ID and child count
+ */
+function formatPageTreeNodeLine(
+	node: Pick<PageTreeNode, 'id' | 'title' | 'type'>,
+	childCount?: number,
+): string {
+	const type = node.type && node.type !== 'page' ? ` [${node.type}]` : '';
+	const children =
+		childCount === undefined
+			? ''
+			: `, ${childCount} ${childCount === 1 ? 'child' : 'children'}`;
+	return `**${node.title}**${type} (ID: ${node.id}${children})`;
+}
+
+/**
+ * Format a page tree as an indented outline
+ * @param title - Description of the tree root (a page title or space key)
+ * @param roots - Top-level nodes of the outline
+ * @param depth - Number of levels to show (deeper nodes are only counted)
+ * @param truncated - Whether the node limit was reached while fetching the tree
+ * @returns Formatted string with the page tree in markdown format
+ */
+export function formatPageTree(
+	title: string,
+	roots: PageTreeNode[],
+	depth: number,
+	truncated: boolean = false,
+): string {
+	const lines: string[] = [formatHeading(`Page Tree: ${title}`, 1), ''];
+
+	if (roots.length === 0) {
+		lines.push('*No pages found*');
+	}
+
+	const visit = (node: PageTreeNode, level: number) => {
+		lines.push(
+			`${'  '.repeat(level)}- ${formatPageTreeNodeLine(node, node.children.length)}`,
+		);
+		if (level < depth) {
+			node.children.forEach((child) => visit(child, level + 1));
+		}
+	};
+	roots.forEach((root) => visit(root, 0));
+
+	lines.push('');
+	if (truncated) {
+		lines.push(
+			'*The tree is too large to show completely; some pages and child counts are missing. Request a smaller depth or start from a deeper page.*',
+		);
+	}
+	lines.push(
+		'*Use a node ID as `pageId` to explore deeper or to read the page with `conf_get_page`.*',
+	);
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format the ancestors of a page as a breadcrumb and numbered path
+ * @param page - The page whose ancestors are shown
+ * @param ancestors - Ancestors from the top of the tree down to the direct parent
+ * @param childCount - Number of direct children of the page
+ * @returns Formatted string with the page ancestors in markdown format
+ */
+export function formatPageAncestors(
+	page: Pick<PageTreeNode, 'id' | 'title' | 'type'>,
+	ancestors: Pick<PageTreeNode, 'id' | 'title' | 'type'>[],
+	childCount?: number,
+): string {
+	const lines: string[] = [
+		formatHeading(`Page Ancestors: ${page.title}`, 1),
+		'',
+		[
+			...ancestors.map((ancestor) => ancestor.title),
+			`**${page.title}**`,
+		].join(' › '),
+		'',
+	];
+
+	if (ancestors.length === 0) {
+		lines.push('*This page is at the top level of its space.*');
+		lines.push('');
+	}
+
+	[...ancestors, page].forEach((node, index) => {
+		const isPage = index === ancestors.length;
+		lines.push(
+			`${'  '.repeat(index)}- ${formatPageTreeNodeLine(node, isPage ? childCount : undefined)}`,
+		);
+	});
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Describe a page version on a single line: number, date, author and message
+ */
+function formatVersionSummary(
+	version: Pick<
+		PageVersionSchemaType,
+		'number' | 'createdAt' | 'authorId' | 'message' | 'minorEdit'
+	>,
+): string {
+	const parts = [`**v${version.number}**`];
+	parts.push(version.createdAt ? formatDate(version.createdAt) : 'N/A');
+	parts.push(`by ${version.authorId || 'Unknown'}`);
+	let line = parts.join(' · ');
+	if (version.minorEdit) {
+		line += ' *(minor edit)*';
+	}
+	if (version.message) {
+		line += ` — ${version.message}`;
+	}
+	return line;
+}
+
+/**
+ * Format the version history of a page
+ * @param pageData - The page the versions belong to
+ * @param versions - Versions of the page, most recent first
+ * @returns Formatted string with one line per version in markdown format
+ */
+export function formatPageVersionsList(
+	pageData: PageDetailedSchemaType,
+	versions: PageVersionSchemaType[],
+): string {
+	const lines: string[] = [
+		formatHeading(`Page Versions: ${pageData.title}`, 1),
+		'',
+	];
+
+	if (versions.length === 0) {
+		lines.push('No versions found for this page.');
+	} else {
+		lines.push(
+			`Current version: **v${pageData.version?.number ?? 'N/A'}** (page ID: ${pageData.id})`,
+		);
+		lines.push('');
+		versions.forEach((version) =>
+			lines.push(`- ${formatVersionSummary(version)}`),
+		);
+		lines.push('');
+		lines.push(
+			'*Use `conf_diff_page_versions` with two version numbers to see what changed between them.*',
+		);
+	}
+
+	// Add standard footer with timestamp
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
+
+/**
+ * Format the differences between two versions of a page
+ * @param fromPage - The page at the older version
+ * @param toPage - The page at the newer version
+ * @param diff - Unified diff of the page content (as Markdown) between the versions
+ * @param stats - Number of lines added and removed
+ * @returns Formatted string with the version summary and diff in markdown format
+ */
+export function formatPageVersionsDiff(
+	fromPage: PageDetailedSchemaType,
+	toPage: PageDetailedSchemaType,
+	diff: string,
+	stats: DiffStats,
+): string {
+	const resolvedBaseUrl = resolveConfluenceBaseUrl(toPage._links.base);
+	const fullUrl = ensureAbsoluteConfluenceUrl(
+		toPage._links.webui || `pages/viewpage.action?pageId=${toPage.id}`,
+		resolvedBaseUrl,
+	);
+
+	const lines: string[] = [
+		formatHeading(`Page Diff: ${toPage.title}`, 1),
+		'',
+	];
+
+	const properties: Record<string, unknown> = {
+		ID: toPage.id,
+		From: fromPage.version ? formatVersionSummary(fromPage.version) : 'N/A',
+		To: toPage.version ? formatVersionSummary(toPage.version) : 'N/A',
+		Changes: `+${stats.added} / -${stats.removed} lines`,
+		URL: formatUrl(fullUrl, toPage.title),
+	};
+	if (fromPage.title !== toPage.title) {
+		properties.Title = `"${fromPage.title}" → "${toPage.title}"`;
+	}
+
+	lines.push(formatBulletList(properties, (key) => key));
+
+	lines.push('');
+	lines.push(formatHeading('Changes', 2));
+	lines.push(
+		diff
+			? formatCodeBlock(diff, 'diff')
+			: '*No content changes between these versions*',
+	);
+
+	// Add standard footer with timestamp
+	lines.push('\n\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
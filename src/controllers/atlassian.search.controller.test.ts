@@ -5,6 +5,8 @@ import {
 } from '../utils/transport.util.js';
 import { config } from '../utils/config.util.js';
 import { McpError } from '../utils/error.util.js';
+import atlassianSearchService from '../services/vendor.atlassian.search.service.js';
+import type { SearchResponseType } from '../services/vendor.atlassian.search.types.js';
 
 describe('Atlassian Search Controller', () => {
 	// Load configuration and skip all tests if Atlassian credentials are not available
@@ -437,4 +439,72 @@ describe('Atlassian Search Controller', () => {
 			).rejects.toThrow(McpError);
 		}, 15000);
 	});
+
+	describe('pagination', () => {
+		const result = (id: string) =>
+			({
+				content: { id, type: 'page', status: 'current', title: id },
+				space: {},
+				title: id,
+				excerpt: '',
+				url: '',
+				resultGlobalContainer: {},
+				breadcrumbs: [],
+				entityType: 'content',
+				iconCssClass: '',
+				lastModified: '',
+				friendlyLastModified: '',
+				score: 0,
+			}) as SearchResponseType['results'][number];
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		it('continues from a start offset and reports the total', async () => {
+			const searchMock = jest
+				.spyOn(atlassianSearchService, 'search')
+				.mockResolvedValue({
+					results: [result('1')],
+					total: 30,
+					_links: { next: '/rest/api/search?cql=x&start=26&limit=1' },
+				});
+
+			const response = await atlassianSearchController.search({
+				cql: 'type=page',
+				limit: 1,
+				cursor: '25',
+			});
+
+			expect(searchMock.mock.calls[0][0]).toMatchObject({ start: 25 });
+			expect(response.content).toContain('Showing 1 of 30 total items.');
+			expect(response.content).toContain('Use --cursor "26"');
+		});
+
+		it('follows next links when fetching all results', async () => {
+			const searchMock = jest
+				.spyOn(atlassianSearchService, 'search')
+				.mockResolvedValueOnce({
+					results: [result('1')],
+					_links: {
+						next: '/rest/api/search?next=true&cursor=abc%3D&start=1',
+					},
+				})
+				.mockResolvedValueOnce({ results: [result('2')], _links: {} });
+
+			const response = await atlassianSearchController.search({
+				cql: 'type=page',
+				fetchAll: true,
+			});
+
+			expect(searchMock).toHaveBeenCalledTimes(2);
+			expect(searchMock.mock.calls[0][0].limit).toBe(100);
+			expect(searchMock.mock.calls[1][0]).toMatchObject({
+				cursor: 'abc=',
+				start: 1,
+			});
+			expect(response.content).toContain('Showing 2 items.');
+			expect(response.content).not.toContain('More results');
+		});
+	});
 });
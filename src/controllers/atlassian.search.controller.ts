@@ -1,8 +1,12 @@
 import { Logger } from '../utils/logger.util.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
 import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
 import atlassianSearchService from '../services/vendor.atlassian.search.service.js';
-import { formatSearchResults } from './atlassian.search.formatter.js';
+import {
+	formatSearchResults,
+	toSearchResultData,
+} from './atlassian.search.formatter.js';
 import {
 	extractPaginationInfo,
 	PaginationType,
@@ -20,6 +24,35 @@ const controllerLogger = Logger.forContext(
 );
 controllerLogger.debug('Search controller initialized');
 
+// Maximum number of results collected when fetching all pages of a search
+const MAX_FETCH_ALL_RESULTS = 1000;
+
+// Page size used when fetching all pages and no limit was given
+const FETCH_ALL_PAGE_SIZE = 100;
+
+/**
+ * Turn a cursor handed out by this controller back into search parameters.
+ * Cloud continues from an opaque cursor; Server / Data Center from a numeric
+ * start offset.
+ */
+function parseCursor(cursor?: string): Pick<SearchParams, 'cursor' | 'start'> {
+	if (!cursor) {
+		return {};
+	}
+	return /^\d+$/.test(cursor) ? { start: parseInt(cursor, 10) } : { cursor };
+}
+
+/**
+ * Get the cursor to show for the page a `next` link points to
+ */
+function getNextCursor(next?: string): string | undefined {
+	if (!next) {
+		return undefined;
+	}
+	const { cursor, start } = atlassianSearchService.getNextPageParams(next);
+	return cursor ?? (start !== undefined ? start.toString() : undefined);
+}
+
 /**
  * Builds a CQL query string from provided options.
  * @param options SearchOptions containing filters.
@@ -66,7 +99,7 @@ function buildCqlQuery(options: SearchToolArgsType): string {
  */
 async function search(
 	options: SearchToolArgsType = {},
-): Promise<ControllerResponse> {
+): Promise<ControllerResponse<OutputData<'search'>>> {
 	const methodLogger = Logger.forContext(
 		'controllers/atlassian.search.controller.ts',
 		'search',
@@ -91,6 +124,7 @@ async function search(
 			return {
 				content:
 					'Please provide search criteria (CQL, title, space, etc.).',
+				data: { cql: '', results: [] },
 			};
 		}
 
@@ -98,26 +132,61 @@ async function search(
 
 		const params: SearchParams = {
 			cql: finalCql,
-			limit: mergedOptions.limit,
-			cursor: mergedOptions.cursor,
+			limit:
+				mergedOptions.fetchAll && !options.limit
+					? FETCH_ALL_PAGE_SIZE
+					: mergedOptions.limit,
+			...parseCursor(mergedOptions.cursor),
 			excerpt: 'highlight',
 			includeArchivedSpaces: false,
 		};
 
-		const searchData = await atlassianSearchService.search(params);
+		let searchData = await atlassianSearchService.search(params);
+		const results = [...searchData.results];
+
+		// Follow the next links until the results run out or the cap is reached
+		while (
+			mergedOptions.fetchAll &&
+			typeof searchData._links?.next === 'string' &&
+			searchData.results.length > 0 &&
+			results.length < MAX_FETCH_ALL_RESULTS
+		) {
+			searchData = await atlassianSearchService.search({
+				...params,
+				...atlassianSearchService.getNextPageParams(
+					searchData._links.next,
+				),
+				limit: Math.min(
+					params.limit ?? DEFAULT_PAGE_SIZE,
+					MAX_FETCH_ALL_RESULTS - results.length,
+				),
+			});
+			results.push(...searchData.results);
+		}
+
+		const nextLink =
+			typeof searchData._links?.next === 'string'
+				? searchData._links.next
+				: undefined;
 
 		methodLogger.debug(
-			`Retrieved ${searchData.results.length} search results. Has more: ${searchData._links?.next ? 'yes' : 'no'}`,
+			`Retrieved ${results.length} search results. Has more: ${nextLink ? 'yes' : 'no'}`,
 		);
 
 		const pagination = extractPaginationInfo(
-			searchData,
+			{ ...searchData, results },
 			PaginationType.CURSOR,
 			'Search',
 		);
+		if (pagination) {
+			pagination.nextCursor = getNextCursor(nextLink);
+		}
 
 		// Format the search results
-		const formattedResults = formatSearchResults(searchData.results);
+		let formattedResults = formatSearchResults(results);
+		if (mergedOptions.fetchAll && nextLink) {
+			formattedResults += `\n\n*Stopped after ${results.length} results, the maximum fetched at once. Narrow the query or continue from the cursor below.*`;
+		}
 
 		// Prepare the complete content string with CQL and pagination information
 		let finalContent = '';
@@ -141,6 +210,11 @@ async function search(
 
 		return {
 			content: finalContent,
+			data: {
+				cql: finalCql,
+				results: results.map(toSearchResultData),
+				...(pagination && { pagination }),
+			},
 		};
 	} catch (error) {
 		const mcpError = ensureMcpError(error);
@@ -161,6 +235,7 @@ async function search(
 					spaceKey: options.spaceKey,
 					limit: options.limit,
 					cursor: options.cursor,
+					fetchAll: options.fetchAll,
 				},
 			),
 		);
@@ -7,6 +7,36 @@ import {
 	formatDate,
 } from '../utils/formatter.util.js';
 import { ensureAbsoluteConfluenceUrl } from '../utils/url.util.js';
+import { SearchResultData } from '../types/data.types.js';
+
+/**
+ * Normalize a search result for the data of a controller response
+ * @param result - Raw search result from the API
+ * @returns The result with the fields of its content and space flattened
+ */
+export function toSearchResultData(result: SearchResultType): SearchResultData {
+	const id = result.content?.id || result.id;
+	const type = result.content?.type || result.entityType;
+	const spaceName = result.space?.name || result.resultGlobalContainer?.title;
+	const rawUrl =
+		result.url ||
+		result.content?._links?.webui ||
+		result.resultGlobalContainer?.displayUrl;
+	const excerpt = result.excerpt || result.content?.excerpt?.content;
+	const lastModified = result.lastModified || result.content?.lastModified;
+
+	return {
+		...(typeof id === 'string' && { id }),
+		title: result.title || result.content?.title || 'Untitled Result',
+		...(type && { type }),
+		...(result.content?.status && { status: result.content.status }),
+		...(result.space?.id && { spaceId: result.space.id }),
+		...(spaceName && { spaceName }),
+		...(excerpt && { excerpt }),
+		...(lastModified && { lastModified }),
+		...(rawUrl && { url: ensureAbsoluteConfluenceUrl(rawUrl) }),
+	};
+}
 
 /**
  * Format search results for display
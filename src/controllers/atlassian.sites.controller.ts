@@ -0,0 +1,97 @@
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
+import {
+	getAtlassianCredentials,
+	isServerDeployment,
+	AtlassianCredentials,
+} from '../utils/transport.util.js';
+import { resolveConfluenceBaseUrl } from '../utils/url.util.js';
+import { formatSitesList, SiteSummary } from './atlassian.sites.formatter.js';
+
+/**
+ * Controller for configured Confluence site profiles.
+ * Lists the sites this server can work with so that callers can pick one.
+ */
+
+/**
+ * Describe how requests to a site are authenticated, without revealing secrets
+ */
+function describeAuthentication(credentials: AtlassianCredentials): string {
+	if (credentials.oauthTokens) {
+		return 'OAuth 2.0';
+	}
+	if (credentials.personalAccessToken) {
+		return 'Personal Access Token';
+	}
+	if (credentials.userEmail && credentials.apiToken) {
+		return `API token (${credentials.userEmail})`;
+	}
+	return 'Anonymous';
+}
+
+/**
+ * Summarize a site profile as seen from the current request
+ */
+function summarizeSite(name: string, current: string): SiteSummary {
+	return config.withSite(name, () => {
+		try {
+			const credentials = getAtlassianCredentials();
+			return {
+				name,
+				url: credentials ? resolveConfluenceBaseUrl() : undefined,
+				deployment: credentials
+					? isServerDeployment(credentials)
+						? 'Server / Data Center'
+						: 'Cloud'
+					: undefined,
+				authentication: credentials
+					? describeAuthentication(credentials)
+					: 'Not configured',
+				current: name === current,
+			};
+		} catch (error) {
+			return {
+				name,
+				url: resolveConfluenceBaseUrl() || undefined,
+				authentication: `Unavailable: ${error instanceof Error ? error.message : String(error)}`,
+				current: name === current,
+			};
+		}
+	});
+}
+
+/**
+ * List the configured site profiles
+ * @returns Promise with formatted site list content
+ * @throws Error if the sites cannot be listed
+ */
+async function list(): Promise<ControllerResponse<OutputData<'listSites'>>> {
+	const methodLogger = Logger.forContext(
+		'controllers/atlassian.sites.controller.ts',
+		'list',
+	);
+
+	try {
+		const current = config.getSite();
+		const sites = config
+			.getSiteNames()
+			.map((name) => summarizeSite(name, current));
+		methodLogger.debug(`Listing ${sites.length} configured sites`);
+
+		return {
+			content: formatSitesList(sites),
+			data: { sites },
+		};
+	} catch (error) {
+		throw handleControllerError(error, {
+			entityType: 'Sites',
+			operation: 'listing',
+			source: 'controllers/atlassian.sites.controller.ts@list',
+		});
+	}
+}
+
+export default { list };
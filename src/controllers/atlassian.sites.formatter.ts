@@ -0,0 +1,58 @@
+/**
+ * Formatter for configured Confluence site profiles
+ */
+
+import {
+	formatBulletList,
+	formatDate,
+	formatHeading,
+	formatSeparator,
+} from '../utils/formatter.util.js';
+
+/**
+ * Summary of a configured site profile, without any secrets
+ */
+export interface SiteSummary {
+	name: string;
+	url?: string;
+	deployment?: 'Cloud' | 'Server / Data Center';
+	authentication: string;
+	current: boolean;
+}
+
+/**
+ * Format the list of configured site profiles
+ *
+ * @param sites - Summaries of the configured sites
+ * @returns Formatted string with site information in markdown format
+ */
+export function formatSitesList(sites: SiteSummary[]): string {
+	const lines: string[] = [formatHeading('Confluence Sites', 1), ''];
+
+	for (const site of sites) {
+		lines.push(
+			formatHeading(
+				site.current ? `${site.name} (current)` : site.name,
+				2,
+			),
+		);
+		lines.push(
+			formatBulletList({
+				URL: site.url || 'Not configured',
+				Deployment: site.deployment,
+				Authentication: site.authentication,
+			}),
+		);
+		lines.push('');
+	}
+
+	lines.push(
+		'Pass the site name as `site` to any tool (or `--site` in the CLI) to work with that site.',
+	);
+
+	// Add standard footer with timestamp
+	lines.push('\n' + formatSeparator());
+	lines.push(`*Information retrieved at: ${formatDate(new Date())}*`);
+
+	return lines.join('\n');
+}
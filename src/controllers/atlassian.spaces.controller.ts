@@ -6,8 +6,12 @@ import atlassianPagesService from '../services/vendor.atlassian.pages.service.js
 import {
 	formatSpacesList,
 	formatSpaceDetails,
+	toSpaceData,
 } from '../controllers/atlassian.spaces.formatter.js';
+import { toContentData } from './atlassian.pages.formatter.js';
+import { toLabelData } from './atlassian.labels.formatter.js';
 import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
 import atlassianPagesController from './atlassian.pages.controller.js';
 import {
 	DEFAULT_PAGE_SIZE,
@@ -23,10 +27,7 @@ import {
 	GetSpaceToolArgsType,
 	ListSpacesOptions,
 } from '../tools/atlassian.spaces.types.js';
-import {
-	extractPaginationInfo,
-	PaginationType,
-} from '../utils/pagination.util.js';
+import { fetchPaginated, PaginationType } from '../utils/pagination.util.js';
 import { formatPagination } from '../utils/formatter.util.js';
 
 /**
@@ -41,12 +42,13 @@ import { formatPagination } from '../utils/formatter.util.js';
  * @param options.status - Filter by space status (current, archived)
  * @param options.limit - Maximum number of spaces to return
  * @param options.cursor - Pagination cursor for subsequent requests
+ * @param options.maxItems - Collect pages of results until this many spaces are found
  * @returns Promise with formatted spaces list content including pagination information
  * @throws Error if space listing fails
  */
 async function list(
 	options: ListSpacesOptions = {},
-): Promise<ControllerResponse> {
+): Promise<ControllerResponse<OutputData<'listSpaces'>>> {
 	const controllerLogger = Logger.forContext(
 		'controllers/atlassian.spaces.controller.ts',
 		'list',
@@ -88,18 +90,28 @@ async function list(
 
 		controllerLogger.debug('Using params:', params);
 
-		const spacesData = await atlassianSpacesService.list(params);
+		// Fetch one page, or several when maxItems is given
+		const { data: spacesData, pagination } = await fetchPaginated(
+			(cursor, remaining) =>
+				atlassianSpacesService.list({
+					...params,
+					cursor,
+					limit: Math.min(
+						params.limit ?? DEFAULT_PAGE_SIZE,
+						remaining,
+					),
+				}),
+			PaginationType.CURSOR,
+			{
+				cursor: params.cursor,
+				maxItems: mergedOptions.maxItems,
+				entityType: 'Space',
+			},
+		);
 
 		// Log only summary information
 		controllerLogger.debug(
-			`Retrieved ${spacesData.results.length} spaces. Has more: ${spacesData._links?.next ? 'yes' : 'no'}`,
-		);
-
-		// Extract pagination info using the utility
-		const pagination = extractPaginationInfo(
-			spacesData,
-			PaginationType.CURSOR,
-			'Space',
+			`Retrieved ${spacesData.results.length} spaces. Has more: ${pagination?.hasMore ? 'yes' : 'no'}`,
 		);
 
 		// Format the spaces data using the formatter
@@ -119,6 +131,12 @@ async function list(
 
 		return {
 			content: finalContent,
+			data: {
+				spaces: spacesData.results.map((space) =>
+					toSpaceData(space, spacesData._links?.base),
+				),
+				...(pagination && { pagination }),
+			},
 		};
 	} catch (error) {
 		// Use the standardized error handler
@@ -137,7 +155,9 @@ async function list(
  * @returns Promise with formatted space details content
  * @throws Error if space retrieval fails
  */
-async function get(args: GetSpaceToolArgsType): Promise<ControllerResponse> {
+async function get(
+	args: GetSpaceToolArgsType,
+): Promise<ControllerResponse<OutputData<'getSpace'>>> {
 	const { spaceKey } = args;
 	const controllerLogger = Logger.forContext(
 		'controllers/atlassian.spaces.controller.ts',
@@ -195,6 +215,7 @@ async function get(args: GetSpaceToolArgsType): Promise<ControllerResponse> {
 
 		// Get homepage content if available
 		let homepageContent = '';
+		let homepage: OutputData<'getSpace'>['space']['homepage'];
 		if (spaceData.homepageId) {
 			try {
 				controllerLogger.debug(
@@ -204,32 +225,8 @@ async function get(args: GetSpaceToolArgsType): Promise<ControllerResponse> {
 					pageId: spaceData.homepageId,
 				});
 
-				// Extract content from the homepage result
-				const content = homepageResult.content;
-				// Look for the Content section or any main content
-				const contentMatch =
-					content.match(/## Content\n([\s\S]*?)(?=\n## |$)/) ||
-					content.match(/# .*?\n([\s\S]*?)(?=\n# |$)/);
-
-				if (contentMatch && contentMatch[1]) {
-					homepageContent = contentMatch[1].trim();
-					controllerLogger.debug(
-						'Successfully extracted homepage content section',
-					);
-				} else {
-					// If no specific content section found, use everything after the title
-					const titleMatch = content.match(/# .*?\n([\s\S]*)/);
-					if (titleMatch && titleMatch[1]) {
-						homepageContent = titleMatch[1].trim();
-						controllerLogger.debug(
-							'Extracted homepage content from title section',
-						);
-					} else {
-						controllerLogger.debug(
-							'No content sections found in homepage',
-						);
-					}
-				}
+				homepageContent = homepageResult.data.page.body.trim();
+				homepage = { id: spaceData.homepageId, body: homepageContent };
 			} catch (error) {
 				controllerLogger.warn(
 					`Failed to fetch homepage content: ${error instanceof Error ? error.message : String(error)}`,
@@ -271,6 +268,16 @@ async function get(args: GetSpaceToolArgsType): Promise<ControllerResponse> {
 
 		return {
 			content: formattedSpace,
+			data: {
+				space: {
+					...toSpaceData(spaceData),
+					...(homepage && { homepage }),
+					recentPages: (topLevelPagesData?.results ?? []).map(
+						(page) => toContentData(page, spaceData._links.base),
+					),
+					labels: (spaceData.labels?.results ?? []).map(toLabelData),
+				},
+			},
 		};
 	} catch (error) {
 		// Use the standardized error handler
@@ -16,6 +16,36 @@ import {
 	ensureAbsoluteConfluenceUrl,
 	resolveConfluenceBaseUrl,
 } from '../utils/url.util.js';
+import { SpaceData } from '../types/data.types.js';
+
+/**
+ * Normalize a space for the data of a controller response
+ * @param space - Space from the API
+ * @param baseUrl - Base URL for constructing the link, if the space has none
+ * @returns The space with its description as text and an absolute URL
+ */
+export function toSpaceData(
+	space: z.infer<typeof SpacesResponseSchema>['results'][number],
+	baseUrl: string = '',
+): SpaceData {
+	const description =
+		space.description?.view?.value?.trim() ||
+		space.description?.plain?.value?.trim();
+	return {
+		id: space.id,
+		key: space.key,
+		name: space.name,
+		type: space.type,
+		status: space.status,
+		...(description && { description }),
+		...(space.homepageId && { homepageId: space.homepageId }),
+		createdAt: space.createdAt,
+		url: ensureAbsoluteConfluenceUrl(
+			space._links?.webui || `spaces/${space.key}`,
+			resolveConfluenceBaseUrl(space._links?.base || baseUrl),
+		),
+	};
+}
 
 /**
  * Format a list of spaces for display
@@ -4,6 +4,7 @@ import {
 	buildErrorContext,
 } from '../utils/error-handler.util.js';
 import { ControllerResponse } from '../types/common.types.js';
+import { OutputData } from '../types/data.types.js';
 import atlassianSearchService from '../services/vendor.atlassian.search.service.js';
 import {
 	SearchParams,
@@ -14,6 +15,7 @@ import {
 	formatUniversalSearchResults,
 	UniversalSearchSectionKey,
 } from './atlassian.universal-search.formatter.js';
+import { toSearchResultData } from './atlassian.search.formatter.js';
 import { UniversalSearchToolArgsType } from '../tools/atlassian.universal-search.types.js';
 import { ensureMcpError } from '../utils/error.util.js';
 
@@ -132,7 +134,7 @@ async function executeSearchForType(
 
 async function search(
 	options: UniversalSearchToolArgsType,
-): Promise<ControllerResponse> {
+): Promise<ControllerResponse<OutputData<'universalSearch'>>> {
 	const methodLogger = controllerLogger.forMethod('search');
 	methodLogger.debug('Received universal search options:', options);
 
@@ -141,6 +143,7 @@ async function search(
 		return {
 			content:
 				'Please provide a search query (for example: `--query "design"`).',
+			data: { query: '', results: {} },
 		};
 	}
 
@@ -168,6 +171,7 @@ async function search(
 			return {
 				content:
 					'No content types selected. Enable at least one type (pages, spaces, blog posts, attachments, or comments).',
+				data: { query: normalizedOptions.query, results: {} },
 			};
 		}
 
@@ -205,7 +209,15 @@ async function search(
 			results: resultsByType,
 		});
 
-		return { content };
+		const data: OutputData<'universalSearch'> = {
+			query: normalizedOptions.query,
+			results: {},
+		};
+		for (const type of includedTypes) {
+			data.results[type] = resultsByType[type].map(toSearchResultData);
+		}
+
+		return { content, data };
 	} catch (error) {
 		const mcpError = ensureMcpError(error);
 		if (mcpError.statusCode === 400) {
@@ -4,19 +4,43 @@ import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Logger } from './utils/logger.util.js';
 import { config } from './utils/config.util.js';
+import { McpError } from './utils/error.util.js';
 import { VERSION, PACKAGE_NAME } from './utils/constants.util.js';
 import { runCli } from './cli/index.js';
+import {
+	RequestContext,
+	resolveRequestCredentials,
+	runWithRequestContext,
+} from './utils/request-context.util.js';
+import {
+	AtlassianCredentials,
+	fetchAtlassian,
+} from './utils/transport.util.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import type { Request, Response } from 'express';
 import express from 'express';
 import cors from 'cors';
+import { randomUUID, createHash } from 'crypto';
 
 // Import Confluence-specific tools
 import atlassianSpacesTools from './tools/atlassian.spaces.tool.js';
 import atlassianPagesTools from './tools/atlassian.pages.tool.js';
+import atlassianBlogPostsTools from './tools/atlassian.blogposts.tool.js';
 import atlassianSearchTools from './tools/atlassian.search.tool.js';
 import atlassianUniversalSearchTools from './tools/atlassian.universal-search.tool.js';
 import atlassianCommentsTools from './tools/atlassian.comments.tool.js';
 import atlassianInlineCommentsTools from './tools/atlassian.inline-comments.tool.js';
+import atlassianAttachmentsTools from './tools/atlassian.attachments.tool.js';
+import atlassianLabelsTools from './tools/atlassian.labels.tool.js';
+import atlassianSitesTools from './tools/atlassian.sites.tool.js';
+
+// Import Confluence-specific resources
+import atlassianSpacesResources from './resources/atlassian.spaces.resource.js';
+import atlassianPagesResources from './resources/atlassian.pages.resource.js';
+import atlassianSubscriptions from './resources/atlassian.subscriptions.resource.js';
+
+// Import Confluence workflow prompts
+import atlassianWorkflowPrompts from './prompts/atlassian.workflows.prompt.js';
 
 // Create a contextualized logger for this file
 const indexLogger = Logger.forContext('index.ts');
@@ -30,15 +54,205 @@ let transportInstance:
 	| StdioServerTransport
 	| null = null;
 
+/**
+ * An MCP session on the HTTP transport, with its own server and the identity
+ * of the client that opened it
+ */
+interface HttpSession {
+	server: McpServer;
+	transport: StreamableHTTPServerTransport;
+	/**
+	 * Hash of the Authorization header the credentials were resolved from
+	 */
+	authFingerprint?: string;
+	credentials?: AtlassianCredentials;
+	/**
+	 * Site and user the credentials belong to; a new Authorization header must
+	 * identify the same user
+	 */
+	identity?: string;
+	/**
+	 * Requests of the session still being handled, including open event streams
+	 */
+	openRequests: number;
+	/**
+	 * Closes the session once it has been idle for too long
+	 */
+	idleTimer?: NodeJS.Timeout;
+}
+
+const httpSessions = new Map<string, HttpSession>();
+
+const DEFAULT_SESSION_IDLE_SECONDS = 30 * 60;
+
+/**
+ * Create an MCP server with all Confluence tools, resources and prompts registered
+ * @param getContext Request context that polls for resource subscriptions run
+ * with, for HTTP sessions
+ */
+function createMcpServer(getContext?: () => RequestContext): McpServer {
+	const serverLogger = Logger.forContext('index.ts', 'createMcpServer');
+
+	const server = new McpServer({
+		name: PACKAGE_NAME,
+		version: VERSION,
+	});
+
+	// Register tools
+	serverLogger.info('Registering MCP tools...');
+
+	atlassianSpacesTools.registerTools(server);
+	serverLogger.debug('Registered Spaces tools');
+
+	atlassianPagesTools.registerTools(server);
+	serverLogger.debug('Registered Pages tools');
+
+	atlassianBlogPostsTools.registerTools(server);
+	serverLogger.debug('Registered Blog Posts tools');
+
+	atlassianSearchTools.registerTools(server);
+	serverLogger.debug('Registered Search tools');
+
+	atlassianUniversalSearchTools.registerTools(server);
+	serverLogger.debug('Registered Universal Search tools');
+
+	atlassianCommentsTools.registerTools(server);
+	serverLogger.debug('Registered Comments tools');
+
+	atlassianInlineCommentsTools.registerTools(server);
+	serverLogger.debug('Registered Inline Comments tools');
+
+	atlassianAttachmentsTools.registerTools(server);
+	serverLogger.debug('Registered Attachments tools');
+
+	atlassianLabelsTools.registerTools(server);
+	serverLogger.debug('Registered Labels tools');
+
+	atlassianSitesTools.registerTools(server);
+	serverLogger.debug('Registered Sites tools');
+
+	serverLogger.info('All tools registered successfully');
+
+	// Register resources
+	serverLogger.info('Registering MCP resources...');
+
+	atlassianSpacesResources.registerResources(server);
+	serverLogger.debug('Registered Spaces resources');
+
+	atlassianPagesResources.registerResources(server);
+	serverLogger.debug('Registered Pages resources');
+
+	atlassianSubscriptions.registerSubscriptions(server, getContext);
+	serverLogger.debug('Registered resource subscriptions');
+
+	serverLogger.info('All resources registered successfully');
+
+	// Register prompts
+	atlassianWorkflowPrompts.registerPrompts(server);
+	serverLogger.info('All prompts registered successfully');
+	return server;
+}
+
+/**
+ * Hash an Authorization header so it can be compared without keeping it around
+ */
+function fingerprintAuthorization(authorization?: string): string | undefined {
+	return authorization
+		? createHash('sha256').update(authorization).digest('hex')
+		: undefined;
+}
+
+/**
+ * Identify the site and user that credentials act for, with a lookup of the
+ * current user
+ * @param credentials Credentials forwarded by a client
+ * @returns The identity, e.g. "example:5b10ac8d82e05b22cc7d4ef5"
+ */
+async function identifyCredentials(
+	credentials: AtlassianCredentials,
+): Promise<string> {
+	const user = await fetchAtlassian<{
+		accountId?: string;
+		userKey?: string;
+		username?: string;
+	}>(credentials, '/wiki/rest/api/user/current', { cache: false });
+	return `${credentials.siteName}:${user.accountId || user.userKey || user.username || 'anonymous'}`;
+}
+
+/**
+ * Get how long an HTTP session may go without requests before it is closed,
+ * from ATLASSIAN_SESSION_IDLE_SECONDS (default 30 minutes)
+ */
+function getSessionIdleMs(): number {
+	const seconds = Number(config.get('ATLASSIAN_SESSION_IDLE_SECONDS'));
+	return (
+		(Number.isFinite(seconds) && seconds > 0
+			? seconds
+			: DEFAULT_SESSION_IDLE_SECONDS) * 1000
+	);
+}
+
+/**
+ * Close an HTTP session, stopping its subscription polls
+ */
+async function closeHttpSession(session: HttpSession): Promise<void> {
+	clearTimeout(session.idleTimer);
+	await session.transport.close();
+	await session.server.close();
+}
+
+/**
+ * Track a request of an HTTP session. Once the session has no open requests
+ * left, it is closed unless another request arrives within the idle timeout,
+ * so abandoned sessions do not keep their servers and polls forever.
+ */
+function trackSessionRequest(session: HttpSession, res: Response): void {
+	const sessionLogger = Logger.forContext('index.ts', 'trackSessionRequest');
+
+	clearTimeout(session.idleTimer);
+	session.openRequests++;
+	res.on('close', () => {
+		session.openRequests--;
+		const id = session.transport.sessionId;
+		if (session.openRequests > 0 || !id || !httpSessions.has(id)) {
+			return;
+		}
+		session.idleTimer = setTimeout(() => {
+			sessionLogger.info(`Closing idle MCP session ${id}`);
+			closeHttpSession(session).catch((error) =>
+				sessionLogger.error(`Failed to close MCP session ${id}`, error),
+			);
+		}, getSessionIdleMs());
+		session.idleTimer.unref();
+	});
+}
+
+/**
+ * Send a JSON-RPC error response from the HTTP endpoint
+ */
+function sendJsonRpcError(res: Response, status: number, message: string) {
+	res.status(status).json({
+		jsonrpc: '2.0',
+		error: { code: -32000, message },
+		id: null,
+	});
+}
+
 /**
  * Start the MCP server with the specified transport mode
  *
- * @param mode The transport mode to use (stdio or sse)
- * @returns Promise that resolves to the server instance when started successfully
+ * In HTTP mode every MCP session gets its own server. Clients may send their own
+ * Atlassian credentials in the Authorization header; requests of that session
+ * then run with those credentials instead of the process-wide configuration.
+ * Sessions without requests for ATLASSIAN_SESSION_IDLE_SECONDS are closed.
+ *
+ * @param mode The transport mode to use (stdio or http)
+ * @returns Promise that resolves to the server instance in STDIO mode, or null in
+ * HTTP mode once the listener is running
  */
 export async function startServer(
 	mode: 'stdio' | 'http' = 'stdio',
-): Promise<McpServer> {
+): Promise<McpServer | null> {
 	// Create method-level logger with more specific context
 	const serverLogger = Logger.forContext('index.ts', 'startServer');
 
@@ -60,36 +274,10 @@ export async function startServer(
 	serverLogger.debug(`Config DEBUG value: ${config.get('DEBUG')}`);
 
 	serverLogger.info(`Initializing Confluence MCP server v${VERSION}`);
-	serverInstance = new McpServer({
-		name: PACKAGE_NAME,
-		version: VERSION,
-	});
-
-	// Register tools
-	serverLogger.info('Registering MCP tools...');
-
-	atlassianSpacesTools.registerTools(serverInstance);
-	serverLogger.debug('Registered Spaces tools');
-
-	atlassianPagesTools.registerTools(serverInstance);
-	serverLogger.debug('Registered Pages tools');
-
-	atlassianSearchTools.registerTools(serverInstance);
-	serverLogger.debug('Registered Search tools');
-
-	atlassianUniversalSearchTools.registerTools(serverInstance);
-	serverLogger.debug('Registered Universal Search tools');
-
-	atlassianCommentsTools.registerTools(serverInstance);
-	serverLogger.debug('Registered Comments tools');
-
-	atlassianInlineCommentsTools.registerTools(serverInstance);
-	serverLogger.debug('Registered Inline Comments tools');
-
-	serverLogger.info('All tools registered successfully');
 
 	if (mode === 'stdio') {
 		serverLogger.info('Using STDIO transport for MCP communication');
+		serverInstance = createMcpServer();
 		transportInstance = new StdioServerTransport();
 
 		try {
@@ -113,33 +301,128 @@ export async function startServer(
 		);
 
 		const app = express();
-		app.use(cors());
+		app.use(cors({ exposedHeaders: ['mcp-session-id'] }));
 		app.use(express.json());
 
 		const mcpEndpoint = '/mcp';
 		serverLogger.debug(`MCP endpoint: ${mcpEndpoint}`);
 
-		// Create transport instance
-		const transport = new StreamableHTTPServerTransport({
-			sessionIdGenerator: undefined,
-		});
+		// Handle all MCP requests, routing each to its session
+		app.all(mcpEndpoint, async (req: Request, res: Response) => {
+			const sessionId = req.header('mcp-session-id');
+			const authorization = req.header('authorization');
+			const authFingerprint = fingerprintAuthorization(authorization);
+
+			try {
+				let session = sessionId
+					? httpSessions.get(sessionId)
+					: undefined;
+
+				if (sessionId && !session) {
+					sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+					return;
+				}
+
+				if (!session) {
+					if (
+						req.method !== 'POST' ||
+						!isInitializeRequest(req.body)
+					) {
+						sendJsonRpcError(
+							res,
+							400,
+							'Missing mcp-session-id header. Send an initialize request first.',
+						);
+						return;
+					}
 
-		// Connect server to transport
-		await serverInstance.connect(transport);
-		transportInstance = transport;
-
-		// Handle all MCP requests
-		app.all(mcpEndpoint, (req: Request, res: Response) => {
-			transport
-				.handleRequest(req, res, req.body)
-				.catch((err: unknown) => {
-					serverLogger.error('Error in transport.handleRequest', err);
-					if (!res.headersSent) {
-						res.status(500).json({
-							error: 'Internal Server Error',
-						});
+					const credentials =
+						await resolveRequestCredentials(authorization);
+					const newSession: HttpSession = {
+						// Subscription polls run outside of requests, so they need the session's credentials
+						server: createMcpServer(() => ({
+							sessionId: newSession.transport.sessionId,
+							credentials: newSession.credentials,
+						})),
+						transport: new StreamableHTTPServerTransport({
+							sessionIdGenerator: () => randomUUID(),
+							onsessioninitialized: (id) => {
+								httpSessions.set(id, newSession);
+								serverLogger.debug(`Opened MCP session ${id}`);
+							},
+						}),
+						authFingerprint,
+						credentials,
+						identity:
+							credentials &&
+							(await identifyCredentials(credentials)),
+						openRequests: 0,
+					};
+					newSession.transport.onclose = () => {
+						clearTimeout(newSession.idleTimer);
+						const id = newSession.transport.sessionId;
+						if (id && httpSessions.delete(id)) {
+							serverLogger.debug(`Closed MCP session ${id}`);
+						}
+					};
+					await newSession.server.connect(newSession.transport);
+					session = newSession;
+				} else if (authFingerprint !== session.authFingerprint) {
+					// A session keeps the identity it was opened with, but clients
+					// may rotate their token (e.g. after an OAuth refresh)
+					if (!authorization) {
+						sendJsonRpcError(
+							res,
+							401,
+							'This session requires an Authorization header.',
+						);
+						return;
+					}
+					const credentials =
+						await resolveRequestCredentials(authorization);
+					if (
+						!session.identity ||
+						!credentials ||
+						(await identifyCredentials(credentials)) !==
+							session.identity
+					) {
+						sendJsonRpcError(
+							res,
+							403,
+							'The Authorization header belongs to another user than the one who opened this session. Open a new session instead.',
+						);
+						return;
 					}
-				});
+					session.credentials = credentials;
+					session.authFingerprint = authFingerprint;
+				}
+
+				trackSessionRequest(session, res);
+
+				const activeSession = session;
+				await runWithRequestContext(
+					{
+						sessionId: activeSession.transport.sessionId,
+						credentials: activeSession.credentials,
+					},
+					() =>
+						activeSession.transport.handleRequest(
+							req,
+							res,
+							req.body,
+						),
+				);
+			} catch (err: unknown) {
+				serverLogger.error('Error in transport.handleRequest', err);
+				if (res.headersSent) {
+					return;
+				}
+				if (err instanceof McpError && err.statusCode === 401) {
+					sendJsonRpcError(res, 401, err.message);
+				} else {
+					sendJsonRpcError(res, 500, 'Internal Server Error');
+				}
+			}
 		});
 
 		// Health check endpoint
@@ -159,7 +442,7 @@ export async function startServer(
 		});
 
 		setupGracefulShutdown();
-		return serverInstance;
+		return null;
 	}
 }
 
@@ -223,6 +506,10 @@ function setupGracefulShutdown() {
 				await serverInstance.close();
 			}
 
+			for (const session of httpSessions.values()) {
+				await closeHttpSession(session);
+			}
+
 			process.exit(0);
 		} catch (err) {
 			shutdownLogger.error('Error during shutdown', err);
@@ -0,0 +1,306 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { Logger } from '../utils/logger.util.js';
+
+import atlassianPagesController from '../controllers/atlassian.pages.controller.js';
+import atlassianSpacesController from '../controllers/atlassian.spaces.controller.js';
+import atlassianSearchController from '../controllers/atlassian.search.controller.js';
+import { atlassianCommentsController } from '../controllers/atlassian.comments.controller.js';
+import atlassianCompletionsController from '../controllers/atlassian.completions.controller.js';
+
+type PromptMessage = GetPromptResult['messages'][number];
+
+/**
+ * Complete a space key argument
+ */
+function completeSpaceKey(value: string): Promise<string[]> {
+	return atlassianCompletionsController.spaceKeys(value);
+}
+
+const PageIdArg = completable(
+	z
+		.string()
+		.describe('The numeric ID of the Confluence page (e.g., "456789")'),
+	(value) => atlassianCompletionsController.pageIds(value),
+);
+
+const SpaceKeyArg = completable(
+	z.string().describe('The key of the Confluence space (e.g., "DEV")'),
+	completeSpaceKey,
+);
+
+/**
+ * Build a user message with instructions
+ * @param text - The instructions
+ */
+function userText(text: string): PromptMessage {
+	return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * Build a user message embedding Confluence content as a resource, under the
+ * same URI the resource templates use
+ * @param uri - The resource URI, e.g. confluence://page/123
+ * @param text - The content as Markdown
+ */
+function embeddedContent(uri: string, text: string): PromptMessage {
+	return {
+		role: 'user',
+		content: {
+			type: 'resource',
+			resource: { uri, mimeType: 'text/markdown', text },
+		},
+	};
+}
+
+/**
+ * Prompt: summarize a page for a reader short on time
+ */
+async function summarizePage({
+	pageId,
+	audience,
+}: {
+	pageId: string;
+	audience?: string;
+}): Promise<GetPromptResult> {
+	const page = await atlassianPagesController.get({ pageId });
+	const { title } = page.data.page;
+
+	return {
+		description: `Summarize "${title}"`,
+		messages: [
+			embeddedContent(`confluence://page/${pageId}`, page.content),
+			userText(
+				`Summarize the Confluence page "${title}" above${audience ? ` for ${audience}` : ''}.
+- Start with a two or three sentence overview of what the page is about and why it matters.
+- List the key points, decisions and open questions as bullets.
+- Name any owners, dates or action items the page mentions.
+- Link to the page (${page.data.page.url}) and do not invent details that are not on the page.`,
+			),
+		],
+	};
+}
+
+/**
+ * Prompt: review a design document against its inline comments
+ */
+async function reviewDesignDoc({
+	pageId,
+}: {
+	pageId: string;
+}): Promise<GetPromptResult> {
+	const [page, comments] = await Promise.all([
+		atlassianPagesController.get({ pageId }),
+		atlassianCommentsController.listInlineComments({
+			pageId,
+			includeResolved: true,
+			sortBy: 'position',
+			maxItems: 250,
+		}),
+	]);
+	const { title } = page.data.page;
+
+	return {
+		description: `Review "${title}" against its inline comments`,
+		messages: [
+			embeddedContent(`confluence://page/${pageId}`, page.content),
+			embeddedContent(
+				`confluence://page/${pageId}/comments`,
+				comments.content,
+			),
+			userText(
+				`Review the design document "${title}" above against its inline comments.
+- For each open inline comment, quote the highlighted text, say whether the current document already addresses the feedback, and if not, propose a concrete change.
+- For resolved comments, check that the document still reflects the resolution.
+- Then list any gaps the reviewers did not raise: missing requirements, risks, alternatives or rollout plans.
+- End with the changes you recommend, in order of importance. Do not edit the page or resolve comments unless asked to.`,
+			),
+		],
+	};
+}
+
+/**
+ * Prompt: find out who owns a topic from the people writing about it
+ */
+async function findTopicOwner({
+	topic,
+	spaceKey,
+	label,
+}: {
+	topic: string;
+	spaceKey?: string;
+	label?: string;
+}): Promise<GetPromptResult> {
+	const results = await atlassianSearchController.search({
+		query: topic,
+		spaceKey,
+		labels: label ? [label] : undefined,
+		limit: 25,
+	});
+
+	return {
+		description: `Find the owner of "${topic}"`,
+		messages: [
+			userText(
+				`Confluence search results for "${topic}"${spaceKey ? ` in space ${spaceKey}` : ''}${label ? ` labeled ${label}` : ''}:`,
+			),
+			userText(results.content),
+			userText(
+				`Find out who owns "${topic}" in Confluence, starting from the search results above.
+- Open the most relevant pages with \`conf_get_page\` and look for named owners, DRIs, team pages, page authors and frequent editors (\`conf_ls_page_versions\`).
+- Prefer explicit ownership statements over authorship, and recent pages over old ones.
+- Answer with the most likely owner or team, the evidence with links to the pages, and how confident you are. Say so if the results do not identify an owner.`,
+			),
+		],
+	};
+}
+
+/**
+ * Prompt: draft meeting notes as a new page in a space
+ */
+async function draftMeetingNotes({
+	spaceKey,
+	topic,
+	notes,
+}: {
+	spaceKey: string;
+	topic?: string;
+	notes?: string;
+}): Promise<GetPromptResult> {
+	const space = await atlassianSpacesController.get({ spaceKey });
+	const date = new Date().toISOString().slice(0, 10);
+	const title = `${date} ${topic || 'Meeting notes'}`;
+
+	return {
+		description: `Draft meeting notes in space ${spaceKey}`,
+		messages: [
+			embeddedContent(
+				`confluence://space/${encodeURIComponent(spaceKey)}`,
+				space.content,
+			),
+			userText(
+				`Draft meeting notes titled "${title}" for the Confluence space ${spaceKey} described above.
+- Follow the conventions of existing meeting notes in the space if its recent pages include any; find more with \`conf_search\` (e.g. \`title ~ "meeting notes"\` in space ${spaceKey}).
+- Use the sections Date, Attendees, Agenda, Discussion, Decisions and Action items (as a checklist with owners and due dates).
+- ${notes ? `Build the notes from this input, without adding anything that is not in it:\n\n${notes}` : 'Ask me for the attendees, agenda and discussion points before drafting.'}
+- Show me the draft as Markdown first. Only after I confirm, create the page with \`conf_create_page\` in space ${spaceKey}.`,
+			),
+		],
+	};
+}
+
+/**
+ * Register Atlassian Workflow MCP Prompts
+ *
+ * Registers prompts for common Confluence workflows, so that every MCP client
+ * gets the same instructions. Each prompt fetches the content it is about and
+ * embeds it in the prompt messages.
+ *
+ * @param {McpServer} server - The MCP server instance to register prompts with
+ */
+function registerPrompts(server: McpServer) {
+	const methodLogger = Logger.forContext(
+		'prompts/atlassian.workflows.prompt.ts',
+		'registerPrompts',
+	);
+	methodLogger.debug('Registering Atlassian workflow prompts...');
+
+	server.registerPrompt(
+		'summarize_page',
+		{
+			title: 'Summarize page',
+			description:
+				'Summarize a Confluence page: overview, key points, decisions and action items. Embeds the page content.',
+			argsSchema: {
+				pageId: PageIdArg,
+				audience: z
+					.string()
+					.optional()
+					.describe(
+						'Optional: who the summary is for, e.g. "executives" or "new team members"',
+					),
+			},
+		},
+		summarizePage,
+	);
+
+	server.registerPrompt(
+		'review_design_doc',
+		{
+			title: 'Review design doc',
+			description:
+				'Review a design document against its inline comments: which feedback is addressed, what is still open and what is missing. Embeds the page and its inline comments.',
+			argsSchema: { pageId: PageIdArg },
+		},
+		reviewDesignDoc,
+	);
+
+	server.registerPrompt(
+		'find_topic_owner',
+		{
+			title: 'Find owner of topic',
+			description:
+				'Find who owns a topic, system or process from the Confluence pages about it. Embeds search results for the topic.',
+			argsSchema: {
+				topic: completable(
+					z
+						.string()
+						.describe(
+							'The topic, system or process, e.g. "billing service"',
+						),
+					(value, context) =>
+						atlassianCompletionsController.pageTitles(
+							value,
+							context?.arguments?.spaceKey,
+						),
+				),
+				spaceKey: completable(
+					z
+						.string()
+						.describe(
+							'Optional: the key of the space to search in',
+						),
+					completeSpaceKey,
+				).optional(),
+				label: completable(
+					z
+						.string()
+						.describe(
+							'Optional: only consider pages with this label',
+						),
+					(value) => atlassianCompletionsController.labels(value),
+				).optional(),
+			},
+		},
+		findTopicOwner,
+	);
+
+	server.registerPrompt(
+		'draft_meeting_notes',
+		{
+			title: 'Draft meeting notes in space',
+			description:
+				'Draft meeting notes as a new page in a Confluence space, following the conventions of the space. Embeds the space details and recent pages.',
+			argsSchema: {
+				spaceKey: SpaceKeyArg,
+				topic: z
+					.string()
+					.optional()
+					.describe('Optional: the meeting topic, used in the title'),
+				notes: z
+					.string()
+					.optional()
+					.describe(
+						'Optional: raw notes, attendees and agenda to build the notes from',
+					),
+			},
+		},
+		draftMeetingNotes,
+	);
+
+	methodLogger.debug('Successfully registered Atlassian workflow prompts');
+}
+
+export default { registerPrompts };
@@ -0,0 +1,105 @@
+import {
+	McpServer,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpResource } from '../utils/error.util.js';
+import { MAX_ITEMS_CEILING } from '../utils/pagination.util.js';
+
+import atlassianPagesController from '../controllers/atlassian.pages.controller.js';
+import { atlassianCommentsController } from '../controllers/atlassian.comments.controller.js';
+import atlassianCompletionsController from '../controllers/atlassian.completions.controller.js';
+
+/**
+ * Complete the pageId variable from page titles or IDs
+ */
+const completePageId = {
+	pageId: (value: string) => atlassianCompletionsController.pageIds(value),
+};
+
+/**
+ * Register Atlassian Pages MCP Resources
+ *
+ * Registers a page and its comments as resource templates, so that clients
+ * can attach a page as context without a tool call. Pages are not listed in
+ * resources/list; find their IDs with the search and page tools.
+ *
+ * @param {McpServer} server - The MCP server instance to register resources with
+ */
+function registerResources(server: McpServer) {
+	const methodLogger = Logger.forContext(
+		'resources/atlassian.pages.resource.ts',
+		'registerResources',
+	);
+	methodLogger.debug('Registering Atlassian Pages resources...');
+
+	server.registerResource(
+		'confluence-page',
+		new ResourceTemplate('confluence://page/{pageId}', {
+			list: undefined,
+			complete: completePageId,
+		}),
+		{
+			title: 'Confluence page',
+			description:
+				'Content of a Confluence page by its numeric ID, converted to Markdown, with its metadata, labels and recent comments.',
+			mimeType: 'text/markdown',
+		},
+		async (uri, { pageId }) => {
+			try {
+				const result = await atlassianPagesController.get({
+					pageId: String(pageId),
+				});
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							mimeType: 'text/markdown',
+							text: result.content,
+						},
+					],
+				};
+			} catch (error) {
+				return formatErrorForMcpResource(error, uri.href);
+			}
+		},
+	);
+
+	server.registerResource(
+		'confluence-page-comments',
+		new ResourceTemplate('confluence://page/{pageId}/comments', {
+			list: undefined,
+			complete: completePageId,
+		}),
+		{
+			title: 'Confluence page comments',
+			description:
+				'All page-level and inline comments of a Confluence page by its numeric ID, as Markdown.',
+			mimeType: 'text/markdown',
+		},
+		async (uri, { pageId }) => {
+			try {
+				const result =
+					await atlassianCommentsController.listPageComments({
+						pageId: String(pageId),
+						maxItems: MAX_ITEMS_CEILING,
+					});
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							mimeType: 'text/markdown',
+							text: result.content,
+						},
+					],
+				};
+			} catch (error) {
+				return formatErrorForMcpResource(error, uri.href);
+			}
+		},
+	);
+
+	methodLogger.debug('Successfully registered Atlassian Pages resources');
+}
+
+export default { registerResources };
@@ -0,0 +1,91 @@
+import {
+	McpServer,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpResource } from '../utils/error.util.js';
+import { MAX_ITEMS_CEILING } from '../utils/pagination.util.js';
+
+import atlassianSpacesController from '../controllers/atlassian.spaces.controller.js';
+import atlassianCompletionsController from '../controllers/atlassian.completions.controller.js';
+
+/**
+ * Register Atlassian Spaces MCP Resources
+ *
+ * Registers a space as a resource template. resources/list enumerates the
+ * current spaces the user can access; reading one returns its details,
+ * homepage and recently modified pages as Markdown.
+ *
+ * @param {McpServer} server - The MCP server instance to register resources with
+ */
+function registerResources(server: McpServer) {
+	const methodLogger = Logger.forContext(
+		'resources/atlassian.spaces.resource.ts',
+		'registerResources',
+	);
+	methodLogger.debug('Registering Atlassian Spaces resources...');
+
+	server.registerResource(
+		'confluence-space',
+		new ResourceTemplate('confluence://space/{spaceKey}', {
+			list: async () => {
+				try {
+					const result = await atlassianSpacesController.list({
+						status: 'current',
+						maxItems: MAX_ITEMS_CEILING,
+					});
+					return {
+						resources: result.data.spaces.map((space) => ({
+							uri: `confluence://space/${encodeURIComponent(space.key)}`,
+							name: space.name,
+							title: `${space.name} (${space.key})`,
+							...(space.description && {
+								description: space.description,
+							}),
+							mimeType: 'text/markdown',
+						})),
+					};
+				} catch (error) {
+					// An unreachable site should not break resources/list for the other templates
+					methodLogger.warn(
+						'Failed to list spaces as resources',
+						error,
+					);
+					return { resources: [] };
+				}
+			},
+			complete: {
+				spaceKey: (value) =>
+					atlassianCompletionsController.spaceKeys(value),
+			},
+		}),
+		{
+			title: 'Confluence space',
+			description:
+				'Details of a Confluence space by its key, with its homepage content, recently modified pages and labels, as Markdown.',
+			mimeType: 'text/markdown',
+		},
+		async (uri, { spaceKey }) => {
+			try {
+				const result = await atlassianSpacesController.get({
+					spaceKey: decodeURIComponent(String(spaceKey)),
+				});
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							mimeType: 'text/markdown',
+							text: result.content,
+						},
+					],
+				};
+			} catch (error) {
+				return formatErrorForMcpResource(error, uri.href);
+			}
+		},
+	);
+
+	methodLogger.debug('Successfully registered Atlassian Spaces resources');
+}
+
+export default { registerResources };
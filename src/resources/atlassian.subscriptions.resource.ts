@@ -0,0 +1,89 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+	ErrorCode,
+	McpError as ProtocolError,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.util.js';
+import {
+	RequestContext,
+	runWithRequestContext,
+} from '../utils/request-context.util.js';
+import {
+	getSubscribablePageId,
+	SubscriptionPoller,
+} from '../utils/subscription.util.js';
+
+import atlassianPagesService from '../services/vendor.atlassian.pages.service.js';
+
+/**
+ * Register Resource Subscriptions
+ *
+ * Handles resources/subscribe and resources/unsubscribe for page resources
+ * (confluence://page/{pageId}). Subscribed pages are polled for new versions.
+ * When one changes, its cached responses are dropped and the client is sent
+ * notifications/resources/updated.
+ * Polling stops when the session closes.
+ *
+ * @param {McpServer} server - The MCP server instance of the session
+ * @param {() => RequestContext} [getContext] - Context to poll with, e.g. the
+ * credentials of an HTTP session; polls use the process-wide configuration without it
+ */
+function registerSubscriptions(
+	server: McpServer,
+	getContext?: () => RequestContext,
+) {
+	const methodLogger = Logger.forContext(
+		'resources/atlassian.subscriptions.resource.ts',
+		'registerSubscriptions',
+	);
+	methodLogger.debug('Registering resource subscriptions...');
+
+	const poller = new SubscriptionPoller({
+		getVersion: (pageId) => atlassianPagesService.getVersion(pageId),
+		onUpdated: (uri) => {
+			// Otherwise the client's next read would be served the old page
+			atlassianPagesService.invalidateCache(
+				getSubscribablePageId(uri) as string,
+			);
+			return server.server.sendResourceUpdated({ uri });
+		},
+		...(getContext && {
+			runPoll: (poll) => runWithRequestContext(getContext(), poll),
+		}),
+	});
+
+	server.server.registerCapabilities({ resources: { subscribe: true } });
+
+	server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+		try {
+			await poller.subscribe(request.params.uri);
+		} catch (error) {
+			methodLogger.error(
+				`Failed to subscribe to ${request.params.uri}`,
+				error,
+			);
+			throw new ProtocolError(
+				ErrorCode.InvalidParams,
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+		return {};
+	});
+
+	server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+		poller.unsubscribe(request.params.uri);
+		return {};
+	});
+
+	const onclose = server.server.onclose;
+	server.server.onclose = () => {
+		poller.stop();
+		onclose?.();
+	};
+
+	methodLogger.debug('Successfully registered resource subscriptions');
+}
+
+export default { registerSubscriptions };
@@ -0,0 +1,355 @@
+import { createApiError, createAuthMissingError } from '../utils/error.util.js';
+import { Logger } from '../utils/logger.util.js';
+import {
+	ATLASSIAN_SITE_REQUIRED_MESSAGE,
+	fetchAtlassian,
+	getAtlassianCredentials,
+} from '../utils/transport.util.js';
+import {
+	AttachmentSchema,
+	AttachmentSchemaType,
+	AttachmentsResponseSchema,
+	ListAttachmentsParams,
+	UploadAttachmentParams,
+	UploadAttachmentResponseSchema,
+} from './vendor.atlassian.attachments.types.js';
+import { z } from 'zod';
+
+/**
+ * Base API path for Confluence REST API v2
+ * @see https://developer.atlassian.com/cloud/confluence/rest/v2/intro/
+ * @constant {string}
+ */
+const API_PATH = '/wiki/api/v2';
+
+/**
+ * Base API path for Confluence REST API v1 (used for uploads, which v2 does not support)
+ * @constant {string}
+ */
+const LEGACY_API_PATH = '/wiki/rest/api';
+
+/**
+ * @namespace VendorAtlassianAttachmentsService
+ * @description Service for interacting with Confluence Attachments API.
+ * Provides methods for listing, retrieving, downloading and uploading attachments.
+ * Requires ATLASSIAN_SITE_NAME to be configured. Provide ATLASSIAN_USER_EMAIL and
+ * ATLASSIAN_API_TOKEN for accessing non-public content.
+ */
+
+/**
+ * List attachments of a Confluence page or blog post
+ *
+ * @async
+ * @memberof VendorAtlassianAttachmentsService
+ * @param {ListAttachmentsParams} params - Page or blog post ID plus optional filters and pagination
+ * @returns {Promise<AttachmentsResponseType>} Promise containing the attachments and pagination links
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * // List PDF attachments of a page
+ * const response = await list({ contentId: '123', mediaType: 'application/pdf' });
+ */
+async function list(
+	params: ListAttachmentsParams,
+): Promise<z.infer<typeof AttachmentsResponseSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.attachments.service.ts',
+		'list',
+	);
+	serviceLogger.debug('Listing Confluence attachments with params:', params);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const queryParams = new URLSearchParams();
+	if (params.mediaType) {
+		queryParams.set('mediaType', params.mediaType);
+	}
+	if (params.filename) {
+		queryParams.set('filename', params.filename);
+	}
+	if (params.sort) {
+		queryParams.set('sort', params.sort);
+	}
+	if (params.cursor) {
+		queryParams.set('cursor', params.cursor);
+	}
+	if (params.limit) {
+		queryParams.set('limit', params.limit.toString());
+	}
+
+	const queryString = queryParams.toString()
+		? `?${queryParams.toString()}`
+		: '';
+	const contentPath =
+		params.contentType === 'blogpost' ? 'blogposts' : 'pages';
+	const path = `${API_PATH}/${contentPath}/${params.contentId}/attachments${queryString}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = await fetchAtlassian<unknown>(credentials, path);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = AttachmentsResponseSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated attachments list for ${validatedData.results.length} items`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching attachments:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Get metadata of a specific attachment
+ *
+ * @async
+ * @memberof VendorAtlassianAttachmentsService
+ * @param {string} attachmentId - The ID of the attachment (e.g., "att123456")
+ * @returns {Promise<AttachmentSchemaType>} Promise containing the attachment metadata
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * const attachment = await get('att123456');
+ */
+async function get(
+	attachmentId: string,
+): Promise<z.infer<typeof AttachmentSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.attachments.service.ts',
+		'get',
+	);
+	serviceLogger.debug(
+		`Getting Confluence attachment with ID: ${attachmentId}`,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const path = `${API_PATH}/attachments/${attachmentId}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = await fetchAtlassian<unknown>(credentials, path);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = AttachmentSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated attachment details for ID: ${attachmentId}`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching attachment details:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Download the content of an attachment
+ *
+ * @async
+ * @memberof VendorAtlassianAttachmentsService
+ * @param {AttachmentSchemaType} attachment - Attachment metadata (from get or list)
+ * @param {number} [maxBytes] - Download only the first bytes of the file, up to this many
+ * @returns {Promise<Buffer>} Promise containing the raw file content
+ * @throws {Error} If Atlassian credentials are missing, the attachment has no download link or the request fails
+ * @example
+ * const content = await download(await get('att123456'));
+ */
+async function download(
+	attachment: AttachmentSchemaType,
+	maxBytes?: number,
+): Promise<Buffer> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.attachments.service.ts',
+		'download',
+	);
+	serviceLogger.debug(`Downloading Confluence attachment: ${attachment.id}`);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const downloadLink = attachment.downloadLink || attachment._links?.download;
+	if (!downloadLink) {
+		throw createApiError(
+			`Attachment ${attachment.id} has no download link.`,
+			500,
+		);
+	}
+
+	// Download links are relative to the /wiki context path
+	const path = downloadLink.startsWith('/wiki/')
+		? downloadLink
+		: `/wiki${downloadLink.startsWith('/') ? '' : '/'}${downloadLink}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const buffer = await fetchAtlassian<ArrayBuffer>(credentials, path, {
+			headers: {
+				Accept: '*/*',
+				...(maxBytes !== undefined && {
+					Range: `bytes=0-${maxBytes - 1}`,
+				}),
+			},
+			responseType: 'arrayBuffer',
+			maxBytes,
+		});
+		serviceLogger.debug(
+			`Downloaded ${buffer.byteLength} bytes for attachment ${attachment.id}`,
+		);
+		return Buffer.from(buffer);
+	} catch (error) {
+		serviceLogger.error('Error downloading attachment:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Upload a file as an attachment to a Confluence page
+ *
+ * Uses the v1 REST API, which creates the attachment or adds a new version
+ * if an attachment with the same file name already exists on the page.
+ *
+ * @async
+ * @memberof VendorAtlassianAttachmentsService
+ * @param {UploadAttachmentParams} params - Target page, file name, content and optional comment
+ * @returns {Promise<AttachmentSchemaType>} Promise containing the uploaded attachment metadata
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * const attachment = await upload({
+ *   pageId: '123',
+ *   fileName: 'diagram.png',
+ *   content: await readFile('diagram.png')
+ * });
+ */
+async function upload(
+	params: UploadAttachmentParams,
+): Promise<z.infer<typeof AttachmentSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.attachments.service.ts',
+		'upload',
+	);
+	serviceLogger.debug(
+		`Uploading "${params.fileName}" (${params.content.length} bytes) to page ID: ${params.pageId}`,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const formData = new FormData();
+	formData.append(
+		'file',
+		new Blob([params.content], {
+			type: params.mediaType || 'application/octet-stream',
+		}),
+		params.fileName,
+	);
+	formData.append('minorEdit', 'true');
+	if (params.comment) {
+		formData.append('comment', params.comment);
+	}
+
+	const path = `${LEGACY_API_PATH}/content/${params.pageId}/child/attachment`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = await fetchAtlassian<unknown>(credentials, path, {
+			method: 'PUT',
+			// Required by Confluence for multipart uploads (XSRF protection)
+			headers: { 'X-Atlassian-Token': 'no-check' },
+			body: formData,
+		});
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = UploadAttachmentResponseSchema.parse(rawData);
+			const uploaded = validatedData.results[0];
+			if (!uploaded) {
+				throw createApiError(
+					'Upload response did not contain the attachment.',
+					500,
+				);
+			}
+			serviceLogger.debug(
+				`Successfully uploaded attachment with ID: ${uploaded.id}`,
+			);
+
+			// Normalize the v1 response to the v2 attachment shape
+			return {
+				id: uploaded.id,
+				status: uploaded.status || 'current',
+				title: uploaded.title,
+				pageId: params.pageId,
+				mediaType: uploaded.extensions?.mediaType,
+				comment: uploaded.extensions?.comment,
+				fileId: uploaded.extensions?.fileId,
+				fileSize: uploaded.extensions?.fileSize,
+				webuiLink: uploaded._links?.webui,
+				downloadLink: uploaded._links?.download,
+				_links: { base: validatedData._links?.base },
+			};
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error uploading attachment:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+export default { list, get, download, upload };
@@ -0,0 +1,135 @@
+/**
+ * Types for Atlassian Confluence Attachments API
+ */
+import { z } from 'zod';
+import { VersionSchema } from './vendor.atlassian.pages.types.js';
+
+/**
+ * Attachment sort order enum
+ */
+export type AttachmentSortOrder =
+	| 'created-date'
+	| '-created-date'
+	| 'modified-date'
+	| '-modified-date';
+
+/**
+ * Content types that can carry attachments
+ */
+export type AttachmentContentType = 'page' | 'blogpost';
+
+/**
+ * Parameters for listing attachments of a page or blog post
+ */
+export interface ListAttachmentsParams {
+	contentId: string;
+	contentType?: AttachmentContentType;
+	mediaType?: string;
+	filename?: string;
+	sort?: AttachmentSortOrder;
+	cursor?: string;
+	limit?: number;
+}
+
+/**
+ * Parameters for uploading an attachment to a page
+ */
+export interface UploadAttachmentParams {
+	pageId: string;
+	fileName: string;
+	content: Buffer;
+	mediaType?: string;
+	comment?: string;
+}
+
+/**
+ * Zod schemas for Confluence API response types
+ */
+
+/**
+ * Attachment links schema
+ */
+export const AttachmentLinksSchema = z.object({
+	webui: z.string().optional(),
+	download: z.string().optional(),
+	base: z.string().optional(),
+});
+
+/**
+ * Attachment schema (v2 API)
+ */
+export const AttachmentSchema = z.object({
+	id: z.string(),
+	status: z.string(),
+	title: z.string(),
+	createdAt: z.string().optional(),
+	pageId: z.string().optional(),
+	blogPostId: z.string().optional(),
+	customContentId: z.string().optional(),
+	mediaType: z.string().optional(),
+	mediaTypeDescription: z.string().optional(),
+	comment: z.string().optional(),
+	fileId: z.string().optional(),
+	fileSize: z.number().optional(),
+	webuiLink: z.string().optional(),
+	downloadLink: z.string().optional(),
+	version: VersionSchema.optional(),
+	_links: AttachmentLinksSchema.optional(),
+});
+
+/**
+ * Attachments response schema
+ */
+export const AttachmentsResponseSchema = z.object({
+	results: z.array(AttachmentSchema),
+	_links: z
+		.object({
+			next: z.string().optional(),
+			base: z.string().optional(),
+		})
+		.optional(),
+});
+
+/**
+ * Uploaded attachment schema (v1 REST API response)
+ */
+export const UploadedAttachmentSchema = z.object({
+	id: z.string(),
+	status: z.string().optional(),
+	title: z.string(),
+	extensions: z
+		.object({
+			mediaType: z.string().optional(),
+			fileSize: z.number().optional(),
+			comment: z.string().optional(),
+			fileId: z.string().optional(),
+		})
+		.passthrough()
+		.optional(),
+	_links: z
+		.object({
+			webui: z.string().optional(),
+			download: z.string().optional(),
+		})
+		.passthrough()
+		.optional(),
+});
+
+/**
+ * Upload response schema (v1 REST API)
+ */
+export const UploadAttachmentResponseSchema = z.object({
+	results: z.array(UploadedAttachmentSchema),
+	_links: z
+		.object({
+			base: z.string().optional(),
+		})
+		.passthrough()
+		.optional(),
+});
+
+/**
+ * Inferred types from Zod schemas
+ */
+export type AttachmentSchemaType = z.infer<typeof AttachmentSchema>;
+export type AttachmentsResponseType = z.infer<typeof AttachmentsResponseSchema>;
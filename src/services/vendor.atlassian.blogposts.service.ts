@@ -0,0 +1,330 @@
+import { createApiError, createAuthMissingError } from '../utils/error.util.js';
+import { Logger } from '../utils/logger.util.js';
+import {
+	ATLASSIAN_SITE_REQUIRED_MESSAGE,
+	fetchAtlassian,
+	getAtlassianCredentials,
+} from '../utils/transport.util.js';
+import { escapeCqlValue } from '../utils/cql.util.js';
+import {
+	BlogPostDetailedSchema,
+	BlogPostsResponseSchema,
+	BlogPostsResponseType,
+	FindBlogPostsParams,
+	GetBlogPostByIdParams,
+	ListBlogPostsParams,
+} from './vendor.atlassian.blogposts.types.js';
+import { SearchResponseType } from './vendor.atlassian.search.types.js';
+import { z } from 'zod';
+import atlassianSearchService from './vendor.atlassian.search.service.js';
+
+/**
+ * Base API path for Confluence REST API v2
+ * @see https://developer.atlassian.com/cloud/confluence/rest/v2/intro/
+ * @constant {string}
+ */
+const API_PATH = '/wiki/api/v2';
+
+/**
+ * @namespace VendorAtlassianBlogPostsService
+ * @description Service for interacting with Confluence Blog Posts API.
+ * Provides methods for listing, finding and retrieving blog posts.
+ * Requires ATLASSIAN_SITE_NAME to be configured. Provide ATLASSIAN_USER_EMAIL and
+ * ATLASSIAN_API_TOKEN for accessing non-public content.
+ */
+
+/**
+ * Transform search results to blog posts format
+ * @param searchResults - Results from the search API
+ * @returns Blog posts response in the expected format
+ */
+function transformSearchResultsToBlogPostsFormat(
+	searchResults: SearchResponseType,
+): BlogPostsResponseType {
+	const blogPostResults = searchResults.results
+		.filter(
+			(result) =>
+				result.content?.type === 'blogpost' && result.content?.id,
+		)
+		.map((result) => ({
+			id: result.content!.id!,
+			status:
+				(result.content!.status as
+					| 'current'
+					| 'archived'
+					| 'trashed'
+					| 'deleted'
+					| 'draft'
+					| 'historical') || 'current',
+			title: result.content!.title || result.title || '',
+			spaceId: result.space?.id?.toString() || '',
+			// Search API doesn't provide author or creation info
+			_links: {
+				webui: result.url || result.content!._links?.webui || '',
+			},
+		}));
+
+	const links = searchResults._links as
+		| { base?: string; next?: string }
+		| undefined;
+
+	return {
+		results: blogPostResults,
+		_links: {
+			base: links?.base || '',
+			...(links?.next && { next: links.next }),
+		},
+	};
+}
+
+/**
+ * List Confluence blog posts with optional filtering and pagination
+ *
+ * @async
+ * @memberof VendorAtlassianBlogPostsService
+ * @param {ListBlogPostsParams} params - Optional parameters to customize the request
+ * @returns {Promise<BlogPostsResponseType>} Promise containing the blog posts response with results and pagination info
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * // List the latest blog posts of a space
+ * const response = await list({
+ *   spaceId: ['123'],
+ *   sort: '-created-date',
+ *   limit: 10
+ * });
+ */
+async function list(
+	params: ListBlogPostsParams = {},
+): Promise<BlogPostsResponseType> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.blogposts.service.ts',
+		'list',
+	);
+	serviceLogger.debug('Listing Confluence blog posts with params:', params);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	// Build query parameters
+	const queryParams = new URLSearchParams();
+
+	// Content filters
+	if (params.spaceId?.length) {
+		queryParams.set('space-id', params.spaceId.join(','));
+	}
+	if (params.title) {
+		queryParams.set('title', params.title);
+	}
+	if (params.status?.length) {
+		queryParams.set('status', params.status.join(','));
+	}
+
+	// Content format options
+	if (params.bodyFormat) {
+		queryParams.set('body-format', params.bodyFormat);
+	}
+
+	// Sort order
+	if (params.sort) {
+		queryParams.set('sort', params.sort);
+	}
+
+	// Pagination
+	if (params.cursor) {
+		queryParams.set('cursor', params.cursor);
+	}
+	if (params.limit) {
+		queryParams.set('limit', params.limit.toString());
+	}
+
+	const queryString = queryParams.toString()
+		? `?${queryParams.toString()}`
+		: '';
+	const path = `${API_PATH}/blogposts${queryString}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = await fetchAtlassian<unknown>(credentials, path);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = BlogPostsResponseSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated blog posts list for ${validatedData.results.length} items`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching blog posts:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Find blog posts by author and/or creation date
+ *
+ * The v2 blog posts endpoint cannot filter by author or date, so this uses
+ * a CQL search instead. Results are returned in the list format, newest first.
+ *
+ * @async
+ * @memberof VendorAtlassianBlogPostsService
+ * @param {FindBlogPostsParams} params - Space, title, author and date filters and pagination
+ * @returns {Promise<BlogPostsResponseType>} Promise containing the matching blog posts
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * // Blog posts written by a user since the start of the year
+ * const response = await find({
+ *   authorId: '5b10ac8d82e05b22cc7d4ef5',
+ *   createdAfter: '2025-01-01'
+ * });
+ */
+async function find(
+	params: FindBlogPostsParams,
+): Promise<BlogPostsResponseType> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.blogposts.service.ts',
+		'find',
+	);
+	serviceLogger.debug('Finding Confluence blog posts with params:', params);
+
+	const cqlParts: string[] = ['type = blogpost'];
+	if (params.spaceKey) {
+		cqlParts.push(`space = "${escapeCqlValue(params.spaceKey)}"`);
+	}
+	if (params.title) {
+		cqlParts.push(`title ~ "${escapeCqlValue(params.title)}"`);
+	}
+	if (params.authorId) {
+		cqlParts.push(`creator = "${escapeCqlValue(params.authorId)}"`);
+	}
+	if (params.createdAfter) {
+		cqlParts.push(`created >= "${escapeCqlValue(params.createdAfter)}"`);
+	}
+	if (params.createdBefore) {
+		cqlParts.push(`created < "${escapeCqlValue(params.createdBefore)}"`);
+	}
+
+	const cql = `${cqlParts.join(' AND ')} ORDER BY created DESC`;
+
+	serviceLogger.debug('Executing CQL query for blog posts', { cql });
+
+	try {
+		const searchResults = await atlassianSearchService.search({
+			cql,
+			limit: params.limit || 25,
+			...(params.cursor && { cursor: params.cursor }),
+		});
+
+		serviceLogger.debug(
+			`Blog post search returned ${searchResults.results.length} results`,
+		);
+
+		return transformSearchResultsToBlogPostsFormat(searchResults);
+	} catch (error) {
+		serviceLogger.error('Error finding blog posts:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Get detailed information about a specific Confluence blog post
+ *
+ * @async
+ * @memberof VendorAtlassianBlogPostsService
+ * @param {string} blogPostId - The ID of the blog post to retrieve
+ * @param {GetBlogPostByIdParams} params - Optional parameters to customize the response
+ * @returns {Promise<BlogPostDetailedSchemaType>} Promise containing the detailed blog post information
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * // Get a blog post body as ADF with its labels
+ * const blogPost = await get('123', {
+ *   bodyFormat: 'atlas_doc_format',
+ *   includeLabels: true
+ * });
+ */
+async function get(
+	blogPostId: string,
+	params: GetBlogPostByIdParams = {},
+): Promise<z.infer<typeof BlogPostDetailedSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.blogposts.service.ts',
+		'get',
+	);
+	serviceLogger.debug(
+		`Getting Confluence blog post with ID: ${blogPostId}, params:`,
+		params,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	// Build query parameters
+	const queryParams = new URLSearchParams();
+	if (params.bodyFormat) {
+		queryParams.set('body-format', params.bodyFormat);
+	}
+	if (params.includeLabels !== undefined) {
+		queryParams.set('include-labels', params.includeLabels.toString());
+	}
+	if (params.includeVersion !== undefined) {
+		queryParams.set('include-version', params.includeVersion.toString());
+	}
+
+	const queryString = queryParams.toString()
+		? `?${queryParams.toString()}`
+		: '';
+	const path = `${API_PATH}/blogposts/${blogPostId}${queryString}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = await fetchAtlassian<unknown>(credentials, path);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = BlogPostDetailedSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated blog post details for ID: ${blogPostId}`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching blog post details:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+export default { list, find, get };
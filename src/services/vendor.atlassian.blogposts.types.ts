@@ -0,0 +1,106 @@
+/**
+ * Types for Atlassian Confluence Blog Posts API
+ */
+import { z } from 'zod';
+import {
+	BodyFormat,
+	BodySchema,
+	ContentStatusSchema,
+	LabelSchema,
+	OptionalCollectionSchema,
+	PageLinksSchema,
+	VersionSchema,
+} from './vendor.atlassian.pages.types.js';
+
+/**
+ * Blog post status enum
+ */
+export type BlogPostStatus = 'current' | 'deleted' | 'trashed' | 'draft';
+
+/**
+ * Blog post sort order enum
+ */
+export type BlogPostSortOrder =
+	| 'id'
+	| '-id'
+	| 'created-date'
+	| '-created-date'
+	| 'modified-date'
+	| '-modified-date';
+
+/**
+ * Parameters for listing blog posts
+ */
+export interface ListBlogPostsParams {
+	spaceId?: string[];
+	title?: string;
+	status?: BlogPostStatus[];
+	bodyFormat?: BodyFormat;
+	sort?: BlogPostSortOrder;
+	cursor?: string;
+	limit?: number;
+}
+
+/**
+ * Parameters for finding blog posts by author or creation date (CQL based)
+ */
+export interface FindBlogPostsParams {
+	spaceKey?: string;
+	title?: string;
+	authorId?: string;
+	createdAfter?: string;
+	createdBefore?: string;
+	limit?: number;
+	cursor?: string;
+}
+
+/**
+ * Parameters for getting a specific blog post
+ */
+export interface GetBlogPostByIdParams {
+	bodyFormat?: BodyFormat;
+	includeLabels?: boolean;
+	includeVersion?: boolean;
+}
+
+/**
+ * Zod schemas for Confluence API response types
+ */
+
+/**
+ * Base blog post schema (common fields)
+ */
+export const BlogPostSchema = z.object({
+	id: z.string(),
+	status: ContentStatusSchema,
+	title: z.string(),
+	spaceId: z.string(),
+	authorId: z.string().optional(),
+	createdAt: z.string().optional(),
+	version: VersionSchema.optional(),
+	_links: PageLinksSchema,
+	body: BodySchema.optional(),
+});
+
+/**
+ * Detailed blog post schema
+ */
+export const BlogPostDetailedSchema = BlogPostSchema.extend({
+	createdAt: z.string(),
+	labels: OptionalCollectionSchema(LabelSchema).optional(),
+});
+
+/**
+ * Blog posts response schema
+ */
+export const BlogPostsResponseSchema = z.object({
+	results: z.array(BlogPostSchema),
+	_links: PageLinksSchema.optional(),
+});
+
+/**
+ * Inferred types from Zod schemas
+ */
+export type BlogPostSchemaType = z.infer<typeof BlogPostSchema>;
+export type BlogPostDetailedSchemaType = z.infer<typeof BlogPostDetailedSchema>;
+export type BlogPostsResponseType = z.infer<typeof BlogPostsResponseSchema>;
@@ -12,6 +12,12 @@ import { createAuthMissingError } from '../utils/error.util.js';
 import {
 	ListPageCommentsParams,
 	ListCommentsResponse,
+	CommentData,
+	CommentV2Response,
+	CreateFooterCommentParams,
+	CreateInlineCommentParams,
+	CreateInlineCommentReplyParams,
+	UpdateInlineCommentParams,
 } from './vendor.atlassian.comments.types.js';
 import { PAGE_DEFAULTS } from '../utils/defaults.util.js';
 
@@ -59,7 +65,7 @@ async function listPageComments(
 	// Different endpoints and parameters depending on whether we use REST API or v2 API
 	// For now, we'll use the REST API which has better comment support
 	// Expand both the body format and inline properties for inline comments
-	const path = `/wiki/rest/api/content/${pageId}/child/comment?${queryParams.toString()}&expand=body.${bodyFormat},extensions.inlineProperties`;
+	const path = `/wiki/rest/api/content/${pageId}/child/comment?${queryParams.toString()}&expand=body.${bodyFormat},extensions.inlineProperties,extensions.resolution`;
 
 	// Make the API request
 	const response = await fetchAtlassian<ListCommentsResponse>(
@@ -76,7 +82,258 @@ async function listPageComments(
 	return response;
 }
 
+/**
+ * Map a v2 API comment to the CommentData shape used by the rest of the codebase
+ *
+ * @param comment - Comment returned by the v2 API
+ * @param location - Location of the comment ("footer" or "inline")
+ * @returns The comment as CommentData
+ */
+function toCommentData(
+	comment: CommentV2Response,
+	location: 'footer' | 'inline',
+): CommentData {
+	return {
+		id: comment.id,
+		type: 'comment',
+		status: comment.status,
+		title: comment.title,
+		body: {
+			...(comment.body?.atlas_doc_format && {
+				atlas_doc_format: comment.body.atlas_doc_format,
+			}),
+		},
+		extensions: {
+			location,
+			...(location === 'inline' && {
+				inlineProperties: {
+					originalSelection:
+						comment.properties?.inlineOriginalSelection,
+					markerRef: comment.properties?.inlineMarkerRef,
+				},
+			}),
+			...(comment.resolutionStatus && {
+				resolution: {
+					status: comment.resolutionStatus,
+					...(comment.resolutionLastModifierId && {
+						lastModifier: {
+							accountId: comment.resolutionLastModifierId,
+						},
+					}),
+					...(comment.resolutionLastModifiedAt && {
+						lastModifiedDate: comment.resolutionLastModifiedAt,
+					}),
+				},
+			}),
+		},
+		_links: {
+			webui: comment._links?.webui || '',
+			self: '',
+		},
+	};
+}
+
+/**
+ * Create a footer (page-level) comment, or a reply to an existing comment
+ *
+ * @param params - Parameters for the new comment
+ * @returns The created comment
+ */
+async function createFooterComment(
+	params: CreateFooterCommentParams,
+): Promise<CommentData> {
+	const methodLogger = logger.forMethod('createFooterComment');
+	methodLogger.debug('Creating footer comment', {
+		pageId: params.pageId,
+		parentCommentId: params.parentCommentId,
+	});
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	// Replies are attached to their parent comment, which already belongs to the page
+	const requestBody = {
+		...(params.parentCommentId
+			? { parentCommentId: params.parentCommentId }
+			: { pageId: params.pageId }),
+		body: params.body,
+	};
+
+	const response = await fetchAtlassian<CommentV2Response>(
+		credentials,
+		'/wiki/api/v2/footer-comments?body-format=atlas_doc_format',
+		{
+			method: 'POST',
+			body: requestBody,
+		},
+	);
+
+	methodLogger.debug('Created footer comment', { id: response.id });
+
+	return toCommentData(response, 'footer');
+}
+
+/**
+ * Create an inline comment anchored to a text selection on a page
+ *
+ * @param params - Parameters for the new inline comment
+ * @returns The created comment
+ */
+async function createInlineComment(
+	params: CreateInlineCommentParams,
+): Promise<CommentData> {
+	const methodLogger = logger.forMethod('createInlineComment');
+	methodLogger.debug('Creating inline comment', {
+		pageId: params.pageId,
+		textSelection: params.textSelection,
+		textSelectionMatchIndex: params.textSelectionMatchIndex,
+	});
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const response = await fetchAtlassian<CommentV2Response>(
+		credentials,
+		'/wiki/api/v2/inline-comments?body-format=atlas_doc_format',
+		{
+			method: 'POST',
+			body: {
+				pageId: params.pageId,
+				body: params.body,
+				inlineCommentProperties: {
+					textSelection: params.textSelection,
+					textSelectionMatchCount: params.textSelectionMatchCount,
+					textSelectionMatchIndex: params.textSelectionMatchIndex,
+				},
+			},
+		},
+	);
+
+	methodLogger.debug('Created inline comment', { id: response.id });
+
+	return toCommentData(response, 'inline');
+}
+
+/**
+ * Reply to an existing inline comment
+ *
+ * @param params - Parameters for the reply
+ * @returns The created reply
+ */
+async function createInlineCommentReply(
+	params: CreateInlineCommentReplyParams,
+): Promise<CommentData> {
+	const methodLogger = logger.forMethod('createInlineCommentReply');
+	methodLogger.debug('Replying to inline comment', {
+		parentCommentId: params.parentCommentId,
+	});
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const response = await fetchAtlassian<CommentV2Response>(
+		credentials,
+		'/wiki/api/v2/inline-comments?body-format=atlas_doc_format',
+		{
+			method: 'POST',
+			body: {
+				parentCommentId: params.parentCommentId,
+				body: params.body,
+			},
+		},
+	);
+
+	methodLogger.debug('Created inline comment reply', { id: response.id });
+
+	return toCommentData(response, 'inline');
+}
+
+/**
+ * Get a single inline comment, including its version and ADF body
+ *
+ * @param commentId - ID of the inline comment
+ * @returns The inline comment and its current version number
+ */
+async function getInlineComment(
+	commentId: string,
+): Promise<{ comment: CommentData; version: number }> {
+	const methodLogger = logger.forMethod('getInlineComment');
+	methodLogger.debug('Getting inline comment', { commentId });
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const response = await fetchAtlassian<CommentV2Response>(
+		credentials,
+		`/wiki/api/v2/inline-comments/${commentId}?body-format=atlas_doc_format`,
+	);
+
+	return {
+		comment: toCommentData(response, 'inline'),
+		version: response.version?.number ?? 0,
+	};
+}
+
+/**
+ * Update an inline comment, e.g. to resolve or reopen its thread
+ *
+ * @param commentId - ID of the inline comment
+ * @param params - New version, body and resolution state
+ * @returns The updated comment
+ */
+async function updateInlineComment(
+	commentId: string,
+	params: UpdateInlineCommentParams,
+): Promise<CommentData> {
+	const methodLogger = logger.forMethod('updateInlineComment');
+	methodLogger.debug('Updating inline comment', {
+		commentId,
+		version: params.version,
+		resolved: params.resolved,
+	});
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const response = await fetchAtlassian<CommentV2Response>(
+		credentials,
+		`/wiki/api/v2/inline-comments/${commentId}?body-format=atlas_doc_format`,
+		{
+			method: 'PUT',
+			body: {
+				version: { number: params.version },
+				body: params.body,
+				...(params.resolved !== undefined && {
+					resolved: params.resolved,
+				}),
+			},
+		},
+	);
+
+	methodLogger.debug('Updated inline comment', {
+		id: response.id,
+		resolutionStatus: response.resolutionStatus,
+	});
+
+	return toCommentData(response, 'inline');
+}
+
 // Export service functions
 export const atlassianCommentsService = {
 	listPageComments,
+	createFooterComment,
+	createInlineComment,
+	createInlineCommentReply,
+	getInlineComment,
+	updateInlineComment,
 };
@@ -87,6 +87,30 @@ export interface InlineProperties {
 	[key: string]: unknown;
 }
 
+/**
+ * Resolution state of an inline comment
+ */
+export interface CommentResolution {
+	/**
+	 * Resolution status ("open", "reopened", "resolved" or "dangling")
+	 */
+	status: string;
+
+	/**
+	 * User who last changed the resolution status
+	 */
+	lastModifier?: {
+		accountId?: string;
+		displayName?: string;
+		publicName?: string;
+	};
+
+	/**
+	 * When the resolution status was last changed
+	 */
+	lastModifiedDate?: string;
+}
+
 /**
  * Comment location (inline, footer, etc.)
  */
@@ -102,9 +126,9 @@ export interface CommentExtensions {
 	inlineProperties?: InlineProperties;
 
 	/**
-	 * Resolution info for resolved comments
+	 * Resolution info for inline comments
 	 */
-	resolution?: unknown;
+	resolution?: CommentResolution;
 }
 
 /**
@@ -183,3 +207,136 @@ export interface ListCommentsResponse {
 		self: string;
 	};
 }
+
+/**
+ * Comment body payload for write operations
+ */
+export interface CommentBodyWrite {
+	/**
+	 * Representation of the value (ADF or storage format)
+	 */
+	representation: 'atlas_doc_format' | 'storage';
+
+	/**
+	 * Body content in the given representation
+	 */
+	value: string;
+}
+
+/**
+ * Parameters for creating a footer (page-level) comment
+ */
+export interface CreateFooterCommentParams {
+	/**
+	 * ID of the page to comment on
+	 */
+	pageId: string;
+
+	/**
+	 * ID of the comment to reply to (creates a threaded reply)
+	 */
+	parentCommentId?: string;
+
+	/**
+	 * Comment body
+	 */
+	body: CommentBodyWrite;
+}
+
+/**
+ * Parameters for creating an inline comment anchored to a text selection
+ */
+export interface CreateInlineCommentParams {
+	/**
+	 * ID of the page to comment on
+	 */
+	pageId: string;
+
+	/**
+	 * Comment body
+	 */
+	body: CommentBodyWrite;
+
+	/**
+	 * The page text to anchor the comment to
+	 */
+	textSelection: string;
+
+	/**
+	 * Number of times the selected text occurs in the page
+	 */
+	textSelectionMatchCount: number;
+
+	/**
+	 * Zero-based index of the occurrence to anchor to
+	 */
+	textSelectionMatchIndex: number;
+}
+
+/**
+ * Comment as returned by the v2 footer-comments and inline-comments endpoints
+ */
+export interface CommentV2Response {
+	id: string;
+	status: string;
+	title: string;
+	pageId?: string;
+	parentCommentId?: string;
+	resolutionStatus?: string;
+	resolutionLastModifierId?: string;
+	resolutionLastModifiedAt?: string;
+	version?: {
+		number: number;
+		createdAt?: string;
+		authorId?: string;
+	};
+	body?: {
+		atlas_doc_format?: {
+			value: string;
+			representation: string;
+		};
+	};
+	properties?: {
+		inlineMarkerRef?: string;
+		inlineOriginalSelection?: string;
+	};
+	_links: {
+		webui?: string;
+		base?: string;
+	};
+}
+
+/**
+ * Parameters for replying to an inline comment
+ */
+export interface CreateInlineCommentReplyParams {
+	/**
+	 * ID of the inline comment to reply to
+	 */
+	parentCommentId: string;
+
+	/**
+	 * Reply body
+	 */
+	body: CommentBodyWrite;
+}
+
+/**
+ * Parameters for updating an inline comment
+ */
+export interface UpdateInlineCommentParams {
+	/**
+	 * New version number (current version + 1)
+	 */
+	version: number;
+
+	/**
+	 * Comment body (unchanged body when only the resolution changes)
+	 */
+	body: CommentBodyWrite;
+
+	/**
+	 * Whether the comment thread is resolved
+	 */
+	resolved?: boolean;
+}
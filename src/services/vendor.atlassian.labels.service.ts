@@ -0,0 +1,310 @@
+import { createApiError, createAuthMissingError } from '../utils/error.util.js';
+import { Logger } from '../utils/logger.util.js';
+import {
+	ATLASSIAN_SITE_REQUIRED_MESSAGE,
+	fetchAtlassian,
+	getAtlassianCredentials,
+} from '../utils/transport.util.js';
+import {
+	AddLabelsResponseSchema,
+	LabelContentType,
+	LabelSchemaType,
+	LabelsResponseSchema,
+	LabelsResponseType,
+	ListLabelsParams,
+} from './vendor.atlassian.labels.types.js';
+import { z } from 'zod';
+
+/**
+ * Base API path for Confluence REST API v2
+ * @see https://developer.atlassian.com/cloud/confluence/rest/v2/intro/
+ * @constant {string}
+ */
+const API_PATH = '/wiki/api/v2';
+
+/**
+ * Base API path for Confluence REST API v1 (used for adding and removing labels, which v2 does not support)
+ * @constant {string}
+ */
+const LEGACY_API_PATH = '/wiki/rest/api';
+
+/**
+ * v2 collection path segment for each labelled content type
+ */
+const CONTENT_PATHS: Record<LabelContentType, string> = {
+	page: 'pages',
+	blogpost: 'blogposts',
+};
+
+/**
+ * @namespace VendorAtlassianLabelsService
+ * @description Service for interacting with Confluence Labels API.
+ * Provides methods for listing labels site-wide, per space and per content,
+ * and for adding and removing labels on pages and blog posts.
+ * Requires ATLASSIAN_SITE_NAME to be configured. Provide ATLASSIAN_USER_EMAIL and
+ * ATLASSIAN_API_TOKEN for accessing non-public content.
+ */
+
+/**
+ * Fetch and validate a v2 labels collection
+ *
+ * @param path - API path of the collection (without query string)
+ * @param params - Optional prefix filter and pagination
+ * @param method - Name of the calling service method, for logging
+ * @returns Promise containing the validated labels response
+ */
+async function fetchLabels(
+	path: string,
+	params: ListLabelsParams,
+	method: string,
+): Promise<LabelsResponseType> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.labels.service.ts',
+		method,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const queryParams = new URLSearchParams();
+	if (params.prefix) {
+		queryParams.set('prefix', params.prefix);
+	}
+	if (params.cursor) {
+		queryParams.set('cursor', params.cursor);
+	}
+	if (params.limit) {
+		queryParams.set('limit', params.limit.toString());
+	}
+
+	const queryString = queryParams.toString()
+		? `?${queryParams.toString()}`
+		: '';
+	const fullPath = `${path}${queryString}`;
+
+	serviceLogger.debug(`Sending request to: ${fullPath}`);
+
+	try {
+		const rawData = await fetchAtlassian<unknown>(credentials, fullPath);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = LabelsResponseSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated labels list for ${validatedData.results.length} items`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching labels:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * List all labels defined on the site, in the order Confluence returns them.
+ * The v2 API does not rank labels by how often they are used.
+ *
+ * @async
+ * @memberof VendorAtlassianLabelsService
+ * @param {ListLabelsParams} [params={}] - Optional prefix filter and pagination
+ * @returns {Promise<LabelsResponseType>} Promise containing the labels and pagination links
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * const response = await list({ prefix: 'global', limit: 50 });
+ */
+async function list(
+	params: ListLabelsParams = {},
+): Promise<LabelsResponseType> {
+	Logger.forContext(
+		'services/vendor.atlassian.labels.service.ts',
+		'list',
+	).debug('Listing Confluence labels with params:', params);
+
+	return fetchLabels(`${API_PATH}/labels`, params, 'list');
+}
+
+/**
+ * List labels of a page or blog post
+ *
+ * @async
+ * @memberof VendorAtlassianLabelsService
+ * @param {LabelContentType} contentType - Type of the content ("page" or "blogpost")
+ * @param {string} contentId - ID of the page or blog post
+ * @param {ListLabelsParams} [params={}] - Optional prefix filter and pagination
+ * @returns {Promise<LabelsResponseType>} Promise containing the labels and pagination links
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * const response = await listForContent('page', '123456');
+ */
+async function listForContent(
+	contentType: LabelContentType,
+	contentId: string,
+	params: ListLabelsParams = {},
+): Promise<LabelsResponseType> {
+	Logger.forContext(
+		'services/vendor.atlassian.labels.service.ts',
+		'listForContent',
+	).debug(`Listing labels of ${contentType} ID: ${contentId}`, params);
+
+	return fetchLabels(
+		`${API_PATH}/${CONTENT_PATHS[contentType]}/${contentId}/labels`,
+		params,
+		'listForContent',
+	);
+}
+
+/**
+ * List labels of a space
+ *
+ * @async
+ * @memberof VendorAtlassianLabelsService
+ * @param {string} spaceId - Numeric ID of the space
+ * @param {ListLabelsParams} [params={}] - Optional prefix filter and pagination
+ * @returns {Promise<LabelsResponseType>} Promise containing the labels and pagination links
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * const response = await listForSpace('98765');
+ */
+async function listForSpace(
+	spaceId: string,
+	params: ListLabelsParams = {},
+): Promise<LabelsResponseType> {
+	Logger.forContext(
+		'services/vendor.atlassian.labels.service.ts',
+		'listForSpace',
+	).debug(`Listing labels of space ID: ${spaceId}`, params);
+
+	return fetchLabels(
+		`${API_PATH}/spaces/${spaceId}/labels`,
+		params,
+		'listForSpace',
+	);
+}
+
+/**
+ * Add labels to a page or blog post
+ *
+ * @async
+ * @memberof VendorAtlassianLabelsService
+ * @param {string} contentId - ID of the page or blog post
+ * @param {string[]} names - Names of the labels to add (global prefix)
+ * @returns {Promise<LabelSchemaType[]>} Promise containing all labels of the content after the change
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * const labels = await add('123456', ['runbook', 'ops']);
+ */
+async function add(
+	contentId: string,
+	names: string[],
+): Promise<LabelSchemaType[]> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.labels.service.ts',
+		'add',
+	);
+	serviceLogger.debug(
+		`Adding labels to content ID: ${contentId}: ${names.join(', ')}`,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const path = `${LEGACY_API_PATH}/content/${contentId}/label`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = await fetchAtlassian<unknown>(credentials, path, {
+			method: 'POST',
+			body: names.map((name) => ({ prefix: 'global', name })),
+		});
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = AddLabelsResponseSchema.parse(rawData);
+			serviceLogger.debug(
+				`Content ID ${contentId} now has ${validatedData.results.length} labels`,
+			);
+			return validatedData.results;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error adding labels:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Remove a label from a page or blog post
+ *
+ * @async
+ * @memberof VendorAtlassianLabelsService
+ * @param {string} contentId - ID of the page or blog post
+ * @param {string} name - Name of the label to remove
+ * @returns {Promise<void>} Promise that resolves once the label is removed
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * await remove('123456', 'draft');
+ */
+async function remove(contentId: string, name: string): Promise<void> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.labels.service.ts',
+		'remove',
+	);
+	serviceLogger.debug(
+		`Removing label "${name}" from content ID: ${contentId}`,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	// The query form also supports label names that contain a slash
+	const path = `${LEGACY_API_PATH}/content/${contentId}/label?name=${encodeURIComponent(name)}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		await fetchAtlassian<void>(credentials, path, { method: 'DELETE' });
+		serviceLogger.debug(
+			`Removed label "${name}" from content ID: ${contentId}`,
+		);
+	} catch (error) {
+		serviceLogger.error('Error removing label:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+export default { list, listForContent, listForSpace, add, remove };
@@ -0,0 +1,58 @@
+import atlassianLabelsService from './vendor.atlassian.labels.service.js';
+import atlassianPagesService from './vendor.atlassian.pages.service.js';
+import {
+	getAtlassianCredentials,
+	hasAtlassianAuthCredentials,
+} from '../utils/transport.util.js';
+import { config } from '../utils/config.util.js';
+
+describe('Vendor Atlassian Labels Service', () => {
+	// Load configuration and check for credentials before all tests
+	beforeAll(() => {
+		config.load(); // Ensure config is loaded
+		const credentials = getAtlassianCredentials();
+		if (!hasAtlassianAuthCredentials(credentials)) {
+			console.warn(
+				'Skipping Atlassian Labels Service tests: No authenticated credentials available',
+			);
+		}
+	});
+
+	// Helper function to skip tests when credentials are missing
+	const skipIfNoCredentials = () =>
+		!hasAtlassianAuthCredentials(getAtlassianCredentials());
+
+	describe('list', () => {
+		it('should return labels across the site', async () => {
+			if (skipIfNoCredentials()) return;
+
+			const result = await atlassianLabelsService.list({ limit: 5 });
+
+			expect(Array.isArray(result.results)).toBe(true);
+			expect(result.results.length).toBeLessThanOrEqual(5);
+			result.results.forEach((label) => {
+				expect(label).toHaveProperty('id');
+				expect(label).toHaveProperty('name');
+			});
+		}, 30000);
+	});
+
+	describe('listForContent', () => {
+		it('should return the labels of a page', async () => {
+			if (skipIfNoCredentials()) return;
+
+			const pages = await atlassianPagesService.list({ limit: 1 });
+			if (pages.results.length === 0) {
+				console.warn('Skipping test: No pages available');
+				return;
+			}
+
+			const result = await atlassianLabelsService.listForContent(
+				'page',
+				pages.results[0].id,
+			);
+
+			expect(Array.isArray(result.results)).toBe(true);
+		}, 30000);
+	});
+});
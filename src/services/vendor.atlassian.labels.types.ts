@@ -0,0 +1,54 @@
+/**
+ * Types for Atlassian Confluence Labels API
+ */
+import { z } from 'zod';
+import { LabelSchema } from './vendor.atlassian.pages.types.js';
+
+/**
+ * Content types that can carry labels
+ */
+export type LabelContentType = 'page' | 'blogpost';
+
+/**
+ * Label prefix enum
+ */
+export type LabelPrefix = 'global' | 'my' | 'team' | 'system';
+
+/**
+ * Parameters for listing labels
+ */
+export interface ListLabelsParams {
+	prefix?: LabelPrefix;
+	cursor?: string;
+	limit?: number;
+}
+
+/**
+ * Zod schemas for Confluence API response types
+ */
+
+/**
+ * Labels response schema (v2 API)
+ */
+export const LabelsResponseSchema = z.object({
+	results: z.array(LabelSchema),
+	_links: z
+		.object({
+			next: z.string().optional(),
+			base: z.string().optional(),
+		})
+		.optional(),
+});
+
+/**
+ * Add labels response schema (v1 REST API)
+ */
+export const AddLabelsResponseSchema = z.object({
+	results: z.array(LabelSchema),
+});
+
+/**
+ * Inferred types from Zod schemas
+ */
+export type LabelSchemaType = z.infer<typeof LabelSchema>;
+export type LabelsResponseType = z.infer<typeof LabelsResponseSchema>;
@@ -3,17 +3,29 @@ import { Logger } from '../utils/logger.util.js';
 import {
 	ATLASSIAN_SITE_REQUIRED_MESSAGE,
 	fetchAtlassian,
+	getAtlassianBaseUrl,
 	getAtlassianCredentials,
+	isServerDeployment,
 } from '../utils/transport.util.js';
+import { invalidateCachedResponses } from '../utils/cache.util.js';
 import {
 	PageDetailedSchema,
 	PagesResponseSchema,
 	ListPagesParams,
 	GetPageByIdParams,
+	CreatePageParams,
+	UpdatePageParams,
+	GetPageDescendantsParams,
+	ListSpaceRootPagesParams,
+	PageDescendantsResponseSchema,
+	PageAncestorsResponseSchema,
+	ListPageVersionsParams,
+	PageVersionsResponseSchema,
 } from './vendor.atlassian.pages.types.js';
 import { z } from 'zod';
 import atlassianSearchService from './vendor.atlassian.search.service.js';
 import atlassianSpacesService from './vendor.atlassian.spaces.service.js';
+import atlassianServerService from './vendor.atlassian.server.service.js';
 
 /**
  * Base API path for Confluence REST API v2
@@ -25,7 +37,8 @@ const API_PATH = '/wiki/api/v2';
 /**
  * @namespace VendorAtlassianPagesService
  * @description Service for interacting with Confluence Pages API.
- * Provides methods for listing pages and retrieving page details.
+ * Provides methods for listing, retrieving, creating and updating pages,
+ * for navigating the page tree and for reading the version history.
  * Requires ATLASSIAN_SITE_NAME to be configured. Provide ATLASSIAN_USER_EMAIL and
  * ATLASSIAN_API_TOKEN for accessing non-public content.
  */
@@ -255,6 +268,9 @@ async function list(
 	if (params.parentId) {
 		queryParams.set('parent-id', params.parentId);
 	}
+	if (params.id?.length) {
+		queryParams.set('id', params.id.join(','));
+	}
 
 	// Content format options
 	if (params.bodyFormat) {
@@ -283,7 +299,9 @@ async function list(
 
 	try {
 		// Get the raw response data from the API
-		const rawData = await fetchAtlassian<unknown>(credentials, path);
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.listPages(credentials, params)
+			: await fetchAtlassian<unknown>(credentials, path);
 
 		// Validate the response data using the Zod schema
 		try {
@@ -442,7 +460,9 @@ async function get(
 
 	try {
 		// Get the raw response data from the API
-		const rawData = await fetchAtlassian<unknown>(credentials, path);
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.getPage(credentials, pageId, params)
+			: await fetchAtlassian<unknown>(credentials, path);
 
 		// Validate the response data using the Zod schema
 		try {
@@ -472,4 +492,566 @@ async function get(
 	}
 }
 
-export default { list, get };
+/**
+ * Create a new Confluence page
+ *
+ * Creates a page in the given space, optionally nested under a parent page.
+ * The body must already be in a Confluence representation (ADF or storage).
+ *
+ * @async
+ * @memberof VendorAtlassianPagesService
+ * @param {CreatePageParams} params - Space, title, parent and body of the new page
+ * @returns {Promise<PageDetailedSchemaType>} Promise containing the created page
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * // Create a page from an ADF document
+ * const page = await create({
+ *   spaceId: '123',
+ *   title: 'Runbook',
+ *   body: { representation: 'atlas_doc_format', value: JSON.stringify(adf) }
+ * });
+ */
+async function create(
+	params: CreatePageParams,
+): Promise<z.infer<typeof PageDetailedSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.pages.service.ts',
+		'create',
+	);
+	serviceLogger.debug(
+		`Creating Confluence page "${params.title}" in space ID: ${params.spaceId}`,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const path = `${API_PATH}/pages`;
+	const requestBody = {
+		spaceId: params.spaceId,
+		status: params.status || 'current',
+		title: params.title,
+		...(params.parentId && { parentId: params.parentId }),
+		body: params.body,
+	};
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.createPage(credentials, params)
+			: await fetchAtlassian<unknown>(credentials, path, {
+					method: 'POST',
+					body: requestBody,
+				});
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = PageDetailedSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully created page with ID: ${validatedData.id}`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error creating page:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Update an existing Confluence page
+ *
+ * Replaces the title and body of a page. Confluence requires the new version
+ * number to be exactly one greater than the current version and responds with
+ * 409 Conflict otherwise, which protects against overwriting concurrent edits.
+ *
+ * @async
+ * @memberof VendorAtlassianPagesService
+ * @param {string} pageId - The ID of the page to update
+ * @param {UpdatePageParams} params - New title, body and version of the page
+ * @returns {Promise<PageDetailedSchemaType>} Promise containing the updated page
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * // Publish version 4 of a page that is currently at version 3
+ * const page = await update('123', {
+ *   title: 'Runbook',
+ *   body: { representation: 'atlas_doc_format', value: JSON.stringify(adf) },
+ *   version: { number: 4 }
+ * });
+ */
+async function update(
+	pageId: string,
+	params: UpdatePageParams,
+): Promise<z.infer<typeof PageDetailedSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.pages.service.ts',
+		'update',
+	);
+	serviceLogger.debug(
+		`Updating Confluence page ID: ${pageId} to version ${params.version.number}`,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const path = `${API_PATH}/pages/${pageId}`;
+	const requestBody = {
+		id: pageId,
+		status: params.status || 'current',
+		title: params.title,
+		body: params.body,
+		version: params.version,
+	};
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.updatePage(
+					credentials,
+					pageId,
+					params,
+				)
+			: await fetchAtlassian<unknown>(credentials, path, {
+					method: 'PUT',
+					body: requestBody,
+				});
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = PageDetailedSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully updated page with ID: ${validatedData.id}`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error updating page:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Get the descendants of a Confluence page
+ *
+ * Returns pages and other tree content (folders, whiteboards, ...) below the
+ * page, down to the requested depth, in tree order.
+ *
+ * @async
+ * @memberof VendorAtlassianPagesService
+ * @param {string} pageId - The ID of the root page
+ * @param {GetPageDescendantsParams} params - Depth (1-5) and pagination
+ * @returns {Promise<PageDescendantsResponseType>} Promise containing the descendants and pagination links
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * // Get children and grandchildren of a page
+ * const response = await getDescendants('123', { depth: 2, limit: 250 });
+ */
+async function getDescendants(
+	pageId: string,
+	params: GetPageDescendantsParams = {},
+): Promise<z.infer<typeof PageDescendantsResponseSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.pages.service.ts',
+		'getDescendants',
+	);
+	serviceLogger.debug(
+		`Getting descendants of page ID: ${pageId}, params:`,
+		params,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const queryParams = new URLSearchParams();
+	if (params.depth) {
+		queryParams.set('depth', params.depth.toString());
+	}
+	if (params.cursor) {
+		queryParams.set('cursor', params.cursor);
+	}
+	if (params.limit) {
+		queryParams.set('limit', params.limit.toString());
+	}
+
+	const queryString = queryParams.toString()
+		? `?${queryParams.toString()}`
+		: '';
+	const path = `${API_PATH}/pages/${pageId}/descendants${queryString}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.getPageDescendants(
+					credentials,
+					pageId,
+					params,
+				)
+			: await fetchAtlassian<unknown>(credentials, path);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = PageDescendantsResponseSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated ${validatedData.results.length} descendants of page ID: ${pageId}`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching page descendants:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Get the ancestors of a Confluence page
+ *
+ * @async
+ * @memberof VendorAtlassianPagesService
+ * @param {string} pageId - The ID of the page
+ * @returns {Promise<PageAncestorsResponseType>} Promise containing the ancestor IDs and types, from the top of the tree down to the direct parent
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * const response = await getAncestors('123');
+ */
+async function getAncestors(
+	pageId: string,
+): Promise<z.infer<typeof PageAncestorsResponseSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.pages.service.ts',
+		'getAncestors',
+	);
+	serviceLogger.debug(`Getting ancestors of page ID: ${pageId}`);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	// Pages are rarely nested deeper than this; the API default is 25
+	const path = `${API_PATH}/pages/${pageId}/ancestors?limit=250`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.getPageAncestors(credentials, pageId)
+			: await fetchAtlassian<unknown>(credentials, path);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = PageAncestorsResponseSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated ${validatedData.results.length} ancestors of page ID: ${pageId}`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching page ancestors:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * List the root-level pages of a Confluence space
+ *
+ * @async
+ * @memberof VendorAtlassianPagesService
+ * @param {string} spaceId - The numeric ID of the space
+ * @param {ListSpaceRootPagesParams} params - Optional pagination
+ * @returns {Promise<PagesResponseType>} Promise containing the pages at the top of the space tree
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * const response = await listSpaceRootPages('98765');
+ */
+async function listSpaceRootPages(
+	spaceId: string,
+	params: ListSpaceRootPagesParams = {},
+): Promise<z.infer<typeof PagesResponseSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.pages.service.ts',
+		'listSpaceRootPages',
+	);
+	serviceLogger.debug(`Listing root pages of space ID: ${spaceId}`, params);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const queryParams = new URLSearchParams({
+		depth: 'root',
+		status: 'current',
+	});
+	if (params.cursor) {
+		queryParams.set('cursor', params.cursor);
+	}
+	if (params.limit) {
+		queryParams.set('limit', params.limit.toString());
+	}
+
+	const path = `${API_PATH}/spaces/${spaceId}/pages?${queryParams.toString()}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.listSpaceRootPages(
+					credentials,
+					spaceId,
+					params,
+				)
+			: await fetchAtlassian<unknown>(credentials, path);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = PagesResponseSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated ${validatedData.results.length} root pages of space ID: ${spaceId}`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching space root pages:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * List the versions of a Confluence page
+ *
+ * @async
+ * @memberof VendorAtlassianPagesService
+ * @param {string} pageId - The ID of the page
+ * @param {ListPageVersionsParams} params - Sort order and pagination
+ * @returns {Promise<PageVersionsResponseType>} Promise containing the versions (number, author, date, message) and pagination links
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ * @example
+ * // Get the 10 most recent versions of a page
+ * const response = await listVersions('123', { limit: 10 });
+ */
+async function listVersions(
+	pageId: string,
+	params: ListPageVersionsParams = {},
+): Promise<z.infer<typeof PageVersionsResponseSchema>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.pages.service.ts',
+		'listVersions',
+	);
+	serviceLogger.debug(
+		`Listing versions of page ID: ${pageId}, params:`,
+		params,
+	);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	const queryParams = new URLSearchParams();
+	if (params.sort) {
+		queryParams.set('sort', params.sort);
+	}
+	if (params.cursor) {
+		queryParams.set('cursor', params.cursor);
+	}
+	if (params.limit) {
+		queryParams.set('limit', params.limit.toString());
+	}
+
+	const queryString = queryParams.toString()
+		? `?${queryParams.toString()}`
+		: '';
+	const path = `${API_PATH}/pages/${pageId}/versions${queryString}`;
+
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	try {
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.listPageVersions(
+					credentials,
+					pageId,
+					params,
+				)
+			: await fetchAtlassian<unknown>(credentials, path);
+
+		// Validate the response data using the Zod schema
+		try {
+			const validatedData = PageVersionsResponseSchema.parse(rawData);
+			serviceLogger.debug(
+				`Successfully validated ${validatedData.results.length} versions of page ID: ${pageId}`,
+			);
+			return validatedData;
+		} catch (validationError) {
+			if (validationError instanceof z.ZodError) {
+				serviceLogger.error(
+					'API response validation failed:',
+					validationError.format(),
+				);
+				throw createApiError(
+					`API response validation failed: ${validationError.message}`,
+					500,
+					validationError,
+				);
+			}
+			// Re-throw other errors
+			throw validationError;
+		}
+	} catch (error) {
+		serviceLogger.error('Error fetching page versions:', error);
+		throw error; // Rethrow to be handled by the error handler util
+	}
+}
+
+/**
+ * Get the current version number of a page
+ *
+ * Bypasses the response cache, so that the result can be used to detect changes.
+ *
+ * @async
+ * @memberof VendorAtlassianPagesService
+ * @param {string} pageId - The ID of the page
+ * @returns {Promise<number>} Promise containing the version number
+ * @throws {Error} If Atlassian credentials are missing or API request fails
+ */
+async function getVersion(pageId: string): Promise<number> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.pages.service.ts',
+		'getVersion',
+	);
+	serviceLogger.debug(`Getting the version of page ID: ${pageId}`);
+
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		throw createAuthMissingError(ATLASSIAN_SITE_REQUIRED_MESSAGE);
+	}
+
+	if (isServerDeployment(credentials)) {
+		return atlassianServerService.getPageVersion(credentials, pageId);
+	}
+
+	const rawData = await fetchAtlassian<unknown>(
+		credentials,
+		`${API_PATH}/pages/${pageId}`,
+		{ cache: false },
+	);
+	const parsed = z
+		.object({ version: z.object({ number: z.number() }) })
+		.safeParse(rawData);
+	if (!parsed.success) {
+		throw createApiError(
+			`API response validation failed: ${parsed.error.message}`,
+			500,
+			parsed.error,
+		);
+	}
+	return parsed.data.version.number;
+}
+
+/**
+ * Drop the cached responses of a page that changed outside this server, in
+ * the same way as after writing the page, so the next read fetches it again
+ *
+ * @memberof VendorAtlassianPagesService
+ * @param {string} pageId - The ID of the page
+ */
+function invalidateCache(pageId: string): void {
+	const credentials = getAtlassianCredentials();
+	if (!credentials) {
+		return;
+	}
+	invalidateCachedResponses(
+		getAtlassianBaseUrl(credentials),
+		`${API_PATH}/pages/${pageId}`,
+	);
+}
+
+export default {
+	list,
+	get,
+	getVersion,
+	invalidateCache,
+	create,
+	update,
+	getDescendants,
+	getAncestors,
+	listSpaceRootPages,
+	listVersions,
+};
@@ -52,6 +52,33 @@ export interface ListPagesParams {
 	cursor?: string;
 	limit?: number;
 	parentId?: string;
+	id?: string[];
+}
+
+/**
+ * Parameters for listing the descendants of a page
+ */
+export interface GetPageDescendantsParams {
+	depth?: number;
+	cursor?: string;
+	limit?: number;
+}
+
+/**
+ * Parameters for listing the root-level pages of a space
+ */
+export interface ListSpaceRootPagesParams {
+	cursor?: string;
+	limit?: number;
+}
+
+/**
+ * Parameters for listing the versions of a page
+ */
+export interface ListPageVersionsParams {
+	cursor?: string;
+	limit?: number;
+	sort?: 'modified-date' | '-modified-date';
 }
 
 /**
@@ -71,6 +98,38 @@ export interface GetPageByIdParams {
 	includeCollaborators?: boolean;
 }
 
+/**
+ * Page body payload for write operations
+ */
+export interface PageBodyWrite {
+	representation: 'atlas_doc_format' | 'storage';
+	value: string;
+}
+
+/**
+ * Parameters for creating a page
+ */
+export interface CreatePageParams {
+	spaceId: string;
+	title: string;
+	parentId?: string;
+	status?: 'current' | 'draft';
+	body: PageBodyWrite;
+}
+
+/**
+ * Parameters for updating a page
+ */
+export interface UpdatePageParams {
+	title: string;
+	status?: 'current' | 'draft';
+	body: PageBodyWrite;
+	version: {
+		number: number;
+		message?: string;
+	};
+}
+
 /**
  * Zod schemas for Confluence API response types
  */
@@ -264,8 +323,76 @@ export const PagesResponseSchema = z.object({
 	_links: PageLinksSchema.optional(),
 });
 
+/**
+ * Page descendant schema (pages, folders, whiteboards and other content in the page tree)
+ */
+export const PageDescendantSchema = z.object({
+	id: z.string(),
+	type: z.string(),
+	status: z.string().optional(),
+	title: z.string().optional(),
+	parentId: z.string().nullable().optional(),
+	depth: z.number().optional(),
+	childPosition: z.number().nullable().optional(),
+});
+
+/**
+ * Page descendants response schema
+ */
+export const PageDescendantsResponseSchema = z.object({
+	results: z.array(PageDescendantSchema),
+	_links: PageLinksSchema.optional(),
+});
+
+/**
+ * Page ancestor schema
+ */
+export const PageAncestorSchema = z.object({
+	id: z.string(),
+	type: z.string().optional(),
+});
+
+/**
+ * Page ancestors response schema
+ */
+export const PageAncestorsResponseSchema = z.object({
+	results: z.array(PageAncestorSchema),
+	_links: PageLinksSchema.optional(),
+});
+
+/**
+ * Page version schema, as returned by the page versions endpoint
+ */
+export const PageVersionSchema = VersionSchema.extend({
+	page: z
+		.object({
+			id: z.string(),
+			title: z.string(),
+		})
+		.optional(),
+});
+
+/**
+ * Page versions response schema
+ */
+export const PageVersionsResponseSchema = z.object({
+	results: z.array(PageVersionSchema),
+	_links: PageLinksSchema.optional(),
+});
+
 /**
  * Inferred types from Zod schemas
  */
 export type PageSchemaType = z.infer<typeof PageSchema>;
 export type PageDetailedSchemaType = z.infer<typeof PageDetailedSchema>;
+export type PageDescendantSchemaType = z.infer<typeof PageDescendantSchema>;
+export type PageDescendantsResponseType = z.infer<
+	typeof PageDescendantsResponseSchema
+>;
+export type PageAncestorsResponseType = z.infer<
+	typeof PageAncestorsResponseSchema
+>;
+export type PageVersionSchemaType = z.infer<typeof PageVersionSchema>;
+export type PageVersionsResponseType = z.infer<
+	typeof PageVersionsResponseSchema
+>;
@@ -2,6 +2,7 @@ import { createApiError, createAuthMissingError } from '../utils/error.util.js';
 import { Logger } from '../utils/logger.util.js';
 import {
 	ATLASSIAN_SITE_REQUIRED_MESSAGE,
+	fetchAtlassian,
 	getAtlassianCredentials,
 } from '../utils/transport.util.js';
 import {
@@ -98,11 +99,17 @@ async function search(params: SearchParams): Promise<SearchResponseType> {
 	// Required CQL query
 	queryParams.cql = params.cql;
 
-	// Pagination
-	// v1 API uses start/limit instead of cursor
+	// Pagination: Cloud continues from the cursor of the `next` link,
+	// Server / Data Center from the start offset
 	if (params.limit) {
 		queryParams.limit = params.limit.toString();
 	}
+	if (params.cursor) {
+		queryParams.cursor = params.cursor;
+	}
+	if (params.start !== undefined) {
+		queryParams.start = params.start.toString();
+	}
 
 	// The v1 API parameters are slightly different, but we can map most of them
 	if (params.includeTotalSize !== undefined) {
@@ -124,47 +131,15 @@ async function search(params: SearchParams): Promise<SearchResponseType> {
 		.join('&');
 
 	try {
-		// Construct the full URL for the API call using the v1 search endpoint
-		const baseUrl = `https://${credentials.siteName}.atlassian.net`;
-		const url = `${baseUrl}${API_PATH}/search${queryString ? `?${queryString}` : ''}`;
-
-		// For debugging
-		serviceLogger.debug(`Making direct fetch to v1 API endpoint: ${url}`);
-
-		// Build headers and include authentication when available
-		const headers: Record<string, string> = {
-			Accept: 'application/json',
-			'Content-Type': 'application/json',
-		};
+		// Use the v1 search endpoint, which is also available on Server / Data Center
+		const path = `${API_PATH}/search${queryString ? `?${queryString}` : ''}`;
 
-		if (credentials.userEmail && credentials.apiToken) {
-			headers.Authorization = `Basic ${Buffer.from(
-				`${credentials.userEmail}:${credentials.apiToken}`,
-			).toString('base64')}`;
-		}
+		serviceLogger.debug(`Sending request to: ${path}`);
 
-		// Make direct fetch call
-		const response = await fetch(url, {
-			method: 'GET',
-			headers,
-		});
-
-		// Log the response status for debugging
-		serviceLogger.debug(`API response status: ${response.status}`);
-
-		// Check for error response
-		if (!response.ok) {
-			const errorText = await response.text();
-			serviceLogger.error(`API error response: ${errorText}`);
-			throw createApiError(
-				`API request failed with status ${response.status}`,
-				response.status,
-				errorText,
-			);
-		}
-
-		// Parse the JSON response
-		const v1Data = (await response.json()) as V1SearchResponse;
+		const v1Data = await fetchAtlassian<V1SearchResponse>(
+			credentials,
+			path,
+		);
 
 		serviceLogger.debug(
 			`Successfully retrieved ${v1Data.results?.length || 0} search results from v1 API`,
@@ -190,6 +165,8 @@ async function search(params: SearchParams): Promise<SearchResponseType> {
 			}),
 			_links: v1Data._links || {},
 			total: v1Data.totalSize,
+			start: v1Data.start,
+			limit: v1Data.limit,
 		};
 
 		// Validate the transformed data using our schema
@@ -230,4 +207,21 @@ async function search(params: SearchParams): Promise<SearchResponseType> {
 	}
 }
 
-export default { search };
+/**
+ * Get the parameters that request the page a `next` link points to
+ * @param next - The `_links.next` value of a search response
+ * @returns The cursor and start offset of the next page
+ */
+function getNextPageParams(
+	next: string,
+): Pick<SearchParams, 'cursor' | 'start'> {
+	const query = new URLSearchParams(next.split('?')[1] ?? '');
+	const cursor = query.get('cursor');
+	const start = Number(query.get('start'));
+	return {
+		...(cursor && { cursor }),
+		...(query.has('start') && Number.isInteger(start) && { start }),
+	};
+}
+
+export default { search, getNextPageParams };
@@ -563,4 +563,19 @@ describe('Vendor Atlassian Search Service', () => {
 			}
 		}, 15000);
 	});
+
+	describe('getNextPageParams', () => {
+		it('reads the cursor and start offset of a next link', () => {
+			expect(
+				atlassianSearchService.getNextPageParams(
+					'/rest/api/search?next=true&cursor=_sa_Wy%3D&limit=25&start=25&cql=type%3Dpage',
+				),
+			).toEqual({ cursor: '_sa_Wy=', start: 25 });
+			expect(
+				atlassianSearchService.getNextPageParams(
+					'/rest/api/search?cql=type%3Dpage&start=50',
+				),
+			).toEqual({ start: 50 });
+		});
+	});
 });
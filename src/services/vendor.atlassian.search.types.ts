@@ -24,7 +24,14 @@ export enum GenericContentType {
  */
 export interface SearchParams {
 	cql: string;
+	/**
+	 * Cursor from the `next` link of the previous page (Cloud)
+	 */
 	cursor?: string;
+	/**
+	 * Offset of the first result; Server / Data Center pages by offset only
+	 */
+	start?: number;
 	limit?: number;
 	includeTotalSize?: boolean;
 	excerpt?: ExcerptFormat;
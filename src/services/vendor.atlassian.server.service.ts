@@ -0,0 +1,692 @@
+import { z } from 'zod';
+import { createApiError } from '../utils/error.util.js';
+import { Logger } from '../utils/logger.util.js';
+import {
+	AtlassianCredentials,
+	fetchAtlassian,
+	RequestOptions,
+} from '../utils/transport.util.js';
+import { escapeCqlValue } from '../utils/cql.util.js';
+import { htmlToMarkdown } from '../utils/markdown.util.js';
+import { adfToStorage, markdownToAdf } from '../utils/adf.util.js';
+import {
+	ServerContentSchema,
+	ServerContentListSchema,
+	ServerVersionListSchema,
+	ServerVersionSchema,
+	ServerSpaceSchema,
+	ServerSpaceListSchema,
+	ServerContentType,
+	ServerUserType,
+	ServerSpaceType,
+} from './vendor.atlassian.server.types.js';
+import {
+	ListPagesParams,
+	GetPageByIdParams,
+	CreatePageParams,
+	UpdatePageParams,
+	GetPageDescendantsParams,
+	ListSpaceRootPagesParams,
+	ListPageVersionsParams,
+	PageBodyWrite,
+	PageSortOrder,
+	BodyFormat,
+} from './vendor.atlassian.pages.types.js';
+import {
+	ListSpacesParams,
+	GetSpaceByIdParams,
+} from './vendor.atlassian.spaces.types.js';
+
+/**
+ * Base API path for the Confluence REST API. `fetchAtlassian` replaces the
+ * /wiki prefix with the context path of the Server / Data Center instance.
+ * @constant {string}
+ */
+const API_PATH = '/wiki/rest/api';
+
+/**
+ * Path used for the synthesized v2 pagination links
+ * @constant {string}
+ */
+const V2_API_PATH = '/wiki/api/v2';
+
+/**
+ * Content expansions needed to map pages to the v2 shape
+ * @constant {string}
+ */
+const CONTENT_EXPAND = 'space,version,history,ancestors';
+
+/**
+ * Space expansions needed to map spaces to the v2 shape
+ * @constant {string}
+ */
+const SPACE_EXPAND = 'description.plain,homepage,history';
+
+/**
+ * @namespace VendorAtlassianServerService
+ * @description Compatibility layer for Confluence Server / Data Center.
+ * The pages and spaces services use the Cloud v2 API, which Server / Data Center
+ * does not provide. When the configured base URL points to a Server / Data Center
+ * instance, those services call the functions below instead. They use the
+ * equivalent /rest/api endpoints and return responses in the v2 shape, so the
+ * services validate them with their usual schemas.
+ *
+ * Differences to keep in mind:
+ * - Spaces are addressed by key, so the space key is used as the space ID.
+ * - Cursors are the `start` offsets of the v1 API.
+ * - Bodies are exchanged in storage format. Storage bodies are passed through
+ *   unchanged; ADF is converted on the way in and, for reading only, derived
+ *   from the storage format (via Markdown) on the way out.
+ */
+
+/**
+ * Fetch a Server / Data Center endpoint and validate the response
+ */
+async function fetchServer<T extends z.ZodTypeAny>(
+	credentials: AtlassianCredentials,
+	path: string,
+	schema: T,
+	options: RequestOptions = {},
+): Promise<z.infer<T>> {
+	const serviceLogger = Logger.forContext(
+		'services/vendor.atlassian.server.service.ts',
+		'fetchServer',
+	);
+	serviceLogger.debug(`Sending request to: ${path}`);
+
+	const rawData = await fetchAtlassian<unknown>(credentials, path, options);
+
+	try {
+		return schema.parse(rawData);
+	} catch (validationError) {
+		if (validationError instanceof z.ZodError) {
+			serviceLogger.error(
+				'API response validation failed:',
+				validationError.format(),
+			);
+			throw createApiError(
+				`API response validation failed: ${validationError.message}`,
+				500,
+				validationError,
+			);
+		}
+		throw validationError;
+	}
+}
+
+/**
+ * Check that a content ID is numeric before it is used in CQL
+ * @throws Error if the ID is not numeric
+ */
+function toCqlContentId(id: string): string {
+	if (!/^\d+$/.test(id)) {
+		throw createApiError(
+			`Invalid content ID: "${id}". Content IDs are numeric.`,
+			400,
+		);
+	}
+	return id;
+}
+
+/**
+ * Build a query string from parameters, skipping undefined values
+ */
+function toQueryString(
+	params: Record<string, string | string[] | number | undefined>,
+): string {
+	const queryParams = new URLSearchParams();
+	for (const [key, value] of Object.entries(params)) {
+		if (Array.isArray(value)) {
+			value.forEach((item) => queryParams.append(key, item));
+		} else if (value !== undefined) {
+			queryParams.set(key, String(value));
+		}
+	}
+	const queryString = queryParams.toString();
+	return queryString ? `?${queryString}` : '';
+}
+
+/**
+ * Convert a cursor (the `start` offset) to a number
+ */
+function cursorToStart(cursor?: string): number {
+	const start = cursor ? parseInt(cursor, 10) : 0;
+	return isNaN(start) || start < 0 ? 0 : start;
+}
+
+/**
+ * Build v2 style links for a v1 collection, with a `next` link carrying the
+ * start offset of the following page as cursor
+ */
+function toCollectionLinks(
+	resource: string,
+	data: {
+		_links?: { next?: string; base?: string };
+		results: unknown[];
+		size?: number;
+	},
+	start: number,
+): { next?: string; base?: string } {
+	return {
+		...(data._links?.base && { base: data._links.base }),
+		...(data._links?.next && {
+			next: `${V2_API_PATH}/${resource}?cursor=${start + (data.size ?? data.results.length)}`,
+		}),
+	};
+}
+
+/**
+ * Identify a user by account ID, user key or username, whichever is available
+ */
+function toUserId(user?: ServerUserType): string | undefined {
+	return user?.accountId || user?.userKey || user?.username;
+}
+
+/**
+ * Map a content object to the v2 page shape
+ * @param content - The v1 content object
+ * @param bodyFormat - The body format requested by the caller, if any
+ * @param base - Base URL from the enclosing collection, if the content has none
+ */
+function toPage(
+	content: ServerContentType,
+	bodyFormat?: BodyFormat,
+	base?: string,
+): Record<string, unknown> {
+	const parent = content.ancestors?.[content.ancestors.length - 1];
+	const storage = content.body?.storage?.value;
+
+	let body: Record<string, unknown> | undefined;
+	if (storage !== undefined) {
+		body = {
+			storage: { representation: 'storage', value: storage },
+		};
+		// Server / Data Center has no ADF; derive it from the storage format
+		if (bodyFormat === 'atlas_doc_format') {
+			body.atlas_doc_format = {
+				representation: 'atlas_doc_format',
+				value: JSON.stringify(markdownToAdf(htmlToMarkdown(storage))),
+			};
+		}
+	}
+
+	return {
+		id: content.id,
+		status: content.status,
+		title: content.title,
+		spaceId: content.space?.key ?? '',
+		parentId: parent?.id ?? null,
+		parentType: parent ? (parent.type ?? 'page') : null,
+		authorId: toUserId(content.history?.createdBy),
+		createdAt: content.history?.createdDate ?? content.version?.when ?? '',
+		...(content.version && {
+			version: {
+				number: content.version.number,
+				message: content.version.message,
+				minorEdit: content.version.minorEdit,
+				authorId: toUserId(content.version.by),
+				createdAt: content.version.when,
+			},
+		}),
+		...(parent && {
+			parent: {
+				id: parent.id,
+				type: parent.type ?? 'page',
+				status: 'current',
+				title: parent.title ?? '',
+			},
+		}),
+		_links: {
+			webui: content._links?.webui,
+			tinyui: content._links?.tinyui,
+			editui: content._links?.edit,
+			base: content._links?.base ?? base,
+		},
+		...(body && { body }),
+	};
+}
+
+/**
+ * Map a space to the v2 space shape, using the space key as ID
+ */
+function toSpace(
+	space: ServerSpaceType,
+	base?: string,
+): Record<string, unknown> {
+	const description = space.description?.plain?.value;
+	return {
+		id: space.key,
+		key: space.key,
+		name: space.name,
+		type: space.type ?? 'global',
+		status: (space.status ?? 'current').toLowerCase(),
+		authorId: toUserId(space.history?.createdBy) ?? 'unknown',
+		createdAt: space.history?.createdDate ?? '',
+		homepageId: space.homepage?.id ?? null,
+		description: description
+			? { plain: { representation: 'plain', value: description } }
+			: null,
+		_links: {
+			webui: space._links?.webui,
+			base: space._links?.base ?? base,
+		},
+	};
+}
+
+/**
+ * Convert a page body prepared for the v2 API to storage format
+ */
+function toStorageBody(body: PageBodyWrite): {
+	storage: { value: string; representation: 'storage' };
+} {
+	const value =
+		body.representation === 'storage'
+			? body.value
+			: adfToStorage(JSON.parse(body.value));
+	return { storage: { value, representation: 'storage' } };
+}
+
+/**
+ * Map a v2 page sort order to a CQL order by clause
+ */
+function toCqlOrder(sort?: PageSortOrder): string {
+	if (!sort) {
+		return '';
+	}
+	const field = sort.replace(/^-/, '');
+	const cqlField =
+		field === 'created-date'
+			? 'created'
+			: field === 'modified-date'
+				? 'lastmodified'
+				: field === 'title'
+					? 'title'
+					: undefined;
+	if (!cqlField) {
+		return '';
+	}
+	return ` order by ${cqlField} ${sort.startsWith('-') ? 'desc' : 'asc'}`;
+}
+
+/**
+ * List pages using a CQL search (equivalent of GET /pages)
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {ListPagesParams} params - Page filters, sort order and pagination
+ * @returns {Promise<unknown>} Pages in the v2 shape
+ */
+async function listPages(
+	credentials: AtlassianCredentials,
+	params: ListPagesParams,
+): Promise<unknown> {
+	const clauses = ['type = page'];
+	if (params.spaceId?.length) {
+		clauses.push(
+			`space in (${params.spaceId.map((key) => `"${escapeCqlValue(key)}"`).join(',')})`,
+		);
+	}
+	if (params.title) {
+		clauses.push(`title = "${escapeCqlValue(params.title)}"`);
+	}
+	if (params.query) {
+		clauses.push(`text ~ "${escapeCqlValue(params.query)}"`);
+	}
+	if (params.parentId) {
+		clauses.push(`parent = ${toCqlContentId(params.parentId)}`);
+	}
+	if (params.id?.length) {
+		clauses.push(`id in (${params.id.map(toCqlContentId).join(',')})`);
+	}
+
+	const start = cursorToStart(params.cursor);
+	const path = `${API_PATH}/content/search${toQueryString({
+		cql: clauses.join(' and ') + toCqlOrder(params.sort),
+		start,
+		limit: params.limit,
+		expand: params.bodyFormat
+			? `${CONTENT_EXPAND},body.storage`
+			: CONTENT_EXPAND,
+	})}`;
+
+	const data = await fetchServer(credentials, path, ServerContentListSchema);
+	return {
+		results: data.results.map((content) =>
+			toPage(content, params.bodyFormat, data._links?.base),
+		),
+		_links: toCollectionLinks('pages', data, start),
+	};
+}
+
+/**
+ * Get a page, optionally at a specific version (equivalent of GET /pages/{id})
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {string} pageId - The ID of the page
+ * @param {GetPageByIdParams} params - Body format and version
+ * @returns {Promise<unknown>} The page in the v2 shape
+ */
+async function getPage(
+	credentials: AtlassianCredentials,
+	pageId: string,
+	params: GetPageByIdParams = {},
+): Promise<unknown> {
+	const includeBody = params.bodyFormat && params.includeBody !== false;
+	const path = `${API_PATH}/content/${pageId}${toQueryString({
+		expand: includeBody ? `${CONTENT_EXPAND},body.storage` : CONTENT_EXPAND,
+		...(params.version
+			? { status: 'historical', version: params.version }
+			: params.getDraft && { status: 'draft' }),
+	})}`;
+
+	const content = await fetchServer(credentials, path, ServerContentSchema);
+	return toPage(content, params.bodyFormat);
+}
+
+/**
+ * Get the current version number of a page, bypassing the response cache
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {string} pageId - The ID of the page
+ * @returns {Promise<number>} The version number
+ */
+async function getPageVersion(
+	credentials: AtlassianCredentials,
+	pageId: string,
+): Promise<number> {
+	const path = `${API_PATH}/content/${pageId}${toQueryString({
+		expand: 'version',
+	})}`;
+
+	const content = await fetchServer(
+		credentials,
+		path,
+		z.object({ version: ServerVersionSchema }),
+		{ cache: false },
+	);
+	return content.version.number;
+}
+
+/**
+ * Create a page (equivalent of POST /pages)
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {CreatePageParams} params - Space (key), title, parent and body
+ * @returns {Promise<unknown>} The created page in the v2 shape
+ */
+async function createPage(
+	credentials: AtlassianCredentials,
+	params: CreatePageParams,
+): Promise<unknown> {
+	const content = await fetchServer(
+		credentials,
+		`${API_PATH}/content?expand=${CONTENT_EXPAND},body.storage`,
+		ServerContentSchema,
+		{
+			method: 'POST',
+			body: {
+				type: 'page',
+				title: params.title,
+				space: { key: params.spaceId },
+				status: params.status || 'current',
+				...(params.parentId && {
+					ancestors: [{ id: params.parentId }],
+				}),
+				body: toStorageBody(params.body),
+			},
+		},
+	);
+	return toPage(content, params.body.representation);
+}
+
+/**
+ * Update a page (equivalent of PUT /pages/{id})
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {string} pageId - The ID of the page
+ * @param {UpdatePageParams} params - Title, body and new version number
+ * @returns {Promise<unknown>} The updated page in the v2 shape
+ */
+async function updatePage(
+	credentials: AtlassianCredentials,
+	pageId: string,
+	params: UpdatePageParams,
+): Promise<unknown> {
+	const content = await fetchServer(
+		credentials,
+		`${API_PATH}/content/${pageId}?expand=${CONTENT_EXPAND},body.storage`,
+		ServerContentSchema,
+		{
+			method: 'PUT',
+			body: {
+				id: pageId,
+				type: 'page',
+				title: params.title,
+				status: params.status || 'current',
+				version: params.version,
+				body: toStorageBody(params.body),
+			},
+		},
+	);
+	return toPage(content, params.body.representation);
+}
+
+/**
+ * List the descendants of a page down to a depth (equivalent of
+ * GET /pages/{id}/descendants). Descendants deeper than the requested depth
+ * are dropped from each batch, so batches may hold fewer than `limit` items.
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {string} pageId - The ID of the root page
+ * @param {GetPageDescendantsParams} params - Depth and pagination
+ * @returns {Promise<unknown>} Descendants in the v2 shape
+ */
+async function getPageDescendants(
+	credentials: AtlassianCredentials,
+	pageId: string,
+	params: GetPageDescendantsParams = {},
+): Promise<unknown> {
+	const start = cursorToStart(params.cursor);
+	const path = `${API_PATH}/content/search${toQueryString({
+		cql: `ancestor = ${toCqlContentId(pageId)} and type = page`,
+		start,
+		limit: params.limit,
+		expand: 'ancestors',
+	})}`;
+
+	const data = await fetchServer(credentials, path, ServerContentListSchema);
+	const maxDepth = params.depth ?? 5;
+
+	const results = data.results
+		.map((content) => {
+			const ancestors = content.ancestors ?? [];
+			const rootIndex = ancestors.findIndex(
+				(ancestor) => ancestor.id === pageId,
+			);
+			return {
+				id: content.id,
+				type: content.type,
+				status: content.status,
+				title: content.title,
+				parentId: ancestors[ancestors.length - 1]?.id ?? null,
+				depth: ancestors.length - rootIndex,
+			};
+		})
+		.filter((descendant) => descendant.depth <= maxDepth);
+
+	return {
+		results,
+		_links: toCollectionLinks(`pages/${pageId}/descendants`, data, start),
+	};
+}
+
+/**
+ * List the ancestors of a page, from the top of the tree down to the direct
+ * parent (equivalent of GET /pages/{id}/ancestors)
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {string} pageId - The ID of the page
+ * @returns {Promise<unknown>} Ancestors in the v2 shape
+ */
+async function getPageAncestors(
+	credentials: AtlassianCredentials,
+	pageId: string,
+): Promise<unknown> {
+	const content = await fetchServer(
+		credentials,
+		`${API_PATH}/content/${pageId}?expand=ancestors`,
+		ServerContentSchema,
+	);
+	return {
+		results: (content.ancestors ?? []).map((ancestor) => ({
+			id: ancestor.id,
+			type: ancestor.type ?? 'page',
+		})),
+	};
+}
+
+/**
+ * List the root-level pages of a space (equivalent of
+ * GET /spaces/{id}/pages?depth=root)
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {string} spaceKey - The key of the space (used as space ID)
+ * @param {ListSpaceRootPagesParams} params - Pagination
+ * @returns {Promise<unknown>} Pages in the v2 shape
+ */
+async function listSpaceRootPages(
+	credentials: AtlassianCredentials,
+	spaceKey: string,
+	params: ListSpaceRootPagesParams = {},
+): Promise<unknown> {
+	const start = cursorToStart(params.cursor);
+	const path = `${API_PATH}/space/${encodeURIComponent(spaceKey)}/content/page${toQueryString(
+		{
+			depth: 'root',
+			start,
+			limit: params.limit,
+			expand: CONTENT_EXPAND,
+		},
+	)}`;
+
+	const data = await fetchServer(credentials, path, ServerContentListSchema);
+	return {
+		results: data.results.map((content) =>
+			toPage(content, undefined, data._links?.base),
+		),
+		_links: toCollectionLinks(`spaces/${spaceKey}/pages`, data, start),
+	};
+}
+
+/**
+ * List the versions of a page, most recent first (equivalent of
+ * GET /pages/{id}/versions). Data Center exposes this endpoint under
+ * /rest/experimental.
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {string} pageId - The ID of the page
+ * @param {ListPageVersionsParams} params - Pagination
+ * @returns {Promise<unknown>} Versions in the v2 shape
+ */
+async function listPageVersions(
+	credentials: AtlassianCredentials,
+	pageId: string,
+	params: ListPageVersionsParams = {},
+): Promise<unknown> {
+	const start = cursorToStart(params.cursor);
+	const path = `/wiki/rest/experimental/content/${pageId}/version${toQueryString(
+		{
+			start,
+			limit: params.limit,
+		},
+	)}`;
+
+	const data = await fetchServer(credentials, path, ServerVersionListSchema);
+	return {
+		results: data.results.map((version) => ({
+			number: version.number,
+			message: version.message,
+			minorEdit: version.minorEdit,
+			authorId: toUserId(version.by),
+			createdAt: version.when,
+		})),
+		_links: toCollectionLinks(`pages/${pageId}/versions`, data, start),
+	};
+}
+
+/**
+ * List spaces (equivalent of GET /spaces). Space IDs are space keys.
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {ListSpacesParams} params - Space filters and pagination
+ * @returns {Promise<unknown>} Spaces in the v2 shape
+ */
+async function listSpaces(
+	credentials: AtlassianCredentials,
+	params: ListSpacesParams = {},
+): Promise<unknown> {
+	const start = cursorToStart(params.cursor);
+	const path = `${API_PATH}/space${toQueryString({
+		spaceKey: [...(params.ids ?? []), ...(params.keys ?? [])],
+		type:
+			params.type === 'global' || params.type === 'personal'
+				? params.type
+				: undefined,
+		status: params.status,
+		label: params.labels,
+		start,
+		limit: params.limit,
+		expand: SPACE_EXPAND,
+	})}`;
+
+	const data = await fetchServer(credentials, path, ServerSpaceListSchema);
+	return {
+		results: data.results.map((space) => toSpace(space, data._links?.base)),
+		_links: toCollectionLinks('spaces', data, start),
+	};
+}
+
+/**
+ * Get a space by key (equivalent of GET /spaces/{id})
+ *
+ * @memberof VendorAtlassianServerService
+ * @param {AtlassianCredentials} credentials - Server / Data Center credentials
+ * @param {string} spaceKey - The key of the space (used as space ID)
+ * @param {GetSpaceByIdParams} _params - Unused; the v2 include flags have no equivalent
+ * @returns {Promise<unknown>} The space in the v2 shape
+ */
+async function getSpace(
+	credentials: AtlassianCredentials,
+	spaceKey: string,
+	_params: GetSpaceByIdParams = {},
+): Promise<unknown> {
+	const space = await fetchServer(
+		credentials,
+		`${API_PATH}/space/${encodeURIComponent(spaceKey)}?expand=${SPACE_EXPAND}`,
+		ServerSpaceSchema,
+	);
+	return toSpace(space);
+}
+
+export default {
+	listPages,
+	getPage,
+	getPageVersion,
+	createPage,
+	updatePage,
+	getPageDescendants,
+	getPageAncestors,
+	listSpaceRootPages,
+	listPageVersions,
+	listSpaces,
+	getSpace,
+};
@@ -0,0 +1,158 @@
+/**
+ * Types for the Confluence Server / Data Center REST API (/rest/api)
+ *
+ * Only the fields needed to map responses to the Cloud v2 shapes are modeled.
+ */
+import { z } from 'zod';
+
+/**
+ * User reference schema (Server / Data Center identifies users by user key and username)
+ */
+export const ServerUserSchema = z.object({
+	username: z.string().optional(),
+	userKey: z.string().optional(),
+	accountId: z.string().optional(),
+	displayName: z.string().optional(),
+});
+
+/**
+ * Content version schema
+ */
+export const ServerVersionSchema = z.object({
+	number: z.number(),
+	when: z.string().optional(),
+	message: z.string().optional(),
+	minorEdit: z.boolean().optional(),
+	by: ServerUserSchema.optional(),
+});
+
+/**
+ * Space reference schema, as embedded in content
+ */
+export const ServerSpaceRefSchema = z.object({
+	id: z.union([z.number(), z.string()]).optional(),
+	key: z.string(),
+	name: z.string().optional(),
+});
+
+/**
+ * Links schema shared by content, spaces and collections
+ */
+export const ServerLinksSchema = z.object({
+	webui: z.string().optional(),
+	tinyui: z.string().optional(),
+	edit: z.string().optional(),
+	base: z.string().optional(),
+	context: z.string().optional(),
+	next: z.string().optional(),
+});
+
+/**
+ * Content schema (pages)
+ */
+export const ServerContentSchema = z.object({
+	id: z.string(),
+	type: z.string(),
+	status: z.string(),
+	title: z.string(),
+	space: ServerSpaceRefSchema.optional(),
+	history: z
+		.object({
+			createdBy: ServerUserSchema.optional(),
+			createdDate: z.string().optional(),
+		})
+		.optional(),
+	version: ServerVersionSchema.optional(),
+	ancestors: z
+		.array(
+			z.object({
+				id: z.string(),
+				type: z.string().optional(),
+				title: z.string().optional(),
+			}),
+		)
+		.optional(),
+	body: z
+		.object({
+			storage: z
+				.object({
+					value: z.string(),
+					representation: z.string(),
+				})
+				.optional(),
+		})
+		.optional(),
+	_links: ServerLinksSchema.optional(),
+});
+
+/**
+ * Paginated content list schema
+ */
+export const ServerContentListSchema = z.object({
+	results: z.array(ServerContentSchema),
+	start: z.number().optional(),
+	limit: z.number().optional(),
+	size: z.number().optional(),
+	_links: ServerLinksSchema.optional(),
+});
+
+/**
+ * Paginated version list schema
+ */
+export const ServerVersionListSchema = z.object({
+	results: z.array(ServerVersionSchema),
+	start: z.number().optional(),
+	limit: z.number().optional(),
+	size: z.number().optional(),
+	_links: ServerLinksSchema.optional(),
+});
+
+/**
+ * Space schema
+ */
+export const ServerSpaceSchema = z.object({
+	id: z.union([z.number(), z.string()]),
+	key: z.string(),
+	name: z.string(),
+	type: z.string().optional(),
+	status: z.string().optional(),
+	description: z
+		.object({
+			plain: z
+				.object({
+					value: z.string(),
+					representation: z.string(),
+				})
+				.optional(),
+		})
+		.optional(),
+	homepage: z.object({ id: z.string() }).optional(),
+	history: z
+		.object({
+			createdBy: ServerUserSchema.optional(),
+			createdDate: z.string().optional(),
+		})
+		.optional(),
+	_links: ServerLinksSchema.optional(),
+});
+
+/**
+ * Paginated space list schema
+ */
+export const ServerSpaceListSchema = z.object({
+	results: z.array(ServerSpaceSchema),
+	start: z.number().optional(),
+	limit: z.number().optional(),
+	size: z.number().optional(),
+	_links: ServerLinksSchema.optional(),
+});
+
+/**
+ * Inferred types from Zod schemas
+ */
+export type ServerUserType = z.infer<typeof ServerUserSchema>;
+export type ServerContentType = z.infer<typeof ServerContentSchema>;
+export type ServerContentListType = z.infer<typeof ServerContentListSchema>;
+export type ServerVersionListType = z.infer<typeof ServerVersionListSchema>;
+export type ServerSpaceType = z.infer<typeof ServerSpaceSchema>;
+export type ServerSpaceListType = z.infer<typeof ServerSpaceListSchema>;
@@ -4,6 +4,7 @@ import {
 	ATLASSIAN_SITE_REQUIRED_MESSAGE,
 	fetchAtlassian,
 	getAtlassianCredentials,
+	isServerDeployment,
 } from '../utils/transport.util.js';
 import {
 	SpacesResponseSchema,
@@ -12,6 +13,7 @@ import {
 	GetSpaceByIdParams,
 } from './vendor.atlassian.spaces.types.js';
 import { z } from 'zod';
+import atlassianServerService from './vendor.atlassian.server.service.js';
 
 /**
  * Base API path for Confluence REST API v2
@@ -132,7 +134,9 @@ async function list(
 
 	try {
 		// Get the raw response data from the API
-		const rawData = await fetchAtlassian<unknown>(credentials, path);
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.listSpaces(credentials, params)
+			: await fetchAtlassian<unknown>(credentials, path);
 
 		// Validate the response data using the Zod schema
 		try {
@@ -256,7 +260,13 @@ async function get(
 
 	try {
 		// Get the raw response data from the API
-		const rawData = await fetchAtlassian<unknown>(credentials, path);
+		const rawData = isServerDeployment(credentials)
+			? await atlassianServerService.getSpace(
+					credentials,
+					spaceId,
+					params,
+				)
+			: await fetchAtlassian<unknown>(credentials, path);
 
 		// Validate the response data using the Zod schema
 		try {
@@ -0,0 +1,226 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
+import {
+	ListAttachmentsToolArgs,
+	type ListAttachmentsToolArgsType,
+	GetAttachmentToolArgs,
+	type GetAttachmentToolArgsType,
+	UploadAttachmentToolArgs,
+	type UploadAttachmentToolArgsType,
+} from './atlassian.attachments.types.js';
+
+import atlassianAttachmentsController from '../controllers/atlassian.attachments.controller.js';
+
+/**
+ * MCP Tool: List Confluence Page Attachments
+ *
+ * Lists the attachments of a Confluence page with optional filtering.
+ * Returns a formatted markdown response with attachment details and pagination info.
+ *
+ * @param {ListAttachmentsToolArgsType} args - Tool arguments for filtering attachments
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with formatted attachments list
+ * @throws Will return error message if attachment listing fails
+ */
+async function listAttachments(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.attachments.tool.ts',
+		'listAttachments',
+	);
+	methodLogger.debug('Listing Confluence attachments with filters:', args);
+
+	try {
+		const result = await atlassianAttachmentsController.list(
+			args as ListAttachmentsToolArgsType,
+		);
+
+		methodLogger.debug('Successfully retrieved attachments list');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to list attachments', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Get Confluence Attachment
+ *
+ * Retrieves an attachment's metadata plus its text content (for text-like files)
+ * or image data (for images).
+ *
+ * @param {GetAttachmentToolArgsType} args - Tool arguments containing the attachment ID
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string } | { type: 'image', data: string, mimeType: string }> }>} MCP response with attachment details
+ * @throws Will return error message if attachment retrieval fails
+ */
+async function getAttachment(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.attachments.tool.ts',
+		'getAttachment',
+	);
+	methodLogger.debug('Getting Confluence attachment with args:', args);
+
+	try {
+		const result = await atlassianAttachmentsController.get(
+			args as GetAttachmentToolArgsType,
+		);
+
+		methodLogger.debug('Successfully retrieved attachment');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+				...(result.image
+					? [
+							{
+								type: 'image' as const,
+								data: result.image.data,
+								mimeType: result.image.mimeType,
+							},
+						]
+					: []),
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to get attachment', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Upload Confluence Attachment
+ *
+ * Uploads base64-encoded content as an attachment to a Confluence page.
+ *
+ * @param {UploadAttachmentToolArgsType} args - Tool arguments with the page ID, file name and content
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the uploaded attachment
+ * @throws Will return error message if the upload fails
+ */
+async function uploadAttachment(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.attachments.tool.ts',
+		'uploadAttachment',
+	);
+	methodLogger.debug('Uploading Confluence attachment with args:', args);
+
+	try {
+		const result = await atlassianAttachmentsController.upload(
+			args as UploadAttachmentToolArgsType,
+		);
+
+		methodLogger.debug('Successfully uploaded attachment');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to upload attachment', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Register Atlassian Attachments MCP Tools
+ *
+ * Registers the list, get and upload attachment tools with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance to register tools with
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.attachments.tool.ts',
+		'registerTools',
+	);
+	methodLogger.debug('Registering Atlassian Attachments tools...');
+
+	registerTool(
+		server,
+		'conf_ls_attachments',
+		{
+			description: `Lists the attachments of a Confluence page identified by \`pageId\`, with optional filtering by \`mediaType\` or exact \`filename\`.
+- Returns each attachment's ID, media type, size, version, download link and URL, most recently modified first.
+- Use the returned ID with \`conf_get_attachment\` to read an attachment.
+- Supports pagination via \`limit\` and \`cursor\`. Pagination information, including the next cursor value, is included in the returned text content.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(ListAttachmentsToolArgs.shape),
+			),
+			outputSchema: OutputShapes.listAttachments,
+			annotations: {
+				title: 'List attachments',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(listAttachments)),
+	);
+
+	registerTool(
+		server,
+		'conf_get_attachment',
+		{
+			description: `Retrieves a Confluence attachment identified by \`attachmentId\`.
+- Returns the attachment metadata and download link as Markdown.
+- For text-like files (txt, md, csv, json, xml, drawio) the text content is included (truncated for very large files).
+- For PNG, JPEG, GIF and WebP images the image itself is returned as image content.
+- Other file types return metadata only.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(GetAttachmentToolArgs.shape),
+			),
+			outputSchema: OutputShapes.getAttachment,
+			annotations: {
+				title: 'Get attachment',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(getAttachment)),
+	);
+
+	registerTool(
+		server,
+		'conf_upload_attachment',
+		{
+			description: `Uploads a file as an attachment to the Confluence page identified by \`pageId\`. Pass the file content base64-encoded in \`content\` and its name in \`fileName\`; the media type follows from the file extension. Uploading a file name that already exists on the page adds a new version of that attachment. Optionally set a \`comment\`. Requires Confluence credentials with permission to edit the page. Returns the uploaded attachment's ID and download link.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(UploadAttachmentToolArgs.shape),
+			),
+			outputSchema: OutputShapes.uploadAttachment,
+			annotations: {
+				title: 'Upload attachment',
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(uploadAttachment)),
+	);
+
+	methodLogger.debug('Successfully registered Atlassian Attachments tools');
+}
+
+export default { registerTools };
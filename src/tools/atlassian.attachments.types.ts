@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+/**
+ * Arguments for listing attachments of a Confluence page
+ * Matches the controller's list function signature
+ */
+const ListAttachmentsToolArgs = z.object({
+	pageId: z
+		.string()
+		.describe(
+			'The numeric ID of the Confluence page whose attachments to list (e.g., "456789").',
+		),
+
+	mediaType: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: Only return attachments with this media type (e.g., "application/pdf", "image/png").',
+		),
+
+	filename: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: Only return the attachment with this exact file name (e.g., "architecture.drawio").',
+		),
+
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.min(1)
+		.max(100)
+		.optional()
+		.describe(
+			'Maximum number of attachments to return (1-100). Defaults to 25 if omitted.',
+		),
+
+	cursor: z
+		.string()
+		.optional()
+		.describe(
+			'Pagination cursor for retrieving the next set of results. Obtain this opaque string from the pagination information of a previous response.',
+		),
+});
+
+type ListAttachmentsToolArgsType = z.infer<typeof ListAttachmentsToolArgs>;
+
+/**
+ * Arguments for getting a specific Confluence attachment
+ * Matches the controller's get function signature
+ */
+const GetAttachmentToolArgs = z.object({
+	attachmentId: z
+		.string()
+		.describe(
+			'The ID of the attachment to retrieve (e.g., "att123456"). Obtain it from `conf_ls_attachments`.',
+		),
+});
+
+type GetAttachmentToolArgsType = z.infer<typeof GetAttachmentToolArgs>;
+
+/**
+ * Arguments for uploading a file as a Confluence attachment
+ * Matches the controller's upload function signature
+ */
+const UploadAttachmentToolArgs = z.object({
+	pageId: z
+		.string()
+		.describe(
+			'The numeric ID of the Confluence page to attach the file to (e.g., "456789").',
+		),
+
+	fileName: z
+		.string()
+		.min(1)
+		.describe(
+			'File name to use in Confluence, including its extension (e.g., "audit.pdf"). Uploading a file name that already exists on the page adds a new version of that attachment.',
+		),
+
+	content: z.string().min(1).describe('The file content, base64-encoded.'),
+
+	comment: z
+		.string()
+		.optional()
+		.describe('Optional: Comment describing the attachment.'),
+});
+
+type UploadAttachmentToolArgsType = z.infer<typeof UploadAttachmentToolArgs>;
+
+export {
+	ListAttachmentsToolArgs,
+	type ListAttachmentsToolArgsType,
+	GetAttachmentToolArgs,
+	type GetAttachmentToolArgsType,
+	UploadAttachmentToolArgs,
+	type UploadAttachmentToolArgsType,
+};
@@ -0,0 +1,152 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
+import {
+	ListBlogPostsToolArgs,
+	type ListBlogPostsToolArgsType,
+	GetBlogPostToolArgs,
+	type GetBlogPostToolArgsType,
+} from './atlassian.blogposts.types.js';
+
+import atlassianBlogPostsController from '../controllers/atlassian.blogposts.controller.js';
+
+/**
+ * MCP Tool: List Confluence Blog Posts
+ *
+ * Lists Confluence blog posts with optional filtering by space, title, author and date.
+ * Returns a formatted markdown response with blog post details and pagination info.
+ *
+ * @param {ListBlogPostsToolArgsType} args - Tool arguments for filtering blog posts
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with formatted blog posts list
+ * @throws Will return error message if blog post listing fails
+ */
+async function listBlogPosts(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.blogposts.tool.ts',
+		'listBlogPosts',
+	);
+	methodLogger.debug('Listing Confluence blog posts with filters:', args);
+
+	try {
+		const result = await atlassianBlogPostsController.list(
+			args as ListBlogPostsToolArgsType,
+		);
+
+		methodLogger.debug('Successfully retrieved blog posts list');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to list blog posts', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Get Confluence Blog Post
+ *
+ * Retrieves a blog post with its content converted to Markdown.
+ *
+ * @param {GetBlogPostToolArgsType} args - Tool arguments containing the blog post ID
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with formatted blog post details
+ * @throws Will return error message if blog post retrieval fails
+ */
+async function getBlogPost(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.blogposts.tool.ts',
+		'getBlogPost',
+	);
+	methodLogger.debug('Getting Confluence blog post with args:', args);
+
+	try {
+		const result = await atlassianBlogPostsController.get(
+			args as GetBlogPostToolArgsType,
+		);
+
+		methodLogger.debug('Successfully retrieved blog post');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to get blog post', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Register Atlassian Blog Posts MCP Tools
+ *
+ * Registers the list and get blog post tools with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance to register tools with
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.blogposts.tool.ts',
+		'registerTools',
+	);
+	methodLogger.debug('Registering Atlassian Blog Posts tools...');
+
+	registerTool(
+		server,
+		'conf_ls_blogposts',
+		{
+			description: `Lists Confluence blog posts, newest first, optionally filtered by \`spaceKey\`, \`title\`, author (\`authorId\`) and creation date range (\`createdAfter\`, \`createdBefore\` as YYYY-MM-DD).
+- Use this to find recent announcements or weekly updates, then read one with \`conf_get_blogpost\`.
+- Supports pagination via \`limit\` and \`cursor\`. Pagination information is included in the returned text content.
+- Returns each blog post's ID, title, space ID, creation date, author and URL.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(ListBlogPostsToolArgs.shape),
+			),
+			outputSchema: OutputShapes.listBlogPosts,
+			annotations: {
+				title: 'List blog posts',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(listBlogPosts)),
+	);
+
+	registerTool(
+		server,
+		'conf_get_blogpost',
+		{
+			description: `Retrieves a Confluence blog post identified by \`blogPostId\`, with its full content converted to Markdown, plus metadata and labels. Use this to read blog posts found via \`conf_ls_blogposts\` or search results.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(GetBlogPostToolArgs.shape),
+			),
+			outputSchema: OutputShapes.getBlogPost,
+			annotations: {
+				title: 'Get blog post',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(getBlogPost)),
+	);
+
+	methodLogger.debug('Successfully registered Atlassian Blog Posts tools');
+}
+
+export default { registerTools };
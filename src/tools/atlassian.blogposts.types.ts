@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import type { BlogPostSortOrder } from '../services/vendor.atlassian.blogposts.types.js';
+
+/**
+ * Calendar date in YYYY-MM-DD format
+ */
+const DateArg = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must use the YYYY-MM-DD format');
+
+/**
+ * Arguments for listing Confluence blog posts
+ * Matches the controller's list function signature
+ */
+const ListBlogPostsToolArgs = z.object({
+	spaceKey: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: Key of the space to list blog posts from (e.g., "ENG").',
+		),
+
+	title: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: Filter blog posts by title. Matches the exact title unless `authorId`, `createdAfter` or `createdBefore` is also given, in which case titles containing the words match.',
+		),
+
+	authorId: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: Atlassian account ID of the blog post author. Only blog posts created by this user are returned.',
+		),
+
+	createdAfter: DateArg.optional().describe(
+		'Optional: Only return blog posts created on or after this date (YYYY-MM-DD).',
+	),
+
+	createdBefore: DateArg.optional().describe(
+		'Optional: Only return blog posts created before this date (YYYY-MM-DD).',
+	),
+
+	sort: z
+		.enum([
+			'id',
+			'-id',
+			'created-date',
+			'-created-date',
+			'modified-date',
+			'-modified-date',
+		] as [BlogPostSortOrder, ...BlogPostSortOrder[]])
+		.optional()
+		.describe(
+			'Optional: Property to sort blog posts by. Default is "-created-date" (newest first). Ignored when filtering by author or date, which always returns the newest first.',
+		),
+
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.min(1)
+		.max(100)
+		.optional()
+		.describe(
+			'Maximum number of blog posts to return (1-100). Defaults to 25 if omitted.',
+		),
+
+	cursor: z
+		.string()
+		.optional()
+		.describe(
+			'Pagination cursor for retrieving the next set of results. Obtain this opaque string from the pagination information of a previous response.',
+		),
+});
+
+type ListBlogPostsToolArgsType = z.infer<typeof ListBlogPostsToolArgs>;
+
+/**
+ * Arguments for getting a specific Confluence blog post
+ * Matches the controller's get function signature
+ */
+const GetBlogPostToolArgs = z.object({
+	blogPostId: z
+		.string()
+		.describe(
+			'The numeric ID of the Confluence blog post to retrieve (e.g., "456789"). The content is returned in Markdown format.',
+		),
+});
+
+type GetBlogPostToolArgsType = z.infer<typeof GetBlogPostToolArgs>;
+
+export {
+	ListBlogPostsToolArgs,
+	type ListBlogPostsToolArgsType,
+	GetBlogPostToolArgs,
+	type GetBlogPostToolArgsType,
+};
@@ -5,7 +5,12 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
+import { MaxItemsArg } from '../utils/pagination.util.js';
 import { atlassianCommentsController } from '../controllers/atlassian.comments.controller.js';
 
 // Create logger for this file
@@ -45,11 +50,52 @@ const ListPageCommentsArgsSchema = z.object({
 		.describe(
 			'Starting point for pagination (used for retrieving subsequent pages of results)',
 		),
+
+	/**
+	 * Collect pages of results until this many comments are found
+	 */
+	maxItems: MaxItemsArg,
 });
 
 // Type for the args
 type ListPageCommentsArgs = z.infer<typeof ListPageCommentsArgsSchema>;
 
+/**
+ * Args schema for adding a page comment
+ */
+const AddPageCommentArgsSchema = z.object({
+	/**
+	 * The ID of the page to comment on
+	 */
+	pageId: z
+		.string()
+		.min(1)
+		.describe('The ID of the Confluence page to add the comment to'),
+
+	/**
+	 * Comment content in Markdown
+	 */
+	body: z
+		.string()
+		.min(1)
+		.describe(
+			'The comment content in Markdown. Converted to Atlassian Document Format before saving.',
+		),
+
+	/**
+	 * ID of the comment to reply to
+	 */
+	parentCommentId: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: ID of an existing page comment to reply to. Creates a threaded reply instead of a new top-level comment.',
+		),
+});
+
+// Type for the args
+type AddPageCommentArgs = z.infer<typeof AddPageCommentArgsSchema>;
+
 /**
  * Handle the request to list comments for a page
  * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with formatted comments list
@@ -66,11 +112,13 @@ async function handleListPageComments(args: Record<string, unknown>) {
 			pageId: typedArgs.pageId,
 			limit: typedArgs.limit,
 			start: typedArgs.start,
+			maxItems: typedArgs.maxItems,
 		});
 
 		// Format the response for MCP
 		return {
 			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Tool conf_ls_page_comments failed', error);
@@ -78,6 +126,33 @@ async function handleListPageComments(args: Record<string, unknown>) {
 	}
 }
 
+/**
+ * Handle the request to add a comment to a page
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the created comment
+ */
+async function handleAddPageComment(args: Record<string, unknown>) {
+	const methodLogger = logger.forMethod('handleAddPageComment');
+
+	try {
+		methodLogger.debug('Tool conf_add_page_comment called', args);
+
+		const typedArgs = args as AddPageCommentArgs;
+		const result = await atlassianCommentsController.addPageComment({
+			pageId: typedArgs.pageId,
+			body: typedArgs.body,
+			parentCommentId: typedArgs.parentCommentId,
+		});
+
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Tool conf_add_page_comment failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
 /**
  * Register all comment-related tools
  */
@@ -87,11 +162,46 @@ function registerTools(server: McpServer) {
 	registerLogger.debug('Registering Confluence comments tools...');
 
 	// Register the list comments tool
-	server.tool(
+	registerTool(
+		server,
 		'conf_ls_page_comments',
-		'Lists comments for a Confluence page, identified by `pageId`. Includes both page-level and inline comments. Shows comment content and metadata in Markdown format. Supports pagination via `limit` and `start` parameters. Pagination information including next offset value is included directly in the returned text content. Requires Confluence credentials to be configured. Returns comment details as Markdown.',
-		ListPageCommentsArgsSchema.shape,
-		handleListPageComments,
+		{
+			description:
+				'Lists comments for a Confluence page, identified by `pageId`. Includes both page-level and inline comments. Shows comment content and metadata in Markdown format. Supports pagination via `limit` and `start` parameters. Pagination information including next offset value is included directly in the returned text content. Requires Confluence credentials to be configured. Returns comment details as Markdown.',
+			inputSchema: withSiteArg(
+				withOutputFormatArg(ListPageCommentsArgsSchema.shape),
+			),
+			outputSchema: OutputShapes.listComments,
+			annotations: {
+				title: 'List page comments',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(handleListPageComments)),
+	);
+
+	// Register the add comment tool
+	registerTool(
+		server,
+		'conf_add_page_comment',
+		{
+			description:
+				'Adds a page-level (footer) comment to a Confluence page, identified by `pageId`, with a Markdown `body`. Provide `parentCommentId` to reply to an existing comment in its thread. To comment on a specific passage of the page, use `conf_add_inline_comment` instead. Requires Confluence credentials with comment permission. Returns the created comment ID and a link to it.',
+			inputSchema: withSiteArg(
+				withOutputFormatArg(AddPageCommentArgsSchema.shape),
+			),
+			outputSchema: OutputShapes.writeComment,
+			annotations: {
+				title: 'Add page comment',
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(handleAddPageComment)),
 	);
 
 	registerLogger.debug('Successfully registered Confluence comments tools');
@@ -5,7 +5,12 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
+import { MaxItemsArg } from '../utils/pagination.util.js';
 import { atlassianCommentsController } from '../controllers/atlassian.comments.controller.js';
 
 // Create logger for this file
@@ -67,11 +72,102 @@ const ListInlineCommentsArgsSchema = z.object({
 		.describe(
 			'Starting point for pagination (used for retrieving subsequent pages of results)',
 		),
+
+	/**
+	 * Collect pages of results until this many comments are found
+	 */
+	maxItems: MaxItemsArg,
 });
 
 // Type for the args
 type ListInlineCommentsArgs = z.infer<typeof ListInlineCommentsArgsSchema>;
 
+/**
+ * Args schema for adding an inline comment
+ */
+const AddInlineCommentArgsSchema = z.object({
+	/**
+	 * The ID of the page to comment on
+	 */
+	pageId: z
+		.string()
+		.min(1)
+		.describe('The ID of the Confluence page to add the inline comment to'),
+
+	/**
+	 * Text on the page the comment is anchored to
+	 */
+	textSelection: z
+		.string()
+		.min(1)
+		.describe(
+			'The exact text on the page to attach the comment to (case-sensitive). Must be contained within a single paragraph, heading or code block.',
+		),
+
+	/**
+	 * Comment content in Markdown
+	 */
+	body: z
+		.string()
+		.min(1)
+		.describe(
+			'The comment content in Markdown. Converted to Atlassian Document Format before saving.',
+		),
+
+	/**
+	 * Which occurrence of the selection to use
+	 */
+	matchIndex: z
+		.number()
+		.int()
+		.min(0)
+		.default(0)
+		.describe(
+			'Zero-based occurrence of `textSelection` to anchor to when the text appears more than once on the page (default: 0, the first occurrence)',
+		),
+});
+
+// Type for the args
+type AddInlineCommentArgs = z.infer<typeof AddInlineCommentArgsSchema>;
+
+/**
+ * Args schema for resolving or reopening an inline comment
+ */
+const ResolveInlineCommentArgsSchema = z.object({
+	/**
+	 * The ID of the inline comment
+	 */
+	commentId: z
+		.string()
+		.min(1)
+		.describe(
+			'The ID of the inline comment to resolve or reopen (as shown by `conf_ls_inline_comments`)',
+		),
+
+	/**
+	 * Whether to resolve or reopen the comment
+	 */
+	action: z
+		.enum(['resolve', 'reopen'])
+		.default('resolve')
+		.describe(
+			'"resolve" to close the comment thread, "reopen" to open a resolved thread again (default: resolve)',
+		),
+
+	/**
+	 * Optional closing reply
+	 */
+	reply: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: Markdown reply to add to the thread before changing its state, e.g. explaining how the feedback was addressed',
+		),
+});
+
+// Type for the args
+type ResolveInlineCommentArgs = z.infer<typeof ResolveInlineCommentArgsSchema>;
+
 /**
  * Handle the request to list inline comments only for a page
  * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with formatted inline comments list
@@ -90,11 +186,13 @@ async function handleListInlineComments(args: Record<string, unknown>) {
 			sortBy: typedArgs.sortBy,
 			limit: typedArgs.limit,
 			start: typedArgs.start,
+			maxItems: typedArgs.maxItems,
 		});
 
 		// Format the response for MCP
 		return {
 			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Tool conf_ls_inline_comments failed', error);
@@ -102,6 +200,62 @@ async function handleListInlineComments(args: Record<string, unknown>) {
 	}
 }
 
+/**
+ * Handle the request to add an inline comment to a page
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the created inline comment
+ */
+async function handleAddInlineComment(args: Record<string, unknown>) {
+	const methodLogger = logger.forMethod('handleAddInlineComment');
+
+	try {
+		methodLogger.debug('Tool conf_add_inline_comment called', args);
+
+		const typedArgs = args as AddInlineCommentArgs;
+		const result = await atlassianCommentsController.addInlineComment({
+			pageId: typedArgs.pageId,
+			textSelection: typedArgs.textSelection,
+			body: typedArgs.body,
+			matchIndex: typedArgs.matchIndex,
+		});
+
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Tool conf_add_inline_comment failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Handle the request to resolve or reopen an inline comment
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the resolution result
+ */
+async function handleResolveInlineComment(args: Record<string, unknown>) {
+	const methodLogger = logger.forMethod('handleResolveInlineComment');
+
+	try {
+		methodLogger.debug('Tool conf_resolve_inline_comment called', args);
+
+		const typedArgs = args as ResolveInlineCommentArgs;
+		const result =
+			await atlassianCommentsController.setInlineCommentResolution({
+				commentId: typedArgs.commentId,
+				resolved: typedArgs.action !== 'reopen',
+				reply: typedArgs.reply,
+			});
+
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Tool conf_resolve_inline_comment failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
 /**
  * Register all inline comment-related tools
  */
@@ -111,11 +265,68 @@ function registerTools(server: McpServer) {
 	registerLogger.debug('Registering Confluence inline comments tools...');
 
 	// Register the list inline comments tool
-	server.tool(
+	registerTool(
+		server,
 		'conf_ls_inline_comments',
-		'Lists ONLY inline comments for a Confluence page, identified by `pageId`. Filters out regular page comments and shows only comments attached to specific text selections. Includes highlighted text context and comment content in Markdown format. Supports filtering by resolution status and sorting by document position or creation date. Use this instead of `conf_ls_page_comments` when you specifically need inline comments that reference particular text passages. Requires Confluence credentials to be configured.',
-		ListInlineCommentsArgsSchema.shape,
-		handleListInlineComments,
+		{
+			description:
+				'Lists ONLY inline comments for a Confluence page, identified by `pageId`. Filters out regular page comments and shows only comments attached to specific text selections. Includes highlighted text context and comment content in Markdown format. Supports filtering by resolution status and sorting by document position or creation date. Use this instead of `conf_ls_page_comments` when you specifically need inline comments that reference particular text passages. Requires Confluence credentials to be configured.',
+			inputSchema: withSiteArg(
+				withOutputFormatArg(ListInlineCommentsArgsSchema.shape),
+			),
+			outputSchema: OutputShapes.listComments,
+			annotations: {
+				title: 'List inline comments',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(handleListInlineComments)),
+	);
+
+	// Register the add inline comment tool
+	registerTool(
+		server,
+		'conf_add_inline_comment',
+		{
+			description:
+				'Adds an inline comment to a Confluence page, identified by `pageId`, anchored to a passage of page text (`textSelection`) with a Markdown `body`. The selection must match the page text exactly; use `matchIndex` to pick an occurrence when the text appears more than once. Ideal for review feedback on specific sentences of a document. Requires Confluence credentials with comment permission. Returns the created comment ID and the highlighted text.',
+			inputSchema: withSiteArg(
+				withOutputFormatArg(AddInlineCommentArgsSchema.shape),
+			),
+			outputSchema: OutputShapes.writeComment,
+			annotations: {
+				title: 'Add inline comment',
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(handleAddInlineComment)),
+	);
+
+	// Register the resolve/reopen inline comment tool
+	registerTool(
+		server,
+		'conf_resolve_inline_comment',
+		{
+			description:
+				'Resolves or reopens an inline comment thread, identified by `commentId`. Use `action` "resolve" (default) to close a thread once its feedback has been addressed, or "reopen" to open it again. Optionally adds a Markdown `reply` to the thread first, e.g. describing the fix. Requires Confluence credentials with comment permission. Returns the new resolution state.',
+			inputSchema: withSiteArg(
+				withOutputFormatArg(ResolveInlineCommentArgsSchema.shape),
+			),
+			outputSchema: OutputShapes.setCommentResolution,
+			annotations: {
+				title: 'Resolve inline comment',
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(handleResolveInlineComment)),
 	);
 
 	registerLogger.debug(
@@ -0,0 +1,214 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
+import {
+	ListLabelsToolArgs,
+	type ListLabelsToolArgsType,
+	AddLabelsToolArgs,
+	type AddLabelsToolArgsType,
+	RemoveLabelsToolArgs,
+	type RemoveLabelsToolArgsType,
+} from './atlassian.labels.types.js';
+
+import atlassianLabelsController from '../controllers/atlassian.labels.controller.js';
+
+/**
+ * MCP Tool: List Confluence Labels
+ *
+ * Lists labels of a page, blog post or space, or across the whole site.
+ * Returns a formatted markdown response with the labels and pagination info.
+ *
+ * @param {ListLabelsToolArgsType} args - Tool arguments selecting where to list labels from
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with formatted labels list
+ * @throws Will return error message if label listing fails
+ */
+async function listLabels(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.labels.tool.ts',
+		'listLabels',
+	);
+	methodLogger.debug('Listing Confluence labels with args:', args);
+
+	try {
+		const result = await atlassianLabelsController.list(
+			args as ListLabelsToolArgsType,
+		);
+
+		methodLogger.debug('Successfully retrieved labels');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to list labels', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Add Confluence Labels
+ *
+ * Adds labels to a page or blog post.
+ *
+ * @param {AddLabelsToolArgsType} args - Tool arguments with the content ID and labels
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the content's labels
+ * @throws Will return error message if adding labels fails
+ */
+async function addLabels(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.labels.tool.ts',
+		'addLabels',
+	);
+	methodLogger.debug('Adding Confluence labels with args:', args);
+
+	try {
+		const result = await atlassianLabelsController.add(
+			args as AddLabelsToolArgsType,
+		);
+
+		methodLogger.debug('Successfully added labels');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to add labels', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Remove Confluence Labels
+ *
+ * Removes labels from a page or blog post.
+ *
+ * @param {RemoveLabelsToolArgsType} args - Tool arguments with the content ID and labels
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response confirming the removal
+ * @throws Will return error message if removing labels fails
+ */
+async function removeLabels(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.labels.tool.ts',
+		'removeLabels',
+	);
+	methodLogger.debug('Removing Confluence labels with args:', args);
+
+	try {
+		const result = await atlassianLabelsController.remove(
+			args as RemoveLabelsToolArgsType,
+		);
+
+		methodLogger.debug('Successfully removed labels');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to remove labels', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Register Atlassian Labels MCP Tools
+ *
+ * Registers the list, add and remove label tools with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance to register tools with
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.labels.tool.ts',
+		'registerTools',
+	);
+	methodLogger.debug('Registering Atlassian Labels tools...');
+
+	registerTool(
+		server,
+		'conf_ls_labels',
+		{
+			description: `Lists Confluence labels.
+- Provide \`contentId\` (with \`contentType\` "page" or "blogpost") to list the labels of a page or blog post.
+- Provide \`spaceKey\` to list the labels of a space.
+- Provide neither to list all labels defined on the site, e.g. to discover existing labels before filtering searches with them. Site labels are listed as Confluence returns them, not ranked by how often they are used.
+- Optionally filter by \`prefix\`. Supports pagination via \`limit\` and \`cursor\`; pagination information is included in the returned text content.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(ListLabelsToolArgs.shape),
+			),
+			outputSchema: OutputShapes.listLabels,
+			annotations: {
+				title: 'List labels',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(listLabels)),
+	);
+
+	registerTool(
+		server,
+		'conf_add_labels',
+		{
+			description: `Adds one or more \`labels\` to the page or blog post identified by \`contentId\`. Labels cannot contain spaces and are stored in lowercase; labels the content already has are kept. Requires Confluence credentials with permission to edit the content. Returns all labels of the content after the change.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(AddLabelsToolArgs.shape),
+			),
+			outputSchema: OutputShapes.updateLabels,
+			annotations: {
+				title: 'Add labels',
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(addLabels)),
+	);
+
+	registerTool(
+		server,
+		'conf_remove_labels',
+		{
+			description: `Removes one or more \`labels\` from the page or blog post identified by \`contentId\`. Requires Confluence credentials with permission to edit the content. Returns the removed labels.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(RemoveLabelsToolArgs.shape),
+			),
+			outputSchema: OutputShapes.updateLabels,
+			annotations: {
+				title: 'Remove labels',
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(removeLabels)),
+	);
+
+	methodLogger.debug('Successfully registered Atlassian Labels tools');
+}
+
+export default { registerTools };
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+
+/**
+ * Label names as accepted by Confluence: no whitespace, stored in lowercase
+ */
+const LabelNames = z
+	.array(
+		z
+			.string()
+			.min(1)
+			.regex(/^\S+$/, 'Label names cannot contain whitespace'),
+	)
+	.min(1);
+
+/**
+ * Arguments for listing Confluence labels
+ * Matches the controller's list function signature
+ */
+const ListLabelsToolArgs = z.object({
+	contentId: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: ID of the page or blog post whose labels to list. Cannot be combined with `spaceKey`.',
+		),
+
+	contentType: z
+		.enum(['page', 'blogpost'])
+		.optional()
+		.describe(
+			'Optional: Type of the content identified by `contentId`. Defaults to "page".',
+		),
+
+	spaceKey: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: Key of the space whose labels to list (e.g., "DEV"). Cannot be combined with `contentId`. If neither is given, all labels defined on the site are listed, not ranked by use.',
+		),
+
+	prefix: z
+		.enum(['global', 'my', 'team', 'system'])
+		.optional()
+		.describe(
+			'Optional: Only list labels with this prefix. Labels added by users are "global".',
+		),
+
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.min(1)
+		.max(100)
+		.optional()
+		.describe(
+			'Maximum number of labels to return (1-100). Defaults to 25 if omitted.',
+		),
+
+	cursor: z
+		.string()
+		.optional()
+		.describe(
+			'Pagination cursor for retrieving the next set of results. Obtain this opaque string from the pagination information of a previous response.',
+		),
+});
+
+type ListLabelsToolArgsType = z.infer<typeof ListLabelsToolArgs>;
+
+/**
+ * Arguments for adding labels to a page or blog post
+ * Matches the controller's add function signature
+ */
+const AddLabelsToolArgs = z.object({
+	contentId: z
+		.string()
+		.describe('The ID of the page or blog post to label (e.g., "456789").'),
+
+	labels: LabelNames.describe(
+		'Labels to add (e.g., ["runbook", "on-call"]). Labels cannot contain spaces and are stored in lowercase. Labels the content already has are kept.',
+	),
+});
+
+type AddLabelsToolArgsType = z.infer<typeof AddLabelsToolArgs>;
+
+/**
+ * Arguments for removing labels from a page or blog post
+ * Matches the controller's remove function signature
+ */
+const RemoveLabelsToolArgs = z.object({
+	contentId: z
+		.string()
+		.describe(
+			'The ID of the page or blog post to remove labels from (e.g., "456789").',
+		),
+
+	labels: LabelNames.describe('Labels to remove (e.g., ["draft"]).'),
+});
+
+type RemoveLabelsToolArgsType = z.infer<typeof RemoveLabelsToolArgs>;
+
+export {
+	ListLabelsToolArgs,
+	type ListLabelsToolArgsType,
+	AddLabelsToolArgs,
+	type AddLabelsToolArgsType,
+	RemoveLabelsToolArgs,
+	type RemoveLabelsToolArgsType,
+};
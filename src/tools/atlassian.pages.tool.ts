@@ -1,13 +1,29 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
 import atlassianPagesController from '../controllers/atlassian.pages.controller.js';
 import {
 	type ListPagesToolArgsType,
 	ListPagesToolArgs,
 	type GetPageToolArgsType,
 	GetPageToolArgs,
+	type CreatePageToolArgsType,
+	CreatePageToolArgs,
+	type UpdatePageToolArgsType,
+	UpdatePageToolArgs,
+	type PatchPageToolArgsType,
+	PatchPageToolArgs,
+	type GetPageTreeToolArgsType,
+	GetPageTreeToolArgs,
+	type ListPageVersionsToolArgsType,
+	ListPageVersionsToolArgs,
+	type DiffPageVersionsToolArgsType,
+	DiffPageVersionsToolArgs,
 } from './atlassian.pages.types.js';
 
 /**
@@ -44,6 +60,7 @@ async function listPages(args: Record<string, unknown>) {
 					text: result.content, // Content now includes pagination information
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Error listing pages:', error);
@@ -84,6 +101,7 @@ async function getPage(args: Record<string, unknown>) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Error retrieving page details:', error);
@@ -92,10 +110,241 @@ async function getPage(args: Record<string, unknown>) {
 	}
 }
 
+/**
+ * MCP Tool: Create Confluence Page
+ *
+ * Creates a new Confluence page from Markdown content.
+ * The Markdown body is converted to ADF before being sent to Confluence.
+ *
+ * @param {CreatePageToolArgsType} args - Tool arguments with space, title and Markdown body
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the created page summary
+ * @throws Will return error message if page creation fails
+ */
+async function createPage(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pages.tool.ts',
+		'createPage',
+	);
+	methodLogger.debug('Tool called with args:', args);
+
+	try {
+		const result = await atlassianPagesController.create(
+			args as CreatePageToolArgsType,
+		);
+
+		methodLogger.debug('Successfully created page');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Error creating page:', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Update Confluence Page
+ *
+ * Replaces the title and/or body of an existing Confluence page.
+ * Rejects the update if the page changed since the version the caller read.
+ *
+ * @param {UpdatePageToolArgsType} args - Tool arguments with page ID, expected version and new content
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the updated page summary
+ * @throws Will return error message if the update fails or conflicts
+ */
+async function updatePage(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pages.tool.ts',
+		'updatePage',
+	);
+	methodLogger.debug('Tool called with args:', args);
+
+	try {
+		const result = await atlassianPagesController.update(
+			args as UpdatePageToolArgsType,
+		);
+
+		methodLogger.debug('Successfully updated page');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Error updating page:', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Patch Confluence Page Section
+ *
+ * Appends, replaces or inserts content relative to a single heading of a page,
+ * leaving the rest of the page untouched.
+ *
+ * @param {PatchPageToolArgsType} args - Tool arguments with page ID, expected version, operation, heading and content
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with a diff-style summary
+ * @throws Will return error message if the patch fails or conflicts
+ */
+async function patchPage(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pages.tool.ts',
+		'patchPage',
+	);
+	methodLogger.debug('Tool called with args:', args);
+
+	try {
+		const result = await atlassianPagesController.patch(
+			args as PatchPageToolArgsType,
+		);
+
+		methodLogger.debug('Successfully patched page');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Error patching page:', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Get Confluence Page Tree
+ *
+ * Shows the page hierarchy below a page or space, or the ancestors of a page.
+ *
+ * @param {GetPageTreeToolArgsType} args - Tool arguments with the page ID or space key, mode and depth
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the indented page tree
+ * @throws Will return error message if the tree cannot be retrieved
+ */
+async function getPageTree(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pages.tool.ts',
+		'getPageTree',
+	);
+	methodLogger.debug('Tool called with args:', args);
+
+	try {
+		const result = await atlassianPagesController.getTree(
+			args as GetPageTreeToolArgsType,
+		);
+
+		methodLogger.debug('Successfully retrieved page tree');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Error retrieving page tree:', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: List Confluence Page Versions
+ *
+ * Lists the version history of a page, most recent first.
+ *
+ * @param {ListPageVersionsToolArgsType} args - Tool arguments with the page ID and pagination
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the versions
+ * @throws Will return error message if the versions cannot be retrieved
+ */
+async function listPageVersions(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pages.tool.ts',
+		'listPageVersions',
+	);
+	methodLogger.debug('Tool called with args:', args);
+
+	try {
+		const result = await atlassianPagesController.listVersions(
+			args as ListPageVersionsToolArgsType,
+		);
+
+		methodLogger.debug('Successfully retrieved page versions');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Error listing page versions:', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool: Diff Confluence Page Versions
+ *
+ * Compares the content of two versions of a page as a unified Markdown diff.
+ *
+ * @param {DiffPageVersionsToolArgsType} args - Tool arguments with the page ID and version numbers
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with the diff
+ * @throws Will return error message if the versions cannot be compared
+ */
+async function diffPageVersions(args: Record<string, unknown>) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.pages.tool.ts',
+		'diffPageVersions',
+	);
+	methodLogger.debug('Tool called with args:', args);
+
+	try {
+		const result = await atlassianPagesController.diffVersions(
+			args as DiffPageVersionsToolArgsType,
+		);
+
+		methodLogger.debug('Successfully compared page versions');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Error comparing page versions:', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
 /**
  * Register Atlassian Pages MCP Tools
  *
- * Registers the list-pages and get-page tools with the MCP server.
+ * Registers the list, get, create, update, patch, page tree and page version tools with the MCP server.
  * Each tool is registered with its schema, description, and handler function.
  *
  * @param {McpServer} server - The MCP server instance to register tools with
@@ -119,29 +368,227 @@ function registerTools(server: McpServer) {
 		cursor: ListPagesToolArgs.shape.cursor,
 		sort: ListPagesToolArgs.shape.sort,
 	});
-	server.tool(
+	registerTool(
+		server,
 		'conf_ls_pages',
-		`Lists pages within specified spaces (by \`spaceId\` or \`spaceKey\`) or globally. Filters by \`pageTitle\` with SMART MATCHING: tries exact match first, automatically falls back to partial matching if no exact results found. Supports \`status\` (current, archived, etc.), sorting (\`sort\`) and pagination (\`limit\`, \`cursor\`). 
+		{
+			description: `Lists pages within specified spaces (by \`spaceId\` or \`spaceKey\`) or globally. Filters by \`pageTitle\` with SMART MATCHING: tries exact match first, automatically falls back to partial matching if no exact results found. Supports \`status\` (current, archived, etc.), sorting (\`sort\`) and pagination (\`limit\`, \`cursor\`). 
 - Returns a formatted list of pages including ID, title, status, space ID, author, version, and URL. 
 - Pagination information including next cursor value is included at the end of the returned text content.
 - SMART TITLE SEARCH: When using \`pageTitle\` parameter, if exact match fails, automatically searches for partial matches (e.g., "Balance" will find "Balance Reconciliation System").
 - For full-text content search or advanced queries, use the \`conf_search\` tool. 
 - Requires Confluence credentials.`,
-		listPagesSchema.shape,
-		async (args: Record<string, unknown>) => {
-			// Map pageTitle back to title for the controller
-			const mappedArgs = { ...args, title: args.pageTitle };
-			delete (mappedArgs as Record<string, unknown>).pageTitle;
-			return listPages(mappedArgs);
+			inputSchema: withSiteArg(
+				withOutputFormatArg(listPagesSchema.shape),
+			),
+			outputSchema: OutputShapes.listPages,
+			annotations: {
+				title: 'List pages',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
 		},
+		withSite(
+			withOutputFormat(async (args: Record<string, unknown>) => {
+				// Map pageTitle back to title for the controller
+				const mappedArgs = { ...args, title: args.pageTitle };
+				delete (mappedArgs as Record<string, unknown>).pageTitle;
+				return listPages(mappedArgs);
+			}),
+		),
 	);
 
 	// Register the get page details tool
-	server.tool(
+	registerTool(
+		server,
 		'conf_get_page',
-		`Retrieves the full content (converted to Markdown) and metadata for a specific Confluence page using its numeric ID (\`pageId\`).\n- Includes complete page body, title, space info, author, version, labels, and URL.\nUse this after finding a page ID via \`confluence_list_pages\` or \`confluence_search\` to get its full content.\nReturns comprehensive page details formatted as Markdown.`,
-		GetPageToolArgs.shape,
-		getPage,
+		{
+			description: `Retrieves the full content (converted to Markdown) and metadata for a specific Confluence page using its numeric ID (\`pageId\`).\n- Includes complete page body, title, space info, author, version, labels, and URL.\nUse this after finding a page ID via \`confluence_list_pages\` or \`confluence_search\` to get its full content.\nReturns comprehensive page details formatted as Markdown.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(GetPageToolArgs.shape),
+			),
+			outputSchema: OutputShapes.getPage,
+			annotations: {
+				title: 'Get page',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(getPage)),
+	);
+
+	// Register the create page tool
+	// Rename title field to avoid MCP SDK conflict
+	const createPageSchema = z.object({
+		spaceKey: CreatePageToolArgs.shape.spaceKey,
+		spaceId: CreatePageToolArgs.shape.spaceId,
+		parentId: CreatePageToolArgs.shape.parentId,
+		pageTitle: CreatePageToolArgs.shape.title, // Renamed from 'title' to 'pageTitle'
+		body: CreatePageToolArgs.shape.body,
+	});
+	registerTool(
+		server,
+		'conf_create_page',
+		{
+			description: `Creates a new Confluence page in a space (by \`spaceKey\` or \`spaceId\`), optionally under a parent page (\`parentId\`), with the given \`pageTitle\` and Markdown \`body\`.
+- The Markdown body is converted to Atlassian Document Format (ADF). Supports headings, bold/italic/strikethrough, inline code, links, images, fenced code blocks (with language), nested bullet and numbered lists, blockquotes, tables and horizontal rules.
+- Returns the new page ID, title, version and URL.
+- Requires Confluence credentials with write permission on the target space.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(createPageSchema.shape),
+			),
+			outputSchema: OutputShapes.writePage,
+			annotations: {
+				title: 'Create page',
+				readOnlyHint: false,
+				destructiveHint: false,
+				idempotentHint: false,
+				openWorldHint: true,
+			},
+		},
+		withSite(
+			withOutputFormat(async (args: Record<string, unknown>) => {
+				// Map pageTitle back to title for the controller
+				const mappedArgs = { ...args, title: args.pageTitle };
+				delete (mappedArgs as Record<string, unknown>).pageTitle;
+				return createPage(mappedArgs);
+			}),
+		),
+	);
+
+	// Register the update page tool
+	// Rename title field to avoid MCP SDK conflict
+	const updatePageSchema = z.object({
+		pageId: UpdatePageToolArgs.shape.pageId,
+		version: UpdatePageToolArgs.shape.version,
+		pageTitle: UpdatePageToolArgs.shape.title, // Renamed from 'title' to 'pageTitle'
+		body: UpdatePageToolArgs.shape.body,
+		versionMessage: UpdatePageToolArgs.shape.versionMessage,
+	});
+	registerTool(
+		server,
+		'conf_update_page',
+		{
+			description: `Updates an existing Confluence page (\`pageId\`), replacing its \`pageTitle\` and/or Markdown \`body\`.
+- Requires \`version\`: the current version number shown by \`conf_get_page\`. If someone else edited the page since that version, the update is rejected with a conflict error instead of overwriting their changes; re-fetch the page, reapply your edits and retry.
+- The \`body\` replaces the whole page content and is converted from Markdown to Atlassian Document Format. Omit it to change only the title.
+- Returns the page ID, title, new version number and URL.
+- Requires Confluence credentials with edit permission on the page.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(updatePageSchema.shape),
+			),
+			outputSchema: OutputShapes.writePage,
+			annotations: {
+				title: 'Update page',
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: false,
+				openWorldHint: true,
+			},
+		},
+		withSite(
+			withOutputFormat(async (args: Record<string, unknown>) => {
+				// Map pageTitle back to title for the controller
+				const mappedArgs = { ...args, title: args.pageTitle };
+				delete (mappedArgs as Record<string, unknown>).pageTitle;
+				return updatePage(mappedArgs);
+			}),
+		),
+	);
+
+	// Register the patch page tool
+	registerTool(
+		server,
+		'conf_patch_page',
+		{
+			description: `Edits a single section of a Confluence page (\`pageId\`) identified by a \`heading\`, leaving all other content exactly as it was. Safer than \`conf_update_page\` for long documents.
+- \`operation\`: "append" adds Markdown \`content\` at the end of the section (or the end of the page when no heading is given), "replace" replaces everything under the heading up to the next heading of the same or higher level, "insertAfter" inserts directly after the heading.
+- Requires \`version\`: the current version number shown by \`conf_get_page\`. Edits made by others since that version cause a conflict error instead of being overwritten.
+- Returns the new version number and a unified diff (Markdown) of what changed.
+- Requires Confluence credentials with edit permission on the page. Not available on Confluence Server / Data Center; use \`conf_update_page\` there.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(PatchPageToolArgs.shape),
+			),
+			outputSchema: OutputShapes.patchPage,
+			annotations: {
+				title: 'Patch page section',
+				readOnlyHint: false,
+				destructiveHint: true,
+				idempotentHint: false,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(patchPage)),
+	);
+
+	// Register the page tree tool
+	registerTool(
+		server,
+		'conf_get_page_tree',
+		{
+			description: `Shows where pages sit in the Confluence hierarchy. Use it to orient yourself in a large space before reading pages.
+- "descendants" mode (default): an indented outline of the pages below \`pageId\`, or of a whole space from its root-level pages when \`spaceKey\` is given, down to \`depth\` levels (1-4, default 2).
+- "ancestors" mode: the breadcrumb path from the top of the space down to \`pageId\`.
+- Every node shows its title, ID and number of child pages; folders and other non-page content are marked with their type.
+- Very large trees are cut off with a note; start from a deeper page to see the rest.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(GetPageTreeToolArgs.shape),
+			),
+			outputSchema: OutputShapes.getPageTree,
+			annotations: {
+				title: 'Get page tree',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(getPageTree)),
+	);
+
+	// Register the page version tools
+	registerTool(
+		server,
+		'conf_ls_page_versions',
+		{
+			description: `Lists the version history of a Confluence page, most recent first. Each version shows its number, date, author ID and version message.
+- Use it to find out when a page changed and which version numbers to compare with \`conf_diff_page_versions\`.
+- Supports pagination via \`limit\` and \`cursor\`.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(ListPageVersionsToolArgs.shape),
+			),
+			outputSchema: OutputShapes.listPageVersions,
+			annotations: {
+				title: 'List page versions',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(listPageVersions)),
+	);
+
+	registerTool(
+		server,
+		'conf_diff_page_versions',
+		{
+			description: `Shows what changed between two versions of a Confluence page as a unified diff of the page content in Markdown.
+- Without version numbers, compares the current version with the one before it.
+- Set \`fromVersion\` and/or \`toVersion\` to compare other versions, e.g. the version from last week (see \`conf_ls_page_versions\`) with the current one.
+- Also reports title changes and the number of added and removed lines.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(DiffPageVersionsToolArgs.shape),
+			),
+			outputSchema: OutputShapes.diffPageVersions,
+			annotations: {
+				title: 'Compare page versions',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(diffPageVersions)),
 	);
 
 	toolLogger.debug('Successfully registered Atlassian Pages tools');
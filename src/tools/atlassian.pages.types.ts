@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { PageSortOrder } from '../services/vendor.atlassian.pages.types.js';
+import { MaxItemsArg } from '../utils/pagination.util.js';
 
 /**
  * Base pagination arguments for all tools
@@ -66,6 +67,8 @@ const ListPagesToolArgs = z.object({
 
 	...PaginationArgs,
 
+	maxItems: MaxItemsArg,
+
 	sort: z
 		.enum([
 			'id',
@@ -99,9 +102,227 @@ const GetPageToolArgs = z.object({
 
 type GetPageToolArgsType = z.infer<typeof GetPageToolArgs>;
 
+/**
+ * Arguments for creating a Confluence page
+ * Matches the controller's create function signature
+ */
+const CreatePageToolArgs = z.object({
+	spaceKey: z
+		.string()
+		.optional()
+		.describe(
+			'Key of the space to create the page in (e.g., "DEV"). Provide either this or `spaceId`. Preferred for usability as keys are more human-readable than IDs.',
+		),
+
+	spaceId: z
+		.string()
+		.optional()
+		.describe(
+			'Numeric ID of the space to create the page in. Provide either this or `spaceKey`. If both are provided, `spaceId` is used.',
+		),
+
+	parentId: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: ID of the parent page. The new page is created as a child of this page. If omitted, the page is created at the root of the space.',
+		),
+
+	title: z
+		.string()
+		.min(1)
+		.describe('Title of the new page. Must be unique within the space.'),
+
+	body: z
+		.string()
+		.describe(
+			'Content of the page in Markdown. Supports headings, paragraphs, bold/italic/strikethrough, inline code, links, bullet and numbered lists (nested by indentation), fenced code blocks, blockquotes, horizontal rules and tables. Converted to Atlassian Document Format before saving.',
+		),
+});
+
+type CreatePageToolArgsType = z.infer<typeof CreatePageToolArgs>;
+
+/**
+ * Arguments for updating a Confluence page
+ * Matches the controller's update function signature
+ */
+const UpdatePageToolArgs = z.object({
+	pageId: z
+		.string()
+		.describe(
+			'The numeric ID of the Confluence page to update (e.g., "456789").',
+		),
+
+	version: z
+		.number()
+		.int()
+		.positive()
+		.describe(
+			'The current version number of the page that your changes are based on, as shown by `conf_get_page`. The update is rejected with a conflict error if the page has been edited since this version, so that concurrent edits are never overwritten.',
+		),
+
+	title: z
+		.string()
+		.min(1)
+		.optional()
+		.describe(
+			'Optional: New title for the page. If omitted, the current title is kept.',
+		),
+
+	body: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: New content of the page in Markdown. Replaces the entire page body and is converted to Atlassian Document Format before saving. If omitted, the current body is kept.',
+		),
+
+	versionMessage: z
+		.string()
+		.optional()
+		.describe(
+			'Optional: Short message describing the change, shown in the page history.',
+		),
+});
+
+type UpdatePageToolArgsType = z.infer<typeof UpdatePageToolArgs>;
+
+/**
+ * Arguments for patching a single section of a Confluence page
+ * Matches the controller's patch function signature
+ */
+const PatchPageToolArgs = z.object({
+	pageId: z
+		.string()
+		.describe(
+			'The numeric ID of the Confluence page to patch (e.g., "456789").',
+		),
+
+	version: UpdatePageToolArgs.shape.version,
+
+	operation: z
+		.enum(['append', 'replace', 'insertAfter'])
+		.describe(
+			'How to apply the content: "append" adds it at the end of the section under `heading` (or at the end of the page if no heading is given), "replace" replaces everything under `heading` up to the next heading of the same or higher level (the heading itself is kept), "insertAfter" inserts it directly after `heading`.',
+		),
+
+	heading: z
+		.string()
+		.optional()
+		.describe(
+			'Text of the heading that identifies the target section (case-insensitive, e.g., "Rollback steps"). Prefix with "#" markers (e.g., "## Rollback steps") to also match the heading level. Required for "replace" and "insertAfter". If several headings match, the first one is used.',
+		),
+
+	content: z
+		.string()
+		.describe(
+			'The Markdown content to insert. Converted to Atlassian Document Format before saving. To append a new section, start the content with its own heading.',
+		),
+
+	versionMessage: UpdatePageToolArgs.shape.versionMessage,
+});
+
+type PatchPageToolArgsType = z.infer<typeof PatchPageToolArgs>;
+
+/**
+ * Arguments for getting the page tree around a page or space
+ * Matches the controller's getTree function signature
+ */
+const GetPageTreeToolArgs = z.object({
+	pageId: z
+		.string()
+		.optional()
+		.describe(
+			'ID of the page to start from. Required for "ancestors" mode. Provide either this or `spaceKey`.',
+		),
+
+	spaceKey: z
+		.string()
+		.optional()
+		.describe(
+			'Key of the space whose whole page tree to show, starting from its root-level pages (e.g., "DEV"). Provide either this or `pageId`.',
+		),
+
+	mode: z
+		.enum(['descendants', 'ancestors'])
+		.optional()
+		.describe(
+			'"descendants" (default) shows the hierarchy below the page or space as an indented outline. "ancestors" shows the breadcrumb path from the top of the space down to the page.',
+		),
+
+	depth: z
+		.number()
+		.int()
+		.min(1)
+		.max(4)
+		.optional()
+		.describe(
+			'Number of levels to show below the page, or below the root-level pages of the space, in "descendants" mode (1-4). Defaults to 2. Run again on a deeper page to explore further.',
+		),
+});
+
+type GetPageTreeToolArgsType = z.infer<typeof GetPageTreeToolArgs>;
+
+/**
+ * Arguments for listing the version history of a Confluence page
+ */
+const ListPageVersionsToolArgs = z.object({
+	pageId: z
+		.string()
+		.describe(
+			'The numeric ID of the Confluence page whose version history to list (e.g., "456789").',
+		),
+
+	...PaginationArgs,
+});
+
+type ListPageVersionsToolArgsType = z.infer<typeof ListPageVersionsToolArgs>;
+
+/**
+ * Arguments for comparing two versions of a Confluence page
+ */
+const DiffPageVersionsToolArgs = z.object({
+	pageId: z
+		.string()
+		.describe(
+			'The numeric ID of the Confluence page to compare versions of (e.g., "456789").',
+		),
+
+	fromVersion: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe(
+			'The older version number to compare from. Defaults to the version just before `toVersion`. Use `conf_ls_page_versions` to find version numbers.',
+		),
+
+	toVersion: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe(
+			'The newer version number to compare to. Defaults to the current version of the page.',
+		),
+});
+
+type DiffPageVersionsToolArgsType = z.infer<typeof DiffPageVersionsToolArgs>;
+
 export {
 	ListPagesToolArgs,
 	type ListPagesToolArgsType,
 	GetPageToolArgs,
 	type GetPageToolArgsType,
+	CreatePageToolArgs,
+	type CreatePageToolArgsType,
+	UpdatePageToolArgs,
+	type UpdatePageToolArgsType,
+	PatchPageToolArgs,
+	type PatchPageToolArgsType,
+	GetPageTreeToolArgs,
+	type GetPageTreeToolArgsType,
+	ListPageVersionsToolArgs,
+	type ListPageVersionsToolArgsType,
+	DiffPageVersionsToolArgs,
+	type DiffPageVersionsToolArgsType,
 };
@@ -1,7 +1,11 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
 import atlassianSearchController from '../controllers/atlassian.search.controller.js';
 import {
 	type SearchToolArgsType,
@@ -41,6 +45,7 @@ async function searchContent(args: Record<string, unknown>) {
 					text: result.content, // Content now includes executed CQL and pagination information
 				},
 			],
+			structuredContent: result.data,
 		};
 
 		return response;
@@ -76,23 +81,36 @@ function registerTools(server: McpServer) {
 		labels: SearchToolArgs.shape.labels,
 		contentType: SearchToolArgs.shape.contentType,
 		query: SearchToolArgs.shape.query,
+		fetchAll: SearchToolArgs.shape.fetchAll,
 	});
-	server.tool(
+	registerTool(
+		server,
 		'conf_search',
-		`Searches Confluence content. Supports multiple filter options: \`cql\` (for providing a complete custom Confluence Query Language string), \`searchTitle\` (text in title), \`spaceKey\`, \`labels\`, and \`contentType\` (page/blogpost). A general \`query\` parameter performs a basic text search (equivalent to CQL: text ~ "your query").
+		{
+			description: `Searches Confluence content. Supports multiple filter options: \`cql\` (for providing a complete custom Confluence Query Language string), \`searchTitle\` (text in title), \`spaceKey\`, \`labels\`, and \`contentType\` (page/blogpost). A general \`query\` parameter performs a basic text search (equivalent to CQL: text ~ "your query").
 - IMPORTANT for \`cql\` users: Ensure your CQL syntax is correct, especially quoting terms in text searches (e.g., \`text ~ "search phrase"\`). Invalid CQL will result in an error. Refer to official Confluence CQL documentation. 
 - Filters are generally combined with AND logic.
-- Supports pagination (\`limit\`, \`cursor\`). 
+- Supports pagination (\`limit\`, \`cursor\`). Set \`fetchAll\` to collect every page of results (up to 1000) in one call.
 - The executed CQL and pagination information (including next cursor value) are included directly in the returned text content.
 - Returns Markdown formatted results with snippets and metadata. 
 - Requires Confluence credentials.`,
-		searchSchema.shape,
-		async (args: Record<string, unknown>) => {
-			// Map searchTitle back to title for the controller
-			const mappedArgs = { ...args, title: args.searchTitle };
-			delete (mappedArgs as Record<string, unknown>).searchTitle;
-			return searchContent(mappedArgs);
+			inputSchema: withSiteArg(withOutputFormatArg(searchSchema.shape)),
+			outputSchema: OutputShapes.search,
+			annotations: {
+				title: 'Search with CQL',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
 		},
+		withSite(
+			withOutputFormat(async (args: Record<string, unknown>) => {
+				// Map searchTitle back to title for the controller
+				const mappedArgs = { ...args, title: args.searchTitle };
+				delete (mappedArgs as Record<string, unknown>).searchTitle;
+				return searchContent(mappedArgs);
+			}),
+		),
 	);
 
 	toolLogger.debug('Successfully registered Atlassian Search tools');
@@ -64,6 +64,12 @@ const SearchToolArgs = z.object({
 			'Optional: Simple text search query. This will search for the given text within the content body, title, and comments. Translates to CQL: `text ~ "YOUR_QUERY"`. If both `query` and `cql` are provided, they will be combined with AND (e.g., `text ~ "YOUR_QUERY" AND (YOUR_CQL)`). For sophisticated text searches, prefer using the `cql` parameter directly.',
 		),
 	...PaginationArgs,
+	fetchAll: z
+		.boolean()
+		.optional()
+		.describe(
+			'Optional: Follow the pagination and return all matching results in one response, up to 1000. `limit` then sets the page size of each request (100 if omitted). If more results exist, the response ends with a cursor to continue from.',
+		),
 });
 
 type SearchToolArgsType = z.infer<typeof SearchToolArgs>;
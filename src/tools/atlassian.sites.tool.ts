@@ -0,0 +1,77 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { OutputFormatArg, withOutputFormat } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
+import atlassianSitesController from '../controllers/atlassian.sites.controller.js';
+
+/**
+ * MCP Tool: List Configured Confluence Sites
+ *
+ * Lists the site profiles this server is configured for.
+ * Returns a formatted markdown response with each site's URL and authentication method.
+ *
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP response with formatted sites list
+ * @throws Will return error message if listing sites fails
+ */
+async function listSites() {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.sites.tool.ts',
+		'listSites',
+	);
+	methodLogger.debug('Listing configured Confluence sites');
+
+	try {
+		const result = await atlassianSitesController.list();
+
+		methodLogger.debug('Successfully listed sites');
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+			],
+			structuredContent: result.data,
+		};
+	} catch (error) {
+		methodLogger.error('Failed to list sites', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Register Atlassian Sites MCP Tools
+ *
+ * @param {McpServer} server - The MCP server instance to register tools with
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = Logger.forContext(
+		'tools/atlassian.sites.tool.ts',
+		'registerTools',
+	);
+	methodLogger.debug('Registering Atlassian Sites tools...');
+
+	registerTool(
+		server,
+		'conf_ls_sites',
+		{
+			description: `Lists the Confluence sites this server is configured for, with each site's URL, deployment type and authentication method (no secrets). Pass a site's name as the \`site\` argument of any other tool to work with that site; without it, tools use the site marked as current.`,
+			inputSchema: { outputFormat: OutputFormatArg },
+			outputSchema: OutputShapes.listSites,
+			annotations: {
+				title: 'List sites',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: false,
+			},
+		},
+		withOutputFormat(listSites),
+	);
+
+	methodLogger.debug('Successfully registered Atlassian Sites tools');
+}
+
+export default { registerTools };
@@ -1,6 +1,10 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
 import {
 	ListSpacesToolArgs,
 	type ListSpacesToolArgsType,
@@ -42,6 +46,7 @@ async function listSpaces(args: Record<string, unknown>) {
 					text: result.content, // Content now includes pagination information
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		toolLogger.error('Failed to list spaces', error);
@@ -82,6 +87,7 @@ async function getSpace(args: Record<string, unknown>) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Error retrieving space details:', error);
@@ -106,24 +112,48 @@ function registerTools(server: McpServer) {
 	toolLogger.debug('Registering Atlassian Spaces tools...');
 
 	// Register the list spaces tool
-	server.tool(
+	registerTool(
+		server,
 		'conf_ls_spaces',
-		`Lists Confluence spaces accessible to the user, with optional filtering by \`type\` (global, personal), or \`status\` (current, archived).
+		{
+			description: `Lists Confluence spaces accessible to the user, with optional filtering by \`type\` (global, personal), or \`status\` (current, archived).
 - Use this to discover spaces and find their keys needed for other tools.
 - Supports pagination via \`limit\` and \`cursor\` parameters. Pagination information, including next cursor value, is included directly in the returned text content.
 - **Note:** Filtering by \`type\` alone does not filter by status; the \`status\` parameter defaults to returning spaces with *all* statuses (current and archived) unless explicitly set to \`current\` or \`archived\`.
 - Returns a formatted list of spaces including ID, key, name, type, status, and URL.
 - Default sort is by name descending.`,
-		ListSpacesToolArgs.shape,
-		listSpaces,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(ListSpacesToolArgs.shape),
+			),
+			outputSchema: OutputShapes.listSpaces,
+			annotations: {
+				title: 'List spaces',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(listSpaces)),
 	);
 
 	// Register the get space details tool
-	server.tool(
+	registerTool(
+		server,
 		'conf_get_space',
-		`Retrieves comprehensive details for a specific Confluence space identified by \`spaceKey\`. Returns the space's description, homepage ID, type, status, theme, permissions, and other metadata as formatted Markdown. Use this after finding a space key via \`conf_ls_spaces\` to get the full space context.`,
-		GetSpaceToolArgs.shape,
-		getSpace,
+		{
+			description: `Retrieves comprehensive details for a specific Confluence space identified by \`spaceKey\`. Returns the space's description, homepage ID, type, status, theme, permissions, and other metadata as formatted Markdown. Use this after finding a space key via \`conf_ls_spaces\` to get the full space context.`,
+			inputSchema: withSiteArg(
+				withOutputFormatArg(GetSpaceToolArgs.shape),
+			),
+			outputSchema: OutputShapes.getSpace,
+			annotations: {
+				title: 'Get space',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(getSpace)),
 	);
 
 	toolLogger.debug('Successfully registered Atlassian Spaces tools');
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { MaxItemsArg } from '../utils/pagination.util.js';
 
 /**
  * Base pagination arguments for all tools
@@ -43,6 +44,8 @@ const ListSpacesToolArgs = z.object({
 		),
 
 	...PaginationArgs,
+
+	maxItems: MaxItemsArg,
 });
 
 type ListSpacesToolArgsType = z.infer<typeof ListSpacesToolArgs>;
@@ -1,7 +1,11 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { Logger } from '../utils/logger.util.js';
+import { registerTool } from '../utils/tool-filter.util.js';
 import { formatErrorForMcpTool } from '../utils/error.util.js';
+import { withSite, withSiteArg } from '../utils/site.util.js';
+import { withOutputFormat, withOutputFormatArg } from '../utils/output.util.js';
+import { OutputShapes } from '../types/data.types.js';
 import atlassianUniversalSearchController from '../controllers/atlassian.universal-search.controller.js';
 import {
 	UniversalSearchToolArgs,
@@ -27,6 +31,7 @@ async function universalSearch(args: Record<string, unknown>) {
 					text: result.content,
 				},
 			],
+			structuredContent: result.data,
 		};
 	} catch (error) {
 		methodLogger.error('Universal search tool failed:', error);
@@ -53,16 +58,26 @@ function registerTools(server: McpServer) {
 		limitPerType: UniversalSearchToolArgs.shape.limitPerType,
 	});
 
-	server.tool(
+	registerTool(
+		server,
 		'conf_search_all',
-		`Performs a single search across multiple Confluence content types (pages, blog posts, spaces, attachments, comments).
+		{
+			description: `Performs a single search across multiple Confluence content types (pages, blog posts, spaces, attachments, comments).
 - Provide a required \`query\` to search text content, titles, and excerpts.
 - Optional \`spaceKey\` filters content results (pages, blog posts, attachments, comments) to one space.
 - Optional \`labels\` require all provided labels on page/blog post results.
 - Enable/disable categories with \`include*\` flags or rely on defaults (all enabled).
 - Uses highlight excerpts and returns Markdown grouped by content type with result counts and tips.`,
-		schema.shape,
-		async (args: Record<string, unknown>) => universalSearch(args),
+			inputSchema: withSiteArg(withOutputFormatArg(schema.shape)),
+			outputSchema: OutputShapes.universalSearch,
+			annotations: {
+				title: 'Search everything',
+				readOnlyHint: true,
+				idempotentHint: true,
+				openWorldHint: true,
+			},
+		},
+		withSite(withOutputFormat(universalSearch)),
 	);
 
 	toolLogger.debug('Universal search MCP tool registered successfully');
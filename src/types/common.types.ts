@@ -40,6 +40,12 @@ export interface ResponsePagination {
 	 * This helps clients understand the total scope of their results.
 	 */
 	total?: number;
+
+	/**
+	 * Whether collecting several pages stopped at the requested maximum
+	 * (maxItems) while more results were available.
+	 */
+	truncated?: boolean;
 }
 
 /*
@@ -64,15 +70,22 @@ export interface PaginationOptions {
  * Common response structure for controller operations.
  * All controller methods should return this structure.
  *
- * Note: All information, including what was previously in metadata or handled
- * as a separate pagination object, is now part of this single Markdown content string,
- * composed by the Controller and its Formatters.
+ * The Markdown content string holds everything a reader needs, including
+ * pagination details, composed by the Controller and its Formatters. The same
+ * information is available as normalized objects in `data` for programmatic
+ * consumers (MCP structured content and the CLI's --json output).
  */
-export interface ControllerResponse {
+export interface ControllerResponse<Data extends object = object> {
 	/**
 	 * Formatted content to be displayed to the user.
 	 * A comprehensive Markdown-formatted string that includes all necessary information,
 	 * including pagination details and any additional metadata.
 	 */
 	content: string;
+
+	/**
+	 * The information shown in `content` as normalized objects.
+	 * See src/types/data.types.ts for the shapes.
+	 */
+	data: Data;
 }
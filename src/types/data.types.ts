@@ -0,0 +1,331 @@
+/**
+ * Normalized data returned by controllers next to their Markdown content.
+ * The Zod schemas double as the output schemas of the MCP tools, so that the
+ * structured content of a tool result and the JSON printed by the CLI share
+ * one definition. Fields are flattened from the Confluence API responses:
+ * bodies are Markdown, links are absolute URLs and dates are ISO strings.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Pagination of a list result
+ */
+export const PaginationDataSchema = z.object({
+	hasMore: z.boolean().describe('Whether more results are available'),
+	nextCursor: z
+		.string()
+		.optional()
+		.describe('Cursor (or start offset) of the next page of results'),
+	count: z.number().optional().describe('Number of results returned'),
+	start: z.number().optional(),
+	total: z.number().optional(),
+	truncated: z
+		.boolean()
+		.optional()
+		.describe('Whether collecting results stopped at maxItems'),
+});
+
+/**
+ * A Confluence space
+ */
+export const SpaceDataSchema = z.object({
+	id: z.string(),
+	key: z.string(),
+	name: z.string(),
+	type: z.string(),
+	status: z.string(),
+	description: z.string().optional(),
+	homepageId: z.string().optional(),
+	createdAt: z.string().optional(),
+	url: z.string(),
+});
+
+/**
+ * A label on a page, blog post or space
+ */
+export const LabelDataSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	prefix: z.string().optional(),
+});
+
+/**
+ * A page or blog post, without its body
+ */
+export const ContentDataSchema = z.object({
+	id: z.string(),
+	title: z.string(),
+	status: z.string(),
+	spaceId: z.string().optional(),
+	parentId: z.string().optional(),
+	authorId: z.string().optional(),
+	createdAt: z.string().optional(),
+	version: z.number().optional(),
+	lastModified: z.string().optional(),
+	url: z.string(),
+});
+
+/**
+ * A page or blog post with its Markdown body and labels
+ */
+export const ContentDetailsDataSchema = ContentDataSchema.extend({
+	body: z.string().describe('Content converted to Markdown'),
+	labels: z.array(LabelDataSchema),
+});
+
+/**
+ * A space with its homepage and most recently modified pages
+ */
+export const SpaceDetailsDataSchema = SpaceDataSchema.extend({
+	homepage: z
+		.object({
+			id: z.string(),
+			body: z.string().describe('Homepage content in Markdown'),
+		})
+		.optional(),
+	recentPages: z.array(ContentDataSchema),
+	labels: z.array(LabelDataSchema),
+});
+
+/**
+ * A page in a page tree or breadcrumb, listed in outline order
+ */
+export const PageTreeNodeDataSchema = z.object({
+	id: z.string(),
+	title: z.string(),
+	type: z.string(),
+	parentId: z
+		.string()
+		.optional()
+		.describe('ID of the node this one is listed under'),
+	depth: z.number().describe('Level in the outline, starting at 0'),
+	childCount: z.number().optional(),
+});
+
+/**
+ * A version in the history of a page
+ */
+export const PageVersionDataSchema = z.object({
+	number: z.number(),
+	createdAt: z.string().optional(),
+	authorId: z.string().optional(),
+	message: z.string().optional(),
+	minorEdit: z.boolean().optional(),
+});
+
+/**
+ * A page or inline comment
+ */
+export const CommentDataSchema = z.object({
+	id: z.string(),
+	title: z.string().optional(),
+	status: z.string(),
+	location: z.enum(['footer', 'inline']),
+	body: z.string().describe('Comment converted to Markdown'),
+	highlightedText: z
+		.string()
+		.optional()
+		.describe('Page text an inline comment is anchored to'),
+	resolution: z.string().optional(),
+	url: z.string().optional(),
+});
+
+/**
+ * An attachment of a page or blog post
+ */
+export const AttachmentDataSchema = z.object({
+	id: z.string(),
+	title: z.string(),
+	status: z.string(),
+	mediaType: z.string().optional(),
+	fileSize: z.number().optional(),
+	pageId: z.string().optional(),
+	version: z.number().optional(),
+	createdAt: z.string().optional(),
+	comment: z.string().optional(),
+	downloadUrl: z.string().optional(),
+	url: z.string().optional(),
+});
+
+/**
+ * A search result of any content type
+ */
+export const SearchResultDataSchema = z.object({
+	id: z.string().optional(),
+	title: z.string(),
+	type: z.string().optional(),
+	status: z.string().optional(),
+	spaceId: z.string().optional(),
+	spaceName: z.string().optional(),
+	excerpt: z.string().optional(),
+	lastModified: z.string().optional(),
+	url: z.string().optional(),
+});
+
+/**
+ * A configured site profile, without secrets
+ */
+export const SiteDataSchema = z.object({
+	name: z.string(),
+	url: z.string().optional(),
+	deployment: z.enum(['Cloud', 'Server / Data Center']).optional(),
+	authentication: z.string(),
+	current: z.boolean(),
+});
+
+export type PaginationData = z.infer<typeof PaginationDataSchema>;
+export type SpaceData = z.infer<typeof SpaceDataSchema>;
+export type SpaceDetailsData = z.infer<typeof SpaceDetailsDataSchema>;
+export type LabelData = z.infer<typeof LabelDataSchema>;
+export type ContentData = z.infer<typeof ContentDataSchema>;
+export type ContentDetailsData = z.infer<typeof ContentDetailsDataSchema>;
+export type PageTreeNodeData = z.infer<typeof PageTreeNodeDataSchema>;
+export type PageVersionData = z.infer<typeof PageVersionDataSchema>;
+export type CommentData = z.infer<typeof CommentDataSchema>;
+export type AttachmentData = z.infer<typeof AttachmentDataSchema>;
+export type SearchResultData = z.infer<typeof SearchResultDataSchema>;
+export type SiteData = z.infer<typeof SiteDataSchema>;
+
+/**
+ * Output shapes of the controller operations, as raw Zod shapes so that they
+ * can be passed to the MCP server as tool output schemas
+ */
+export const OutputShapes = {
+	listSpaces: {
+		spaces: z.array(SpaceDataSchema),
+		pagination: PaginationDataSchema.optional(),
+	},
+	getSpace: {
+		space: SpaceDetailsDataSchema,
+	},
+	listPages: {
+		pages: z.array(ContentDataSchema),
+		pagination: PaginationDataSchema.optional(),
+	},
+	getPage: {
+		page: ContentDetailsDataSchema,
+		recentComments: z.array(CommentDataSchema),
+	},
+	writePage: {
+		page: ContentDataSchema,
+	},
+	patchPage: {
+		page: ContentDataSchema,
+		operation: z.string(),
+		heading: z.string().optional(),
+		previousVersion: z.number(),
+		diff: z.string().describe('Unified diff of the Markdown content'),
+	},
+	getPageTree: {
+		mode: z.enum(['descendants', 'ancestors']),
+		nodes: z.array(PageTreeNodeDataSchema),
+		truncated: z.boolean(),
+	},
+	listPageVersions: {
+		page: ContentDataSchema,
+		versions: z.array(PageVersionDataSchema),
+		pagination: PaginationDataSchema.optional(),
+	},
+	diffPageVersions: {
+		page: ContentDataSchema,
+		from: PageVersionDataSchema,
+		to: PageVersionDataSchema,
+		diff: z.string().describe('Unified diff of the Markdown content'),
+		added: z.number(),
+		removed: z.number(),
+	},
+	listBlogPosts: {
+		blogPosts: z.array(ContentDataSchema),
+		pagination: PaginationDataSchema.optional(),
+	},
+	getBlogPost: {
+		blogPost: ContentDetailsDataSchema,
+	},
+	listLabels: {
+		scope: z.string(),
+		labels: z.array(LabelDataSchema),
+		pagination: PaginationDataSchema.optional(),
+	},
+	updateLabels: {
+		contentId: z.string(),
+		action: z.enum(['added', 'removed']),
+		changed: z.array(z.string()),
+		labels: z
+			.array(LabelDataSchema)
+			.optional()
+			.describe('All labels of the content after the change, if known'),
+	},
+	listAttachments: {
+		pageId: z.string(),
+		attachments: z.array(AttachmentDataSchema),
+		pagination: PaginationDataSchema.optional(),
+	},
+	getAttachment: {
+		attachment: AttachmentDataSchema,
+		text: z.string().optional().describe('Extracted text content'),
+		truncated: z.boolean().optional(),
+		note: z.string().optional(),
+	},
+	uploadAttachment: {
+		attachment: AttachmentDataSchema,
+	},
+	listComments: {
+		pageId: z.string(),
+		comments: z.array(CommentDataSchema),
+		pagination: PaginationDataSchema.optional(),
+	},
+	writeComment: {
+		pageId: z.string().optional(),
+		comment: CommentDataSchema,
+	},
+	setCommentResolution: {
+		comment: CommentDataSchema,
+		resolved: z.boolean(),
+		changed: z.boolean(),
+		replyId: z.string().optional(),
+	},
+	search: {
+		cql: z.string(),
+		results: z.array(SearchResultDataSchema),
+		pagination: PaginationDataSchema.optional(),
+	},
+	universalSearch: {
+		query: z.string(),
+		results: z.object({
+			spaces: z.array(SearchResultDataSchema).optional(),
+			pages: z.array(SearchResultDataSchema).optional(),
+			blogPosts: z.array(SearchResultDataSchema).optional(),
+			attachments: z.array(SearchResultDataSchema).optional(),
+			comments: z.array(SearchResultDataSchema).optional(),
+		}),
+	},
+	listSites: {
+		sites: z.array(SiteDataSchema),
+	},
+	authStatus: {
+		loggedIn: z.boolean(),
+		siteUrl: z.string().optional(),
+		cloudId: z.string().optional(),
+		expiresAt: z.string().optional(),
+		hasRefreshToken: z.boolean().optional(),
+		scope: z.string().optional(),
+		clientConfigured: z.boolean().optional(),
+		tokenPath: z.string(),
+	},
+	logout: {
+		removed: z.boolean(),
+		tokenPath: z.string(),
+	},
+	clearCache: {
+		deleted: z.number(),
+		directory: z.string(),
+	},
+};
+
+/**
+ * Data of a controller operation, by operation name
+ */
+export type OutputData<K extends keyof typeof OutputShapes> = z.infer<
+	z.ZodObject<(typeof OutputShapes)[K]>
+>;
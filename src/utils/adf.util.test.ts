@@ -0,0 +1,317 @@
+import {
+	adfToMarkdown,
+	markdownToAdf,
+	findAdfSection,
+	listAdfHeadings,
+	patchAdfDocument,
+	countAdfTextOccurrences,
+	resolveAttachmentLinks,
+	adfToStorage,
+} from './adf.util.js';
+
+describe('ADF Utility', () => {
+	describe('markdownToAdf', () => {
+		it('should wrap content in an ADF document', () => {
+			const doc = markdownToAdf('Hello world');
+
+			expect(doc.version).toBe(1);
+			expect(doc.type).toBe('doc');
+			expect(doc.content).toEqual([
+				{
+					type: 'paragraph',
+					content: [{ type: 'text', text: 'Hello world' }],
+				},
+			]);
+		});
+
+		it('should handle empty input', () => {
+			expect(markdownToAdf('').content).toEqual([]);
+		});
+
+		it('should convert headings with their level', () => {
+			const doc = markdownToAdf('## Rollback steps');
+
+			expect(doc.content[0]).toEqual({
+				type: 'heading',
+				attrs: { level: 2 },
+				content: [{ type: 'text', text: 'Rollback steps' }],
+			});
+		});
+
+		it('should convert inline marks', () => {
+			const doc = markdownToAdf(
+				'Run **now** with *care* using `kubectl` and ~~not~~ [docs](https://example.com)',
+			);
+			const texts = doc.content[0].content!;
+
+			expect(texts).toContainEqual({
+				type: 'text',
+				text: 'now',
+				marks: [{ type: 'strong' }],
+			});
+			expect(texts).toContainEqual({
+				type: 'text',
+				text: 'care',
+				marks: [{ type: 'em' }],
+			});
+			expect(texts).toContainEqual({
+				type: 'text',
+				text: 'kubectl',
+				marks: [{ type: 'code' }],
+			});
+			expect(texts).toContainEqual({
+				type: 'text',
+				text: 'not',
+				marks: [{ type: 'strike' }],
+			});
+			expect(texts).toContainEqual({
+				type: 'text',
+				text: 'docs',
+				marks: [
+					{ type: 'link', attrs: { href: 'https://example.com' } },
+				],
+			});
+		});
+
+		it('should not treat underscores inside words as emphasis', () => {
+			const doc = markdownToAdf('Set MAX_RETRY_COUNT to 3');
+
+			expect(doc.content[0].content).toEqual([
+				{ type: 'text', text: 'Set MAX_RETRY_COUNT to 3' },
+			]);
+		});
+
+		it('should convert fenced code blocks with language', () => {
+			const doc = markdownToAdf('```bash\nnpm install\nnpm test\n```');
+
+			expect(doc.content[0]).toEqual({
+				type: 'codeBlock',
+				attrs: { language: 'bash' },
+				content: [{ type: 'text', text: 'npm install\nnpm test' }],
+			});
+		});
+
+		it('should convert nested lists', () => {
+			const doc = markdownToAdf('- One\n  - Nested\n- Two');
+			const list = doc.content[0];
+
+			expect(list.type).toBe('bulletList');
+			expect(list.content).toHaveLength(2);
+			expect(list.content![0].content![1].type).toBe('bulletList');
+		});
+
+		it('should keep the start number of ordered lists', () => {
+			const doc = markdownToAdf('3. Third\n4. Fourth');
+
+			expect(doc.content[0].type).toBe('orderedList');
+			expect(doc.content[0].attrs).toEqual({ order: 3 });
+		});
+
+		it('should convert tables with header cells', () => {
+			const doc = markdownToAdf(
+				'Name | Owner\n--- | ---\nAPI | Platform',
+			);
+			const table = doc.content[0];
+
+			expect(table.type).toBe('table');
+			expect(table.content![0].content![0].type).toBe('tableHeader');
+			expect(table.content![1].content![1].type).toBe('tableCell');
+		});
+	});
+
+	describe('round trip', () => {
+		it.each([
+			['heading and paragraph', '# Runbook\n\nRestart the service.'],
+			['inline marks', 'Use **bold**, *italic* and `code` here.'],
+			['links', 'See [the guide](https://example.com/guide) first.'],
+			['bullet list', '- First\n- Second\n  - Nested'],
+			['ordered list', '1. First\n2. Second'],
+			['code block', '```ts\nconst x = 1;\n```'],
+			['blockquote', '> Be careful'],
+			['rule', 'Above\n\n---\n\nBelow'],
+			['table', 'Name | Owner\n--- | ---\nAPI | Platform'],
+			['line breaks', 'Line one\nLine two'],
+		])('should preserve %s', (_name, markdown) => {
+			expect(adfToMarkdown(markdownToAdf(markdown))).toBe(markdown);
+		});
+	});
+
+	describe('section patching', () => {
+		const markdown =
+			'# Runbook\n\nIntro\n\n## Deploy\n\nStep one\n\n### Notes\n\nNote\n\n## Rollback\n\nRevert';
+
+		it('should find a section up to the next heading of the same level', () => {
+			const doc = markdownToAdf(markdown);
+			const section = findAdfSection(doc.content, 'deploy');
+
+			expect(section).toEqual({
+				headingIndex: 2,
+				endIndex: 6,
+				level: 2,
+				text: 'Deploy',
+			});
+		});
+
+		it('should match heading level when markers are given', () => {
+			const doc = markdownToAdf(markdown);
+
+			expect(findAdfSection(doc.content, '### Deploy')).toBeUndefined();
+			expect(findAdfSection(doc.content, '### Notes')?.level).toBe(3);
+		});
+
+		it('should list top-level headings', () => {
+			const doc = markdownToAdf(markdown);
+
+			expect(listAdfHeadings(doc.content)).toEqual([
+				'# Runbook',
+				'## Deploy',
+				'### Notes',
+				'## Rollback',
+			]);
+		});
+
+		it('should replace section content and keep other nodes untouched', () => {
+			const doc = markdownToAdf(markdown);
+			const section = findAdfSection(doc.content, 'Deploy');
+			const patched = patchAdfDocument(
+				doc,
+				'replace',
+				markdownToAdf('Step two').content,
+				section,
+			);
+
+			expect(adfToMarkdown(patched)).toBe(
+				'# Runbook\n\nIntro\n\n## Deploy\n\nStep two\n\n## Rollback\n\nRevert',
+			);
+			expect(patched.content[0]).toBe(doc.content[0]);
+			expect(patched.content[patched.content.length - 1]).toBe(
+				doc.content[doc.content.length - 1],
+			);
+			expect(doc.content).toHaveLength(8);
+		});
+
+		it('should insert content directly after a heading', () => {
+			const doc = markdownToAdf(markdown);
+			const patched = patchAdfDocument(
+				doc,
+				'insertAfter',
+				markdownToAdf('Warning').content,
+				findAdfSection(doc.content, 'Rollback'),
+			);
+
+			expect(adfToMarkdown(patched)).toContain(
+				'## Rollback\n\nWarning\n\nRevert',
+			);
+		});
+
+		it('should append to the end of a section or document', () => {
+			const doc = markdownToAdf(markdown);
+			const blocks = markdownToAdf('Step two').content;
+
+			expect(
+				adfToMarkdown(
+					patchAdfDocument(
+						doc,
+						'append',
+						blocks,
+						findAdfSection(doc.content, 'Deploy'),
+					),
+				),
+			).toContain('Note\n\nStep two\n\n## Rollback');
+			expect(
+				adfToMarkdown(patchAdfDocument(doc, 'append', blocks)),
+			).toMatch(/Revert\n\nStep two$/);
+		});
+	});
+
+	describe('countAdfTextOccurrences', () => {
+		it('should count occurrences across text blocks', () => {
+			const doc = markdownToAdf(
+				'# Retry policy\n\nThe **retry** policy applies.\n\n- Retry policy for jobs',
+			);
+
+			expect(countAdfTextOccurrences(doc, 'retry policy')).toBe(1);
+			expect(countAdfTextOccurrences(doc, 'policy')).toBe(3);
+			expect(
+				countAdfTextOccurrences(JSON.stringify(doc), 'missing'),
+			).toBe(0);
+		});
+
+		it('should not match text spanning separate blocks', () => {
+			const doc = markdownToAdf('First\n\nSecond');
+
+			expect(countAdfTextOccurrences(doc, 'FirstSecond')).toBe(0);
+		});
+	});
+
+	describe('resolveAttachmentLinks', () => {
+		it('should replace known attachment placeholders with URLs', () => {
+			const markdown = adfToMarkdown({
+				type: 'doc',
+				version: 1,
+				content: [
+					{
+						type: 'mediaSingle',
+						content: [
+							{
+								type: 'media',
+								attrs: {
+									type: 'file',
+									id: 'file-1',
+									alt: 'Diagram',
+								},
+							},
+						],
+					},
+					{
+						type: 'mediaSingle',
+						content: [
+							{
+								type: 'media',
+								attrs: { type: 'file', id: 'file-2' },
+							},
+						],
+					},
+				],
+			});
+			const urls = new Map([
+				['file-1', 'https://example.atlassian.net/wiki/download/a.png'],
+			]);
+
+			const resolved = resolveAttachmentLinks(markdown, urls);
+
+			expect(resolved).toContain(
+				'![Diagram](https://example.atlassian.net/wiki/download/a.png)',
+			);
+			expect(resolved).toContain('(attachment:file-2)');
+		});
+	});
+
+	describe('adfToStorage', () => {
+		it('should convert Markdown-derived ADF to storage format', () => {
+			const storage = adfToStorage(
+				markdownToAdf(
+					'## Setup\n\nRun **this** & [that](https://example.com).\n\n- one\n- two\n\n```bash\nnpm test\n```',
+				),
+			);
+
+			expect(storage).toContain('<h2>Setup</h2>');
+			expect(storage).toContain(
+				'<p>Run <strong>this</strong> &amp; <a href="https://example.com">that</a>.</p>',
+			);
+			expect(storage).toContain('<ul><li><p>one</p></li>');
+			expect(storage).toContain(
+				'<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">bash</ac:parameter><ac:plain-text-body><![CDATA[npm test]]></ac:plain-text-body></ac:structured-macro>',
+			);
+		});
+
+		it('should convert tables', () => {
+			const storage = adfToStorage(
+				markdownToAdf('| A | B |\n| --- | --- |\n| 1 | 2 |'),
+			);
+
+			expect(storage).toMatch(/^<table><tbody><tr><th>.*A.*<\/th>/);
+			expect(storage).toContain('<td><p>1</p></td>');
+		});
+	});
+});
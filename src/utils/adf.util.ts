@@ -1,5 +1,5 @@
 /**
- * Utility functions for converting Atlassian Document Format (ADF) to Markdown
+ * Utility functions for converting between Atlassian Document Format (ADF) and Markdown
  *
  * Used for standardized content handling across Atlassian products.
  * This implementation is compatible with Confluence Cloud's 'atlas_doc_format' content format.
@@ -25,7 +25,7 @@ export interface AdfDocument {
 /**
  * Interface for ADF node
  */
-interface AdfNode {
+export interface AdfNode {
 	type: string;
 	text?: string;
 	content?: AdfNode[];
@@ -166,6 +166,8 @@ function processAdfNode(node: AdfNode): string {
 			return processBlockquote(node);
 		case 'rule':
 			return '---';
+		case 'hardBreak':
+			return '\n';
 		case 'mediaGroup':
 			return processMediaGroup(node);
 		case 'media':
@@ -204,12 +206,12 @@ function processParagraph(node: AdfNode): string {
 	// Process each child node and join them with proper spacing
 	return node.content
 		.map((childNode, index) => {
-			// Add a space between text nodes if needed
+			// Add a space between text nodes if needed (never before punctuation)
 			const needsSpace =
 				index > 0 &&
 				childNode.type === 'text' &&
 				node.content![index - 1].type === 'text' &&
-				!childNode.text?.startsWith(' ') &&
+				!/^[\s.,;:!?)\]]/.test(childNode.text || '') &&
 				!node.content![index - 1].text?.endsWith(' ');
 
 			return (needsSpace ? ' ' : '') + processAdfNode(childNode);
@@ -555,3 +557,911 @@ function processStatus(node: AdfNode): string {
 	// Markdown doesn't support colored lozenges, so we use brackets
 	return `[${text}]`;
 }
+
+/**
+ * Convert Markdown to Atlassian Document Format (ADF)
+ *
+ * Supports the same constructs that adfToMarkdown emits (headings, paragraphs,
+ * nested lists, code blocks, blockquotes, rules, tables and inline marks) so that
+ * content read from Confluence and written back survives the round trip.
+ *
+ * @param markdown - The Markdown content to convert
+ * @returns The converted ADF document
+ */
+export function markdownToAdf(markdown: string): AdfDocument {
+	const methodLogger = Logger.forContext(
+		'utils/adf.util.ts',
+		'markdownToAdf',
+	);
+
+	const lines = (markdown || '').replace(/\r\n?/g, '\n').split('\n');
+	const content = parseMarkdownBlocks(lines);
+
+	methodLogger.debug(
+		`Converted Markdown to ADF, top-level nodes: ${content.length}`,
+	);
+
+	return {
+		version: 1,
+		type: 'doc',
+		content,
+	};
+}
+
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_REGEX = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_REGEX = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE_REGEX = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_REGEX =
+	/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const IMAGE_LINE_REGEX = /^\s*!\[([^\]]*)\]\(([^)\s]+)\)\s*$/;
+
+/**
+ * Parse a sequence of Markdown lines into ADF block nodes
+ */
+function parseMarkdownBlocks(lines: string[]): AdfNode[] {
+	const nodes: AdfNode[] = [];
+	let index = 0;
+
+	while (index < lines.length) {
+		const line = lines[index];
+
+		if (!line.trim()) {
+			index++;
+			continue;
+		}
+
+		// Fenced code block
+		const fenceMatch = line.match(FENCE_REGEX);
+		if (fenceMatch) {
+			const fence = fenceMatch[1];
+			const codeLines: string[] = [];
+			index++;
+			while (
+				index < lines.length &&
+				!lines[index].trim().startsWith(fence)
+			) {
+				codeLines.push(lines[index]);
+				index++;
+			}
+			index++; // Skip the closing fence
+			nodes.push(
+				createCodeBlockNode(codeLines.join('\n'), fenceMatch[2]),
+			);
+			continue;
+		}
+
+		// Heading
+		const headingMatch = line.match(HEADING_REGEX);
+		if (headingMatch) {
+			nodes.push({
+				type: 'heading',
+				attrs: { level: headingMatch[1].length },
+				content: parseMarkdownInline(headingMatch[2]),
+			});
+			index++;
+			continue;
+		}
+
+		// Horizontal rule
+		if (RULE_REGEX.test(line)) {
+			nodes.push({ type: 'rule' });
+			index++;
+			continue;
+		}
+
+		// Blockquote
+		if (BLOCKQUOTE_REGEX.test(line)) {
+			const quoteLines: string[] = [];
+			while (index < lines.length) {
+				const quoteMatch = lines[index].match(BLOCKQUOTE_REGEX);
+				if (!quoteMatch) {
+					break;
+				}
+				quoteLines.push(quoteMatch[1]);
+				index++;
+			}
+			nodes.push({
+				type: 'blockquote',
+				content: parseMarkdownBlocks(quoteLines),
+			});
+			continue;
+		}
+
+		// Bullet or ordered list
+		if (LIST_ITEM_REGEX.test(line)) {
+			const { node, nextIndex } = parseMarkdownList(lines, index);
+			nodes.push(node);
+			index = nextIndex;
+			continue;
+		}
+
+		// Table (header row followed by a separator row)
+		if (
+			line.includes('|') &&
+			index + 1 < lines.length &&
+			TABLE_SEPARATOR_REGEX.test(lines[index + 1])
+		) {
+			const tableLines: string[] = [line];
+			index += 2; // Skip header and separator
+			while (
+				index < lines.length &&
+				lines[index].trim() &&
+				lines[index].includes('|')
+			) {
+				tableLines.push(lines[index]);
+				index++;
+			}
+			nodes.push(createTableNode(tableLines));
+			continue;
+		}
+
+		// Standalone image
+		const imageMatch = line.match(IMAGE_LINE_REGEX);
+		if (imageMatch) {
+			nodes.push({
+				type: 'mediaSingle',
+				attrs: { layout: 'center' },
+				content: [
+					{
+						type: 'media',
+						attrs: {
+							type: 'external',
+							url: imageMatch[2],
+							...(imageMatch[1] && { alt: imageMatch[1] }),
+						},
+					},
+				],
+			});
+			index++;
+			continue;
+		}
+
+		// Paragraph: consume lines until a blank line or another block starts
+		const paragraphLines: string[] = [line.trim()];
+		index++;
+		while (
+			index < lines.length &&
+			lines[index].trim() &&
+			!startsMarkdownBlock(lines, index)
+		) {
+			paragraphLines.push(lines[index].trim());
+			index++;
+		}
+		nodes.push(createParagraphNode(paragraphLines));
+	}
+
+	return nodes;
+}
+
+/**
+ * Check whether the line at the given index starts a non-paragraph block
+ */
+function startsMarkdownBlock(lines: string[], index: number): boolean {
+	const line = lines[index];
+	return (
+		FENCE_REGEX.test(line) ||
+		HEADING_REGEX.test(line) ||
+		RULE_REGEX.test(line) ||
+		BLOCKQUOTE_REGEX.test(line) ||
+		LIST_ITEM_REGEX.test(line) ||
+		(line.includes('|') &&
+			index + 1 < lines.length &&
+			TABLE_SEPARATOR_REGEX.test(lines[index + 1]))
+	);
+}
+
+/**
+ * Parse a (possibly nested) Markdown list starting at the given line
+ */
+function parseMarkdownList(
+	lines: string[],
+	startIndex: number,
+): { node: AdfNode; nextIndex: number } {
+	const firstMatch = lines[startIndex].match(LIST_ITEM_REGEX)!;
+	const baseIndent = firstMatch[1].length;
+	const ordered = /^\d/.test(firstMatch[2]);
+	const items: AdfNode[] = [];
+	let index = startIndex;
+
+	while (index < lines.length) {
+		const match = lines[index].match(LIST_ITEM_REGEX);
+		if (
+			!match ||
+			match[1].length !== baseIndent ||
+			/^\d/.test(match[2]) !== ordered
+		) {
+			break;
+		}
+
+		// Collect the lines that belong to this item (indented deeper than the marker)
+		const childLines: string[] = [];
+		index++;
+		while (index < lines.length) {
+			const current = lines[index];
+			if (!current.trim()) {
+				// A blank line only continues the item if indented content follows
+				const nextLine = lines[index + 1];
+				if (
+					nextLine !== undefined &&
+					nextLine.trim() &&
+					getIndent(nextLine) > baseIndent
+				) {
+					childLines.push('');
+					index++;
+					continue;
+				}
+				break;
+			}
+			if (getIndent(current) <= baseIndent) {
+				break;
+			}
+			childLines.push(current);
+			index++;
+		}
+
+		const itemContent: AdfNode[] = [];
+		if (match[3].trim()) {
+			itemContent.push(createParagraphNode([match[3].trim()]));
+		}
+		itemContent.push(...parseMarkdownBlocks(dedentLines(childLines)));
+		items.push({
+			type: 'listItem',
+			content: itemContent.length
+				? itemContent
+				: [{ type: 'paragraph', content: [] }],
+		});
+
+		// Allow a single blank line between sibling items
+		if (
+			index < lines.length &&
+			!lines[index].trim() &&
+			index + 1 < lines.length
+		) {
+			const nextMatch = lines[index + 1].match(LIST_ITEM_REGEX);
+			if (
+				nextMatch &&
+				nextMatch[1].length === baseIndent &&
+				/^\d/.test(nextMatch[2]) === ordered
+			) {
+				index++;
+			}
+		}
+	}
+
+	const startNumber = ordered ? parseInt(firstMatch[2], 10) : 1;
+
+	return {
+		node: {
+			type: ordered ? 'orderedList' : 'bulletList',
+			...(ordered &&
+				startNumber !== 1 && { attrs: { order: startNumber } }),
+			content: items,
+		},
+		nextIndex: index,
+	};
+}
+
+/**
+ * Get the indentation width of a line (tabs count as four spaces)
+ */
+function getIndent(line: string): number {
+	const match = line.match(/^[ \t]*/);
+	return match ? match[0].replace(/\t/g, '    ').length : 0;
+}
+
+/**
+ * Remove the common leading indentation from a set of lines
+ */
+function dedentLines(lines: string[]): string[] {
+	const indents = lines
+		.filter((line) => line.trim())
+		.map((line) => getIndent(line));
+	const minIndent = indents.length ? Math.min(...indents) : 0;
+
+	return lines.map((line) =>
+		line.replace(/\t/g, '    ').slice(Math.min(minIndent, getIndent(line))),
+	);
+}
+
+/**
+ * Create a code block node
+ */
+function createCodeBlockNode(code: string, language?: string): AdfNode {
+	return {
+		type: 'codeBlock',
+		...(language && { attrs: { language } }),
+		...(code && { content: [{ type: 'text', text: code }] }),
+	};
+}
+
+/**
+ * Create a paragraph node, joining source lines with hard breaks
+ */
+function createParagraphNode(lines: string[]): AdfNode {
+	const content: AdfNode[] = [];
+	lines.forEach((line, index) => {
+		if (index > 0) {
+			content.push({ type: 'hardBreak' });
+		}
+		content.push(...parseMarkdownInline(line));
+	});
+	return { type: 'paragraph', content };
+}
+
+/**
+ * Split a Markdown table row into trimmed cell values
+ */
+function splitTableRow(row: string): string[] {
+	const trimmed = row.trim().replace(/^\|/, '').replace(/\|$/, '');
+	return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+/**
+ * Create a table node from the header row and body rows
+ */
+function createTableNode(rows: string[]): AdfNode {
+	const parsedRows = rows.map(splitTableRow);
+	const columnCount = Math.max(...parsedRows.map((row) => row.length));
+
+	return {
+		type: 'table',
+		content: parsedRows.map((cells, rowIndex) => {
+			while (cells.length < columnCount) {
+				cells.push('');
+			}
+			return {
+				type: 'tableRow',
+				content: cells.map((cell) => ({
+					type: rowIndex === 0 ? 'tableHeader' : 'tableCell',
+					content: [
+						{
+							type: 'paragraph',
+							content: parseMarkdownInline(cell),
+						},
+					],
+				})),
+			};
+		}),
+	};
+}
+
+type AdfMark = { type: string; attrs?: Record<string, unknown> };
+
+/**
+ * Parse inline Markdown (emphasis, code, links, strike) into ADF text nodes
+ */
+function parseMarkdownInline(text: string, marks: AdfMark[] = []): AdfNode[] {
+	const nodes: AdfNode[] = [];
+	let buffer = '';
+
+	const flush = () => {
+		if (buffer) {
+			nodes.push(createTextNode(buffer, marks));
+			buffer = '';
+		}
+	};
+
+	let index = 0;
+	while (index < text.length) {
+		const char = text[index];
+		const rest = text.slice(index);
+
+		// Escaped character
+		if (char === '\\' && index + 1 < text.length) {
+			buffer += text[index + 1];
+			index += 2;
+			continue;
+		}
+
+		// Inline code
+		if (char === '`') {
+			const closing = text.indexOf('`', index + 1);
+			if (closing > index) {
+				flush();
+				nodes.push(
+					createTextNode(text.slice(index + 1, closing), [
+						...marks,
+						{ type: 'code' },
+					]),
+				);
+				index = closing + 1;
+				continue;
+			}
+		}
+
+		// Links and inline images (images are kept as links to their source)
+		const linkMatch = rest.match(/^!?\[([^\]]*)\]\(([^)\s]+)\)/);
+		if (linkMatch) {
+			flush();
+			const linkText = linkMatch[1] || linkMatch[2];
+			nodes.push(
+				...parseMarkdownInline(linkText, [
+					...marks,
+					{ type: 'link', attrs: { href: linkMatch[2] } },
+				]),
+			);
+			index += linkMatch[0].length;
+			continue;
+		}
+
+		// Strong and strikethrough (double delimiters)
+		const doubleDelimiter = rest.startsWith('**')
+			? '**'
+			: rest.startsWith('__')
+				? '__'
+				: rest.startsWith('~~')
+					? '~~'
+					: null;
+		if (doubleDelimiter) {
+			const closing = text.indexOf(doubleDelimiter, index + 2);
+			if (closing > index + 2) {
+				flush();
+				nodes.push(
+					...parseMarkdownInline(text.slice(index + 2, closing), [
+						...marks,
+						{
+							type:
+								doubleDelimiter === '~~' ? 'strike' : 'strong',
+						},
+					]),
+				);
+				index = closing + 2;
+				continue;
+			}
+		}
+
+		// Emphasis (single delimiters); underscores must sit on word boundaries
+		if (
+			(char === '*' || char === '_') &&
+			(char === '*' || !/\w/.test(text[index - 1] || ''))
+		) {
+			const closing = findClosingEmphasis(text, index + 1, char);
+			if (closing > index + 1) {
+				flush();
+				nodes.push(
+					...parseMarkdownInline(text.slice(index + 1, closing), [
+						...marks,
+						{ type: 'em' },
+					]),
+				);
+				index = closing + 1;
+				continue;
+			}
+		}
+
+		buffer += char;
+		index++;
+	}
+
+	flush();
+	return nodes;
+}
+
+/**
+ * Find the closing single emphasis delimiter, skipping doubled delimiters
+ */
+function findClosingEmphasis(
+	text: string,
+	fromIndex: number,
+	delimiter: string,
+): number {
+	for (let index = fromIndex; index < text.length; index++) {
+		if (text[index] !== delimiter) {
+			continue;
+		}
+		if (text[index + 1] === delimiter) {
+			index++;
+			continue;
+		}
+		if (delimiter === '_' && /\w/.test(text[index + 1] || '')) {
+			continue;
+		}
+		return index;
+	}
+	return -1;
+}
+
+/**
+ * Create a text node with the given marks
+ */
+function createTextNode(text: string, marks: AdfMark[]): AdfNode {
+	return {
+		type: 'text',
+		text,
+		...(marks.length > 0 && { marks: [...marks] }),
+	};
+}
+
+/**
+ * Operations supported when patching a section of an ADF document
+ */
+export type AdfPatchOperation = 'append' | 'replace' | 'insertAfter';
+
+/**
+ * Location of a heading section within the top-level content of a document.
+ * The section spans from the heading up to (not including) the next heading
+ * of the same or a higher level.
+ */
+export interface AdfSection {
+	headingIndex: number;
+	endIndex: number;
+	level: number;
+	text: string;
+}
+
+/**
+ * Extract the plain text of an ADF node and its descendants
+ *
+ * @param node - The node to extract text from
+ * @returns The concatenated text content
+ */
+export function getAdfNodeText(node: AdfNode): string {
+	if (node.type === 'text') {
+		return node.text || '';
+	}
+	if (node.type === 'hardBreak') {
+		return ' ';
+	}
+	return (node.content || []).map(getAdfNodeText).join('');
+}
+
+/**
+ * List the top-level headings of an ADF document as Markdown heading lines
+ *
+ * @param content - Top-level content of the document
+ * @returns Headings formatted as "## Heading text"
+ */
+export function listAdfHeadings(content: AdfNode[]): string[] {
+	return content
+		.filter((node) => node.type === 'heading')
+		.map(
+			(node) =>
+				`${'#'.repeat(getHeadingLevel(node))} ${getAdfNodeText(node).trim()}`,
+		);
+}
+
+/**
+ * Find the section that starts with the given heading
+ *
+ * Matching ignores case and surrounding whitespace. The heading may be given
+ * with leading "#" markers (e.g. "## Rollback") to also match on level.
+ * When several headings match, the first one is used.
+ *
+ * @param content - Top-level content of the document
+ * @param heading - Text of the heading to find
+ * @returns The section location, or undefined if no heading matches
+ */
+export function findAdfSection(
+	content: AdfNode[],
+	heading: string,
+): AdfSection | undefined {
+	const markerMatch = heading.trim().match(/^(#{1,6})\s+/);
+	const wantedLevel = markerMatch ? markerMatch[1].length : undefined;
+	const wantedText = normalizeHeadingText(
+		markerMatch ? heading.trim().slice(markerMatch[0].length) : heading,
+	);
+
+	const headingIndex = content.findIndex(
+		(node) =>
+			node.type === 'heading' &&
+			(wantedLevel === undefined ||
+				getHeadingLevel(node) === wantedLevel) &&
+			normalizeHeadingText(getAdfNodeText(node)) === wantedText,
+	);
+	if (headingIndex === -1) {
+		return undefined;
+	}
+
+	const headingNode = content[headingIndex];
+	const level = getHeadingLevel(headingNode);
+
+	let endIndex = headingIndex + 1;
+	while (
+		endIndex < content.length &&
+		!(
+			content[endIndex].type === 'heading' &&
+			getHeadingLevel(content[endIndex]) <= level
+		)
+	) {
+		endIndex++;
+	}
+
+	return {
+		headingIndex,
+		endIndex,
+		level,
+		text: getAdfNodeText(headingNode).trim(),
+	};
+}
+
+/**
+ * Apply a section-level patch to an ADF document
+ *
+ * Only the top-level content array is rebuilt; nodes outside the patched range
+ * are reused as-is, so they serialize exactly as they did before.
+ *
+ * - append: add the blocks at the end of the section, or at the end of the
+ *   document when no section is given
+ * - replace: replace everything under the section heading, keeping the heading
+ * - insertAfter: insert the blocks directly after the section heading
+ *
+ * @param doc - The document to patch (not modified)
+ * @param operation - The patch operation to apply
+ * @param blocks - The ADF block nodes to insert
+ * @param section - Target section (required for replace and insertAfter)
+ * @returns A new document with the patch applied
+ */
+export function patchAdfDocument(
+	doc: AdfDocument,
+	operation: AdfPatchOperation,
+	blocks: AdfNode[],
+	section?: AdfSection,
+): AdfDocument {
+	const content = doc.content || [];
+	let patched: AdfNode[];
+
+	if (operation === 'append') {
+		const insertAt = section ? section.endIndex : content.length;
+		patched = [
+			...content.slice(0, insertAt),
+			...blocks,
+			...content.slice(insertAt),
+		];
+	} else {
+		if (!section) {
+			throw new Error(`A target heading is required for "${operation}"`);
+		}
+		const insertAt = section.headingIndex + 1;
+		const resumeAt = operation === 'replace' ? section.endIndex : insertAt;
+		patched = [
+			...content.slice(0, insertAt),
+			...blocks,
+			...content.slice(resumeAt),
+		];
+	}
+
+	return { ...doc, content: patched };
+}
+
+/**
+ * Count how often a piece of text occurs in the text blocks of an ADF document
+ *
+ * Each paragraph, heading and code block is searched separately, since a
+ * selection on the page cannot span several blocks.
+ *
+ * @param adf - The ADF document (object or JSON string)
+ * @param text - The text to search for
+ * @returns Number of non-overlapping occurrences
+ */
+export function countAdfTextOccurrences(
+	adf: AdfDocument | string,
+	text: string,
+): number {
+	if (!text) {
+		return 0;
+	}
+
+	const doc: AdfDocument = typeof adf === 'string' ? JSON.parse(adf) : adf;
+	let count = 0;
+
+	const visit = (node: AdfNode) => {
+		if (['paragraph', 'heading', 'codeBlock'].includes(node.type)) {
+			count += getAdfNodeText(node).split(text).length - 1;
+			return;
+		}
+		(node.content || []).forEach(visit);
+	};
+	(doc.content || []).forEach(visit);
+
+	return count;
+}
+
+/**
+ * Replace the `attachment:{fileId}` placeholders emitted for media nodes
+ * with real URLs. Placeholders without a known URL are left untouched.
+ *
+ * @param markdown - Markdown produced by adfToMarkdown
+ * @param urls - Map of attachment file IDs (media node IDs) to URLs
+ * @returns Markdown with resolved attachment links
+ */
+export function resolveAttachmentLinks(
+	markdown: string,
+	urls: Map<string, string>,
+): string {
+	if (urls.size === 0) {
+		return markdown;
+	}
+
+	return markdown.replace(
+		/\]\(attachment:([^)\s]+)\)/g,
+		(match, fileId: string) => {
+			const url = urls.get(fileId);
+			return url ? `](${url})` : match;
+		},
+	);
+}
+
+/**
+ * Convert Atlassian Document Format (ADF) to Confluence storage format (XHTML)
+ *
+ * Confluence Server / Data Center does not accept ADF, so content prepared as
+ * ADF is converted before it is written there. Code blocks and panels become
+ * the corresponding macros; nodes without a storage equivalent (mentions,
+ * emojis, status lozenges) are written as plain text.
+ *
+ * @param adf - The ADF document to convert
+ * @returns The storage format XHTML
+ */
+export function adfToStorage(adf: AdfDocument): string {
+	const methodLogger = Logger.forContext('utils/adf.util.ts', 'adfToStorage');
+
+	const storage = (adf.content || []).map(nodeToStorage).join('');
+	methodLogger.debug(
+		`Converted ADF to storage format, length: ${storage.length}`,
+	);
+	return storage;
+}
+
+/**
+ * Escape text for use in XHTML content and attribute values
+ */
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert the children of an ADF node to storage format
+ */
+function contentToStorage(node: AdfNode): string {
+	return (node.content || []).map(nodeToStorage).join('');
+}
+
+/**
+ * Convert a single ADF node to storage format
+ */
+function nodeToStorage(node: AdfNode): string {
+	switch (node.type) {
+		case 'paragraph':
+			return `<p>${contentToStorage(node)}</p>`;
+		case 'heading': {
+			const level = Math.min(Math.max(getHeadingLevel(node), 1), 6);
+			return `<h${level}>${contentToStorage(node)}</h${level}>`;
+		}
+		case 'bulletList':
+			return `<ul>${contentToStorage(node)}</ul>`;
+		case 'orderedList':
+			return `<ol>${contentToStorage(node)}</ol>`;
+		case 'listItem':
+			return `<li>${contentToStorage(node)}</li>`;
+		case 'blockquote':
+			return `<blockquote>${contentToStorage(node)}</blockquote>`;
+		case 'rule':
+			return '<hr />';
+		case 'hardBreak':
+			return '<br />';
+		case 'codeBlock': {
+			const language = node.attrs?.language
+				? `<ac:parameter ac:name="language">${escapeXml(String(node.attrs.language))}</ac:parameter>`
+				: '';
+			// "]]>" cannot appear inside a CDATA section; split it across two sections
+			const code = (node.content || [])
+				.map((child) => child.text || '')
+				.join('')
+				.replace(/]]>/g, ']]]]><![CDATA[>');
+			return `<ac:structured-macro ac:name="code">${language}<ac:plain-text-body><![CDATA[${code}]]></ac:plain-text-body></ac:structured-macro>`;
+		}
+		case 'panel': {
+			const panelType = String(node.attrs?.panelType || 'info');
+			const macro = ['note', 'warning', 'tip'].includes(panelType)
+				? panelType
+				: panelType === 'error'
+					? 'warning'
+					: panelType === 'success'
+						? 'tip'
+						: 'info';
+			return `<ac:structured-macro ac:name="${macro}"><ac:rich-text-body>${contentToStorage(node)}</ac:rich-text-body></ac:structured-macro>`;
+		}
+		case 'table':
+			return `<table><tbody>${contentToStorage(node)}</tbody></table>`;
+		case 'tableRow':
+			return `<tr>${contentToStorage(node)}</tr>`;
+		case 'tableHeader':
+			return `<th>${contentToStorage(node)}</th>`;
+		case 'tableCell':
+			return `<td>${contentToStorage(node)}</td>`;
+		case 'mediaSingle':
+		case 'mediaGroup':
+			return contentToStorage(node);
+		case 'media': {
+			if (node.attrs?.type === 'external' && node.attrs.url) {
+				return `<ac:image><ri:url ri:value="${escapeXml(String(node.attrs.url))}" /></ac:image>`;
+			}
+			// Attachments are referenced by file name in storage format
+			const fileName = node.attrs?.alt || node.attrs?.id;
+			return fileName
+				? `<ac:image><ri:attachment ri:filename="${escapeXml(String(fileName))}" /></ac:image>`
+				: '';
+		}
+		case 'inlineCard': {
+			const url = String(node.attrs?.url || '');
+			return url
+				? `<a href="${escapeXml(url)}">${escapeXml(url)}</a>`
+				: '';
+		}
+		case 'text':
+			return textToStorage(node);
+		case 'mention':
+		case 'emoji':
+		case 'date':
+		case 'status':
+			return escapeXml(processAdfNode(node));
+		default:
+			return contentToStorage(node);
+	}
+}
+
+/**
+ * Convert an ADF text node and its marks to storage format
+ */
+function textToStorage(node: AdfNode): string {
+	let text = escapeXml(node.text || '');
+
+	for (const mark of node.marks || []) {
+		switch (mark.type) {
+			case 'strong':
+				text = `<strong>${text}</strong>`;
+				break;
+			case 'em':
+				text = `<em>${text}</em>`;
+				break;
+			case 'code':
+				text = `<code>${text}</code>`;
+				break;
+			case 'strike':
+				text = `<s>${text}</s>`;
+				break;
+			case 'underline':
+				text = `<u>${text}</u>`;
+				break;
+			case 'superscript':
+				text = `<sup>${text}</sup>`;
+				break;
+			case 'subscript':
+				text = `<sub>${text}</sub>`;
+				break;
+			case 'subsup':
+				text =
+					mark.attrs?.type === 'sub'
+						? `<sub>${text}</sub>`
+						: `<sup>${text}</sup>`;
+				break;
+			case 'link':
+				if (mark.attrs?.href) {
+					text = `<a href="${escapeXml(String(mark.attrs.href))}">${text}</a>`;
+				}
+				break;
+		}
+	}
+
+	return text;
+}
+
+/**
+ * Get the level of a heading node, defaulting to 1
+ */
+function getHeadingLevel(node: AdfNode): number {
+	return typeof node.attrs?.level === 'number' ? node.attrs.level : 1;
+}
+
+/**
+ * Normalize heading text for comparison
+ */
+function normalizeHeadingText(text: string): string {
+	return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
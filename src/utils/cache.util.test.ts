@@ -0,0 +1,195 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	CacheEntry,
+	FileCacheStore,
+	MemoryCacheStore,
+	getCacheKey,
+	getCacheTtlMs,
+	getVersionCheckPath,
+	isAffectedByWrite,
+} from './cache.util.js';
+
+const BASE_URL = 'https://example.atlassian.net';
+
+function entry(url: string): CacheEntry {
+	return { url, body: '{}', storedAt: 0, expiresAt: 0 };
+}
+
+function freshEntry(url: string, storedAt: number = Date.now()): CacheEntry {
+	return { url, body: '{}', storedAt, expiresAt: storedAt + 60_000 };
+}
+
+describe('cache.util', () => {
+	describe('MemoryCacheStore', () => {
+		it('evicts the least recently used entry when full', () => {
+			const store = new MemoryCacheStore(2);
+			store.set('a', entry('a'));
+			store.set('b', entry('b'));
+			store.get('a');
+			store.set('c', entry('c'));
+
+			expect(store.get('a')).toBeDefined();
+			expect(store.get('b')).toBeUndefined();
+			expect(store.get('c')).toBeDefined();
+			expect(store.size).toBe(2);
+		});
+
+		it('deletes matching entries', () => {
+			const store = new MemoryCacheStore();
+			store.set('a', entry(`${BASE_URL}/a`));
+			store.set('b', entry(`${BASE_URL}/b`));
+
+			expect(store.deleteWhere((url) => url.endsWith('/a'))).toBe(1);
+			expect(store.clear()).toBe(1);
+		});
+	});
+
+	describe('FileCacheStore', () => {
+		let directory: string;
+
+		beforeEach(() => {
+			directory = fs.mkdtempSync(path.join(os.tmpdir(), 'conf-cache-'));
+		});
+
+		afterEach(() => {
+			fs.rmSync(directory, { recursive: true, force: true });
+		});
+
+		it('stores, matches and clears entries on disk', () => {
+			const store = new FileCacheStore(directory);
+			const a = freshEntry(`${BASE_URL}/a`);
+			store.set('a', a);
+			store.set('b', freshEntry(`${BASE_URL}/b`));
+
+			expect(new FileCacheStore(directory).get('a')).toEqual(a);
+			expect(store.deleteWhere((url) => url.endsWith('/a'))).toBe(1);
+			expect(store.get('a')).toBeUndefined();
+			expect(store.clear()).toBe(1);
+			expect(fs.readdirSync(directory)).toEqual([]);
+		});
+
+		it('evicts the oldest entries when full', () => {
+			const store = new FileCacheStore(directory, 2);
+			const now = Date.now();
+			store.set('a', freshEntry(`${BASE_URL}/a`, now - 2000));
+			store.set('b', freshEntry(`${BASE_URL}/b`, now - 1000));
+			store.set('c', freshEntry(`${BASE_URL}/c`, now));
+
+			expect(store.get('a')).toBeUndefined();
+			expect(store.get('b')).toBeDefined();
+			expect(store.get('c')).toBeDefined();
+		});
+
+		it('drops entries that have been stale for a long time', () => {
+			const store = new FileCacheStore(directory);
+			store.set('old', entry(`${BASE_URL}/old`));
+			store.set('new', freshEntry(`${BASE_URL}/new`));
+
+			expect(store.get('old')).toBeUndefined();
+			expect(store.get('new')).toBeDefined();
+		});
+
+		it('finds entries written by another store through the index', () => {
+			new FileCacheStore(directory).set('a', freshEntry(`${BASE_URL}/a`));
+			const store = new FileCacheStore(directory);
+			const readFile = jest.spyOn(fs, 'readFileSync');
+
+			expect(store.deleteWhere((url) => url.endsWith('/a'))).toBe(1);
+			expect(
+				readFile.mock.calls.every(([file]) =>
+					String(file).endsWith('index.json'),
+				),
+			).toBe(true);
+			readFile.mockRestore();
+		});
+
+		it('rebuilds a missing index from the entry files', () => {
+			new FileCacheStore(directory).set('a', freshEntry(`${BASE_URL}/a`));
+			fs.rmSync(path.join(directory, 'index.json'));
+
+			expect(
+				new FileCacheStore(directory).deleteWhere((url) =>
+					url.endsWith('/a'),
+				),
+			).toBe(1);
+		});
+	});
+
+	describe('getCacheKey', () => {
+		it('separates users of the same URL', () => {
+			const url = `${BASE_URL}/wiki/api/v2/pages/1`;
+			expect(getCacheKey(url, 'Basic one')).not.toBe(
+				getCacheKey(url, 'Basic two'),
+			);
+			expect(getCacheKey(url)).toBe(`anonymous ${url}`);
+		});
+	});
+
+	describe('getCacheTtlMs', () => {
+		afterEach(() => {
+			delete process.env.ATLASSIAN_CACHE_TTL_SEARCH;
+		});
+
+		it('uses a time-to-live per kind of endpoint', () => {
+			expect(getCacheTtlMs('/wiki/api/v2/spaces?keys=DEV')).toBe(3600000);
+			expect(getCacheTtlMs('/wiki/api/v2/pages/1')).toBe(300000);
+			expect(getCacheTtlMs('/wiki/rest/api/search?cql=x')).toBe(60000);
+
+			process.env.ATLASSIAN_CACHE_TTL_SEARCH = '0';
+			expect(getCacheTtlMs('/wiki/rest/api/search?cql=x')).toBe(0);
+		});
+	});
+
+	describe('getVersionCheckPath', () => {
+		it('returns the plain path of single pages and blog posts', () => {
+			expect(
+				getVersionCheckPath(
+					'/wiki/api/v2/pages/123?body-format=storage',
+				),
+			).toBe('/wiki/api/v2/pages/123');
+			expect(getVersionCheckPath('/wiki/api/v2/pages/123/children')).toBe(
+				undefined,
+			);
+		});
+
+		it('skips requests that include more than the body', () => {
+			expect(
+				getVersionCheckPath(
+					'/wiki/api/v2/pages/123?body-format=storage&include-labels=true',
+				),
+			).toBe(undefined);
+		});
+	});
+
+	describe('isAffectedByWrite', () => {
+		it('drops the written content and listings, but not other content', () => {
+			const page = `${BASE_URL}/wiki/api/v2/pages/123?body-format=storage`;
+			expect(isAffectedByWrite(page, '/wiki/api/v2/pages/123')).toBe(
+				true,
+			);
+			expect(isAffectedByWrite(page, '/wiki/api/v2/pages/456')).toBe(
+				false,
+			);
+			expect(
+				isAffectedByWrite(
+					`${BASE_URL}/wiki/api/v2/pages/123/children`,
+					'/wiki/rest/api/content/123/label',
+				),
+			).toBe(true);
+			expect(
+				isAffectedByWrite(
+					`${BASE_URL}/wiki/rest/api/search?cql=x`,
+					'/wiki/api/v2/pages',
+				),
+			).toBe(true);
+			expect(
+				isAffectedByWrite(
+					`${BASE_URL}/wiki/api/v2/spaces?keys=DEV`,
+					'/wiki/api/v2/pages',
+				),
+			).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,553 @@
+/**
+ * Response cache for Atlassian API GET requests.
+ * Agents tend to read the same pages over and over; fetchAtlassian serves
+ * those reads from this cache until their time-to-live runs out, and then
+ * revalidates them with the ETag or the page version number instead of
+ * downloading them again. Writes drop the entries they affect.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+
+/**
+ * A cached response
+ */
+export interface CacheEntry {
+	/**
+	 * Full request URL, used to find the entries a write affects
+	 */
+	url: string;
+	/**
+	 * Response body as JSON text
+	 */
+	body: string;
+	/**
+	 * When the entry was stored or last revalidated, in milliseconds since the epoch
+	 */
+	storedAt: number;
+	/**
+	 * When the entry needs revalidating, in milliseconds since the epoch
+	 */
+	expiresAt: number;
+	/**
+	 * ETag of the response, sent as If-None-Match when revalidating
+	 */
+	etag?: string;
+	/**
+	 * Version number of the page or blog post in the response
+	 */
+	version?: number;
+}
+
+/**
+ * Storage behind the response cache. Implement this to plug in another store.
+ */
+export interface CacheStore {
+	get(key: string): CacheEntry | undefined;
+	set(key: string, entry: CacheEntry): void;
+	delete(key: string): void;
+	/**
+	 * Delete all entries whose request URL matches a predicate
+	 * @returns Number of entries deleted
+	 */
+	deleteWhere(predicate: (url: string) => boolean): number;
+	/**
+	 * Delete all entries
+	 * @returns Number of entries deleted
+	 */
+	clear(): number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Entries kept on disk before the oldest are dropped
+ */
+const DEFAULT_MAX_DISK_ENTRIES = 5000;
+
+/**
+ * Entries that have needed revalidating for this long are dropped from disk.
+ * Until then they are kept, as revalidating is cheaper than downloading again.
+ */
+const STALE_ENTRY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Time-to-live per kind of endpoint, in seconds. Each can be overridden with
+ * ATLASSIAN_CACHE_TTL_<KIND>, e.g. ATLASSIAN_CACHE_TTL_PAGES=600.
+ */
+const DEFAULT_TTL_SECONDS = {
+	SPACES: 3600,
+	PAGES: 300,
+	SEARCH: 60,
+	DEFAULT: 120,
+};
+
+type EndpointKind = keyof typeof DEFAULT_TTL_SECONDS;
+
+const cacheLogger = Logger.forContext('utils/cache.util.ts');
+
+/**
+ * In-memory store that evicts the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+	// Map iteration follows insertion order, so the first key is the least recently used
+	private readonly entries = new Map<string, CacheEntry>();
+
+	/**
+	 * Create a store
+	 * @param maxEntries Number of entries kept before the oldest is evicted
+	 */
+	constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	get(key: string): CacheEntry | undefined {
+		const entry = this.entries.get(key);
+		if (entry) {
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	set(key: string, entry: CacheEntry): void {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+
+	delete(key: string): void {
+		this.entries.delete(key);
+	}
+
+	deleteWhere(predicate: (url: string) => boolean): number {
+		let deleted = 0;
+		for (const [key, entry] of this.entries) {
+			if (predicate(entry.url)) {
+				this.entries.delete(key);
+				deleted++;
+			}
+		}
+		return deleted;
+	}
+
+	clear(): number {
+		const count = this.entries.size;
+		this.entries.clear();
+		return count;
+	}
+}
+
+/**
+ * What the on-disk index records about an entry, keyed by entry file name
+ */
+interface FileIndexEntry {
+	url: string;
+	storedAt: number;
+	expiresAt: number;
+}
+
+/**
+ * Name of the index file in the cache directory
+ */
+const INDEX_FILE = 'index.json';
+
+/**
+ * Store that keeps one JSON file per entry in a directory, so that cached
+ * responses survive restarts and are shared by the CLI and the server.
+ * An index of the entries' URLs and ages lets writes find the affected
+ * entries, and evicts the oldest entries, without reading every file.
+ */
+export class FileCacheStore implements CacheStore {
+	// Last index read or written, and the modification time of its file
+	private index: Record<string, FileIndexEntry> = {};
+	private indexMtimeMs = -1;
+
+	/**
+	 * Create a store
+	 * @param directory Directory holding the entries; created on first write
+	 * @param maxEntries Number of entries kept before the oldest are evicted
+	 */
+	constructor(
+		private readonly directory: string = getCacheDirectory(),
+		private readonly maxEntries: number = DEFAULT_MAX_DISK_ENTRIES,
+	) {}
+
+	private nameFor(key: string): string {
+		return crypto.createHash('sha256').update(key).digest('hex');
+	}
+
+	private fileOf(name: string): string {
+		return path.join(this.directory, `${name}.json`);
+	}
+
+	private get indexFile(): string {
+		return path.join(this.directory, INDEX_FILE);
+	}
+
+	private listNames(): string[] {
+		if (!fs.existsSync(this.directory)) {
+			return [];
+		}
+		return fs
+			.readdirSync(this.directory)
+			.filter((file) => file.endsWith('.json') && file !== INDEX_FILE)
+			.map((file) => file.slice(0, -'.json'.length));
+	}
+
+	private readFile(file: string): CacheEntry | undefined {
+		try {
+			return JSON.parse(fs.readFileSync(file, 'utf8')) as CacheEntry;
+		} catch {
+			// Missing, or written by another process at the same time
+			return undefined;
+		}
+	}
+
+	/**
+	 * Get the current index. Other processes may share the directory, so the
+	 * index file is read again whenever it changed. Without an index file (or
+	 * with a broken one) the index is rebuilt once from the entry files.
+	 */
+	private readIndex(): Record<string, FileIndexEntry> {
+		let mtimeMs: number | undefined;
+		try {
+			mtimeMs = fs.statSync(this.indexFile).mtimeMs;
+		} catch {
+			// No index yet
+		}
+		if (mtimeMs !== undefined && mtimeMs === this.indexMtimeMs) {
+			return this.index;
+		}
+
+		if (mtimeMs !== undefined) {
+			try {
+				this.index = JSON.parse(
+					fs.readFileSync(this.indexFile, 'utf8'),
+				);
+				this.indexMtimeMs = mtimeMs;
+				return this.index;
+			} catch {
+				// Fall through to rebuilding it
+			}
+		}
+
+		this.index = {};
+		for (const name of this.listNames()) {
+			const entry = this.readFile(this.fileOf(name));
+			if (entry) {
+				this.index[name] = {
+					url: entry.url,
+					storedAt: entry.storedAt,
+					expiresAt: entry.expiresAt,
+				};
+			}
+		}
+		return this.index;
+	}
+
+	private writeIndex(index: Record<string, FileIndexEntry>): void {
+		fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+		// Replace the index in one step so that readers never see half of it
+		const tempFile = `${this.indexFile}.${process.pid}.tmp`;
+		fs.writeFileSync(tempFile, JSON.stringify(index), { mode: 0o600 });
+		fs.renameSync(tempFile, this.indexFile);
+		this.index = index;
+		this.indexMtimeMs = fs.statSync(this.indexFile).mtimeMs;
+	}
+
+	private remove(index: Record<string, FileIndexEntry>, name: string): void {
+		fs.rmSync(this.fileOf(name), { force: true });
+		delete index[name];
+	}
+
+	get(key: string): CacheEntry | undefined {
+		return this.readFile(this.fileOf(this.nameFor(key)));
+	}
+
+	set(key: string, entry: CacheEntry): void {
+		const name = this.nameFor(key);
+		fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+		// Entries may hold restricted content, so keep them private to the user
+		fs.writeFileSync(this.fileOf(name), JSON.stringify(entry), {
+			mode: 0o600,
+		});
+
+		const index = { ...this.readIndex() };
+		index[name] = {
+			url: entry.url,
+			storedAt: entry.storedAt,
+			expiresAt: entry.expiresAt,
+		};
+
+		// Drop long stale entries, then the oldest ones beyond the limit
+		const staleBefore = Date.now() - STALE_ENTRY_MAX_AGE_MS;
+		for (const [otherName, { expiresAt }] of Object.entries(index)) {
+			if (expiresAt < staleBefore) {
+				this.remove(index, otherName);
+			}
+		}
+		const names = Object.keys(index);
+		if (names.length > this.maxEntries) {
+			names
+				.sort((a, b) => index[a].storedAt - index[b].storedAt)
+				.slice(0, names.length - this.maxEntries)
+				.forEach((oldest) => this.remove(index, oldest));
+		}
+
+		this.writeIndex(index);
+	}
+
+	delete(key: string): void {
+		const name = this.nameFor(key);
+		const index = { ...this.readIndex() };
+		this.remove(index, name);
+		this.writeIndex(index);
+	}
+
+	deleteWhere(predicate: (url: string) => boolean): number {
+		const index = { ...this.readIndex() };
+		let deleted = 0;
+		for (const [name, { url }] of Object.entries(index)) {
+			if (predicate(url)) {
+				this.remove(index, name);
+				deleted++;
+			}
+		}
+		if (deleted > 0) {
+			this.writeIndex(index);
+		}
+		return deleted;
+	}
+
+	clear(): number {
+		const names = this.listNames();
+		for (const name of names) {
+			fs.rmSync(this.fileOf(name), { force: true });
+		}
+		fs.rmSync(this.indexFile, { force: true });
+		this.index = {};
+		this.indexMtimeMs = -1;
+		return names.length;
+	}
+}
+
+let store: CacheStore | null | undefined;
+
+/**
+ * Get the directory of the on-disk cache, under the MCP data directory
+ */
+export function getCacheDirectory(): string {
+	return path.join(
+		os.homedir(),
+		'.mcp',
+		'data',
+		'cache',
+		'mcp-server-atlassian-confluence',
+	);
+}
+
+/**
+ * Get the response cache store, creating it on first use from ATLASSIAN_CACHE:
+ * "memory" (default), "disk" or "off"
+ * @returns The store, or null if caching is disabled
+ */
+export function getCacheStore(): CacheStore | null {
+	if (store === undefined) {
+		const mode = (config.get('ATLASSIAN_CACHE') || 'memory').toLowerCase();
+		const maxEntries = Number(config.get('ATLASSIAN_CACHE_MAX_ENTRIES'));
+
+		if (mode === 'off' || mode === 'false') {
+			store = null;
+		} else if (mode === 'disk') {
+			store = new FileCacheStore(
+				getCacheDirectory(),
+				Number.isInteger(maxEntries) && maxEntries > 0
+					? maxEntries
+					: DEFAULT_MAX_DISK_ENTRIES,
+			);
+		} else {
+			store = new MemoryCacheStore(
+				Number.isInteger(maxEntries) && maxEntries > 0
+					? maxEntries
+					: DEFAULT_MAX_ENTRIES,
+			);
+		}
+		cacheLogger.debug(`Using ${mode} response cache`);
+	}
+	return store;
+}
+
+/**
+ * Replace the response cache store
+ * @param newStore The store to use, null to disable caching, or undefined to
+ * create the configured store again on next use
+ */
+export function setCacheStore(newStore: CacheStore | null | undefined): void {
+	store = newStore;
+}
+
+/**
+ * Build the cache key of a request. The key includes a hash of the
+ * Authorization header, so that users never see each other's responses.
+ * @param url Full request URL
+ * @param authorization Value of the Authorization header, if any
+ */
+export function getCacheKey(url: string, authorization?: string): string {
+	const identity = authorization
+		? crypto
+				.createHash('sha256')
+				.update(authorization)
+				.digest('hex')
+				.slice(0, 16)
+		: 'anonymous';
+	return `${identity} ${url}`;
+}
+
+/**
+ * Classify a request path for its time-to-live
+ */
+function getEndpointKind(requestPath: string): EndpointKind {
+	const pathname = requestPath.split('?')[0];
+	if (/\/search\b/.test(pathname)) {
+		return 'SEARCH';
+	}
+	if (/\/(pages|blogposts|content)\b/.test(pathname)) {
+		return 'PAGES';
+	}
+	if (/\/spaces?\b/.test(pathname)) {
+		return 'SPACES';
+	}
+	return 'DEFAULT';
+}
+
+/**
+ * Get how long a response may be served from the cache without revalidating
+ * @param requestPath API path of the request
+ * @returns Time-to-live in milliseconds; 0 means the response is not cached
+ */
+export function getCacheTtlMs(requestPath: string): number {
+	const kind = getEndpointKind(requestPath);
+	const value = Number(config.get(`ATLASSIAN_CACHE_TTL_${kind}`));
+	const seconds =
+		Number.isFinite(value) && value >= 0
+			? value
+			: DEFAULT_TTL_SECONDS[kind];
+	return seconds * 1000;
+}
+
+/**
+ * Get the version number of a page or blog post response
+ * @param value Parsed response body
+ */
+export function getResponseVersion(value: unknown): number | undefined {
+	const version = (value as { version?: { number?: unknown } } | null)
+		?.version?.number;
+	return typeof version === 'number' ? version : undefined;
+}
+
+/**
+ * Get the path of a cheap request that returns the current version of the
+ * page or blog post a request path reads. Only requests for the content
+ * itself qualify: labels, permissions, properties and the like change
+ * without a new version.
+ * @param requestPath API path of the request
+ * @returns The path, or undefined if the request is not for a single page or blog post, or includes more than its body
+ */
+export function getVersionCheckPath(requestPath: string): string | undefined {
+	const match = requestPath.match(
+		/^(\/wiki\/api\/v2\/(?:pages|blogposts)\/\d+)(?:\?(.*))?$/,
+	);
+	if (!match) {
+		return undefined;
+	}
+	const params = new URLSearchParams(match[2] ?? '');
+	for (const name of params.keys()) {
+		if (name !== 'body-format') {
+			return undefined;
+		}
+	}
+	return match[1];
+}
+
+/**
+ * Get the content IDs a request path refers to
+ */
+function getPathIds(requestPath: string): string[] {
+	const pathname = requestPath.split('?')[0];
+	return Array.from(pathname.matchAll(/\/(\d+)(?=\/|$)/g), (m) => m[1]);
+}
+
+/**
+ * Determine whether a cached response may be stale after a write.
+ * A single page, blog post or comment is affected when the write touches
+ * its ID; listings and searches are affected by any write, except space
+ * listings, which content writes do not change.
+ * @param entryUrl URL of the cached response
+ * @param writePath API path of the write request
+ */
+export function isAffectedByWrite(
+	entryUrl: string,
+	writePath: string,
+): boolean {
+	const entryPath = new URL(entryUrl).pathname;
+	const writeIds = getPathIds(writePath);
+	const entryIds = getPathIds(entryPath);
+
+	if (entryIds.some((id) => writeIds.includes(id))) {
+		return true;
+	}
+	// A single entity that the write does not mention
+	if (/\/\d+$/.test(entryPath)) {
+		return false;
+	}
+	if (/\/spaces?$/.test(entryPath) && !/\/spaces?(\/|$|\?)/.test(writePath)) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Drop the cached responses a write may have changed
+ * @param baseUrl Base URL of the site written to
+ * @param writePath API path of the write request
+ */
+export function invalidateCachedResponses(
+	baseUrl: string,
+	writePath: string,
+): void {
+	const cache = getCacheStore();
+	if (!cache) {
+		return;
+	}
+	const deleted = cache.deleteWhere(
+		(url) => url.startsWith(baseUrl) && isAffectedByWrite(url, writePath),
+	);
+	if (deleted > 0) {
+		cacheLogger.debug(
+			`Dropped ${deleted} cached responses after writing ${writePath}`,
+		);
+	}
+}
+
+/**
+ * Delete all cached responses, both in memory and on disk
+ * @returns Number of entries deleted
+ */
+export function clearResponseCache(): number {
+	const cache = getCacheStore();
+	let deleted = cache ? cache.clear() : 0;
+	if (!(cache instanceof FileCacheStore)) {
+		deleted += new FileCacheStore().clear();
+	}
+	return deleted;
+}
@@ -0,0 +1,84 @@
+import {
+	CompletionCache,
+	MAX_COMPLETIONS,
+	filterCompletions,
+	safeComplete,
+} from './completion.util.js';
+
+describe('completion.util', () => {
+	it('suggests prefix matches before other matches, ignoring case', () => {
+		expect(
+			filterCompletions(
+				['PLATFORM', 'DEV', 'DEVOPS', 'WEBDEV', 'DEV'],
+				'dev',
+			),
+		).toEqual(['DEV', 'DEVOPS', 'WEBDEV']);
+		expect(filterCompletions(['A', 'B'], '')).toEqual(['A', 'B']);
+	});
+
+	it('caps the number of completions', () => {
+		const values = Array.from({ length: 150 }, (_, i) => `page ${i}`);
+		expect(filterCompletions(values, 'page')).toHaveLength(MAX_COMPLETIONS);
+	});
+
+	it('reuses cached values until they expire', async () => {
+		jest.useFakeTimers();
+		try {
+			const cache = new CompletionCache(1000);
+			const load = jest.fn().mockResolvedValue(['DEV']);
+
+			await Promise.all([
+				cache.get('spaces', load),
+				cache.get('spaces', load),
+			]);
+			expect(load).toHaveBeenCalledTimes(1);
+
+			jest.advanceTimersByTime(1001);
+			await expect(cache.get('spaces', load)).resolves.toEqual(['DEV']);
+			expect(load).toHaveBeenCalledTimes(2);
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+
+	it('peeks at cached values without loading them', async () => {
+		const cache = new CompletionCache();
+		expect(cache.peek('labels')).toBeUndefined();
+
+		await cache.get('labels', () => Promise.resolve(['docs']));
+		await expect(cache.peek('labels')).resolves.toEqual(['docs']);
+	});
+
+	it('does not cache failed loads', async () => {
+		const cache = new CompletionCache();
+		const load = jest
+			.fn()
+			.mockRejectedValueOnce(new Error('Rate limited'))
+			.mockResolvedValueOnce(['docs']);
+
+		await expect(cache.get('labels', load)).rejects.toThrow('Rate limited');
+		await expect(cache.get('labels', load)).resolves.toEqual(['docs']);
+		expect(load).toHaveBeenCalledTimes(2);
+	});
+
+	it('evicts the oldest entries beyond the limit', async () => {
+		const cache = new CompletionCache(60000, 2);
+		const load = jest.fn().mockResolvedValue([]);
+
+		await cache.get('a', load);
+		await cache.get('b', load);
+		await cache.get('c', load);
+		await cache.get('b', load);
+		expect(load).toHaveBeenCalledTimes(3);
+		await cache.get('a', load);
+		expect(load).toHaveBeenCalledTimes(4);
+	});
+
+	it('returns no completions when completing fails', async () => {
+		await expect(
+			safeComplete('spaceKey', () =>
+				Promise.reject(new Error('Offline')),
+			),
+		).resolves.toEqual([]);
+	});
+});
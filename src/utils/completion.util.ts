@@ -0,0 +1,122 @@
+/**
+ * Helpers for argument completion (completion/complete).
+ * Clients ask for completions on every keystroke, so the values completions
+ * are built from are kept for a short time, per MCP session and site, and
+ * filtered locally while the user keeps typing.
+ */
+
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { getRequestContext } from './request-context.util.js';
+
+/**
+ * Completion values a response may hold, as set by the MCP specification
+ */
+export const MAX_COMPLETIONS = 100;
+
+const COMPLETION_TTL_MS = 30 * 1000;
+const MAX_CACHED_COMPLETIONS = 200;
+
+const completionLogger = Logger.forContext('utils/completion.util.ts');
+
+/**
+ * Short-lived cache of the values completions are built from
+ */
+export class CompletionCache {
+	private readonly entries = new Map<
+		string,
+		{ expiresAt: number; values: Promise<unknown> }
+	>();
+
+	/**
+	 * Create a cache
+	 * @param ttlMs How long values are reused, in milliseconds
+	 * @param maxEntries Number of entries kept before the oldest is evicted
+	 */
+	constructor(
+		private readonly ttlMs: number = COMPLETION_TTL_MS,
+		private readonly maxEntries: number = MAX_CACHED_COMPLETIONS,
+	) {}
+
+	/**
+	 * Get cached values, loading them on a miss. Concurrent misses for the same
+	 * key share one load, and failed loads are not cached.
+	 * @param key - Identifies the values; scoped to the MCP session and site
+	 * @param load - Loads the values
+	 */
+	get<T>(key: string, load: () => Promise<T>): Promise<T> {
+		const cached = this.peek<T>(key);
+		if (cached) {
+			return cached;
+		}
+
+		const scopedKey = this.scope(key);
+		const now = Date.now();
+
+		const values = load();
+		this.entries.set(scopedKey, { expiresAt: now + this.ttlMs, values });
+		values.catch(() => this.entries.delete(scopedKey));
+
+		for (const [entryKey, entry] of this.entries) {
+			if (this.entries.size <= this.maxEntries && entry.expiresAt > now) {
+				break;
+			}
+			this.entries.delete(entryKey);
+		}
+		return values;
+	}
+
+	/**
+	 * Get cached values without loading them
+	 * @param key - Identifies the values; scoped to the MCP session and site
+	 * @returns The values, or undefined if none are cached
+	 */
+	peek<T>(key: string): Promise<T> | undefined {
+		const cached = this.entries.get(this.scope(key));
+		return cached && cached.expiresAt > Date.now()
+			? (cached.values as Promise<T>)
+			: undefined;
+	}
+
+	private scope(key: string): string {
+		return `${getRequestContext()?.sessionId ?? ''} ${config.getSite()} ${key}`;
+	}
+}
+
+/**
+ * Pick the values matching what the user typed: values starting with it
+ * first, then values containing it, ignoring case
+ * @param values - Candidate values
+ * @param typed - What the user typed so far
+ * @returns At most MAX_COMPLETIONS values
+ */
+export function filterCompletions(values: string[], typed: string): string[] {
+	const needle = typed.trim().toLowerCase();
+	const unique = [...new Set(values)];
+	const prefixed = unique.filter((value) =>
+		value.toLowerCase().startsWith(needle),
+	);
+	const containing = unique.filter(
+		(value) =>
+			!value.toLowerCase().startsWith(needle) &&
+			value.toLowerCase().includes(needle),
+	);
+	return [...prefixed, ...containing].slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Run a completer, returning no completions instead of failing
+ * @param name - Name of the argument, for logging
+ * @param complete - The completer
+ */
+export async function safeComplete(
+	name: string,
+	complete: () => Promise<string[]>,
+): Promise<string[]> {
+	try {
+		return await complete();
+	} catch (error) {
+		completionLogger.warn(`Failed to complete ${name}`, error);
+		return [];
+	}
+}
@@ -1,3 +1,6 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import {
 	ErrorType,
 	McpError,
@@ -129,3 +132,88 @@ describe('Error Utility', () => {
 		});
 	});
 });
+
+describe('Config Utility', () => {
+	describe('site profiles', () => {
+		const keys = [
+			'ATLASSIAN_SITE_NAME',
+			'ATLASSIAN_BASE_URL',
+			'ATLASSIAN_USER_EMAIL',
+			'ATLASSIAN_API_TOKEN',
+		];
+		const originalEnv = Object.fromEntries(
+			keys.map((key) => [key, process.env[key]]),
+		);
+		let home: string;
+
+		beforeEach(() => {
+			home = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+			fs.mkdirSync(path.join(home, '.mcp'));
+			fs.writeFileSync(
+				path.join(home, '.mcp', 'configs.json'),
+				JSON.stringify({
+					confluence: {
+						sites: {
+							partner: { ATLASSIAN_SITE_NAME: 'partner' },
+							datacenter: {
+								ATLASSIAN_BASE_URL:
+									'https://confluence.example.com',
+							},
+						},
+					},
+				}),
+			);
+			jest.spyOn(os, 'homedir').mockReturnValue(home);
+			process.env.ATLASSIAN_SITE_NAME = 'example';
+			delete process.env.ATLASSIAN_BASE_URL;
+			process.env.ATLASSIAN_USER_EMAIL = 'user@example.com';
+			process.env.ATLASSIAN_API_TOKEN = 'cloud-token';
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+			fs.rmSync(home, { recursive: true, force: true });
+			for (const key of keys) {
+				if (originalEnv[key] === undefined) {
+					delete process.env[key];
+				} else {
+					process.env[key] = originalEnv[key];
+				}
+			}
+		});
+
+		/**
+		 * Load a fresh configuration from the test's config file
+		 */
+		function loadConfig() {
+			let loaded!: typeof import('./config.util.js');
+			jest.isolateModules(() => {
+				loaded = jest.requireActual('./config.util.js');
+			});
+			loaded.config.load();
+			return loaded.config;
+		}
+
+		it('shares the default Cloud account with Cloud profiles', () => {
+			const config = loadConfig();
+
+			expect(
+				config.withSite('partner', () =>
+					config.get('ATLASSIAN_API_TOKEN'),
+				),
+			).toBe('cloud-token');
+		});
+
+		it('does not send the default Cloud account to a Server / Data Center profile', () => {
+			const config = loadConfig();
+
+			config.withSite('datacenter', () => {
+				expect(config.get('ATLASSIAN_BASE_URL')).toBe(
+					'https://confluence.example.com',
+				);
+				expect(config.get('ATLASSIAN_USER_EMAIL')).toBeUndefined();
+				expect(config.get('ATLASSIAN_API_TOKEN')).toBeUndefined();
+			});
+		});
+	});
+});
@@ -1,18 +1,64 @@
 import fs from 'fs';
 import path from 'path';
 import { Logger } from './logger.util.js';
+import { createApiError } from './error.util.js';
 import dotenv from 'dotenv';
 import os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Name of the site configured through the environment and the `environments`
+ * block, used when no other site profile is selected
+ */
+export const DEFAULT_SITE_PROFILE = 'default';
+
+/**
+ * Settings that identify a site. A site profile never inherits these from the
+ * default configuration, so a profile cannot silently point at another site.
+ */
+const SITE_SCOPED_KEYS = [
+	'ATLASSIAN_SITE_NAME',
+	'ATLASSIAN_BASE_URL',
+	'ATLASSIAN_PERSONAL_ACCESS_TOKEN',
+];
+
+/**
+ * Atlassian account credentials. One account and API token work on every
+ * Atlassian Cloud site, so a Cloud profile inherits them from a Cloud default
+ * configuration; they are never sent to a Server / Data Center host, or from
+ * one, unless the profile sets them itself.
+ */
+const ACCOUNT_KEYS = ['ATLASSIAN_USER_EMAIL', 'ATLASSIAN_API_TOKEN'];
+
+/**
+ * Determine whether a configured base URL, if any, is an Atlassian Cloud site
+ */
+function isCloudBaseUrl(baseUrl: string | undefined): boolean {
+	if (!baseUrl) {
+		return true;
+	}
+	try {
+		return /\.atlassian\.net$/i.test(new URL(baseUrl).hostname);
+	} catch {
+		return false;
+	}
+}
 
 /**
  * Configuration loader that handles multiple sources with priority:
  * 1. Direct ENV pass (process.env)
  * 2. .env file in project root
  * 3. Global config file at $HOME/.mcp/configs.json
+ *
+ * The global config file may also define named site profiles in a `sites`
+ * block. While a profile is selected, its settings take precedence.
  */
 class ConfigLoader {
 	private packageName: string;
 	private configLoaded: boolean = false;
+	private siteProfiles: Record<string, Record<string, string>> = {};
+	private selectedSite: string | undefined;
+	private siteScope = new AsyncLocalStorage<string | undefined>();
 
 	/**
 	 * Create a new ConfigLoader instance
@@ -108,6 +154,7 @@ class ConfigLoader {
 			];
 			let foundConfigSection: {
 				environments?: Record<string, unknown>;
+				sites?: Record<string, Record<string, unknown>>;
 			} | null = null;
 			let usedKey: string | null = null;
 
@@ -115,7 +162,7 @@ class ConfigLoader {
 				if (
 					config[key] &&
 					typeof config[key] === 'object' &&
-					config[key].environments
+					(config[key].environments || config[key].sites)
 				) {
 					foundConfigSection = config[key];
 					usedKey = key;
@@ -124,7 +171,7 @@ class ConfigLoader {
 				}
 			}
 
-			if (!foundConfigSection || !foundConfigSection.environments) {
+			if (!foundConfigSection) {
 				globalLogger.debug(
 					`No configuration found for ${
 						this.packageName
@@ -133,7 +180,7 @@ class ConfigLoader {
 				return;
 			}
 
-			const environments = foundConfigSection.environments;
+			const environments = foundConfigSection.environments || {};
 			for (const [key, value] of Object.entries(environments)) {
 				// Only set if not already defined in process.env
 				if (process.env[key] === undefined) {
@@ -141,6 +188,23 @@ class ConfigLoader {
 				}
 			}
 
+			for (const [name, settings] of Object.entries(
+				foundConfigSection.sites || {},
+			)) {
+				if (name === DEFAULT_SITE_PROFILE) {
+					globalLogger.warn(
+						`Ignoring site profile "${DEFAULT_SITE_PROFILE}": the name is reserved for the environment configuration`,
+					);
+					continue;
+				}
+				this.siteProfiles[name] = Object.fromEntries(
+					Object.entries(settings).map(([key, value]) => [
+						key,
+						String(value),
+					]),
+				);
+			}
+
 			globalLogger.debug(
 				`Loaded configuration from global config file using key: ${usedKey}`,
 			);
@@ -156,9 +220,87 @@ class ConfigLoader {
 	 * @returns The configuration value or the default value
 	 */
 	get(key: string, defaultValue?: string): string | undefined {
+		const site = this.getSite();
+		if (site !== DEFAULT_SITE_PROFILE) {
+			const profile = this.siteProfiles[site];
+			if (profile[key]) {
+				return profile[key];
+			}
+			if (SITE_SCOPED_KEYS.includes(key)) {
+				return defaultValue;
+			}
+			if (
+				ACCOUNT_KEYS.includes(key) &&
+				!(
+					isCloudBaseUrl(profile.ATLASSIAN_BASE_URL) &&
+					isCloudBaseUrl(process.env.ATLASSIAN_BASE_URL)
+				)
+			) {
+				return defaultValue;
+			}
+		}
 		return process.env[key] || defaultValue;
 	}
 
+	/**
+	 * Get the names of all site profiles, starting with the default site
+	 */
+	getSiteNames(): string[] {
+		return [DEFAULT_SITE_PROFILE, ...Object.keys(this.siteProfiles)];
+	}
+
+	/**
+	 * Get the site profile in effect: the one selected for the current call
+	 * with withSite, otherwise the one selected with useSite, otherwise the default
+	 */
+	getSite(): string {
+		return (
+			this.siteScope.getStore() ||
+			this.selectedSite ||
+			DEFAULT_SITE_PROFILE
+		);
+	}
+
+	/**
+	 * Select the site profile for the rest of the process (used by the CLI)
+	 * @param site The profile name, or undefined for the default site
+	 * @throws Error if no profile with that name is configured
+	 */
+	useSite(site?: string): void {
+		this.selectedSite = this.resolveSiteName(site);
+	}
+
+	/**
+	 * Run a function with a site profile selected, including any async work it
+	 * starts. Concurrent calls can use different sites.
+	 * @param site The profile name, or undefined to keep the current site
+	 * @param fn The function to run
+	 * @returns The function's result
+	 * @throws Error if no profile with that name is configured
+	 */
+	withSite<T>(site: string | undefined, fn: () => T): T {
+		if (!site) {
+			return fn();
+		}
+		return this.siteScope.run(this.resolveSiteName(site), fn);
+	}
+
+	/**
+	 * Check a site profile name against the configured profiles
+	 */
+	private resolveSiteName(site?: string): string | undefined {
+		if (!site || site === DEFAULT_SITE_PROFILE) {
+			return site;
+		}
+		if (!this.siteProfiles[site]) {
+			throw createApiError(
+				`Unknown site "${site}". Configured sites: ${this.getSiteNames().join(', ')}.`,
+				400,
+			);
+		}
+		return site;
+	}
+
 	/**
 	 * Get a boolean configuration value
 	 * @param key The configuration key
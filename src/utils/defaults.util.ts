@@ -46,7 +46,7 @@ export const PAGE_DEFAULTS = {
 	/**
 	 * Whether to include version information by default
 	 */
-	INCLUDE_VERSION: false,
+	INCLUDE_VERSION: true,
 };
 
 /**
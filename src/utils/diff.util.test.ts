@@ -0,0 +1,97 @@
+import { compareTexts, createUnifiedDiff } from './diff.util.js';
+
+describe('Diff Utility', () => {
+	describe('createUnifiedDiff', () => {
+		it('should return an empty string for identical texts', () => {
+			expect(createUnifiedDiff('a\nb', 'a\nb')).toBe('');
+		});
+
+		it('should show changed lines with surrounding context', () => {
+			const diff = createUnifiedDiff(
+				'# Title\n\nOld line\n\nFooter',
+				'# Title\n\nNew line\n\nFooter',
+				1,
+			);
+
+			expect(diff).toBe('@@ -2,3 +2,3 @@\n \n-Old line\n+New line\n ');
+		});
+
+		it('should split distant changes into separate hunks', () => {
+			const oldText = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+			const newText = ['A', 'b', 'c', 'd', 'e', 'f', 'g', 'H'].join('\n');
+			const diff = createUnifiedDiff(oldText, newText, 1);
+
+			expect(diff.match(/^@@/gm)).toHaveLength(2);
+			expect(diff).toContain('-a\n+A');
+			expect(diff).toContain('-h\n+H');
+		});
+
+		it('should handle pure insertions', () => {
+			const diff = createUnifiedDiff('one\nthree', 'one\ntwo\nthree');
+
+			expect(diff).toBe('@@ -1,2 +1,3 @@\n one\n+two\n three');
+		});
+
+		it('should keep the unchanged lines between scattered edits', () => {
+			const oldText = ['a', 'b', 'c', 'd', 'e', 'f'].join('\n');
+			const newText = ['a', 'x', 'c', 'd', 'f', 'g'].join('\n');
+			const diff = createUnifiedDiff(oldText, newText, 0);
+
+			expect(diff).toBe(
+				'@@ -2,1 +2,1 @@\n-b\n+x\n@@ -5,1 +5,0 @@\n-e\n@@ -7,0 +6,1 @@\n+g',
+			);
+		});
+	});
+
+	describe('compareTexts', () => {
+		it('should count added and removed lines', () => {
+			expect(compareTexts('a\nb\nc', 'a\nx\ny\nc').stats).toEqual({
+				added: 2,
+				removed: 1,
+			});
+		});
+
+		it('should return the diff together with the stats', () => {
+			const { diff, stats } = compareTexts(
+				'one\nthree',
+				'one\ntwo\nthree',
+			);
+
+			expect(diff).toBe(
+				createUnifiedDiff('one\nthree', 'one\ntwo\nthree'),
+			);
+			expect(stats).toEqual({ added: 1, removed: 0 });
+		});
+
+		it('should find the shortest diff of interleaved changes', () => {
+			const oldText = 'a\nb\nc\na\nb\nb\na';
+			const newText = 'c\nb\na\nb\na\nc';
+
+			expect(compareTexts(oldText, newText).stats).toEqual({
+				added: 2,
+				removed: 3,
+			});
+		});
+
+		it('should compare large rewritten texts', () => {
+			const oldLines = Array.from(
+				{ length: 20000 },
+				(_, i) => `old ${i}`,
+			);
+			const newLines = Array.from(
+				{ length: 20000 },
+				(_, i) => `new ${i}`,
+			);
+
+			const { diff, stats } = compareTexts(
+				oldLines.join('\n'),
+				newLines.join('\n'),
+			);
+
+			expect(stats).toEqual({ added: 20000, removed: 20000 });
+			expect(diff.startsWith('@@ -1,20000 +1,20000 @@\n-old 0')).toBe(
+				true,
+			);
+		});
+	});
+});
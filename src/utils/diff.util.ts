@@ -0,0 +1,365 @@
+/**
+ * Utility helpers for producing line-based diffs of text content.
+ * Used to summarize changes made to Confluence pages and versions.
+ */
+
+/**
+ * A single line of a diff
+ */
+interface DiffLine {
+	type: 'context' | 'added' | 'removed';
+	text: string;
+}
+
+/**
+ * Summary counts for a diff
+ */
+export interface DiffStats {
+	added: number;
+	removed: number;
+}
+
+/**
+ * A point on the edit graph: `x` lines of the old text and `y` lines of the
+ * new text consumed
+ */
+interface Point {
+	x: number;
+	y: number;
+}
+
+/**
+ * Maximum number of steps spent searching for the shortest edit script.
+ * Myers' algorithm takes time proportional to the text length times the
+ * number of edits, so heavily rewritten large texts stop the search here
+ * and fall back to replacing the changed region as a whole.
+ */
+const MAX_DIFF_STEPS = 20_000_000;
+
+/**
+ * Thrown internally when the diff search exceeds MAX_DIFF_STEPS
+ */
+class DiffBudgetExceeded extends Error {}
+
+/**
+ * Find the shortest edit script between two lists of lines with the
+ * linear-space variant of Myers' algorithm: the middle snake of the edit
+ * graph is found by searching from both ends, and both halves are solved
+ * recursively. Memory use is linear in the number of lines.
+ *
+ * @param a - Lines of the old text
+ * @param b - Lines of the new text
+ * @returns Points on the edit graph, in order, that the shortest path visits
+ * @throws DiffBudgetExceeded if the search takes more than MAX_DIFF_STEPS steps
+ */
+function findEditPath(a: string[], b: string[]): Point[] {
+	let steps = 0;
+	const spend = (count: number) => {
+		steps += count;
+		if (steps > MAX_DIFF_STEPS) {
+			throw new DiffBudgetExceeded();
+		}
+	};
+
+	const midpoint = (
+		left: number,
+		top: number,
+		right: number,
+		bottom: number,
+	): [Point, Point] | null => {
+		const width = right - left;
+		const height = bottom - top;
+		const size = width + height;
+		if (size === 0) {
+			return null;
+		}
+
+		const delta = width - height;
+		const max = Math.ceil(size / 2);
+		// Furthest x (forward) and y (backward) reached on each diagonal,
+		// offset by max so that negative diagonals fit
+		const vf = new Int32Array(2 * max + 2);
+		const vb = new Int32Array(2 * max + 2);
+		vf[max + 1] = left;
+		vb[max + 1] = bottom;
+
+		for (let d = 0; d <= max; d++) {
+			spend(2 * d + 1);
+
+			for (let k = d; k >= -d; k -= 2) {
+				const c = k - delta;
+				let px: number;
+				let x: number;
+				if (
+					k === -d ||
+					(k !== d && vf[max + k - 1] < vf[max + k + 1])
+				) {
+					px = x = vf[max + k + 1];
+				} else {
+					px = vf[max + k - 1];
+					x = px + 1;
+				}
+				let y = top + (x - left) - k;
+				const py = d === 0 || x !== px ? y : y - 1;
+				while (x < right && y < bottom && a[x] === b[y]) {
+					x++;
+					y++;
+				}
+				vf[max + k] = x;
+				if (
+					Math.abs(delta) % 2 === 1 &&
+					c >= -(d - 1) &&
+					c <= d - 1 &&
+					y >= vb[max + c]
+				) {
+					return [
+						{ x: px, y: py },
+						{ x, y },
+					];
+				}
+			}
+
+			for (let c = d; c >= -d; c -= 2) {
+				const k = c + delta;
+				let py: number;
+				let y: number;
+				if (
+					c === -d ||
+					(c !== d && vb[max + c - 1] > vb[max + c + 1])
+				) {
+					py = y = vb[max + c + 1];
+				} else {
+					py = vb[max + c - 1];
+					y = py - 1;
+				}
+				let x = left + (y - top) + k;
+				const px = d === 0 || y !== py ? x : x + 1;
+				while (x > left && y > top && a[x - 1] === b[y - 1]) {
+					x--;
+					y--;
+				}
+				vb[max + c] = y;
+				if (delta % 2 === 0 && k >= -d && k <= d && x <= vf[max + k]) {
+					return [
+						{ x, y },
+						{ x: px, y: py },
+					];
+				}
+			}
+		}
+
+		return null;
+	};
+
+	const findPath = (
+		left: number,
+		top: number,
+		right: number,
+		bottom: number,
+	): Point[] | null => {
+		const snake = midpoint(left, top, right, bottom);
+		if (!snake) {
+			return null;
+		}
+		const [start, finish] = snake;
+		const head = findPath(left, top, start.x, start.y) ?? [start];
+		const tail = findPath(finish.x, finish.y, right, bottom) ?? [finish];
+		return [...head, ...tail];
+	};
+
+	return findPath(0, 0, a.length, b.length) ?? [];
+}
+
+/**
+ * Compute a line-based diff between two texts. Common leading and trailing
+ * lines are matched up front; the lines in between are compared with Myers'
+ * algorithm. Within each changed block, removed lines come before added ones.
+ *
+ * @param oldText - The original text
+ * @param newText - The updated text
+ * @returns Ordered list of diff lines
+ */
+function diffLines(oldText: string, newText: string): DiffLine[] {
+	const oldLines = oldText.split('\n');
+	const newLines = newText.split('\n');
+
+	let prefix = 0;
+	while (
+		prefix < oldLines.length &&
+		prefix < newLines.length &&
+		oldLines[prefix] === newLines[prefix]
+	) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] ===
+			newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+	const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+	let path: Point[];
+	try {
+		path = findEditPath(oldMiddle, newMiddle);
+	} catch (error) {
+		if (!(error instanceof DiffBudgetExceeded)) {
+			throw error;
+		}
+		// Replace the whole changed region
+		path = [
+			{ x: 0, y: 0 },
+			{ x: oldMiddle.length, y: newMiddle.length },
+		];
+	}
+
+	const result: DiffLine[] = oldLines
+		.slice(0, prefix)
+		.map((text) => ({ type: 'context', text }));
+
+	let removed: DiffLine[] = [];
+	let added: DiffLine[] = [];
+	const flushChanges = () => {
+		result.push(...removed, ...added);
+		removed = [];
+		added = [];
+	};
+
+	let x = 0;
+	let y = 0;
+	for (const target of path) {
+		while (x < target.x || y < target.y) {
+			if (x < target.x && y < target.y && oldMiddle[x] === newMiddle[y]) {
+				flushChanges();
+				result.push({ type: 'context', text: oldMiddle[x] });
+				x++;
+				y++;
+			} else if (target.x - x > target.y - y) {
+				removed.push({ type: 'removed', text: oldMiddle[x++] });
+			} else {
+				added.push({ type: 'added', text: newMiddle[y++] });
+			}
+		}
+	}
+	while (x < oldMiddle.length) {
+		removed.push({ type: 'removed', text: oldMiddle[x++] });
+	}
+	while (y < newMiddle.length) {
+		added.push({ type: 'added', text: newMiddle[y++] });
+	}
+	flushChanges();
+
+	oldLines
+		.slice(oldLines.length - suffix)
+		.forEach((text) => result.push({ type: 'context', text }));
+
+	return result;
+}
+
+/**
+ * Result of comparing two texts
+ */
+export interface TextComparison {
+	/**
+	 * Unified diff of the texts, or an empty string if they are identical
+	 */
+	diff: string;
+
+	/**
+	 * Number of lines added and removed
+	 */
+	stats: DiffStats;
+}
+
+/**
+ * Compare two texts line by line, producing a unified diff (as used by
+ * `git diff`) and the number of lines added and removed. Only changed lines
+ * and a few lines of surrounding context are included in the diff.
+ *
+ * @param oldText - The original text
+ * @param newText - The updated text
+ * @param contextLines - Number of unchanged lines to show around each change
+ * @returns The unified diff and the diff stats
+ */
+export function compareTexts(
+	oldText: string,
+	newText: string,
+	contextLines: number = 3,
+): TextComparison {
+	const lines = diffLines(oldText, newText);
+	const stats: DiffStats = {
+		added: lines.filter((line) => line.type === 'added').length,
+		removed: lines.filter((line) => line.type === 'removed').length,
+	};
+	const changed = lines
+		.map((line, index) => (line.type === 'context' ? -1 : index))
+		.filter((index) => index !== -1);
+
+	if (changed.length === 0) {
+		return { diff: '', stats };
+	}
+
+	// Group changes whose context windows overlap into hunks
+	const hunks: Array<{ start: number; end: number }> = [];
+	for (const index of changed) {
+		const start = Math.max(0, index - contextLines);
+		const end = Math.min(lines.length, index + contextLines + 1);
+		const last = hunks[hunks.length - 1];
+		if (last && start <= last.end) {
+			last.end = end;
+		} else {
+			hunks.push({ start, end });
+		}
+	}
+
+	const output: string[] = [];
+	// Line numbers before the hunk in both texts, carried over between hunks
+	let oldStart = 1;
+	let newStart = 1;
+	let position = 0;
+	for (const hunk of hunks) {
+		for (; position < hunk.start; position++) {
+			if (lines[position].type !== 'added') oldStart++;
+			if (lines[position].type !== 'removed') newStart++;
+		}
+
+		const hunkLines = lines.slice(hunk.start, hunk.end);
+		const oldCount = hunkLines.filter((l) => l.type !== 'added').length;
+		const newCount = hunkLines.filter((l) => l.type !== 'removed').length;
+
+		output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+		for (const line of hunkLines) {
+			const prefix =
+				line.type === 'added'
+					? '+'
+					: line.type === 'removed'
+						? '-'
+						: ' ';
+			output.push(`${prefix}${line.text}`);
+		}
+	}
+
+	return { diff: output.join('\n'), stats };
+}
+
+/**
+ * Create a unified diff (as used by `git diff`) between two texts.
+ *
+ * @param oldText - The original text
+ * @param newText - The updated text
+ * @param contextLines - Number of unchanged lines to show around each change
+ * @returns The unified diff, or an empty string if the texts are identical
+ */
+export function createUnifiedDiff(
+	oldText: string,
+	newText: string,
+	contextLines: number = 3,
+): string {
+	return compareTexts(oldText, newText, contextLines).diff;
+}
@@ -140,6 +140,18 @@ describe('Error Handler Utilities', () => {
 				});
 			});
 
+			test('detects exhausted retries separately from a single rate limit', () => {
+				const error = createApiError(
+					'Retry budget exhausted after 3 retries. Confluence API: 429 Rate limit exceeded',
+					429,
+				);
+				const result = detectErrorType(error);
+				expect(result).toEqual({
+					code: ErrorCode.RETRY_EXHAUSTED,
+					statusCode: 429,
+				});
+			});
+
 			test('detects not found errors', () => {
 				const error = new Error('resource not found');
 				const result = detectErrorType(error);
@@ -158,6 +170,15 @@ describe('Error Handler Utilities', () => {
 				});
 			});
 
+			test('detects version conflicts from status code', () => {
+				const error = createApiError('Version conflict', 409);
+				const result = detectErrorType(error);
+				expect(result).toEqual({
+					code: ErrorCode.CONFLICT,
+					statusCode: 409,
+				});
+			});
+
 			test('defaults to unexpected error', () => {
 				const error = new Error('something unexpected happened');
 				const result = detectErrorType(error);
@@ -224,6 +245,24 @@ describe('Error Handler Utilities', () => {
 			);
 		});
 
+		test('creates conflict message', () => {
+			const message = createUserFriendlyErrorMessage(
+				ErrorCode.CONFLICT,
+				{
+					entityType: 'Page',
+					entityId: '12345',
+					operation: 'updating',
+				},
+				'Page is now at version 5',
+			);
+			expect(message).toContain(
+				'Page 12345 was modified by someone else while updating it',
+			);
+			expect(message).toContain(
+				'Error details: Page is now at version 5',
+			);
+		});
+
 		test('creates validation error message', () => {
 			const originalMessage = 'Invalid space key format';
 			const message = createUserFriendlyErrorMessage(
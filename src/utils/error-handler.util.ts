@@ -4,6 +4,7 @@ import {
 	getDeepOriginalError,
 } from './error.util.js';
 import { Logger } from './logger.util.js';
+import { RETRY_EXHAUSTED_MESSAGE_PREFIX } from './retry.util.js';
 
 /**
  * Standard error codes for consistent handling
@@ -16,6 +17,8 @@ export enum ErrorCode {
 	UNEXPECTED_ERROR = 'UNEXPECTED_ERROR',
 	NETWORK_ERROR = 'NETWORK_ERROR',
 	RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR',
+	RETRY_EXHAUSTED = 'RETRY_EXHAUSTED',
+	CONFLICT = 'CONFLICT',
 	CONFLUENCE_CQL_ERROR = 'CONFLUENCE_CQL_ERROR',
 	CONFLUENCE_CONTENT_ERROR = 'CONFLUENCE_CONTENT_ERROR',
 }
@@ -109,6 +112,14 @@ export function detectErrorType(
 		return { code: ErrorCode.NETWORK_ERROR, statusCode: 500 };
 	}
 
+	// Requests that kept failing after every retry (rate limiting or outages)
+	if (errorMessage.startsWith(RETRY_EXHAUSTED_MESSAGE_PREFIX)) {
+		return {
+			code: ErrorCode.RETRY_EXHAUSTED,
+			statusCode: statusCode ?? 503,
+		};
+	}
+
 	// Rate limiting detection
 	if (
 		errorMessage.includes('rate limit') ||
@@ -118,6 +129,11 @@ export function detectErrorType(
 		return { code: ErrorCode.RATE_LIMIT_ERROR, statusCode: 429 };
 	}
 
+	// Conflict detection (e.g., stale version number on update)
+	if (statusCode === 409) {
+		return { code: ErrorCode.CONFLICT, statusCode: 409 };
+	}
+
 	// Confluence-specific error detection
 	if (
 		error instanceof Error &&
@@ -418,6 +434,14 @@ export function createUserFriendlyErrorMessage(
 			message = `Confluence API rate limit exceeded. Please wait a moment and try again, or reduce the frequency of requests.`;
 			break;
 
+		case ErrorCode.RETRY_EXHAUSTED:
+			message = `The Confluence API kept rejecting the request while ${operation || 'processing'} ${entity.toLowerCase()}, even after retrying with backoff. Wait a few minutes before trying again, or raise ATLASSIAN_MAX_RETRIES.`;
+			break;
+
+		case ErrorCode.CONFLICT:
+			message = `${entity} was modified by someone else while ${operation || 'processing'} it. Fetch the latest version, reapply your changes and try again.`;
+			break;
+
 		case ErrorCode.CONFLUENCE_CQL_ERROR:
 			message = `Invalid CQL syntax in search query. Please check your query syntax and try again.`;
 			if (originalMessage) {
@@ -147,6 +147,7 @@ export function ensureMcpError(error: unknown): McpError {
  */
 export function formatErrorForMcpTool(error: unknown): {
 	content: Array<{ type: 'text'; text: string }>;
+	isError: true;
 	metadata?: {
 		errorType: ErrorType;
 		statusCode?: number;
@@ -176,6 +177,7 @@ export function formatErrorForMcpTool(error: unknown): {
 				text: `Error: ${mcpError.message}`,
 			},
 		],
+		isError: true,
 		metadata: {
 			errorType: mcpError.type,
 			statusCode: mcpError.statusCode,
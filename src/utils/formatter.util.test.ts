@@ -0,0 +1,18 @@
+import { formatCodeBlock } from './formatter.util.js';
+
+describe('formatter.util', () => {
+	describe('formatCodeBlock', () => {
+		it('wraps text in a fence with the language', () => {
+			expect(formatCodeBlock('+ added\n', 'diff')).toBe(
+				'```diff\n+ added\n```',
+			);
+		});
+
+		it('uses a fence longer than any backticks in the text', () => {
+			const diff = '  Setup:\n- ```bash\n+ ````sh\n  npm install';
+			expect(formatCodeBlock(diff, 'diff')).toBe(
+				`\`\`\`\`\`diff\n${diff}\n\`\`\`\`\``,
+			);
+		});
+	});
+});
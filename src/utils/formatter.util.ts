@@ -54,7 +54,7 @@ export function formatPagination(pagination: ResponsePagination): string {
 	);
 	const parts: string[] = [formatSeparator()]; // Start with separator
 
-	const { count = 0, hasMore, nextCursor, total } = pagination;
+	const { count = 0, hasMore, nextCursor, total, truncated } = pagination;
 
 	// Showing count and potentially total
 	if (total !== undefined && total >= 0) {
@@ -64,7 +64,11 @@ export function formatPagination(pagination: ResponsePagination): string {
 	}
 
 	// More results availability
-	if (hasMore) {
+	if (truncated) {
+		parts.push(
+			`Stopped after ${count} items (maxItems); more results are available.`,
+		);
+	} else if (hasMore) {
 		parts.push('More results are available.');
 	}
 
@@ -165,14 +169,19 @@ export function formatNumberedList<T>(
 }
 
 /**
- * Format text as a Markdown code block
+ * Format text as a Markdown code block. The fence is longer than any run of
+ * backticks in the text, so code blocks within the text cannot close it.
  * @param text Text content
  * @param language Optional language identifier
  * @returns Formatted code block string
  */
-// Unused function - commented out
-// export function formatCodeBlock(text: string, language: string = ''): string {
-// 	// Trim trailing newline if present to avoid extra line in block
-// 	const trimmedText = text.replace(/$\n/, '');
-// 	return `\`\`\`${language}\n${trimmedText}\n\`\`\``;
-// }
+export function formatCodeBlock(text: string, language: string = ''): string {
+	// Trim trailing newline if present to avoid extra line in block
+	const trimmedText = text.replace(/\n$/, '');
+	const longestRun = Math.max(
+		0,
+		...(trimmedText.match(/`+/g) ?? []).map((run) => run.length),
+	);
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+	return `${fence}${language}\n${trimmedText}\n${fence}`;
+}
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	buildAuthorizationUrl,
+	getOAuthClientConfig,
+	isOAuthTokenExpired,
+	loadOAuthTokens,
+	refreshOAuthTokens,
+} from './oauth.util.js';
+
+describe('oauth.util', () => {
+	const originalEnv = {
+		clientId: process.env.ATLASSIAN_OAUTH_CLIENT_ID,
+		clientSecret: process.env.ATLASSIAN_OAUTH_CLIENT_SECRET,
+		scopes: process.env.ATLASSIAN_OAUTH_SCOPES,
+	};
+
+	afterEach(() => {
+		const restore = (name: string, value?: string) => {
+			if (value) {
+				process.env[name] = value;
+			} else {
+				delete process.env[name];
+			}
+		};
+		restore('ATLASSIAN_OAUTH_CLIENT_ID', originalEnv.clientId);
+		restore('ATLASSIAN_OAUTH_CLIENT_SECRET', originalEnv.clientSecret);
+		restore('ATLASSIAN_OAUTH_SCOPES', originalEnv.scopes);
+	});
+
+	it('returns null when no OAuth app is configured', () => {
+		delete process.env.ATLASSIAN_OAUTH_CLIENT_ID;
+		delete process.env.ATLASSIAN_OAUTH_CLIENT_SECRET;
+
+		expect(getOAuthClientConfig()).toBeNull();
+	});
+
+	it('reads the OAuth app settings and custom scopes', () => {
+		process.env.ATLASSIAN_OAUTH_CLIENT_ID = 'client';
+		process.env.ATLASSIAN_OAUTH_CLIENT_SECRET = 'secret';
+		process.env.ATLASSIAN_OAUTH_SCOPES =
+			'read:page:confluence, offline_access';
+
+		expect(getOAuthClientConfig()).toEqual({
+			clientId: 'client',
+			clientSecret: 'secret',
+			redirectUri: 'http://localhost:8976/callback',
+			scopes: ['read:page:confluence', 'offline_access'],
+		});
+	});
+
+	it('builds the authorization URL with audience, scopes and state', () => {
+		const url = new URL(
+			buildAuthorizationUrl(
+				{
+					clientId: 'client',
+					clientSecret: 'secret',
+					redirectUri: 'http://localhost:8976/callback',
+					scopes: ['read:page:confluence', 'offline_access'],
+				},
+				'abc123',
+			),
+		);
+
+		expect(url.origin + url.pathname).toBe(
+			'https://auth.atlassian.com/authorize',
+		);
+		expect(url.searchParams.get('audience')).toBe('api.atlassian.com');
+		expect(url.searchParams.get('client_id')).toBe('client');
+		expect(url.searchParams.get('scope')).toBe(
+			'read:page:confluence offline_access',
+		);
+		expect(url.searchParams.get('redirect_uri')).toBe(
+			'http://localhost:8976/callback',
+		);
+		expect(url.searchParams.get('state')).toBe('abc123');
+		expect(url.searchParams.get('response_type')).toBe('code');
+	});
+
+	it('treats tokens as expired shortly before their expiry time', () => {
+		const now = 1_000_000;
+
+		expect(isOAuthTokenExpired({ expiresAt: now + 10 * 60_000 }, now)).toBe(
+			false,
+		);
+		expect(isOAuthTokenExpired({ expiresAt: now + 30_000 }, now)).toBe(
+			true,
+		);
+		expect(isOAuthTokenExpired({ expiresAt: now - 1 }, now)).toBe(true);
+	});
+
+	describe('refreshOAuthTokens', () => {
+		const originalFetch = global.fetch;
+		let home: string;
+
+		const expiredTokens = {
+			accessToken: 'old-access',
+			refreshToken: 'old-refresh',
+			expiresAt: Date.now() - 1000,
+			cloudId: 'cloud',
+			siteUrl: 'https://example.atlassian.net',
+		};
+
+		beforeEach(() => {
+			home = fs.mkdtempSync(path.join(os.tmpdir(), 'oauth-test-'));
+			jest.spyOn(os, 'homedir').mockReturnValue(home);
+			process.env.ATLASSIAN_OAUTH_CLIENT_ID = 'client';
+			process.env.ATLASSIAN_OAUTH_CLIENT_SECRET = 'secret';
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+			global.fetch = originalFetch;
+			fs.rmSync(home, { recursive: true, force: true });
+		});
+
+		it('shares one refresh between concurrent callers', async () => {
+			const fetchMock = jest.fn().mockResolvedValue(
+				new Response(
+					JSON.stringify({
+						access_token: 'new-access',
+						refresh_token: 'new-refresh',
+						expires_in: 3600,
+					}),
+					{ status: 200 },
+				),
+			);
+			global.fetch = fetchMock;
+
+			const results = await Promise.all([
+				refreshOAuthTokens(expiredTokens),
+				refreshOAuthTokens(expiredTokens),
+				refreshOAuthTokens(expiredTokens),
+			]);
+
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			results.forEach((tokens) => {
+				expect(tokens.accessToken).toBe('new-access');
+				expect(tokens.refreshToken).toBe('new-refresh');
+			});
+			expect(loadOAuthTokens()?.refreshToken).toBe('new-refresh');
+		});
+
+		it('reuses tokens another refresh already stored', async () => {
+			const fetchMock = jest.fn();
+			global.fetch = fetchMock;
+			fs.mkdirSync(path.join(home, '.mcp'), { recursive: true });
+			fs.writeFileSync(
+				path.join(
+					home,
+					'.mcp',
+					'mcp-server-atlassian-confluence.oauth.json',
+				),
+				JSON.stringify({
+					...expiredTokens,
+					accessToken: 'stored-access',
+					refreshToken: 'stored-refresh',
+					expiresAt: Date.now() + 3600_000,
+				}),
+			);
+
+			const tokens = await refreshOAuthTokens(expiredTokens);
+
+			expect(fetchMock).not.toHaveBeenCalled();
+			expect(tokens.accessToken).toBe('stored-access');
+		});
+	});
+});
@@ -0,0 +1,474 @@
+/**
+ * OAuth 2.0 (3LO) support for Confluence Cloud.
+ * Handles the authorization URL, token exchange and refresh, and the token
+ * file stored under $HOME/.mcp.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import {
+	createApiError,
+	createAuthInvalidError,
+	createAuthMissingError,
+} from './error.util.js';
+
+/**
+ * Atlassian authorization endpoint
+ */
+const OAUTH_AUTHORIZE_URL = 'https://auth.atlassian.com/authorize';
+
+/**
+ * Atlassian token endpoint, used for code exchange and refresh
+ */
+const OAUTH_TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+
+/**
+ * Lists the sites (cloud IDs) an access token grants access to
+ */
+const ACCESSIBLE_RESOURCES_URL =
+	'https://api.atlassian.com/oauth/token/accessible-resources';
+
+/**
+ * Base URL for API requests made with OAuth tokens, followed by the cloud ID
+ */
+export const OAUTH_API_BASE_URL = 'https://api.atlassian.com/ex/confluence';
+
+/**
+ * Redirect URI used when ATLASSIAN_OAUTH_REDIRECT_URI is not set.
+ * Must match the callback URL registered for the OAuth app.
+ */
+const DEFAULT_REDIRECT_URI = 'http://localhost:8976/callback';
+
+/**
+ * Scopes requested when ATLASSIAN_OAUTH_SCOPES is not set. The v2 API needs
+ * granular scopes, the v1 endpoints (search, labels, uploads) classic ones.
+ */
+const DEFAULT_SCOPES = [
+	'read:confluence-content.all',
+	'read:confluence-space.summary',
+	'search:confluence',
+	'write:confluence-content',
+	'write:confluence-file',
+	'read:page:confluence',
+	'write:page:confluence',
+	'read:space:confluence',
+	'read:blogpost:confluence',
+	'read:comment:confluence',
+	'write:comment:confluence',
+	'read:attachment:confluence',
+	'read:label:confluence',
+	'read:content-details:confluence',
+	'read:hierarchical-content:confluence',
+	'offline_access',
+];
+
+/**
+ * Refresh tokens slightly before they expire to avoid failing requests
+ */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * OAuth tokens and the site they were issued for, as stored on disk
+ */
+export interface OAuthTokens {
+	accessToken: string;
+	refreshToken?: string;
+	/**
+	 * Expiry time of the access token (milliseconds since epoch)
+	 */
+	expiresAt: number;
+	scope?: string;
+	cloudId: string;
+	siteUrl: string;
+}
+
+/**
+ * OAuth app settings from the configuration
+ */
+export interface OAuthClientConfig {
+	clientId: string;
+	clientSecret: string;
+	redirectUri: string;
+	scopes: string[];
+}
+
+/**
+ * Site (cloud ID) an access token grants access to
+ */
+export interface AccessibleResource {
+	id: string;
+	name: string;
+	url: string;
+	scopes?: string[];
+}
+
+const TokenResponseSchema = z.object({
+	access_token: z.string(),
+	refresh_token: z.string().optional(),
+	expires_in: z.number(),
+	scope: z.string().optional(),
+});
+
+const AccessibleResourcesSchema = z.array(
+	z.object({
+		id: z.string(),
+		name: z.string(),
+		url: z.string(),
+		scopes: z.array(z.string()).optional(),
+	}),
+);
+
+type TokenResponse = z.infer<typeof TokenResponseSchema>;
+
+const utilLogger = Logger.forContext('utils/oauth.util.ts');
+
+/**
+ * Get the OAuth app settings from the configuration
+ * @returns The settings, or null if no client ID and secret are configured
+ */
+export function getOAuthClientConfig(): OAuthClientConfig | null {
+	const clientId = config.get('ATLASSIAN_OAUTH_CLIENT_ID');
+	const clientSecret = config.get('ATLASSIAN_OAUTH_CLIENT_SECRET');
+	if (!clientId || !clientSecret) {
+		return null;
+	}
+
+	const scopes = config.get('ATLASSIAN_OAUTH_SCOPES');
+	return {
+		clientId,
+		clientSecret,
+		redirectUri:
+			config.get('ATLASSIAN_OAUTH_REDIRECT_URI') || DEFAULT_REDIRECT_URI,
+		scopes: scopes
+			? scopes.split(/[\s,]+/).filter(Boolean)
+			: DEFAULT_SCOPES,
+	};
+}
+
+/**
+ * Get the path of the file the OAuth tokens are stored in
+ */
+export function getOAuthTokenPath(): string {
+	return path.join(
+		os.homedir(),
+		'.mcp',
+		'mcp-server-atlassian-confluence.oauth.json',
+	);
+}
+
+/**
+ * Load the stored OAuth tokens
+ * @returns The tokens, or null if none are stored or the file is unreadable
+ */
+export function loadOAuthTokens(): OAuthTokens | null {
+	const tokenPath = getOAuthTokenPath();
+	if (!fs.existsSync(tokenPath)) {
+		return null;
+	}
+
+	try {
+		const tokens = JSON.parse(fs.readFileSync(tokenPath, 'utf8'));
+		if (!tokens.accessToken || !tokens.cloudId) {
+			utilLogger.warn(
+				`Ignoring incomplete OAuth token file ${tokenPath}`,
+			);
+			return null;
+		}
+		return tokens as OAuthTokens;
+	} catch (error) {
+		utilLogger.warn(`Failed to read OAuth token file ${tokenPath}`, error);
+		return null;
+	}
+}
+
+/**
+ * Store OAuth tokens, readable only by the current user
+ */
+export function saveOAuthTokens(tokens: OAuthTokens): void {
+	const tokenPath = getOAuthTokenPath();
+	fs.mkdirSync(path.dirname(tokenPath), { recursive: true });
+	fs.writeFileSync(tokenPath, JSON.stringify(tokens, null, 2), {
+		mode: 0o600,
+	});
+	utilLogger.debug(`Saved OAuth tokens to ${tokenPath}`);
+}
+
+/**
+ * Delete the stored OAuth tokens
+ * @returns Whether a token file was deleted
+ */
+export function clearOAuthTokens(): boolean {
+	const tokenPath = getOAuthTokenPath();
+	if (!fs.existsSync(tokenPath)) {
+		return false;
+	}
+	fs.unlinkSync(tokenPath);
+	return true;
+}
+
+/**
+ * Determine whether an access token has expired (or is about to)
+ */
+export function isOAuthTokenExpired(
+	tokens: Pick<OAuthTokens, 'expiresAt'>,
+	now: number = Date.now(),
+): boolean {
+	return now >= tokens.expiresAt - EXPIRY_MARGIN_MS;
+}
+
+/**
+ * Build the URL the user opens to authorize the app
+ * @param client - OAuth app settings
+ * @param state - Random value to check on the callback
+ */
+export function buildAuthorizationUrl(
+	client: OAuthClientConfig,
+	state: string,
+): string {
+	const params = new URLSearchParams({
+		audience: 'api.atlassian.com',
+		client_id: client.clientId,
+		scope: client.scopes.join(' '),
+		redirect_uri: client.redirectUri,
+		state,
+		response_type: 'code',
+		prompt: 'consent',
+	});
+	return `${OAUTH_AUTHORIZE_URL}?${params.toString()}`;
+}
+
+/**
+ * Call the token endpoint and validate the response
+ */
+async function requestTokens(
+	body: Record<string, string>,
+): Promise<TokenResponse> {
+	const methodLogger = Logger.forContext(
+		'utils/oauth.util.ts',
+		'requestTokens',
+	);
+
+	const response = await fetch(OAUTH_TOKEN_URL, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			Accept: 'application/json',
+		},
+		body: JSON.stringify(body),
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		methodLogger.error(
+			`Token request failed: ${response.status} ${response.statusText}`,
+			errorText,
+		);
+		if (
+			response.status === 400 ||
+			response.status === 401 ||
+			response.status === 403
+		) {
+			throw createAuthInvalidError(
+				'Atlassian rejected the OAuth token request. Run "auth login" again to re-authorize.',
+				errorText,
+			);
+		}
+		throw createApiError(
+			`OAuth token request failed: ${response.status} ${response.statusText}`,
+			response.status,
+			errorText,
+		);
+	}
+
+	try {
+		return TokenResponseSchema.parse(await response.json());
+	} catch (error) {
+		throw createApiError(
+			'Invalid response from the Atlassian token endpoint',
+			500,
+			error,
+		);
+	}
+}
+
+/**
+ * Exchange an authorization code for tokens
+ * @param client - OAuth app settings
+ * @param code - Code received on the redirect URI
+ * @returns The token response (not yet bound to a site)
+ */
+export async function exchangeAuthorizationCode(
+	client: OAuthClientConfig,
+	code: string,
+): Promise<Omit<OAuthTokens, 'cloudId' | 'siteUrl'>> {
+	const tokens = await requestTokens({
+		grant_type: 'authorization_code',
+		client_id: client.clientId,
+		client_secret: client.clientSecret,
+		code,
+		redirect_uri: client.redirectUri,
+	});
+
+	return {
+		accessToken: tokens.access_token,
+		refreshToken: tokens.refresh_token,
+		expiresAt: Date.now() + tokens.expires_in * 1000,
+		scope: tokens.scope,
+	};
+}
+
+/**
+ * Refreshes in progress, keyed by token file. Atlassian rotates refresh
+ * tokens, so concurrent requests must share one refresh instead of each
+ * spending the same refresh token.
+ */
+const refreshesInFlight = new Map<string, Promise<OAuthTokens>>();
+
+/**
+ * Refresh the access token and store the new tokens. Atlassian rotates refresh
+ * tokens, so the new refresh token replaces the old one. Concurrent calls share
+ * a single refresh, and tokens another refresh already stored are reused.
+ * @param tokens - The current tokens
+ * @returns The refreshed tokens
+ * @throws Error if no refresh token or OAuth app settings are available
+ */
+export async function refreshOAuthTokens(
+	tokens: OAuthTokens,
+): Promise<OAuthTokens> {
+	const tokenPath = getOAuthTokenPath();
+	const inFlight = refreshesInFlight.get(tokenPath);
+	if (inFlight) {
+		utilLogger.debug('Waiting for the OAuth token refresh in progress');
+		return inFlight;
+	}
+
+	// Another request may have refreshed the tokens since these were loaded
+	const stored = loadOAuthTokens();
+	if (
+		stored &&
+		stored.accessToken !== tokens.accessToken &&
+		!isOAuthTokenExpired(stored)
+	) {
+		utilLogger.debug('Using the OAuth tokens refreshed by another request');
+		return stored;
+	}
+
+	const refresh = requestTokenRefresh(tokens).finally(() => {
+		refreshesInFlight.delete(tokenPath);
+	});
+	refreshesInFlight.set(tokenPath, refresh);
+	return refresh;
+}
+
+/**
+ * Exchange the refresh token for new tokens and store them
+ * @param tokens - The current tokens
+ * @returns The refreshed tokens
+ */
+async function requestTokenRefresh(tokens: OAuthTokens): Promise<OAuthTokens> {
+	const client = getOAuthClientConfig();
+	if (!client) {
+		throw createAuthMissingError(
+			'ATLASSIAN_OAUTH_CLIENT_ID and ATLASSIAN_OAUTH_CLIENT_SECRET are required to refresh OAuth tokens.',
+		);
+	}
+	if (!tokens.refreshToken) {
+		throw createAuthInvalidError(
+			'The OAuth access token expired and no refresh token is stored. Run "auth login" again.',
+		);
+	}
+
+	utilLogger.debug('Refreshing OAuth access token');
+	const response = await requestTokens({
+		grant_type: 'refresh_token',
+		client_id: client.clientId,
+		client_secret: client.clientSecret,
+		refresh_token: tokens.refreshToken,
+	});
+
+	const refreshed: OAuthTokens = {
+		...tokens,
+		accessToken: response.access_token,
+		refreshToken: response.refresh_token || tokens.refreshToken,
+		expiresAt: Date.now() + response.expires_in * 1000,
+		scope: response.scope || tokens.scope,
+	};
+	saveOAuthTokens(refreshed);
+	return refreshed;
+}
+
+/**
+ * List the sites an access token grants access to
+ * @param accessToken - OAuth access token
+ */
+export async function getAccessibleResources(
+	accessToken: string,
+): Promise<AccessibleResource[]> {
+	const response = await fetch(ACCESSIBLE_RESOURCES_URL, {
+		headers: {
+			Authorization: `Bearer ${accessToken}`,
+			Accept: 'application/json',
+		},
+	});
+
+	if (!response.ok) {
+		throw createApiError(
+			`Failed to list accessible Atlassian sites: ${response.status} ${response.statusText}`,
+			response.status,
+			await response.text(),
+		);
+	}
+
+	try {
+		return AccessibleResourcesSchema.parse(await response.json());
+	} catch (error) {
+		throw createApiError(
+			'Invalid response when listing accessible Atlassian sites',
+			500,
+			error,
+		);
+	}
+}
+
+/**
+ * Pick the site to use from the sites an access token grants access to
+ * @param resources - Sites the access token grants access to
+ * @param siteName - Configured site name (e.g. "example" for example.atlassian.net)
+ * @returns The matching site, or the only site when no site name is given
+ * @throws Error if no site matches or the choice is ambiguous
+ */
+export function selectAccessibleResource(
+	resources: AccessibleResource[],
+	siteName?: string,
+): AccessibleResource {
+	if (siteName) {
+		const match = resources.find(
+			(resource) =>
+				new URL(resource.url).hostname.toLowerCase() ===
+				`${siteName}.atlassian.net`.toLowerCase(),
+		);
+		if (!match) {
+			throw createAuthInvalidError(
+				`The authorization does not include the site ${siteName}.atlassian.net. Granted sites: ${resources.map((resource) => resource.url).join(', ') || 'none'}.`,
+			);
+		}
+		return match;
+	}
+
+	if (resources.length === 0) {
+		throw createAuthInvalidError(
+			'The authorization does not include any Confluence site.',
+		);
+	}
+	if (resources.length > 1) {
+		throw createApiError(
+			`The authorization includes several sites (${resources.map((resource) => resource.url).join(', ')}). Set ATLASSIAN_SITE_NAME to choose one.`,
+			400,
+		);
+	}
+	return resources[0];
+}
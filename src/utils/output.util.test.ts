@@ -0,0 +1,76 @@
+import {
+	OutputFormatArg,
+	printCliResult,
+	setCliOutputFormat,
+	withOutputFormat,
+	withOutputFormatArg,
+} from './output.util.js';
+import { formatErrorForMcpTool } from './error.util.js';
+
+describe('output.util', () => {
+	const toolResult = {
+		content: [
+			{ type: 'text' as const, text: '# Page' },
+			{ type: 'image' as const, data: 'abc', mimeType: 'image/png' },
+		],
+		structuredContent: { page: { id: '123' } },
+	};
+
+	it('adds the optional output format argument to a tool shape', () => {
+		const shape = withOutputFormatArg({});
+
+		expect(shape.outputFormat).toBe(OutputFormatArg);
+		expect(OutputFormatArg.safeParse(undefined).success).toBe(true);
+		expect(OutputFormatArg.safeParse('yaml').success).toBe(false);
+	});
+
+	it('returns Markdown by default and passes the arguments without outputFormat', async () => {
+		const handler = jest.fn(async () => toolResult);
+
+		const result = await withOutputFormat(handler)({
+			pageId: '123',
+			outputFormat: 'markdown',
+		});
+
+		expect(handler).toHaveBeenCalledWith({ pageId: '123' });
+		expect(result).toBe(toolResult);
+	});
+
+	it('replaces the text content with the structured content for json', async () => {
+		const result = await withOutputFormat(async () => toolResult)({
+			outputFormat: 'json',
+		});
+
+		expect(JSON.parse(result.content[0].text as string)).toEqual({
+			page: { id: '123' },
+		});
+		expect(result.content[1]).toBe(toolResult.content[1]);
+		expect(result.structuredContent).toBe(toolResult.structuredContent);
+	});
+
+	it('leaves error results unchanged', async () => {
+		const error = formatErrorForMcpTool(new Error('Not found'));
+
+		const result = await withOutputFormat(async () => error)({
+			outputFormat: 'json',
+		});
+
+		expect(result).toBe(error);
+		expect(result.isError).toBe(true);
+	});
+
+	it('prints the data of CLI results as JSON when selected', () => {
+		const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+		const result = { content: '# Page', data: { page: { id: '123' } } };
+
+		printCliResult(result);
+		setCliOutputFormat(true);
+		printCliResult(result);
+		setCliOutputFormat(false);
+		const printed = log.mock.calls.map(([text]) => text);
+		log.mockRestore();
+
+		expect(printed[0]).toBe('# Page');
+		expect(JSON.parse(printed[1])).toEqual(result.data);
+	});
+});
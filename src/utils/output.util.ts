@@ -0,0 +1,96 @@
+/**
+ * Output format selection for MCP tools and CLI commands.
+ * Every tool and command returns Markdown by default. Tools accept an
+ * `outputFormat` argument and commands a global `--json` option to return the
+ * normalized data of the controller response as JSON instead.
+ */
+
+import { z } from 'zod';
+import { ControllerResponse } from '../types/common.types.js';
+
+/**
+ * Optional output format argument shared by all tools
+ */
+export const OutputFormatArg = z
+	.enum(['markdown', 'json'])
+	.optional()
+	.describe(
+		'Optional: format of the text content. "markdown" (default) returns formatted text; "json" returns the same data as the structured content, as JSON text.',
+	);
+
+export type OutputFormat = z.infer<typeof OutputFormatArg>;
+
+/**
+ * Add the `outputFormat` argument to a tool's argument shape
+ * @param shape - The tool's own argument shape
+ * @returns The shape including `outputFormat`
+ */
+export function withOutputFormatArg<Shape extends z.ZodRawShape>(
+	shape: Shape,
+): Shape & { outputFormat: typeof OutputFormatArg } {
+	return { ...shape, outputFormat: OutputFormatArg };
+}
+
+/**
+ * Wrap a tool handler so that its text content follows the `outputFormat`
+ * argument. The handler receives its arguments without `outputFormat`. With
+ * "json", the first text content is replaced by the structured content;
+ * error results and other content such as images are left as they are.
+ * @param handler - The tool handler
+ * @returns Handler for registration with the MCP server
+ */
+export function withOutputFormat<
+	R extends {
+		content: Array<{ type: string; text?: string }>;
+		structuredContent?: unknown;
+	},
+>(handler: (args: Record<string, unknown>) => Promise<R>) {
+	return async (args: Record<string, unknown>): Promise<R> => {
+		const { outputFormat, ...toolArgs } = args;
+		const result = await handler(toolArgs);
+		if (outputFormat !== 'json' || result.structuredContent === undefined) {
+			return result;
+		}
+
+		const json = JSON.stringify(result.structuredContent, null, 2);
+		const textIndex = result.content.findIndex(
+			(item) => item.type === 'text',
+		);
+		return {
+			...result,
+			content: result.content.map((item, index) =>
+				index === textIndex ? { ...item, text: json } : item,
+			),
+		};
+	};
+}
+
+let cliOutputFormat: OutputFormat = 'markdown';
+
+/**
+ * Set the output format of CLI commands, from the global `--json` option
+ * @param json - Whether commands print JSON
+ */
+export function setCliOutputFormat(json: boolean): void {
+	cliOutputFormat = json ? 'json' : 'markdown';
+}
+
+/**
+ * Whether CLI commands print JSON. Commands that print progress messages
+ * send them to stderr in that case, so that stdout stays parseable.
+ */
+export function isCliJsonOutput(): boolean {
+	return cliOutputFormat === 'json';
+}
+
+/**
+ * Print the result of a CLI command in the selected output format
+ * @param result - The controller response
+ */
+export function printCliResult(result: ControllerResponse): void {
+	console.log(
+		isCliJsonOutput()
+			? JSON.stringify(result.data, null, 2)
+			: result.content,
+	);
+}
@@ -0,0 +1,150 @@
+import {
+	collectPages,
+	extractPaginationInfo,
+	fetchPaginated,
+	iteratePages,
+	MAX_ITEMS_CEILING,
+	PaginationType,
+} from './pagination.util.js';
+
+/**
+ * Fake cursor-paginated API serving the numbers 1..total
+ */
+function cursorApi(total: number, pageSize: number) {
+	return jest.fn(async (cursor: string | undefined, remaining: number) => {
+		const start = cursor ? parseInt(cursor, 10) : 0;
+		const end = Math.min(total, start + Math.min(pageSize, remaining));
+		const results = Array.from(
+			{ length: end - start },
+			(_, i) => start + i + 1,
+		);
+		return {
+			results,
+			_links:
+				end < total ? { next: `/wiki/api/v2/pages?cursor=${end}` } : {},
+		};
+	});
+}
+
+describe('pagination.util', () => {
+	describe('extractPaginationInfo', () => {
+		it('reads the next offset of v1 responses from their next link', () => {
+			expect(
+				extractPaginationInfo(
+					{
+						results: [1, 2],
+						start: 0,
+						limit: 2,
+						size: 2,
+						_links: {
+							next: '/rest/api/content/1/child/comment?limit=2&start=2',
+						},
+					},
+					PaginationType.OFFSET,
+				),
+			).toEqual({ count: 2, hasMore: true, nextCursor: '2' });
+		});
+	});
+
+	describe('iteratePages', () => {
+		it('follows cursors until the last page', async () => {
+			const fetchPage = cursorApi(5, 2);
+			const counts: number[] = [];
+
+			for await (const { pagination } of iteratePages(
+				fetchPage,
+				PaginationType.CURSOR,
+			)) {
+				counts.push(pagination.count);
+			}
+
+			expect(counts).toEqual([2, 2, 1]);
+			expect(fetchPage.mock.calls.map(([cursor]) => cursor)).toEqual([
+				undefined,
+				'2',
+				'4',
+			]);
+		});
+
+		it('follows page numbers', async () => {
+			const fetchPage = jest.fn(async (cursor: string | undefined) => {
+				const page = cursor ? parseInt(cursor, 10) : 0;
+				return { results: [page], page, last: page === 2 };
+			});
+			const pages: number[] = [];
+
+			for await (const { page } of iteratePages(
+				fetchPage,
+				PaginationType.PAGE,
+			)) {
+				pages.push(page.page);
+			}
+
+			expect(pages).toEqual([0, 1, 2]);
+		});
+	});
+
+	describe('collectPages', () => {
+		it('stops at maxItems and reports truncation', async () => {
+			const fetchPage = cursorApi(10, 3);
+
+			const { results, pagination } = await collectPages(
+				fetchPage,
+				PaginationType.CURSOR,
+				{ maxItems: 4 },
+			);
+
+			expect(results).toEqual([1, 2, 3, 4]);
+			expect(fetchPage.mock.calls[1][1]).toBe(1);
+			expect(pagination).toEqual({
+				count: 4,
+				hasMore: true,
+				nextCursor: '4',
+				truncated: true,
+			});
+		});
+
+		it('caps maxItems at the hard ceiling', async () => {
+			const fetchPage = cursorApi(MAX_ITEMS_CEILING + 50, 250);
+
+			const { results, pagination } = await collectPages(
+				fetchPage,
+				PaginationType.CURSOR,
+				{ maxItems: MAX_ITEMS_CEILING * 2 },
+			);
+
+			expect(results).toHaveLength(MAX_ITEMS_CEILING);
+			expect(pagination.truncated).toBe(true);
+		});
+	});
+
+	describe('fetchPaginated', () => {
+		it('fetches a single page without maxItems', async () => {
+			const fetchPage = cursorApi(10, 3);
+
+			const { data, pagination } = await fetchPaginated(
+				fetchPage,
+				PaginationType.CURSOR,
+				{ cursor: '3' },
+			);
+
+			expect(data.results).toEqual([4, 5, 6]);
+			expect(pagination).toEqual({
+				count: 3,
+				hasMore: true,
+				nextCursor: '6',
+			});
+		});
+
+		it('returns all results when they fit', async () => {
+			const { data, pagination } = await fetchPaginated(
+				cursorApi(5, 2),
+				PaginationType.CURSOR,
+				{ maxItems: 100 },
+			);
+
+			expect(data.results).toEqual([1, 2, 3, 4, 5]);
+			expect(pagination).toEqual({ count: 5, hasMore: false });
+		});
+	});
+});
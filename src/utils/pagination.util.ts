@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { Logger } from './logger.util.js';
 
 const paginationLogger = Logger.forContext('utils/pagination.util.ts');
@@ -153,6 +154,10 @@ export interface ResponsePagination {
 	 * Total number of items, if available
 	 */
 	total?: number;
+	/**
+	 * Whether collecting several pages stopped at the requested maximum
+	 */
+	truncated?: boolean;
 }
 
 /**
@@ -209,6 +214,10 @@ export function extractPaginationInfo(
 				} else {
 					hasMore = false;
 				}
+				// Some cursor-paged endpoints (e.g. search) also report the total
+				if ((adaptedData as OffsetPaginationData).total !== undefined) {
+					total = (adaptedData as OffsetPaginationData).total;
+				}
 				break;
 
 			case PaginationType.OFFSET: {
@@ -225,6 +234,14 @@ export function extractPaginationInfo(
 					total = offsetData.total;
 				} else if (offsetData.isLast !== undefined) {
 					hasMore = !offsetData.isLast;
+				} else if (adaptedData._links?.next) {
+					// The v1 API reports the next offset only in its next link
+					hasMore = true;
+					const startMatch =
+						adaptedData._links.next.match(/[?&]start=(\d+)/);
+					if (startMatch) {
+						nextCursor = startMatch[1];
+					}
 				}
 				break;
 			}
@@ -269,3 +286,168 @@ export function extractPaginationInfo(
 		};
 	}
 }
+
+/**
+ * Hard ceiling on the number of items collected across pages in one call
+ */
+export const MAX_ITEMS_CEILING = 1000;
+
+/**
+ * Optional argument of list tools that collects several pages in one call
+ */
+export const MaxItemsArg = z
+	.number()
+	.int()
+	.min(1)
+	.max(MAX_ITEMS_CEILING)
+	.optional()
+	.describe(
+		`Optional: Fetch pages of results on the server until this many items are collected (1-${MAX_ITEMS_CEILING}), instead of returning a single page. \`limit\` then sets the page size of each request. If more items exist, the response says so and includes the cursor to continue from.`,
+	);
+
+/**
+ * A page of results together with its standardized pagination
+ */
+export interface PageOfResults<R> {
+	page: R;
+	pagination: ResponsePagination;
+}
+
+/**
+ * Fetches one page of results
+ * @param cursor Cursor of the page to fetch, or undefined for the first page
+ * @param remaining Number of items still wanted, to size the request
+ */
+export type PageFetcher<R> = (
+	cursor: string | undefined,
+	remaining: number,
+) => Promise<R>;
+
+/**
+ * Iterate over the pages of a paginated API response, following the next
+ * cursor of each page until no more pages are available
+ * @param fetchPage Fetches one page
+ * @param type Pagination style of the API
+ * @param options.cursor Cursor to start from
+ * @param options.maxItems Stop once this many items were fetched
+ * @param options.entityType Entity type for logging
+ */
+export async function* iteratePages<R>(
+	fetchPage: PageFetcher<R>,
+	type: PaginationType,
+	options: { cursor?: string; maxItems?: number; entityType?: string } = {},
+): AsyncGenerator<PageOfResults<R>> {
+	const maxItems = options.maxItems ?? Number.POSITIVE_INFINITY;
+	let cursor = options.cursor;
+	let fetched = 0;
+
+	for (;;) {
+		const page = await fetchPage(cursor, maxItems - fetched);
+		const pagination = extractPaginationInfo(
+			page,
+			type,
+			options.entityType,
+		) ?? { count: 0, hasMore: false };
+		fetched += pagination.count;
+
+		yield { page, pagination };
+
+		if (
+			!pagination.hasMore ||
+			!pagination.nextCursor ||
+			pagination.nextCursor === cursor ||
+			pagination.count === 0 ||
+			fetched >= maxItems
+		) {
+			return;
+		}
+		cursor = pagination.nextCursor;
+	}
+}
+
+/**
+ * Collect the results of several pages into one list, up to a maximum
+ * @param fetchPage Fetches one page; the page size should not exceed `remaining`
+ * @param type Pagination style of the API
+ * @param options.cursor Cursor to start from
+ * @param options.maxItems Maximum number of items, capped at MAX_ITEMS_CEILING
+ * @param options.entityType Entity type for logging
+ * @returns The collected results, the last page fetched and the pagination of
+ * the whole list, marked as truncated if more items were available
+ */
+export async function collectPages<T, R extends { results: T[] }>(
+	fetchPage: PageFetcher<R>,
+	type: PaginationType,
+	options: { cursor?: string; maxItems?: number; entityType?: string } = {},
+): Promise<{ results: T[]; lastPage: R; pagination: ResponsePagination }> {
+	const maxItems = Math.min(
+		options.maxItems ?? MAX_ITEMS_CEILING,
+		MAX_ITEMS_CEILING,
+	);
+	const results: T[] = [];
+	let last: PageOfResults<R> | undefined;
+
+	for await (const current of iteratePages(fetchPage, type, {
+		...options,
+		maxItems,
+	})) {
+		results.push(...current.page.results);
+		last = current;
+	}
+
+	if (!last) {
+		throw new Error('Pagination produced no pages');
+	}
+
+	const truncated = results.length > maxItems || last.pagination.hasMore;
+	paginationLogger.debug(
+		`Collected ${results.length} ${options.entityType || 'items'} from several pages${truncated ? ' (truncated)' : ''}`,
+	);
+
+	return {
+		results: results.slice(0, maxItems),
+		lastPage: last.page,
+		pagination: {
+			count: Math.min(results.length, maxItems),
+			hasMore: truncated,
+			...(results.length <= maxItems &&
+				last.pagination.nextCursor && {
+					nextCursor: last.pagination.nextCursor,
+				}),
+			...(last.pagination.total !== undefined && {
+				total: last.pagination.total,
+			}),
+			...(truncated && { truncated }),
+		},
+	};
+}
+
+/**
+ * Fetch a single page, or collect several pages when `maxItems` is given
+ * @param fetchPage Fetches one page; the page size should not exceed `remaining`
+ * @param type Pagination style of the API
+ * @param options.cursor Cursor to start from
+ * @param options.maxItems Maximum number of items to collect across pages
+ * @param options.entityType Entity type for logging
+ * @returns The response, holding all collected results, and its pagination
+ */
+export async function fetchPaginated<T, R extends { results: T[] }>(
+	fetchPage: PageFetcher<R>,
+	type: PaginationType,
+	options: { cursor?: string; maxItems?: number; entityType?: string } = {},
+): Promise<{ data: R; pagination: ResponsePagination | undefined }> {
+	if (options.maxItems === undefined) {
+		const data = await fetchPage(options.cursor, Number.POSITIVE_INFINITY);
+		return {
+			data,
+			pagination: extractPaginationInfo(data, type, options.entityType),
+		};
+	}
+
+	const { results, lastPage, pagination } = await collectPages<T, R>(
+		fetchPage,
+		type,
+		options,
+	);
+	return { data: { ...lastPage, results }, pagination };
+}
@@ -0,0 +1,66 @@
+import { RequestLimiter } from './rate-limiter.util.js';
+
+describe('rate-limiter.util', () => {
+	it('caps the number of requests in flight', async () => {
+		const limiter = new RequestLimiter({
+			requestsPerSecond: 0,
+			burst: 1,
+			maxConcurrent: 2,
+		});
+
+		const first = await limiter.acquire();
+		await limiter.acquire();
+
+		let thirdStarted = false;
+		const third = limiter.acquire().then((release) => {
+			thirdStarted = true;
+			return release;
+		});
+
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(thirdStarted).toBe(false);
+		expect(limiter.queueDepth).toBe(1);
+
+		first();
+		await third;
+		expect(thirdStarted).toBe(true);
+		expect(limiter.queueDepth).toBe(0);
+	});
+
+	it('ignores repeated releases of the same slot', async () => {
+		const limiter = new RequestLimiter({
+			requestsPerSecond: 0,
+			burst: 1,
+			maxConcurrent: 1,
+		});
+
+		const release = await limiter.acquire();
+		release();
+		release();
+
+		// Only one slot was freed, so one more request gets in and the next waits
+		await limiter.acquire();
+		void limiter.acquire();
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(limiter.queueDepth).toBe(1);
+	});
+
+	it('spaces requests out once the burst is used up', async () => {
+		const limiter = new RequestLimiter({
+			requestsPerSecond: 50,
+			burst: 2,
+			maxConcurrent: 0,
+		});
+
+		const start = Date.now();
+		await Promise.all([
+			limiter.acquire(),
+			limiter.acquire(),
+			limiter.acquire(),
+			limiter.acquire(),
+		]);
+
+		// Two requests use the burst, the other two wait ~20ms each
+		expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+	});
+});
@@ -0,0 +1,202 @@
+/**
+ * Client-side limits for Atlassian API calls.
+ * A token bucket caps the request rate and a semaphore caps the number of
+ * requests in flight, so that parallel tool calls and several MCP clients
+ * stay below Atlassian's rate limits. Each site gets its own limiter.
+ */
+
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { sleep } from './retry.util.js';
+
+/**
+ * Limiter settings
+ */
+export interface RequestLimiterSettings {
+	/**
+	 * Sustained requests per second; 0 disables rate limiting
+	 */
+	requestsPerSecond: number;
+	/**
+	 * Requests that may be sent at once before the rate applies
+	 */
+	burst: number;
+	/**
+	 * Requests in flight at the same time; 0 disables the limit
+	 */
+	maxConcurrent: number;
+}
+
+const DEFAULT_REQUESTS_PER_SECOND = 10;
+const DEFAULT_BURST = 20;
+const DEFAULT_MAX_CONCURRENT = 5;
+
+const limiterLogger = Logger.forContext('utils/rate-limiter.util.ts');
+
+/**
+ * Token bucket plus semaphore. acquire() resolves once a request may be sent
+ * and returns the function that frees its slot again.
+ */
+export class RequestLimiter {
+	private tokens: number;
+	private lastRefill: number;
+	private inFlight = 0;
+	private readonly waiting: Array<() => void> = [];
+
+	/**
+	 * Create a limiter
+	 * @param settings Limiter settings
+	 * @param name Name used in log messages
+	 */
+	constructor(
+		private readonly settings: RequestLimiterSettings,
+		private readonly name: string = 'default',
+	) {
+		this.tokens = settings.burst;
+		this.lastRefill = Date.now();
+	}
+
+	/**
+	 * Number of requests waiting for a slot
+	 */
+	get queueDepth(): number {
+		return this.waiting.length;
+	}
+
+	/**
+	 * Wait until a request may be sent
+	 * @returns Function to call once the request has completed
+	 */
+	async acquire(): Promise<() => void> {
+		const methodLogger = limiterLogger.forMethod('acquire');
+		const queuedAt = Date.now();
+		const queueDepth = this.waiting.length;
+
+		await this.acquireSlot();
+		await this.takeToken();
+
+		const waitMs = Date.now() - queuedAt;
+		if (waitMs > 0) {
+			methodLogger.debug(
+				`[${this.name}] Waited ${waitMs}ms to send a request (queue depth ${queueDepth}, in flight ${this.inFlight}, tokens ${this.tokens.toFixed(1)})`,
+			);
+		}
+
+		let released = false;
+		return () => {
+			if (!released) {
+				released = true;
+				this.releaseSlot();
+			}
+		};
+	}
+
+	/**
+	 * Take a concurrency slot, waiting in line if all are in use
+	 */
+	private async acquireSlot(): Promise<void> {
+		if (
+			this.settings.maxConcurrent <= 0 ||
+			this.inFlight < this.settings.maxConcurrent
+		) {
+			this.inFlight++;
+			return;
+		}
+		// The releasing request hands its slot over, so inFlight stays the same
+		await new Promise<void>((resolve) => this.waiting.push(resolve));
+	}
+
+	/**
+	 * Free a concurrency slot, handing it to the next request in line
+	 */
+	private releaseSlot(): void {
+		const next = this.waiting.shift();
+		if (next) {
+			next();
+		} else {
+			this.inFlight--;
+		}
+	}
+
+	/**
+	 * Take a token from the bucket, waiting for it to refill if it is empty
+	 */
+	private async takeToken(): Promise<void> {
+		const { requestsPerSecond, burst } = this.settings;
+		if (requestsPerSecond <= 0) {
+			return;
+		}
+
+		for (;;) {
+			const now = Date.now();
+			this.tokens = Math.min(
+				burst,
+				this.tokens +
+					((now - this.lastRefill) / 1000) * requestsPerSecond,
+			);
+			this.lastRefill = now;
+
+			if (this.tokens >= 1) {
+				this.tokens -= 1;
+				return;
+			}
+			await sleep(
+				Math.ceil(((1 - this.tokens) / requestsPerSecond) * 1000),
+			);
+		}
+	}
+}
+
+const limiters = new Map<string, RequestLimiter>();
+
+/**
+ * Read a non-negative number setting, falling back to a default
+ */
+function getNumberSetting(key: string, defaultValue: number): number {
+	const raw = config.get(key);
+	const value = Number(raw);
+	return raw !== undefined && Number.isFinite(value) && value >= 0
+		? value
+		: defaultValue;
+}
+
+/**
+ * Get the limiter settings from ATLASSIAN_RATE_LIMIT_PER_SECOND,
+ * ATLASSIAN_RATE_LIMIT_BURST and ATLASSIAN_MAX_CONCURRENT_REQUESTS. Site
+ * profiles can set their own values.
+ */
+export function getRequestLimiterSettings(): RequestLimiterSettings {
+	return {
+		requestsPerSecond: getNumberSetting(
+			'ATLASSIAN_RATE_LIMIT_PER_SECOND',
+			DEFAULT_REQUESTS_PER_SECOND,
+		),
+		burst: Math.max(
+			1,
+			getNumberSetting('ATLASSIAN_RATE_LIMIT_BURST', DEFAULT_BURST),
+		),
+		maxConcurrent: getNumberSetting(
+			'ATLASSIAN_MAX_CONCURRENT_REQUESTS',
+			DEFAULT_MAX_CONCURRENT,
+		),
+	};
+}
+
+/**
+ * Get the limiter shared by all requests to a site, creating it with the
+ * current settings on first use
+ * @param siteKey Identifies the site, e.g. its base URL
+ */
+export function getRequestLimiter(siteKey: string): RequestLimiter {
+	let limiter = limiters.get(siteKey);
+	if (!limiter) {
+		const settings = getRequestLimiterSettings();
+		limiterLogger.debug(
+			`Creating request limiter for ${siteKey}`,
+			settings,
+		);
+		limiter = new RequestLimiter(settings, siteKey);
+		limiters.set(siteKey, limiter);
+	}
+	return limiter;
+}
@@ -0,0 +1,92 @@
+import {
+	getRequestContext,
+	resolveRequestCredentials,
+	runWithRequestContext,
+} from './request-context.util.js';
+import { getAtlassianCredentials } from './transport.util.js';
+
+describe('request-context.util', () => {
+	const originalSiteName = process.env.ATLASSIAN_SITE_NAME;
+	const originalBaseUrl = process.env.ATLASSIAN_BASE_URL;
+
+	afterEach(() => {
+		if (originalSiteName) {
+			process.env.ATLASSIAN_SITE_NAME = originalSiteName;
+		} else {
+			delete process.env.ATLASSIAN_SITE_NAME;
+		}
+		if (originalBaseUrl) {
+			process.env.ATLASSIAN_BASE_URL = originalBaseUrl;
+		} else {
+			delete process.env.ATLASSIAN_BASE_URL;
+		}
+	});
+
+	it('has no context outside of a request', () => {
+		expect(getRequestContext()).toBeUndefined();
+	});
+
+	it('makes forwarded credentials visible to async work in the request', async () => {
+		const credentials = {
+			siteName: 'team',
+			userEmail: 'user@example.com',
+			apiToken: 'token',
+		};
+
+		const seen = await runWithRequestContext(
+			{ sessionId: 'session-1', credentials },
+			async () => {
+				await new Promise((resolve) => setTimeout(resolve, 1));
+				return getAtlassianCredentials();
+			},
+		);
+
+		expect(seen).toBe(credentials);
+		expect(getRequestContext()).toBeUndefined();
+	});
+
+	it('returns undefined without an Authorization header', async () => {
+		await expect(resolveRequestCredentials(undefined)).resolves.toBe(
+			undefined,
+		);
+	});
+
+	it('forwards basic credentials for the configured site', async () => {
+		process.env.ATLASSIAN_SITE_NAME = 'team';
+		delete process.env.ATLASSIAN_BASE_URL;
+		const header = `Basic ${Buffer.from('user@example.com:secret:part').toString('base64')}`;
+
+		await expect(resolveRequestCredentials(header)).resolves.toEqual({
+			siteName: 'team',
+			userEmail: 'user@example.com',
+			apiToken: 'secret:part',
+		});
+	});
+
+	it('treats bearer tokens as Personal Access Tokens on Server / Data Center', async () => {
+		delete process.env.ATLASSIAN_SITE_NAME;
+		process.env.ATLASSIAN_BASE_URL = 'https://confluence.example.com/wiki';
+
+		await expect(
+			resolveRequestCredentials('Bearer pat-123'),
+		).resolves.toEqual({
+			siteName: 'confluence.example.com',
+			baseUrl: 'https://confluence.example.com/wiki',
+			personalAccessToken: 'pat-123',
+		});
+	});
+
+	it('rejects malformed and unsupported headers', async () => {
+		await expect(resolveRequestCredentials('Bearer')).rejects.toThrow(
+			'Malformed Authorization header.',
+		);
+		await expect(resolveRequestCredentials('Digest abc')).rejects.toThrow(
+			'Unsupported authorization scheme',
+		);
+		await expect(
+			resolveRequestCredentials(
+				`Basic ${Buffer.from('no-separator').toString('base64')}`,
+			),
+		).rejects.toThrow('Basic credentials must be');
+	});
+});
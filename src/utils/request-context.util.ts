@@ -0,0 +1,139 @@
+/**
+ * Per-request context for the HTTP transport.
+ * Carries the identity of the MCP client down to fetchAtlassian through
+ * AsyncLocalStorage, so that one server can act for several users.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { getConfiguredBaseUrl, isAtlassianCloudUrl } from './url.util.js';
+import { createAuthInvalidError } from './error.util.js';
+import {
+	getAccessibleResources,
+	selectAccessibleResource,
+} from './oauth.util.js';
+import type { AtlassianCredentials } from './transport.util.js';
+
+/**
+ * Context available to everything that runs while handling a request
+ */
+export interface RequestContext {
+	/**
+	 * MCP session the request belongs to
+	 */
+	sessionId?: string;
+	/**
+	 * Credentials forwarded by the client; when absent the process-wide
+	 * configuration is used
+	 */
+	credentials?: AtlassianCredentials;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+const utilLogger = Logger.forContext('utils/request-context.util.ts');
+
+/**
+ * Run a function with the given request context
+ * @param context - Context for the duration of the call, including async work it starts
+ * @param fn - Function to run
+ * @returns The function's result
+ */
+export function runWithRequestContext<T>(
+	context: RequestContext,
+	fn: () => T,
+): T {
+	return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the request being handled
+ * @returns The context, or undefined outside of a request (STDIO and CLI modes)
+ */
+export function getRequestContext(): RequestContext | undefined {
+	return storage.getStore();
+}
+
+/**
+ * Resolve the Atlassian credentials an HTTP client sent in its Authorization header.
+ *
+ * - `Basic base64(email:api-token)` is forwarded as Atlassian basic auth.
+ * - `Bearer <token>` is a Personal Access Token on Server / Data Center, and an
+ *   OAuth 2.0 (3LO) access token on Cloud. For OAuth the site is looked up from
+ *   the sites the token grants access to, matching ATLASSIAN_SITE_NAME if set.
+ *
+ * @param authorization - Value of the Authorization header
+ * @returns The credentials, or undefined if no Authorization header was sent
+ * @throws Error if the header is malformed or the token grants no usable site
+ */
+export async function resolveRequestCredentials(
+	authorization?: string,
+): Promise<AtlassianCredentials | undefined> {
+	if (!authorization) {
+		return undefined;
+	}
+
+	const [scheme, value] = authorization.trim().split(/\s+/, 2);
+	if (!value) {
+		throw createAuthInvalidError('Malformed Authorization header.');
+	}
+
+	const baseUrl = getConfiguredBaseUrl();
+	const siteName = config.get('ATLASSIAN_SITE_NAME');
+	const serverBaseUrl =
+		baseUrl && !isAtlassianCloudUrl(baseUrl) ? baseUrl : undefined;
+
+	if (scheme.toLowerCase() === 'basic') {
+		const decoded = Buffer.from(value, 'base64').toString('utf8');
+		const separator = decoded.indexOf(':');
+		if (separator <= 0) {
+			throw createAuthInvalidError(
+				'Basic credentials must be "email:api-token" encoded in base64.',
+			);
+		}
+		const site = siteName || (baseUrl && new URL(baseUrl).hostname);
+		if (!site) {
+			throw createAuthInvalidError(
+				'The server has no Confluence site configured. Set ATLASSIAN_SITE_NAME or ATLASSIAN_BASE_URL.',
+			);
+		}
+		return {
+			siteName: site,
+			...(baseUrl && { baseUrl }),
+			userEmail: decoded.slice(0, separator),
+			apiToken: decoded.slice(separator + 1),
+		};
+	}
+
+	if (scheme.toLowerCase() !== 'bearer') {
+		throw createAuthInvalidError(
+			`Unsupported authorization scheme "${scheme}". Use Basic or Bearer.`,
+		);
+	}
+
+	if (serverBaseUrl) {
+		return {
+			siteName: siteName || new URL(serverBaseUrl).hostname,
+			baseUrl: serverBaseUrl,
+			personalAccessToken: value,
+		};
+	}
+
+	const site = selectAccessibleResource(
+		await getAccessibleResources(value),
+		siteName,
+	);
+	utilLogger.debug(`Resolved bearer token to site ${site.url}`);
+
+	return {
+		siteName: new URL(site.url).hostname.replace(/\.atlassian\.net$/i, ''),
+		oauthTokens: {
+			accessToken: value,
+			// The client refreshes forwarded tokens itself
+			expiresAt: Number.POSITIVE_INFINITY,
+			cloudId: site.id,
+			siteUrl: site.url,
+		},
+	};
+}
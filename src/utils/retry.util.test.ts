@@ -0,0 +1,77 @@
+import {
+	getRetryDelayMs,
+	getServerRequestedDelayMs,
+	isRetryableStatus,
+	RetryPolicy,
+} from './retry.util.js';
+
+describe('retry.util', () => {
+	const policy: RetryPolicy = {
+		maxRetries: 3,
+		baseDelayMs: 1000,
+		maxDelayMs: 30000,
+	};
+
+	it('retries rate limiting and server errors only', () => {
+		expect(isRetryableStatus(429)).toBe(true);
+		expect(isRetryableStatus(500)).toBe(true);
+		expect(isRetryableStatus(503)).toBe(true);
+		expect(isRetryableStatus(501)).toBe(false);
+		expect(isRetryableStatus(404)).toBe(false);
+		expect(isRetryableStatus(409)).toBe(false);
+	});
+
+	it('reads Retry-After in seconds and as an HTTP date', () => {
+		const now = Date.parse('2025-01-01T00:00:00Z');
+
+		expect(
+			getServerRequestedDelayMs(new Headers({ 'Retry-After': '5' }), now),
+		).toBe(5000);
+		expect(
+			getServerRequestedDelayMs(
+				new Headers({ 'Retry-After': 'Wed, 01 Jan 2025 00:00:10 GMT' }),
+				now,
+			),
+		).toBe(10000);
+	});
+
+	it('uses X-RateLimit-Reset once the limit is used up', () => {
+		const now = Date.parse('2025-01-01T00:00:00Z');
+		const reset = '2025-01-01T00:00:02Z';
+
+		expect(
+			getServerRequestedDelayMs(
+				new Headers({
+					'X-RateLimit-Remaining': '0',
+					'X-RateLimit-Reset': reset,
+				}),
+				now,
+			),
+		).toBe(2000);
+		expect(
+			getServerRequestedDelayMs(
+				new Headers({
+					'X-RateLimit-Remaining': '10',
+					'X-RateLimit-Reset': reset,
+				}),
+				now,
+			),
+		).toBeUndefined();
+	});
+
+	it('backs off exponentially with jitter, capped at the maximum delay', () => {
+		expect(getRetryDelayMs(undefined, 0, policy, () => 0)).toBe(500);
+		expect(getRetryDelayMs(undefined, 0, policy, () => 0.999)).toBe(1000);
+		expect(getRetryDelayMs(undefined, 2, policy, () => 0)).toBe(2000);
+		expect(getRetryDelayMs(undefined, 10, policy, () => 0.999)).toBe(29985);
+	});
+
+	it('gives up when the server asks for a longer wait than allowed', () => {
+		expect(
+			getRetryDelayMs(new Headers({ 'Retry-After': '120' }), 0, policy),
+		).toBeUndefined();
+		expect(
+			getRetryDelayMs(new Headers({ 'Retry-After': '3' }), 0, policy),
+		).toBe(3000);
+	});
+});
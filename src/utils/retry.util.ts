@@ -0,0 +1,143 @@
+/**
+ * Retry policy for Atlassian API requests.
+ * Computes backoff delays for rate-limited (429) and failed (5xx) requests,
+ * honoring the Retry-After and X-RateLimit-* headers Atlassian sends.
+ */
+
+import { config } from './config.util.js';
+
+/**
+ * Retry settings, read from the configuration
+ */
+export interface RetryPolicy {
+	/**
+	 * How many times a request is retried before giving up
+	 */
+	maxRetries: number;
+	/**
+	 * Delay before the first retry when the server gives no hint, in milliseconds
+	 */
+	baseDelayMs: number;
+	/**
+	 * Longest single wait, in milliseconds. A server asking for a longer wait
+	 * ends the retries.
+	 */
+	maxDelayMs: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * Prefix of the error message once all retries failed. detectErrorType relies
+ * on it to tell an exhausted retry budget from a single failed request.
+ */
+export const RETRY_EXHAUSTED_MESSAGE_PREFIX = 'Retry budget exhausted';
+
+/**
+ * Read a non-negative integer setting, falling back to a default
+ */
+function getIntegerSetting(key: string, defaultValue: number): number {
+	const value = Number(config.get(key));
+	return Number.isInteger(value) && value >= 0 ? value : defaultValue;
+}
+
+/**
+ * Get the retry policy from ATLASSIAN_MAX_RETRIES, ATLASSIAN_RETRY_BASE_DELAY_MS
+ * and ATLASSIAN_RETRY_MAX_DELAY_MS. Set ATLASSIAN_MAX_RETRIES to 0 to disable retries.
+ */
+export function getRetryPolicy(): RetryPolicy {
+	return {
+		maxRetries: getIntegerSetting(
+			'ATLASSIAN_MAX_RETRIES',
+			DEFAULT_MAX_RETRIES,
+		),
+		baseDelayMs: getIntegerSetting(
+			'ATLASSIAN_RETRY_BASE_DELAY_MS',
+			DEFAULT_BASE_DELAY_MS,
+		),
+		maxDelayMs: getIntegerSetting(
+			'ATLASSIAN_RETRY_MAX_DELAY_MS',
+			DEFAULT_MAX_DELAY_MS,
+		),
+	};
+}
+
+/**
+ * Determine whether a response status is worth retrying: rate limiting and
+ * server errors other than "not implemented"
+ */
+export function isRetryableStatus(status: number): boolean {
+	return status === 429 || (status >= 500 && status !== 501);
+}
+
+/**
+ * Get the wait the server asked for, in milliseconds
+ * @param headers - Response headers
+ * @param now - Current time, for date-based headers
+ * @returns The requested wait, or undefined if the server gave no hint
+ */
+export function getServerRequestedDelayMs(
+	headers: Headers,
+	now: number = Date.now(),
+): number | undefined {
+	const retryAfter = headers.get('retry-after');
+	if (retryAfter) {
+		// Either a number of seconds or an HTTP date
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - now);
+		}
+	}
+
+	// Atlassian reports when the rate limit window resets as an ISO timestamp
+	const reset = headers.get('x-ratelimit-reset');
+	if (reset && headers.get('x-ratelimit-remaining') === '0') {
+		const date = Date.parse(reset);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - now);
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Compute the wait before the next retry
+ * @param headers - Headers of the failed response, if any
+ * @param retry - Number of the upcoming retry, starting at 0
+ * @param policy - Retry policy
+ * @param random - Random number source in [0, 1), for jitter
+ * @returns The wait in milliseconds, or undefined if the server asked for a
+ * longer wait than the policy allows
+ */
+export function getRetryDelayMs(
+	headers: Headers | undefined,
+	retry: number,
+	policy: RetryPolicy,
+	random: () => number = Math.random,
+): number | undefined {
+	const requested = headers ? getServerRequestedDelayMs(headers) : undefined;
+	if (requested !== undefined) {
+		return requested <= policy.maxDelayMs ? requested : undefined;
+	}
+
+	// Exponential backoff, jittered between half and the full delay
+	const ceiling = Math.min(
+		policy.maxDelayMs,
+		policy.baseDelayMs * 2 ** retry,
+	);
+	return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,52 @@
+import { withSite, withSiteArg, SiteArg } from './site.util.js';
+import { config, DEFAULT_SITE_PROFILE } from './config.util.js';
+
+describe('site.util', () => {
+	it('adds the optional site argument to a tool shape', () => {
+		const shape = withSiteArg({});
+
+		expect(shape.site).toBe(SiteArg);
+		expect(SiteArg.safeParse(undefined).success).toBe(true);
+	});
+
+	it('passes the arguments without site to the handler', async () => {
+		const handler = jest.fn(async (args: Record<string, unknown>) => ({
+			args,
+			site: config.getSite(),
+		}));
+
+		const result = await withSite(handler)({
+			pageId: '123',
+			site: DEFAULT_SITE_PROFILE,
+		});
+
+		expect(handler).toHaveBeenCalledWith({ pageId: '123' });
+		expect(result).toEqual({
+			args: { pageId: '123' },
+			site: DEFAULT_SITE_PROFILE,
+		});
+	});
+
+	it('returns a tool error for unknown sites without calling the handler', async () => {
+		const handler = jest.fn();
+
+		const result = await withSite(handler)({ site: 'no-such-site' });
+
+		expect(handler).not.toHaveBeenCalled();
+		expect(result).toMatchObject({
+			content: [
+				{
+					type: 'text',
+					text: expect.stringContaining(
+						'Unknown site "no-such-site"',
+					),
+				},
+			],
+		});
+	});
+
+	it('lists the default site first', () => {
+		expect(config.getSiteNames()[0]).toBe(DEFAULT_SITE_PROFILE);
+		expect(config.getSite()).toBe(DEFAULT_SITE_PROFILE);
+	});
+});
@@ -0,0 +1,53 @@
+/**
+ * Site profile selection for MCP tools.
+ * Every tool accepts an optional `site` argument naming a profile from the
+ * `sites` block of the global config file; the tool then runs against that site.
+ */
+
+import { z } from 'zod';
+import { config } from './config.util.js';
+import { formatErrorForMcpTool } from './error.util.js';
+
+/**
+ * Optional site profile argument shared by all tools
+ */
+export const SiteArg = z
+	.string()
+	.optional()
+	.describe(
+		'Optional: name of the configured Confluence site to use, as listed by `conf_ls_sites`. Defaults to the default site.',
+	);
+
+/**
+ * Add the `site` argument to a tool's argument shape
+ * @param shape - The tool's own argument shape
+ * @returns The shape including `site`
+ */
+export function withSiteArg<Shape extends z.ZodRawShape>(
+	shape: Shape,
+): Shape & { site: typeof SiteArg } {
+	return { ...shape, site: SiteArg };
+}
+
+/**
+ * Wrap a tool handler so that it runs against the site named in its `site`
+ * argument. The handler receives its arguments without `site`.
+ * @param handler - The tool handler
+ * @returns Handler for registration with the MCP server
+ */
+export function withSite<R>(
+	handler: (args: Record<string, unknown>) => Promise<R>,
+) {
+	return async (
+		args: Record<string, unknown>,
+	): Promise<R | ReturnType<typeof formatErrorForMcpTool>> => {
+		const { site, ...toolArgs } = args;
+		try {
+			return await config.withSite(site as string | undefined, () =>
+				handler(toolArgs),
+			);
+		} catch (error) {
+			return formatErrorForMcpTool(error);
+		}
+	};
+}
@@ -0,0 +1,98 @@
+import {
+	SubscriptionPoller,
+	getSubscribablePageId,
+	getSubscriptionPollerSettings,
+} from './subscription.util.js';
+
+const SETTINGS = { intervalMs: 60000, maxSubscriptions: 2 };
+
+describe('subscription.util', () => {
+	describe('getSubscribablePageId', () => {
+		it('accepts page resources only', () => {
+			expect(getSubscribablePageId('confluence://page/123')).toBe('123');
+			expect(
+				getSubscribablePageId('confluence://page/123/comments'),
+			).toBeUndefined();
+			expect(
+				getSubscribablePageId('confluence://space/DEV'),
+			).toBeUndefined();
+		});
+	});
+
+	describe('getSubscriptionPollerSettings', () => {
+		afterEach(() => {
+			delete process.env.ATLASSIAN_SUBSCRIPTION_POLL_SECONDS;
+		});
+
+		it('enforces a minimum poll interval', () => {
+			process.env.ATLASSIAN_SUBSCRIPTION_POLL_SECONDS = '1';
+			expect(getSubscriptionPollerSettings().intervalMs).toBe(10000);
+		});
+	});
+
+	describe('SubscriptionPoller', () => {
+		let versions: Record<string, number>;
+		let onUpdated: jest.Mock;
+		let poller: SubscriptionPoller;
+
+		beforeEach(() => {
+			versions = { '1': 3, '2': 7 };
+			onUpdated = jest.fn(async () => {});
+			poller = new SubscriptionPoller(
+				{
+					getVersion: async (pageId) => {
+						if (!(pageId in versions)) {
+							throw new Error(`Page ${pageId} not found`);
+						}
+						return versions[pageId];
+					},
+					onUpdated,
+				},
+				SETTINGS,
+			);
+		});
+
+		afterEach(() => {
+			poller.stop();
+		});
+
+		it('reports only pages whose version changed', async () => {
+			await poller.subscribe('confluence://page/1');
+			await poller.subscribe('confluence://page/2');
+			versions['2'] = 8;
+
+			await poller.poll();
+			await poller.poll();
+
+			expect(onUpdated.mock.calls).toEqual([['confluence://page/2']]);
+		});
+
+		it('rejects other resources, missing pages and subscriptions over the cap', async () => {
+			await expect(
+				poller.subscribe('confluence://space/DEV'),
+			).rejects.toThrow('Only pages');
+			await expect(
+				poller.subscribe('confluence://page/9'),
+			).rejects.toThrow('not found');
+
+			await poller.subscribe('confluence://page/1');
+			await poller.subscribe('confluence://page/2');
+			versions['3'] = 1;
+			await expect(
+				poller.subscribe('confluence://page/3'),
+			).rejects.toThrow('Subscription limit reached');
+			expect(poller.size).toBe(2);
+		});
+
+		it('stops reporting after unsubscribing', async () => {
+			await poller.subscribe('confluence://page/1');
+			poller.unsubscribe('confluence://page/1');
+			versions['1'] = 4;
+
+			await poller.poll();
+
+			expect(onUpdated).not.toHaveBeenCalled();
+			expect(poller.size).toBe(0);
+		});
+	});
+});
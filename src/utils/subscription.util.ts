@@ -0,0 +1,213 @@
+/**
+ * Change polling for MCP resource subscriptions.
+ * Confluence does not push changes, so subscribed pages are polled: each poll
+ * reads the page's version number and reports the page as updated when the
+ * number differs from the one seen before. Each MCP session has its own poller.
+ */
+
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+
+/**
+ * Poller settings
+ */
+export interface SubscriptionPollerSettings {
+	/**
+	 * Time between polls, in milliseconds
+	 */
+	intervalMs: number;
+	/**
+	 * Subscriptions one session may hold at the same time
+	 */
+	maxSubscriptions: number;
+}
+
+/**
+ * Callbacks connecting the poller to Confluence and to the MCP session
+ */
+export interface SubscriptionPollerCallbacks {
+	/**
+	 * Get the current version number of a page
+	 */
+	getVersion: (pageId: string) => Promise<number>;
+	/**
+	 * Report a changed resource to the client
+	 */
+	onUpdated: (uri: string) => Promise<void>;
+	/**
+	 * Run a poll, e.g. with the credentials of the session; defaults to
+	 * calling the function as is
+	 */
+	runPoll?: <T>(poll: () => Promise<T>) => Promise<T>;
+}
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+const MIN_POLL_INTERVAL_SECONDS = 10;
+const DEFAULT_MAX_SUBSCRIPTIONS = 50;
+
+const PAGE_URI_PATTERN = /^confluence:\/\/page\/(\d+)$/;
+
+const subscriptionLogger = Logger.forContext('utils/subscription.util.ts');
+
+/**
+ * Get the ID of the page a resource URI refers to
+ * @param uri - The resource URI, e.g. confluence://page/123
+ * @returns The page ID, or undefined if the URI is not a page resource
+ */
+export function getSubscribablePageId(uri: string): string | undefined {
+	return uri.match(PAGE_URI_PATTERN)?.[1];
+}
+
+/**
+ * Get the poller settings from ATLASSIAN_SUBSCRIPTION_POLL_SECONDS (default
+ * 60, at least 10) and ATLASSIAN_MAX_SUBSCRIPTIONS (default 50)
+ */
+export function getSubscriptionPollerSettings(): SubscriptionPollerSettings {
+	const seconds = Number(config.get('ATLASSIAN_SUBSCRIPTION_POLL_SECONDS'));
+	const maxSubscriptions = Number(config.get('ATLASSIAN_MAX_SUBSCRIPTIONS'));
+	return {
+		intervalMs:
+			Math.max(
+				MIN_POLL_INTERVAL_SECONDS,
+				Number.isFinite(seconds) && seconds > 0
+					? seconds
+					: DEFAULT_POLL_INTERVAL_SECONDS,
+			) * 1000,
+		maxSubscriptions:
+			Number.isInteger(maxSubscriptions) && maxSubscriptions > 0
+				? maxSubscriptions
+				: DEFAULT_MAX_SUBSCRIPTIONS,
+	};
+}
+
+/**
+ * Polls the version numbers of the pages a session subscribed to. The timer
+ * only runs while there are subscriptions.
+ */
+export class SubscriptionPoller {
+	// Last seen version number by subscribed URI
+	private readonly versions = new Map<string, number>();
+	private timer: NodeJS.Timeout | undefined;
+	private polling = false;
+
+	/**
+	 * Create a poller
+	 * @param callbacks Callbacks to Confluence and the MCP session
+	 * @param settings Poller settings
+	 */
+	constructor(
+		private readonly callbacks: SubscriptionPollerCallbacks,
+		private readonly settings: SubscriptionPollerSettings = getSubscriptionPollerSettings(),
+	) {}
+
+	/**
+	 * Number of subscriptions
+	 */
+	get size(): number {
+		return this.versions.size;
+	}
+
+	/**
+	 * Subscribe to a page resource. The page is read once to record its
+	 * current version, which also checks that it exists.
+	 * @param uri - The resource URI, e.g. confluence://page/123
+	 * @throws Error if the URI is not a page resource, the subscription cap
+	 * is reached or the page cannot be read
+	 */
+	async subscribe(uri: string): Promise<void> {
+		const pageId = getSubscribablePageId(uri);
+		if (!pageId) {
+			throw new Error(
+				`Cannot subscribe to ${uri}. Only pages (confluence://page/{pageId}) can be subscribed to.`,
+			);
+		}
+		if (this.versions.has(uri)) {
+			return;
+		}
+		if (this.versions.size >= this.settings.maxSubscriptions) {
+			throw new Error(
+				`Subscription limit reached: a session can subscribe to at most ${this.settings.maxSubscriptions} resources. Unsubscribe from others first.`,
+			);
+		}
+
+		const version = await this.callbacks.getVersion(pageId);
+		this.versions.set(uri, version);
+		subscriptionLogger.debug(`Subscribed to ${uri} at version ${version}`);
+
+		if (!this.timer) {
+			this.timer = setInterval(() => {
+				void this.poll();
+			}, this.settings.intervalMs);
+			// Subscriptions alone should not keep the process alive
+			this.timer.unref();
+		}
+	}
+
+	/**
+	 * Unsubscribe from a resource; unknown URIs are ignored
+	 * @param uri - The resource URI
+	 */
+	unsubscribe(uri: string): void {
+		if (this.versions.delete(uri)) {
+			subscriptionLogger.debug(`Unsubscribed from ${uri}`);
+		}
+		if (this.versions.size === 0) {
+			this.stop();
+		}
+	}
+
+	/**
+	 * Check every subscribed page once and report those whose version
+	 * changed. Pages that cannot be read are checked again on the next poll.
+	 * A poll that starts while the previous one is running is skipped.
+	 */
+	async poll(): Promise<void> {
+		if (this.polling) {
+			return;
+		}
+		this.polling = true;
+		const runPoll =
+			this.callbacks.runPoll ?? (<T>(poll: () => Promise<T>) => poll());
+
+		try {
+			await runPoll(async () => {
+				for (const [uri, lastVersion] of [...this.versions]) {
+					try {
+						const pageId = getSubscribablePageId(uri) as string;
+						const version = await this.callbacks.getVersion(pageId);
+						// The page may have been unsubscribed while it was read
+						if (
+							version === lastVersion ||
+							!this.versions.has(uri)
+						) {
+							continue;
+						}
+						this.versions.set(uri, version);
+						subscriptionLogger.debug(
+							`${uri} changed from version ${lastVersion} to ${version}`,
+						);
+						await this.callbacks.onUpdated(uri);
+					} catch (error) {
+						subscriptionLogger.warn(
+							`Failed to check ${uri}`,
+							error,
+						);
+					}
+				}
+			});
+		} finally {
+			this.polling = false;
+		}
+	}
+
+	/**
+	 * Stop polling and drop all subscriptions
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+		this.versions.clear();
+	}
+}
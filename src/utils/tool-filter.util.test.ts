@@ -0,0 +1,49 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+	isToolEnabled,
+	matchesToolPattern,
+	registerTool,
+} from './tool-filter.util.js';
+
+describe('tool-filter.util', () => {
+	afterEach(() => {
+		delete process.env.CONFLUENCE_ENABLED_TOOLS;
+		delete process.env.CONFLUENCE_DISABLED_TOOLS;
+	});
+
+	it('matches tool names against glob patterns', () => {
+		expect(matchesToolPattern('conf_get_page', 'conf_get_*')).toBe(true);
+		expect(matchesToolPattern('conf_get_page', 'conf_get_pag?')).toBe(true);
+		expect(matchesToolPattern('conf_get_page_tree', 'conf_get_page')).toBe(
+			false,
+		);
+		expect(matchesToolPattern('conf_ls_pages', 'conf.ls*')).toBe(false);
+	});
+
+	it('enables all tools without configuration', () => {
+		expect(isToolEnabled('conf_create_page')).toBe(true);
+	});
+
+	it('applies the enabled list, then the disabled list', () => {
+		process.env.CONFLUENCE_ENABLED_TOOLS = 'conf_get_*, conf_ls_*';
+		process.env.CONFLUENCE_DISABLED_TOOLS = 'conf_get_attachment';
+
+		expect(isToolEnabled('conf_get_page')).toBe(true);
+		expect(isToolEnabled('conf_ls_spaces')).toBe(true);
+		expect(isToolEnabled('conf_get_attachment')).toBe(false);
+		expect(isToolEnabled('conf_create_page')).toBe(false);
+	});
+
+	it('registers only enabled tools', () => {
+		process.env.CONFLUENCE_DISABLED_TOOLS = 'conf_create_*';
+		const server = new McpServer({ name: 'test', version: '1.0.0' });
+		const handler = async () => ({ content: [] });
+
+		expect(
+			registerTool(server, 'conf_create_page', {}, handler),
+		).toBeUndefined();
+		expect(
+			registerTool(server, 'conf_get_page', {}, handler),
+		).toBeDefined();
+	});
+});
@@ -0,0 +1,75 @@
+/**
+ * Selection of the MCP tools the server registers.
+ * CONFLUENCE_ENABLED_TOOLS and CONFLUENCE_DISABLED_TOOLS hold comma-separated
+ * tool names, where `*` matches any characters and `?` a single one. A tool is
+ * registered when it matches the enabled list (or that list is empty) and does
+ * not match the disabled list.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+
+const filterLogger = Logger.forContext('utils/tool-filter.util.ts');
+
+/**
+ * Split a comma-separated config value into patterns
+ */
+function getPatterns(key: string): string[] {
+	return (config.get(key) || '')
+		.split(',')
+		.map((pattern) => pattern.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Determine whether a tool name matches a glob pattern
+ * @param name - The tool name, e.g. conf_get_page
+ * @param pattern - The pattern, e.g. conf_get_* or conf_ls_????s
+ */
+export function matchesToolPattern(name: string, pattern: string): boolean {
+	const regex = pattern
+		.split('')
+		.map((char) =>
+			char === '*'
+				? '.*'
+				: char === '?'
+					? '.'
+					: char.replace(/[.+^${}()|[\]\\]/g, '\\$&'),
+		)
+		.join('');
+	return new RegExp(`^${regex}$`, 'i').test(name);
+}
+
+/**
+ * Determine whether a tool is enabled by CONFLUENCE_ENABLED_TOOLS and
+ * CONFLUENCE_DISABLED_TOOLS
+ * @param name - The tool name
+ */
+export function isToolEnabled(name: string): boolean {
+	const enabled = getPatterns('CONFLUENCE_ENABLED_TOOLS');
+	const disabled = getPatterns('CONFLUENCE_DISABLED_TOOLS');
+	return (
+		(enabled.length === 0 ||
+			enabled.some((pattern) => matchesToolPattern(name, pattern))) &&
+		!disabled.some((pattern) => matchesToolPattern(name, pattern))
+	);
+}
+
+/**
+ * Register a tool with the MCP server unless it is disabled
+ * @param server - The MCP server instance
+ * @param args - The arguments of McpServer.registerTool
+ * @returns The registered tool, or undefined if the tool is disabled
+ */
+export function registerTool(
+	server: McpServer,
+	...args: Parameters<McpServer['registerTool']>
+): ReturnType<McpServer['registerTool']> | undefined {
+	const [name] = args;
+	if (!isToolEnabled(name)) {
+		filterLogger.debug(`Skipping disabled tool ${name}`);
+		return undefined;
+	}
+	return server.registerTool(...args);
+}
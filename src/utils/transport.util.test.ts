@@ -2,9 +2,12 @@ import {
 	getAtlassianCredentials,
 	fetchAtlassian,
 	hasAtlassianAuthCredentials,
+	isServerDeployment,
+	getAtlassianBaseUrl,
 } from './transport.util.js';
 import { config } from './config.util.js';
 import { McpError } from './error.util.js';
+import { MemoryCacheStore, setCacheStore } from './cache.util.js';
 
 /**
  * SpacesResponse type definition (moved from deleted vendor.atlassian.spaces.types.js)
@@ -38,7 +41,9 @@ describe('Transport Utility', () => {
 				expect(credentials).toHaveProperty('siteName');
 				expect(credentials.siteName).toBeTruthy();
 
-				if (hasAtlassianAuthCredentials(credentials)) {
+				if (credentials.personalAccessToken) {
+					expect(hasAtlassianAuthCredentials(credentials)).toBe(true);
+				} else if (hasAtlassianAuthCredentials(credentials)) {
 					expect(credentials.userEmail).toBeTruthy();
 					expect(credentials.apiToken).toBeTruthy();
 				} else {
@@ -56,9 +61,11 @@ describe('Transport Utility', () => {
 			const originalSiteName = process.env.ATLASSIAN_SITE_NAME;
 			const originalUserEmail = process.env.ATLASSIAN_USER_EMAIL;
 			const originalApiToken = process.env.ATLASSIAN_API_TOKEN;
+			const originalBaseUrl = process.env.ATLASSIAN_BASE_URL;
 
 			// Temporarily remove credentials from environment
 			delete process.env.ATLASSIAN_SITE_NAME;
+			delete process.env.ATLASSIAN_BASE_URL;
 			delete process.env.ATLASSIAN_USER_EMAIL;
 			delete process.env.ATLASSIAN_API_TOKEN;
 
@@ -75,16 +82,338 @@ describe('Transport Utility', () => {
 			process.env.ATLASSIAN_SITE_NAME = originalSiteName;
 			process.env.ATLASSIAN_USER_EMAIL = originalUserEmail;
 			process.env.ATLASSIAN_API_TOKEN = originalApiToken;
+			if (originalBaseUrl) {
+				process.env.ATLASSIAN_BASE_URL = originalBaseUrl;
+			}
 
 			// Restore config
 			config.load();
 		});
 	});
 
+	describe('Server / Data Center support', () => {
+		it('should use the site host for Cloud', () => {
+			const credentials = { siteName: 'acme' };
+
+			expect(isServerDeployment(credentials)).toBe(false);
+			expect(getAtlassianBaseUrl(credentials)).toBe(
+				'https://acme.atlassian.net',
+			);
+		});
+
+		it('should strip /wiki from Cloud base URLs', () => {
+			const credentials = {
+				siteName: 'acme.atlassian.net',
+				baseUrl: 'https://acme.atlassian.net/wiki',
+			};
+
+			expect(isServerDeployment(credentials)).toBe(false);
+			expect(getAtlassianBaseUrl(credentials)).toBe(
+				'https://acme.atlassian.net',
+			);
+		});
+
+		it('should keep the context path for Server / Data Center', () => {
+			const credentials = {
+				siteName: 'confluence.example.com',
+				baseUrl: 'https://confluence.example.com/confluence',
+				personalAccessToken: 'token',
+			};
+
+			expect(isServerDeployment(credentials)).toBe(true);
+			expect(hasAtlassianAuthCredentials(credentials)).toBe(true);
+			expect(getAtlassianBaseUrl(credentials)).toBe(
+				'https://confluence.example.com/confluence',
+			);
+		});
+	});
+
 	// Helper function to skip tests when credentials are missing
 	const skipIfNoCredentials = () =>
 		!hasAtlassianAuthCredentials(getAtlassianCredentials());
 
+	describe('retries', () => {
+		const originalFetch = global.fetch;
+		const originalEnv = { ...process.env };
+		const credentials = { siteName: 'example' };
+
+		beforeEach(() => {
+			process.env.ATLASSIAN_RETRY_BASE_DELAY_MS = '0';
+			setCacheStore(new MemoryCacheStore());
+		});
+
+		afterEach(() => {
+			global.fetch = originalFetch;
+			process.env = { ...originalEnv };
+		});
+
+		it('should retry GET requests on 429 and 5xx', async () => {
+			const fetchMock = jest
+				.fn()
+				.mockResolvedValueOnce(
+					new Response('{}', {
+						status: 429,
+						headers: { 'Retry-After': '0' },
+					}),
+				)
+				.mockResolvedValueOnce(new Response('{}', { status: 503 }))
+				.mockResolvedValueOnce(
+					new Response('{"ok":true}', { status: 200 }),
+				);
+			global.fetch = fetchMock;
+
+			await expect(
+				fetchAtlassian(credentials, '/wiki/api/v2/spaces'),
+			).resolves.toEqual({ ok: true });
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+
+		it('should not retry POST requests by default', async () => {
+			const fetchMock = jest
+				.fn()
+				.mockResolvedValue(new Response('{}', { status: 503 }));
+			global.fetch = fetchMock;
+
+			await expect(
+				fetchAtlassian(credentials, '/wiki/api/v2/pages', {
+					method: 'POST',
+					body: {},
+				}),
+			).rejects.toThrow('Confluence service error');
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should report an exhausted retry budget', async () => {
+			process.env.ATLASSIAN_MAX_RETRIES = '2';
+			const fetchMock = jest
+				.fn()
+				.mockImplementation(
+					async () => new Response('{}', { status: 429 }),
+				);
+			global.fetch = fetchMock;
+
+			await expect(
+				fetchAtlassian(credentials, '/wiki/api/v2/spaces'),
+			).rejects.toThrow('Retry budget exhausted after 2 retries');
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+	});
+
+	describe('response cache', () => {
+		const originalFetch = global.fetch;
+		const credentials = { siteName: 'example' };
+
+		beforeEach(() => {
+			setCacheStore(new MemoryCacheStore());
+		});
+
+		afterEach(() => {
+			global.fetch = originalFetch;
+			setCacheStore(undefined);
+		});
+
+		it('should serve repeated GET requests from the cache', async () => {
+			const fetchMock = jest
+				.fn()
+				.mockImplementation(
+					async () => new Response('{"id":"1"}', { status: 200 }),
+				);
+			global.fetch = fetchMock;
+
+			await fetchAtlassian(credentials, '/wiki/api/v2/spaces');
+			await expect(
+				fetchAtlassian(credentials, '/wiki/api/v2/spaces'),
+			).resolves.toEqual({ id: '1' });
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should revalidate expired entries with their ETag', async () => {
+			process.env.ATLASSIAN_CACHE_TTL_SPACES = '0.001';
+			const fetchMock = jest
+				.fn()
+				.mockResolvedValueOnce(
+					new Response('{"id":"1"}', {
+						status: 200,
+						headers: { ETag: '"v1"' },
+					}),
+				)
+				.mockResolvedValueOnce(new Response(null, { status: 304 }));
+			global.fetch = fetchMock;
+
+			try {
+				await fetchAtlassian(credentials, '/wiki/api/v2/spaces');
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				await expect(
+					fetchAtlassian(credentials, '/wiki/api/v2/spaces'),
+				).resolves.toEqual({ id: '1' });
+				expect(fetchMock.mock.calls[1][1].headers).toMatchObject({
+					'If-None-Match': '"v1"',
+				});
+			} finally {
+				delete process.env.ATLASSIAN_CACHE_TTL_SPACES;
+			}
+		});
+
+		it('should revalidate expired pages by their version number', async () => {
+			process.env.ATLASSIAN_CACHE_TTL_PAGES = '0.001';
+			const fetchMock = jest
+				.fn()
+				.mockResolvedValueOnce(
+					new Response(
+						'{"id":"123","version":{"number":3},"body":{}}',
+						{ status: 200 },
+					),
+				)
+				.mockResolvedValueOnce(
+					new Response('{"id":"123","version":{"number":3}}', {
+						status: 200,
+					}),
+				);
+			global.fetch = fetchMock;
+			const path = '/wiki/api/v2/pages/123?body-format=storage';
+
+			try {
+				await fetchAtlassian(credentials, path);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				await expect(
+					fetchAtlassian(credentials, path),
+				).resolves.toEqual({
+					id: '123',
+					version: { number: 3 },
+					body: {},
+				});
+				expect(fetchMock.mock.calls[1][0]).toBe(
+					'https://example.atlassian.net/wiki/api/v2/pages/123',
+				);
+			} finally {
+				delete process.env.ATLASSIAN_CACHE_TTL_PAGES;
+			}
+		});
+
+		it('should fetch expired pages with labels again even if their version is unchanged', async () => {
+			process.env.ATLASSIAN_CACHE_TTL_PAGES = '0.001';
+			const fetchMock = jest
+				.fn()
+				.mockResolvedValueOnce(
+					new Response(
+						'{"id":"123","version":{"number":3},"labels":["draft"]}',
+						{ status: 200 },
+					),
+				)
+				.mockResolvedValueOnce(
+					new Response(
+						'{"id":"123","version":{"number":3},"labels":["final"]}',
+						{ status: 200 },
+					),
+				);
+			global.fetch = fetchMock;
+			const path = '/wiki/api/v2/pages/123?include-labels=true';
+
+			try {
+				await fetchAtlassian(credentials, path);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				await expect(
+					fetchAtlassian(credentials, path),
+				).resolves.toEqual({
+					id: '123',
+					version: { number: 3 },
+					labels: ['final'],
+				});
+				expect(fetchMock).toHaveBeenCalledTimes(2);
+				expect(fetchMock.mock.calls[1][0]).toBe(
+					`https://example.atlassian.net${path}`,
+				);
+			} finally {
+				delete process.env.ATLASSIAN_CACHE_TTL_PAGES;
+			}
+		});
+
+		it('should drop affected entries after a write', async () => {
+			const fetchMock = jest.fn().mockImplementation(
+				async () =>
+					new Response('{"id":"123","version":{"number":1}}', {
+						status: 200,
+					}),
+			);
+			global.fetch = fetchMock;
+
+			await fetchAtlassian(credentials, '/wiki/api/v2/pages/123');
+			await fetchAtlassian(credentials, '/wiki/api/v2/pages/123', {
+				method: 'PUT',
+				body: {},
+			});
+			await fetchAtlassian(credentials, '/wiki/api/v2/pages/123');
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+	});
+
+	describe('downloads', () => {
+		const originalFetch = global.fetch;
+		const credentials = { siteName: 'example' };
+
+		afterEach(() => {
+			global.fetch = originalFetch;
+		});
+
+		it('should stop reading after maxBytes', async () => {
+			global.fetch = jest
+				.fn()
+				.mockResolvedValue(
+					new Response('a'.repeat(100_000), { status: 200 }),
+				);
+
+			const buffer = await fetchAtlassian<ArrayBuffer>(
+				credentials,
+				'/wiki/download/attachments/1/log.txt',
+				{ responseType: 'arrayBuffer', maxBytes: 10 },
+			);
+			expect(buffer.byteLength).toBe(10);
+		});
+
+		it('should hold the request slot until the body has been read', async () => {
+			process.env.ATLASSIAN_MAX_CONCURRENT_REQUESTS = '1';
+			let finishBody = () => {};
+			const fetchMock = jest
+				.fn()
+				.mockResolvedValueOnce(
+					new Response(
+						new ReadableStream({
+							start(controller) {
+								controller.enqueue(new Uint8Array([1]));
+								finishBody = () => controller.close();
+							},
+						}),
+						{ status: 200 },
+					),
+				)
+				.mockResolvedValueOnce(new Response('2', { status: 200 }));
+			global.fetch = fetchMock;
+			const path = '/wiki/download/attachments/1/file.bin';
+			const options = { responseType: 'arrayBuffer' } as const;
+
+			try {
+				const first = fetchAtlassian<ArrayBuffer>(
+					{ siteName: 'slot-test' },
+					path,
+					options,
+				);
+				const second = fetchAtlassian<ArrayBuffer>(
+					{ siteName: 'slot-test' },
+					path,
+					options,
+				);
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				expect(fetchMock).toHaveBeenCalledTimes(1);
+
+				finishBody();
+				await Promise.all([first, second]);
+				expect(fetchMock).toHaveBeenCalledTimes(2);
+			} finally {
+				delete process.env.ATLASSIAN_MAX_CONCURRENT_REQUESTS;
+			}
+		});
+	});
+
 	// Always describe the suite, but skip individual tests if needed
 	describe('fetchAtlassian with credentials', () => {
 		it('should handle API requests appropriately', async () => {
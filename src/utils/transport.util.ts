@@ -1,7 +1,34 @@
 /* eslint-disable no-dupe-else-if */
 
 import { Logger } from './logger.util.js';
-import { config } from './config.util.js';
+import { config, DEFAULT_SITE_PROFILE } from './config.util.js';
+import { getConfiguredBaseUrl, isAtlassianCloudUrl } from './url.util.js';
+import {
+	OAUTH_API_BASE_URL,
+	OAuthTokens,
+	getOAuthClientConfig,
+	isOAuthTokenExpired,
+	loadOAuthTokens,
+	refreshOAuthTokens,
+} from './oauth.util.js';
+import { getRequestContext } from './request-context.util.js';
+import {
+	RETRY_EXHAUSTED_MESSAGE_PREFIX,
+	getRetryDelayMs,
+	getRetryPolicy,
+	isRetryableStatus,
+	sleep,
+} from './retry.util.js';
+import { RequestLimiter, getRequestLimiter } from './rate-limiter.util.js';
+import {
+	CacheEntry,
+	getCacheKey,
+	getCacheStore,
+	getCacheTtlMs,
+	getResponseVersion,
+	getVersionCheckPath,
+	invalidateCachedResponses,
+} from './cache.util.js';
 import {
 	createAuthInvalidError,
 	createApiError,
@@ -14,16 +41,33 @@ import {
  * Interface for Atlassian API credentials
  */
 export interface AtlassianCredentials {
+	/**
+	 * Cloud site name (e.g. "example" for example.atlassian.net), or the host
+	 * name of a Confluence Server / Data Center instance
+	 */
 	siteName: string;
+	/**
+	 * Explicit base URL, including the context path for Server / Data Center
+	 */
+	baseUrl?: string;
 	userEmail?: string;
 	apiToken?: string;
+	/**
+	 * Personal Access Token for Server / Data Center, sent as a bearer token
+	 */
+	personalAccessToken?: string;
+	/**
+	 * OAuth 2.0 (3LO) tokens from "auth login"; requests then go through
+	 * api.atlassian.com for the authorized site
+	 */
+	oauthTokens?: OAuthTokens;
 }
 
 /**
- * Reusable error message when the Confluence site name is not configured
+ * Reusable error message when the Confluence site is not configured
  */
 export const ATLASSIAN_SITE_REQUIRED_MESSAGE =
-	'Confluence site name is required. Set ATLASSIAN_SITE_NAME (for example "example" for example.atlassian.net).';
+	'Confluence site is required. Set ATLASSIAN_SITE_NAME (for example "example" for example.atlassian.net), or ATLASSIAN_BASE_URL for Confluence Server / Data Center.';
 
 let anonymousAccessLogged = false;
 
@@ -33,28 +77,104 @@ let anonymousAccessLogged = false;
 export interface RequestOptions {
 	method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
 	headers?: Record<string, string>;
+	/**
+	 * Request body. Plain values are sent as JSON, FormData is sent as multipart/form-data.
+	 */
 	body?: unknown;
+	/**
+	 * How to read the response body. Defaults to 'json'; use 'arrayBuffer' for file downloads.
+	 */
+	responseType?: 'json' | 'arrayBuffer';
+	/**
+	 * Stop reading an 'arrayBuffer' response after this many bytes, e.g. when
+	 * only the start of a large file is shown.
+	 */
+	maxBytes?: number;
+	/**
+	 * Retry on rate limiting, server errors and network errors. Defaults to true
+	 * for GET requests only, since other methods may not be safe to repeat.
+	 */
+	retry?: boolean;
+	/**
+	 * Serve the response from the response cache when possible. Defaults to
+	 * true; only GET requests with JSON responses are cached.
+	 */
+	cache?: boolean;
 }
 
 // Create a logger for the utility
 const utilLogger = Logger.forContext('utils/transport.util.ts');
 
 /**
- * Get Atlassian credentials from environment variables
+ * Get Atlassian credentials for the current request, falling back to the
+ * stored OAuth tokens and environment variables
  * @returns AtlassianCredentials object or null if credentials are missing
  */
 export function getAtlassianCredentials(): AtlassianCredentials | null {
-	const siteName = config.get('ATLASSIAN_SITE_NAME');
+	const baseUrl = getConfiguredBaseUrl();
+	const configuredSiteName = config.get('ATLASSIAN_SITE_NAME');
+	const siteName =
+		configuredSiteName || (baseUrl ? getHostName(baseUrl) : undefined);
+
+	// Credentials forwarded by an HTTP client apply to its own requests only
+	const requestCredentials = getRequestContext()?.credentials;
+	if (requestCredentials) {
+		if (config.getSite() === DEFAULT_SITE_PROFILE) {
+			return requestCredentials;
+		}
+		// API tokens work on every site of the account; other tokens are bound to one site
+		if (
+			requestCredentials.userEmail &&
+			requestCredentials.apiToken &&
+			siteName
+		) {
+			return {
+				siteName,
+				...(baseUrl && { baseUrl }),
+				userEmail: requestCredentials.userEmail,
+				apiToken: requestCredentials.apiToken,
+			};
+		}
+		throw createAuthInvalidError(
+			`The credentials sent with this request cannot be used for site "${config.getSite()}". Send an email and API token (basic auth) to work with other sites.`,
+		);
+	}
+
+	// Tokens from "auth login" take precedence while the OAuth app is configured,
+	// as long as they were issued for the selected site
+	const oauthTokens = getOAuthClientConfig() ? loadOAuthTokens() : null;
+	const oauthSiteName = oauthTokens
+		? getHostName(oauthTokens.siteUrl)?.replace(/\.atlassian\.net$/i, '')
+		: undefined;
+	if (
+		oauthTokens &&
+		(configuredSiteName ? configuredSiteName === oauthSiteName : !baseUrl)
+	) {
+		return {
+			siteName: oauthSiteName || oauthTokens.cloudId,
+			oauthTokens,
+		};
+	}
+
 	const userEmail = config.get('ATLASSIAN_USER_EMAIL');
 	const apiToken = config.get('ATLASSIAN_API_TOKEN');
+	const personalAccessToken = config.get('ATLASSIAN_PERSONAL_ACCESS_TOKEN');
 
 	if (!siteName) {
 		utilLogger.warn(
-			'Missing Atlassian site name. Please set ATLASSIAN_SITE_NAME environment variable.',
+			'Missing Atlassian site. Please set ATLASSIAN_SITE_NAME or ATLASSIAN_BASE_URL environment variable.',
 		);
 		return null;
 	}
 
+	if (personalAccessToken) {
+		return {
+			siteName,
+			...(baseUrl && { baseUrl }),
+			personalAccessToken,
+		};
+	}
+
 	if (!userEmail || !apiToken) {
 		if (!anonymousAccessLogged) {
 			utilLogger.info(
@@ -64,26 +184,174 @@ export function getAtlassianCredentials(): AtlassianCredentials | null {
 		}
 		return {
 			siteName,
+			...(baseUrl && { baseUrl }),
 		};
 	}
 
 	return {
 		siteName,
+		...(baseUrl && { baseUrl }),
 		userEmail,
 		apiToken,
 	};
 }
 
 /**
- * Determine if full authentication credentials are available
+ * Get the host name of a URL, or undefined if the URL is invalid
+ */
+function getHostName(url: string): string | undefined {
+	try {
+		return new URL(url).hostname || undefined;
+	} catch {
+		utilLogger.warn(`Ignoring invalid ATLASSIAN_BASE_URL: ${url}`);
+		return undefined;
+	}
+}
+
+/**
+ * Determine if authentication credentials (OAuth, API token or Personal Access Token) are available
  */
 export function hasAtlassianAuthCredentials(
 	credentials: AtlassianCredentials | null,
-): credentials is AtlassianCredentials & {
-	userEmail: string;
-	apiToken: string;
-} {
-	return Boolean(credentials?.userEmail && credentials?.apiToken);
+): boolean {
+	return Boolean(
+		credentials?.oauthTokens ||
+			credentials?.personalAccessToken ||
+			(credentials?.userEmail && credentials?.apiToken),
+	);
+}
+
+/**
+ * Determine if the credentials target Confluence Server / Data Center rather than Cloud
+ */
+export function isServerDeployment(credentials: AtlassianCredentials): boolean {
+	return Boolean(
+		credentials.baseUrl && !isAtlassianCloudUrl(credentials.baseUrl),
+	);
+}
+
+/**
+ * Get the base URL that API paths are appended to. On Server / Data Center this
+ * is the configured base URL including the context path; on Cloud it is the site host,
+ * or the api.atlassian.com gateway for the authorized site when using OAuth.
+ */
+export function getAtlassianBaseUrl(credentials: AtlassianCredentials): string {
+	if (credentials.oauthTokens) {
+		return `${OAUTH_API_BASE_URL}/${credentials.oauthTokens.cloudId}`;
+	}
+	if (credentials.baseUrl) {
+		return isServerDeployment(credentials)
+			? credentials.baseUrl
+			: credentials.baseUrl.replace(/\/wiki$/, '');
+	}
+	return `https://${credentials.siteName}.atlassian.net`;
+}
+
+/**
+ * Send a request, retrying rate-limited, failed and unreachable requests with
+ * backoff according to the retry policy
+ * @param url Request URL
+ * @param requestOptions Options passed to fetch
+ * @param canRetry Whether the request may be repeated
+ * @param limiter Limiter of the site; every attempt waits for its turn
+ * @returns The last response, the number of retries made, and the release of
+ * the response's limiter slot, which the caller calls once it has read or
+ * cancelled the body
+ */
+async function fetchWithRetry(
+	url: string,
+	requestOptions: RequestInit,
+	canRetry: boolean,
+	limiter: RequestLimiter,
+): Promise<{ response: Response; retries: number; release: () => void }> {
+	const retryLogger = Logger.forContext(
+		'utils/transport.util.ts',
+		'fetchWithRetry',
+	);
+	const policy = getRetryPolicy();
+	const maxRetries = canRetry ? policy.maxRetries : 0;
+
+	for (let retries = 0; ; retries++) {
+		let response: Response;
+		const release = await limiter.acquire();
+		try {
+			response = await fetch(url, requestOptions);
+		} catch (error) {
+			release();
+			// Network errors surface as TypeErrors from fetch
+			if (!(error instanceof TypeError) || retries >= maxRetries) {
+				throw error;
+			}
+			const delay =
+				getRetryDelayMs(undefined, retries, policy) ??
+				policy.baseDelayMs;
+			retryLogger.warn(
+				`Network error calling ${url} (${error.message}); retry ${retries + 1}/${maxRetries} in ${delay}ms`,
+			);
+			await sleep(delay);
+			continue;
+		}
+
+		if (response.headers.get('x-ratelimit-nearlimit') === 'true') {
+			retryLogger.warn(
+				'Approaching the Confluence API rate limit; consider slowing down requests',
+			);
+		}
+
+		if (!isRetryableStatus(response.status) || retries >= maxRetries) {
+			return { response, retries, release };
+		}
+
+		const delay = getRetryDelayMs(response.headers, retries, policy);
+		if (delay === undefined) {
+			retryLogger.warn(
+				`${response.status} from ${url}: the server asks to wait longer than ${policy.maxDelayMs}ms, not retrying`,
+			);
+			return { response, retries, release };
+		}
+
+		retryLogger.warn(
+			`${response.status} ${response.statusText} from ${url}; retry ${retries + 1}/${maxRetries} in ${delay}ms`,
+		);
+		// Release the connection and the slot before waiting
+		await response.body?.cancel();
+		release();
+		await sleep(delay);
+	}
+}
+
+/**
+ * Read a response body up to a number of bytes, cancelling the rest
+ * @param response Response to read
+ * @param maxBytes Number of bytes to read at most
+ * @returns The bytes read
+ */
+async function readBodyPrefix(
+	response: Response,
+	maxBytes: number,
+): Promise<ArrayBuffer> {
+	const reader = response.body?.getReader();
+	if (!reader) {
+		return new ArrayBuffer(0);
+	}
+
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+	while (length < maxBytes) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		chunks.push(value);
+		length += value.byteLength;
+	}
+	await reader.cancel();
+
+	const bytes = Buffer.concat(chunks).subarray(0, maxBytes);
+	return bytes.buffer.slice(
+		bytes.byteOffset,
+		bytes.byteOffset + bytes.byteLength,
+	);
 }
 
 /**
@@ -102,18 +370,35 @@ export async function fetchAtlassian<T>(
 		'utils/transport.util.ts',
 		'fetchAtlassian',
 	);
-	const { siteName, userEmail, apiToken } = credentials;
+	const { userEmail, apiToken, personalAccessToken } = credentials;
+
+	// Refresh an expired OAuth access token before using it
+	if (
+		credentials.oauthTokens &&
+		isOAuthTokenExpired(credentials.oauthTokens)
+	) {
+		credentials.oauthTokens = await refreshOAuthTokens(
+			credentials.oauthTokens,
+		);
+	}
 
 	// Ensure path starts with a slash
-	const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+	let normalizedPath = path.startsWith('/') ? path : `/${path}`;
+
+	// Server / Data Center serves the REST API under its context path instead of /wiki
+	if (isServerDeployment(credentials)) {
+		normalizedPath = normalizedPath.replace(/^\/wiki(?=\/|$)/, '');
+	}
 
 	// Construct the full URL
-	const baseUrl = `https://${siteName}.atlassian.net`;
-	const url = `${baseUrl}${normalizedPath}`;
+	const url = `${getAtlassianBaseUrl(credentials)}${normalizedPath}`;
+
+	// Multipart bodies need fetch to set the Content-Type (with boundary) itself
+	const isFormData = options.body instanceof FormData;
 
 	// Set up authentication and headers
 	const headers: Record<string, string> = {
-		'Content-Type': 'application/json',
+		...(!isFormData && { 'Content-Type': 'application/json' }),
 		Accept: 'application/json',
 		...options.headers,
 	};
@@ -122,7 +407,11 @@ export async function fetchAtlassian<T>(
 		(header) => header.toLowerCase() === 'authorization',
 	);
 
-	if (userEmail && apiToken && !hasAuthHeader) {
+	if (credentials.oauthTokens && !hasAuthHeader) {
+		headers.Authorization = `Bearer ${credentials.oauthTokens.accessToken}`;
+	} else if (personalAccessToken && !hasAuthHeader) {
+		headers.Authorization = `Bearer ${personalAccessToken}`;
+	} else if (userEmail && apiToken && !hasAuthHeader) {
 		headers.Authorization = `Basic ${Buffer.from(`${userEmail}:${apiToken}`).toString('base64')}`;
 	}
 
@@ -130,17 +419,105 @@ export async function fetchAtlassian<T>(
 	const requestOptions: RequestInit = {
 		method: options.method || 'GET',
 		headers,
-		body: options.body ? JSON.stringify(options.body) : undefined,
+		body: isFormData
+			? (options.body as FormData)
+			: options.body
+				? JSON.stringify(options.body)
+				: undefined,
 	};
 
+	const method = options.method || 'GET';
+	const baseUrl = getAtlassianBaseUrl(credentials);
+
+	// Serve fresh cached responses without calling the API
+	const cache =
+		method === 'GET' &&
+		options.responseType !== 'arrayBuffer' &&
+		options.cache !== false
+			? getCacheStore()
+			: null;
+	const ttlMs = cache ? getCacheTtlMs(normalizedPath) : 0;
+	const cacheKey =
+		cache && ttlMs > 0 ? getCacheKey(url, headers.Authorization) : '';
+	let cached = cacheKey ? cache?.get(cacheKey) : undefined;
+
+	const serveCached = (entry: CacheEntry, reason: string): T => {
+		fetchLogger.debug(`Serving ${url} from the cache (${reason})`);
+		return JSON.parse(entry.body) as T;
+	};
+
+	if (cached && cached.expiresAt > Date.now()) {
+		return serveCached(cached, 'fresh');
+	}
+
+	if (cached?.etag) {
+		headers['If-None-Match'] = cached.etag;
+	} else if (cached?.version !== undefined) {
+		// Pages and blog posts are unchanged while their version number is
+		const versionCheckPath = getVersionCheckPath(normalizedPath);
+		if (versionCheckPath) {
+			try {
+				const current = await fetchAtlassian<unknown>(
+					credentials,
+					versionCheckPath,
+					{ cache: false },
+				);
+				if (getResponseVersion(current) === cached.version) {
+					return serveCached(cached, 'version unchanged');
+				}
+			} catch (error) {
+				fetchLogger.debug(
+					`Version check for ${url} failed, fetching it again`,
+					error,
+				);
+			}
+			cached = undefined;
+		}
+	}
+
 	fetchLogger.debug(`Calling Atlassian API: ${url}`);
 
 	// Track API call performance
 	const startTime = performance.now();
 	let endTime: number;
 
+	const canRetry = options.retry ?? method === 'GET';
+	const limiter = getRequestLimiter(baseUrl);
+	// The limiter slot is held until the response body has been read
+	let release = () => {};
+
 	try {
-		const response = await fetch(url, requestOptions);
+		let response: Response;
+		let retries: number;
+		({ response, retries, release } = await fetchWithRetry(
+			url,
+			requestOptions,
+			canRetry,
+			limiter,
+		));
+
+		// The access token may have been revoked or rotated elsewhere; refresh it once
+		if (
+			response.status === 401 &&
+			credentials.oauthTokens?.refreshToken &&
+			!hasAuthHeader
+		) {
+			fetchLogger.info(
+				'OAuth access token was rejected, refreshing it and retrying',
+			);
+			await response.body?.cancel();
+			release();
+			credentials.oauthTokens = await refreshOAuthTokens(
+				credentials.oauthTokens,
+			);
+			headers.Authorization = `Bearer ${credentials.oauthTokens.accessToken}`;
+			({ response, retries, release } = await fetchWithRetry(
+				url,
+				requestOptions,
+				canRetry,
+				limiter,
+			));
+		}
 		endTime = performance.now();
 		const requestDuration = (endTime - startTime).toFixed(2);
 
@@ -169,6 +546,17 @@ export async function fetchAtlassian<T>(
 			},
 		);
 
+		// The cached response is still current
+		if (response.status === 304 && cached) {
+			const now = Date.now();
+			cache?.set(cacheKey, {
+				...cached,
+				storedAt: now,
+				expiresAt: now + ttlMs,
+			});
+			return serveCached(cached, 'not modified');
+		}
+
 		if (!response.ok) {
 			const errorText = await response.text();
 			fetchLogger.error(
@@ -261,6 +649,15 @@ export async function fetchAtlassian<T>(
 			// Use the parsed error object or raw text as originalError for context
 			const originalError = parsedError || errorText;
 
+			// Report that retrying did not help, rather than a single failure
+			if (retries > 0 && isRetryableStatus(response.status)) {
+				throw createApiError(
+					`${RETRY_EXHAUSTED_MESSAGE_PREFIX} after ${retries} ${retries === 1 ? 'retry' : 'retries'}. Confluence API: ${response.status} ${errorMessage}`,
+					response.status,
+					originalError,
+				);
+			}
+
 			// Classify HTTP errors based on status code
 			if (response.status === 401) {
 				throw createAuthInvalidError(
@@ -300,12 +697,42 @@ export async function fetchAtlassian<T>(
 			}
 		}
 
-		// Clone the response to log its content without consuming it
-		const clonedResponse = response.clone();
-		const responseJson = await clonedResponse.json();
+		if (method !== 'GET') {
+			invalidateCachedResponses(baseUrl, normalizedPath);
+		}
+
+		// Some endpoints (e.g. DELETE) respond without a body
+		if (response.status === 204) {
+			fetchLogger.debug('Response has no content (204)');
+			return undefined as T;
+		}
+
+		if (options.responseType === 'arrayBuffer') {
+			const buffer =
+				options.maxBytes !== undefined
+					? await readBodyPrefix(response, options.maxBytes)
+					: await response.arrayBuffer();
+			fetchLogger.debug(`Response body: ${buffer.byteLength} bytes`);
+			return buffer as T;
+		}
+
+		const responseText = await response.text();
+		const responseJson = JSON.parse(responseText);
 		fetchLogger.debug(`Response body:`, responseJson);
 
-		return response.json() as Promise<T>;
+		if (cache && cacheKey) {
+			const now = Date.now();
+			cache.set(cacheKey, {
+				url,
+				body: responseText,
+				storedAt: now,
+				expiresAt: now + ttlMs,
+				etag: response.headers.get('etag') ?? undefined,
+				version: getResponseVersion(responseJson),
+			});
+		}
+
+		return responseJson as T;
 	} catch (error) {
 		endTime = performance.now();
 		const failedRequestDuration = (endTime - startTime).toFixed(2);
@@ -345,5 +772,7 @@ export async function fetchAtlassian<T>(
 			`Unexpected error while calling Confluence API: ${error instanceof Error ? error.message : String(error)}`,
 			error,
 		);
+	} finally {
+		release();
 	}
 }
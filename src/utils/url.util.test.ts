@@ -1,10 +1,12 @@
 import {
 	ensureAbsoluteConfluenceUrl,
 	resolveConfluenceBaseUrl,
+	isAtlassianCloudUrl,
 } from './url.util.js';
 
 describe('url.util', () => {
 	const originalSiteName = process.env.ATLASSIAN_SITE_NAME;
+	const originalBaseUrl = process.env.ATLASSIAN_BASE_URL;
 
 	afterEach(() => {
 		if (originalSiteName) {
@@ -12,6 +14,11 @@ describe('url.util', () => {
 		} else {
 			delete process.env.ATLASSIAN_SITE_NAME;
 		}
+		if (originalBaseUrl) {
+			process.env.ATLASSIAN_BASE_URL = originalBaseUrl;
+		} else {
+			delete process.env.ATLASSIAN_BASE_URL;
+		}
 	});
 
 	it('returns absolute URLs unchanged', () => {
@@ -72,4 +79,36 @@ describe('url.util', () => {
 
 		expect(base).toBe('https://acme.atlassian.net/wiki');
 	});
+
+	it('uses the Server / Data Center base URL including its context path', () => {
+		delete process.env.ATLASSIAN_SITE_NAME;
+		process.env.ATLASSIAN_BASE_URL =
+			'https://confluence.example.com/confluence/';
+
+		expect(resolveConfluenceBaseUrl()).toBe(
+			'https://confluence.example.com/confluence',
+		);
+		expect(ensureAbsoluteConfluenceUrl('/display/DEV/Home')).toBe(
+			'https://confluence.example.com/confluence/display/DEV/Home',
+		);
+	});
+
+	it('keeps the /wiki path for Cloud base URLs', () => {
+		delete process.env.ATLASSIAN_SITE_NAME;
+		process.env.ATLASSIAN_BASE_URL = 'https://acme.atlassian.net';
+
+		expect(resolveConfluenceBaseUrl()).toBe(
+			'https://acme.atlassian.net/wiki',
+		);
+	});
+
+	it('detects Cloud base URLs', () => {
+		expect(isAtlassianCloudUrl('https://acme.atlassian.net/wiki')).toBe(
+			true,
+		);
+		expect(isAtlassianCloudUrl('https://confluence.example.com')).toBe(
+			false,
+		);
+		expect(isAtlassianCloudUrl('not a url')).toBe(false);
+	});
 });
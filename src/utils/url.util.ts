@@ -2,7 +2,36 @@ import { config } from './config.util.js';
 
 const HTTP_REGEX = /^https?:\/\//i;
 
+/**
+ * Get the base URL configured through ATLASSIAN_BASE_URL, without trailing slashes.
+ * For Confluence Server / Data Center this includes the context path
+ * (e.g. "https://confluence.example.com/confluence").
+ */
+export function getConfiguredBaseUrl(): string | undefined {
+	const baseUrl = config.get('ATLASSIAN_BASE_URL')?.trim();
+	return baseUrl ? baseUrl.replace(/\/+$/, '') : undefined;
+}
+
+/**
+ * Determine whether a base URL points to Confluence Cloud (*.atlassian.net)
+ * rather than a Confluence Server / Data Center instance
+ */
+export function isAtlassianCloudUrl(baseUrl: string): boolean {
+	try {
+		return /\.atlassian\.net$/i.test(new URL(baseUrl).hostname);
+	} catch {
+		return false;
+	}
+}
+
 function getSiteHost(): string | undefined {
+	const configuredBaseUrl = getConfiguredBaseUrl();
+	if (configuredBaseUrl) {
+		return isAtlassianCloudUrl(configuredBaseUrl)
+			? configuredBaseUrl.replace(/\/wiki$/, '')
+			: configuredBaseUrl;
+	}
+
 	const siteName = config.get('ATLASSIAN_SITE_NAME');
 	if (!siteName) {
 		return undefined;
@@ -10,6 +39,23 @@ function getSiteHost(): string | undefined {
 	return `https://${siteName}.atlassian.net`;
 }
 
+/**
+ * Get the base URL of the Confluence web UI: the site host followed by /wiki on
+ * Cloud, or the configured base URL (including context path) on Server / Data Center
+ */
+function getWebBaseUrl(): string | undefined {
+	const siteHost = getSiteHost();
+	if (!siteHost) {
+		return undefined;
+	}
+
+	const configuredBaseUrl = getConfiguredBaseUrl();
+	if (configuredBaseUrl && !isAtlassianCloudUrl(configuredBaseUrl)) {
+		return siteHost;
+	}
+	return `${siteHost}/wiki`;
+}
+
 function normalizeBaseUrl(baseUrl?: string): string | undefined {
 	const trimmed = baseUrl?.trim();
 
@@ -31,11 +77,7 @@ function normalizeBaseUrl(baseUrl?: string): string | undefined {
 		return trimmed.replace(/\/+$/, '');
 	}
 
-	if (siteHost) {
-		return `${siteHost}/wiki`.replace(/\/+$/, '');
-	}
-
-	return undefined;
+	return getWebBaseUrl();
 }
 
 function joinBaseAndPath(base: string, path: string): string {
@@ -106,7 +148,7 @@ export function ensureAbsoluteConfluenceUrl(
 	}
 
 	if (siteHost) {
-		candidateBases.push(`${siteHost}/wiki`);
+		candidateBases.push(getWebBaseUrl());
 		candidateBases.push(siteHost);
 	}
 